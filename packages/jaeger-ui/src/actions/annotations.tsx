@@ -0,0 +1,39 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { createAction } from 'redux-actions';
+
+import { TraceAnnotation } from '../types/trace';
+import * as annotationsDb from '../utils/annotations-db';
+
+export const loadAnnotations = createAction(
+  '@ANNOTATIONS/LOAD',
+  (traceID: string) => annotationsDb.getAnnotations(traceID),
+  (traceID: string) => ({ traceID })
+);
+
+// The reducer adds and deletes annotations when the actions are pending, so
+// the notes are kept for the session when the browser storage is unavailable.
+
+export const addAnnotation = createAction(
+  '@ANNOTATIONS/ADD',
+  (annotation: TraceAnnotation) => annotationsDb.putAnnotations([annotation]),
+  (annotation: TraceAnnotation) => ({ annotation })
+);
+
+export const deleteAnnotation = createAction(
+  '@ANNOTATIONS/DELETE',
+  (annotation: TraceAnnotation) => annotationsDb.deleteAnnotation(annotation.id),
+  (annotation: TraceAnnotation) => ({ annotation })
+);
@@ -13,18 +13,58 @@
 // limitations under the License.
 
 import * as fileReaderActions from './file-reader-api';
+import { putAnnotations } from '../utils/annotations-db';
 import readJsonFile from '../utils/readJsonFile';
+import { processTraces } from '../utils/trace-pipeline';
 
+jest.mock('../utils/annotations-db');
 jest.mock('../utils/readJsonFile');
+jest.mock('../utils/trace-pipeline', () => ({
+  FILE_JOB_KEY_PREFIX: 'file:',
+  processTraces: jest.fn(),
+}));
 
 describe('actions/file-reader-api', () => {
+  const payload = { data: [] };
+  const annotations = [{ id: 'note-id', traceID: 'trace-id', author: '', text: 'note', createdAt: 1 }];
+
+  const arg = { file: { name: 'trace.json' } };
+
   beforeEach(() => {
     readJsonFile.mockReset();
+    readJsonFile.mockResolvedValue('file-text');
+    processTraces.mockReset();
+    processTraces.mockResolvedValue(payload);
+    putAnnotations.mockReset();
   });
 
   it('loadJsonTraces calls readJsonFile', () => {
-    const arg = 'example-arg';
     fileReaderActions.loadJsonTraces(arg);
     expect(readJsonFile.mock.calls).toEqual([[arg]]);
   });
+
+  it('loadJsonTraces processes the content of the file', async () => {
+    await expect(fileReaderActions.loadJsonTraces(arg).payload).resolves.toBe(payload);
+    expect(processTraces).toHaveBeenCalledWith('file:trace.json', { text: 'file-text' });
+  });
+
+  it('loadJsonTraces stores the annotations of the file', async () => {
+    const payloadWithAnnotations = { ...payload, annotations };
+    processTraces.mockResolvedValue(payloadWithAnnotations);
+    putAnnotations.mockResolvedValue(annotations);
+    await expect(fileReaderActions.loadJsonTraces(arg).payload).resolves.toBe(payloadWithAnnotations);
+    expect(putAnnotations).toHaveBeenCalledWith(annotations);
+  });
+
+  it('loadJsonTraces loads the traces when the annotations cannot be stored', async () => {
+    const payloadWithAnnotations = { ...payload, annotations };
+    processTraces.mockResolvedValue(payloadWithAnnotations);
+    putAnnotations.mockRejectedValue(new Error('IndexedDB is not available'));
+    await expect(fileReaderActions.loadJsonTraces(arg).payload).resolves.toBe(payloadWithAnnotations);
+  });
+
+  it('loadJsonTraces does not store files without annotations', async () => {
+    await expect(fileReaderActions.loadJsonTraces(arg).payload).resolves.toBe(payload);
+    expect(putAnnotations).not.toHaveBeenCalled();
+  });
 });
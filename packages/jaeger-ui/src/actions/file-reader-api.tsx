@@ -14,11 +14,30 @@
 
 import { createAction } from 'redux-actions';
 
+import { putAnnotations } from '../utils/annotations-db';
 import readJsonFile from '../utils/readJsonFile';
+import { FILE_JOB_KEY_PREFIX, processTraces } from '../utils/trace-pipeline';
+import { TProcessedTraces } from '../utils/trace-pipeline/run';
+
+// The traces are loaded even if their annotations cannot be stored, the
+// reducer of the annotations keeps them for the session.
+function storeAnnotations(payload: TProcessedTraces) {
+  const { annotations } = payload;
+  if (!annotations || !annotations.length) {
+    return payload;
+  }
+  return putAnnotations(annotations).then(
+    () => payload,
+    () => payload
+  );
+}
 
 // eslint-disable-next-line import/prefer-default-export
 export const loadJsonTraces = createAction(
   '@FILE_READER_API/LOAD_JSON',
-  fileList => readJsonFile(fileList),
+  (fileList: { file: File }) =>
+    readJsonFile(fileList)
+      .then(text => processTraces(`${FILE_JOB_KEY_PREFIX}${fileList.file.name}`, { text }))
+      .then(storeAnnotations),
   fileList => ({ fileList })
 );
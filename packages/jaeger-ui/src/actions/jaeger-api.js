@@ -14,6 +14,7 @@
 
 import { createAction } from 'redux-actions';
 import JaegerAPI from '../api/jaeger';
+import { getTraceJobKey, processTraces } from '../utils/trace-pipeline';
 
 const metricType = {
   latencies: 'latencies',
@@ -23,7 +24,7 @@ const metricType = {
 
 export const fetchTrace = createAction(
   '@JAEGER_API/FETCH_TRACE',
-  id => JaegerAPI.fetchTrace(id),
+  id => JaegerAPI.fetchTrace(id).then(payload => processTraces(getTraceJobKey(id), { payload })),
   id => ({ id })
 );
 
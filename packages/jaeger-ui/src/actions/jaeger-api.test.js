@@ -46,17 +46,22 @@ describe('actions/jaeger-api', () => {
   });
 
   it('@JAEGER_API/FETCH_TRACE should fetch the trace by id', () => {
-    mock.expects('fetchTrace').withExactArgs(id);
+    mock
+      .expects('fetchTrace')
+      .withExactArgs(id)
+      .returns(Promise.resolve({ data: [] }));
     jaegerApiActions.fetchTrace(id);
     expect(() => mock.verify()).not.toThrow();
   });
 
   it('@JAEGER_API/FETCH_TRACE should return the promise', () => {
+    mock.expects('fetchTrace').returns(Promise.resolve({ data: [] }));
     const { payload } = jaegerApiActions.fetchTrace(id);
     expect(isPromise(payload)).toBeTruthy();
   });
 
   it('@JAEGER_API/FETCH_TRACE should attach the id as meta', () => {
+    mock.expects('fetchTrace').returns(Promise.resolve({ data: [] }));
     const { meta } = jaegerApiActions.fetchTrace(id);
     expect(meta.id).toBe(id);
   });
@@ -27,10 +27,12 @@ describe('mapStateToProps()', () => {
   it('maps state to props', () => {
     const pathname = 'a-pathname';
     const search = 'a-search';
+    const timeZone = 'UTC';
     const state = {
       router: { location: { pathname, search } },
+      timeZone,
     };
-    expect(mapStateToProps(state)).toEqual({ pathname, search });
+    expect(mapStateToProps(state)).toEqual({ pathname, search, timeZone });
   });
 });
 
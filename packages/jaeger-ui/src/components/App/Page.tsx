@@ -31,6 +31,7 @@ type TProps = {
   embedded: EmbeddedState;
   pathname: string;
   search: string;
+  timeZone: string;
 };
 
 const { Header, Content } = Layout;
@@ -51,7 +52,7 @@ export class PageImpl extends React.Component<TProps> {
   }
 
   render() {
-    const { embedded } = this.props;
+    const { embedded, timeZone } = this.props;
     const contentCls = cx({ 'Page--content': true, 'Page--content--no-embedded': !embedded });
     return (
       <div>
@@ -62,7 +63,10 @@ export class PageImpl extends React.Component<TProps> {
               <TopNav />
             </Header>
           )}
-          <Content className={contentCls}>{this.props.children}</Content>
+          {/* the pages are rendered again with the absolute times in the new time zone */}
+          <Content key={timeZone} className={contentCls}>
+            {this.props.children}
+          </Content>
         </Layout>
       </div>
     );
@@ -71,9 +75,9 @@ export class PageImpl extends React.Component<TProps> {
 
 // export for tests
 export function mapStateToProps(state: ReduxState) {
-  const { embedded } = state;
+  const { embedded, timeZone } = state;
   const { pathname, search } = state.router.location;
-  return { embedded, pathname, search };
+  return { embedded, pathname, search, timeZone };
 }
 
 export default connect(mapStateToProps)(withRouteProps(PageImpl));
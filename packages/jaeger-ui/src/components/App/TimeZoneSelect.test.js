@@ -0,0 +1,42 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import { getOptions, mapStateToProps, TimeZoneSelectImpl as TimeZoneSelect } from './TimeZoneSelect';
+import { LOCAL_TIME_ZONE } from '../../utils/date';
+
+describe('<TimeZoneSelect>', () => {
+  it('sets the chosen time zone', () => {
+    const setTimeZone = jest.fn();
+    render(<TimeZoneSelect setTimeZone={setTimeZone} timeZone={LOCAL_TIME_ZONE} />);
+    const select = screen.getByTestId('time-zone-select');
+    expect(within(select).getByText(/^Local time, UTC/)).toBeInTheDocument();
+    fireEvent.change(within(select).getByRole('combobox'), { target: { value: 'Tokyo' } });
+    fireEvent.click(screen.getByTitle('UTC+09:00 (Asia/Tokyo)'));
+    expect(setTimeZone).toHaveBeenCalledWith('Asia/Tokyo', expect.anything());
+  });
+
+  it('offers the local time zone, UTC and the named time zones', () => {
+    const values = getOptions().map(({ value }) => value);
+    expect(values.slice(0, 2)).toEqual([LOCAL_TIME_ZONE, 'UTC']);
+    expect(values).toContain('America/New_York');
+  });
+
+  it('maps the time zone from the state', () => {
+    expect(mapStateToProps({ timeZone: 'UTC' })).toEqual({ timeZone: 'UTC' });
+  });
+});
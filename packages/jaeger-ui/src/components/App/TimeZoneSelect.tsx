@@ -0,0 +1,77 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Select } from 'antd';
+import memoizeOne from 'memoize-one';
+import { IoTimeOutline } from 'react-icons/io5';
+import { connect } from 'react-redux';
+import { bindActionCreators, Dispatch } from 'redux';
+
+import { setTimeZone } from '../../actions/time-zone';
+import { ReduxState } from '../../types';
+import { getTimeZoneLabel, getTimeZones, LOCAL_TIME_ZONE } from '../../utils/date';
+
+import './TimeZoneSelect.css';
+
+type TDispatchProps = {
+  setTimeZone: (timeZone: string) => void;
+};
+
+type TReduxProps = {
+  timeZone: string;
+};
+
+// exported for tests
+export const getOptions = memoizeOne(() =>
+  getTimeZones().map(timeZone => ({
+    label:
+      timeZone === LOCAL_TIME_ZONE ? `Local time, ${getTimeZoneLabel(timeZone)}` : getTimeZoneLabel(timeZone),
+    value: timeZone,
+  }))
+);
+
+/**
+ * The time zone the absolute times are shown and entered in.
+ */
+export function TimeZoneSelectImpl(props: TDispatchProps & TReduxProps) {
+  const { setTimeZone: onChange, timeZone } = props;
+  return (
+    <div className="TimeZoneSelect" title="Time zone of the dates and times">
+      <IoTimeOutline className="TimeZoneSelect--icon" />
+      <Select
+        showSearch
+        className="TimeZoneSelect--select"
+        data-testid="time-zone-select"
+        onChange={onChange}
+        optionFilterProp="label"
+        options={getOptions()}
+        popupMatchSelectWidth={false}
+        value={timeZone}
+      />
+    </div>
+  );
+}
+
+// export for tests
+export function mapStateToProps(state: ReduxState): TReduxProps {
+  return { timeZone: state.timeZone };
+}
+
+/* istanbul ignore next */
+function mapDispatchToProps(dispatch: Dispatch<ReduxState>): TDispatchProps {
+  return bindActionCreators({ setTimeZone }, dispatch);
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(TimeZoneSelectImpl);
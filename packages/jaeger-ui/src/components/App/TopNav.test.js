@@ -19,6 +19,8 @@ import '@testing-library/jest-dom';
 
 import { mapStateToProps, TopNavImpl as TopNav } from './TopNav';
 
+jest.mock('./TimeZoneSelect', () => () => 'Time zone select');
+
 jest.mock('../../utils/config/get-config', () => {
   return {
     getConfigValue: jest.fn(key => {
@@ -125,6 +127,10 @@ describe('<TopNav>', () => {
       const item = screen.getByRole('link', { name: 'Quality' });
       expect(item).toBeInTheDocument();
     });
+
+    it('renders the time zone select', () => {
+      expect(screen.getByText('Time zone select')).toBeInTheDocument();
+    });
   });
 
   describe('renders the custom menu', () => {
@@ -19,6 +19,7 @@ import _has from 'lodash/has';
 import { connect } from 'react-redux';
 import { Link } from 'react-router-dom';
 
+import TimeZoneSelect from './TimeZoneSelect';
 import TraceIDSearchInput from './TraceIDSearchInput';
 import * as dependencyGraph from '../DependencyGraph/url';
 import * as deepDependencies from '../DeepDependencies/url';
@@ -128,6 +129,10 @@ export function TopNavImpl(props: Props) {
       label: <TraceIDSearchInput />,
       key: 'TraceIDSearchInput',
     },
+    {
+      label: <TimeZoneSelect />,
+      key: 'TimeZoneSelect',
+    },
     ...menuItems.map(m => {
       if (isItem(m)) {
         return { label: getItem(m).label, key: getItem(m).key };
@@ -29,6 +29,8 @@ import { ROUTE_PATH as qualityMetricsPath } from '../QualityMetrics/url';
 import SearchTracePage from '../SearchTracePage';
 import { ROUTE_PATH as searchPath } from '../SearchTracePage/url';
 import TraceDiff from '../TraceDiff';
+import CohortDiff from '../TraceDiff/CohortDiff';
+import { ROUTE_PATH as cohortDiffPath } from '../TraceDiff/CohortDiff/url';
 import { ROUTE_PATH as traceDiffPath } from '../TraceDiff/url';
 import TracePage from '../TracePage';
 import { ROUTE_PATH as tracePath } from '../TracePage/url';
@@ -95,6 +97,9 @@ export default class JaegerUIApp extends Component {
                   <Route path={searchPath}>
                     <SearchTracePage />
                   </Route>
+                  <Route path={cohortDiffPath}>
+                    <CohortDiff />
+                  </Route>
                   <Route path={traceDiffPath}>
                     <TraceDiff />
                   </Route>
@@ -18,6 +18,7 @@ import '@testing-library/jest-dom';
 import { Legend, Tooltip } from 'recharts';
 import ServiceGraph, { ServiceGraphImpl, tickFormat, Placeholder } from './serviceGraph';
 import { serviceMetrics } from '../../../reducers/metrics.mock';
+import { formatDatetime, LOCAL_TIME_ZONE, ONE_MILLISECOND, setTimeZone } from '../../../utils/date';
 
 // Mock data with correct structure
 const mockMetricsData = {
@@ -312,7 +313,7 @@ describe('<ServiceGraph>', () => {
 
     // Test tooltip label formatter
     const timestamp = 1631271783806;
-    const formattedDate = new Date(timestamp).toLocaleString();
+    const formattedDate = formatDatetime(timestamp * ONE_MILLISECOND);
     expect(tooltipProps.labelFormatter(timestamp)).toBe(formattedDate);
   });
 
@@ -388,7 +389,7 @@ describe('<ServiceGraph>', () => {
 
       // Test label formatter
       const timestamp = 1631271783806;
-      const formattedDate = new Date(timestamp).toLocaleString();
+      const formattedDate = formatDatetime(timestamp * ONE_MILLISECOND);
       expect(tooltipProps.labelFormatter(timestamp)).toBe(formattedDate);
     });
 
@@ -451,6 +452,12 @@ describe('tickFormat utility', () => {
   it('formats time correctly for double digits', () => {
     expect(tickFormat(Date.UTC(2017, 1, 14, 15, 19))).toBe('15:19');
   });
+
+  it('formats time in the time zone preference', () => {
+    setTimeZone('Asia/Kolkata');
+    expect(tickFormat(Date.UTC(2017, 1, 14, 15, 19))).toBe('20:49');
+    setTimeZone(LOCAL_TIME_ZONE);
+  });
 });
 
 describe('Placeholder component', () => {
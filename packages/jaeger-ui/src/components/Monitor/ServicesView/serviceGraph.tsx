@@ -18,6 +18,7 @@ import LoadingIndicator from '../../common/LoadingIndicator';
 import { ServiceMetricsObject } from '../../../types/metrics';
 import './serviceGraph.css';
 import { ApiError } from '../../../types/api-error';
+import { formatDatetime, ONE_MILLISECOND, toTimeZone } from '../../../utils/date';
 
 type TProps = {
   width: number;
@@ -39,13 +40,7 @@ type MetricDataPoint = {
   [key: string]: number | null;
 };
 
-export const tickFormat = (v: number): string => {
-  const dateObj = new Date(v);
-  const hours = dateObj.getHours().toString();
-  const minutes = dateObj.getMinutes().toString();
-
-  return `${hours.length === 1 ? `0${hours}` : hours}:${minutes.length === 1 ? `0${minutes}` : minutes}`;
-};
+export const tickFormat = (v: number): string => toTimeZone(v).format('HH:mm');
 
 type TPlaceholder = {
   name: string;
@@ -305,7 +300,7 @@ export class ServiceGraphImpl extends React.PureComponent<TProps> {
 
             <Tooltip
               contentStyle={{ fontSize: '0.625rem' }}
-              labelFormatter={(value: number) => new Date(value).toLocaleString()}
+              labelFormatter={(value: number) => formatDatetime(value * ONE_MILLISECOND)}
               formatter={(value: number, uname: string) => {
                 if (!showLegend) {
                   return [this.formatYAxisTick(value)];
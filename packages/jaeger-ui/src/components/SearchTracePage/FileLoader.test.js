@@ -50,7 +50,11 @@ describe('<FileLoader />', () => {
   it('renders the file upload area', () => {
     render(<FileLoader loadJsonTraces={mockLoadJsonTraces} />);
     expect(screen.getByText('Click or drag files to this area.')).toBeInTheDocument();
-    expect(screen.getByText('JSON files containing one or more traces are supported.')).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        'JSON files containing one or more traces are supported: Jaeger, OTLP, Zipkin v2 and Chrome Trace Event Format.'
+      )
+    ).toBeInTheDocument();
   });
 
   it('calls loadJsonTraces with the uploaded file', () => {
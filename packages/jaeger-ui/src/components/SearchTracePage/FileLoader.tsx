@@ -16,6 +16,9 @@ import * as React from 'react';
 import { Upload } from 'antd';
 import { IoDocumentAttachOutline } from 'react-icons/io5';
 
+import TraceLoadingProgress from '../common/TraceLoadingProgress';
+import { FILE_JOB_KEY_PREFIX } from '../../utils/trace-pipeline';
+
 import './FileLoader.css';
 
 const Dragger = Upload.Dragger;
@@ -26,17 +29,23 @@ type FileLoaderProps = {
 
 export default function FileLoader(props: FileLoaderProps) {
   return (
-    <Dragger
-      accept=".json,.jsonl"
-      beforeUpload={(file, fileList) => {
-        fileList.forEach(fileFromList => props.loadJsonTraces({ file: fileFromList }));
-        return false;
-      }}
-      multiple
-    >
-      <IoDocumentAttachOutline className="Dragger--icon" />
-      <p className="ant-upload-text">Click or drag files to this area.</p>
-      <p className="ant-upload-hint">JSON files containing one or more traces are supported.</p>
-    </Dragger>
+    <>
+      <Dragger
+        accept=".json,.jsonl"
+        beforeUpload={(file, fileList) => {
+          fileList.forEach(fileFromList => props.loadJsonTraces({ file: fileFromList }));
+          return false;
+        }}
+        multiple
+      >
+        <IoDocumentAttachOutline className="Dragger--icon" />
+        <p className="ant-upload-text">Click or drag files to this area.</p>
+        <p className="ant-upload-hint">
+          JSON files containing one or more traces are supported: Jaeger, OTLP, Zipkin v2 and Chrome Trace
+          Event Format.
+        </p>
+      </Dragger>
+      <TraceLoadingProgress jobKeyPrefix={FILE_JOB_KEY_PREFIX} />
+    </>
   );
 }
@@ -0,0 +1,116 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import store from 'store';
+
+import SavedSearches, { EXPORT_FILE_NAME } from './SavedSearches';
+import { addRecentSearch, getSavedSearches, saveSearch } from './saved-searches';
+import { getUrl as getCohortDiffUrl } from '../TraceDiff/CohortDiff/url';
+import downloadFile from '../../utils/download-file';
+import { HistoryProvider } from '../../utils/useHistory';
+
+jest.mock('../../utils/download-file');
+
+describe('<SavedSearches>', () => {
+  const fields = { service: 'frontend', operation: 'all', lookback: '1h', resultsLimit: 20 };
+  let onSelect;
+
+  const openMenu = () => fireEvent.click(screen.getByRole('button', { name: /Saved and recent searches/ }));
+
+  beforeEach(() => {
+    store.clearAll();
+    onSelect = jest.fn();
+    downloadFile.mockClear();
+  });
+
+  it('lists and selects saved and recent searches', async () => {
+    saveSearch('frontend errors', { ...fields, tags: 'error=true' });
+    render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    // recorded after the first render, e.g. when the form is submitted
+    addRecentSearch({ ...fields, service: 'cart' });
+    openMenu();
+    fireEvent.click(await screen.findByText('cart, 1h'));
+    expect(onSelect).toHaveBeenLastCalledWith({
+      service: 'cart',
+      operation: 'all',
+      lookback: '1h',
+      resultsLimit: '20',
+    });
+
+    openMenu();
+    fireEvent.click(screen.getByText('frontend errors'));
+    expect(onSelect).toHaveBeenLastCalledWith(expect.objectContaining({ tags: 'error=true' }));
+  });
+
+  it('saves the current search', async () => {
+    render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    fireEvent.change(await screen.findByPlaceholderText('Name this search'), { target: { value: 'mine' } });
+    fireEvent.click(screen.getAllByRole('button', { name: 'Save' })[1]);
+    expect(getSavedSearches().map(search => search.name)).toEqual(['mine']);
+    openMenu();
+    expect(await screen.findByText('mine')).toBeInTheDocument();
+  });
+
+  it('shows an error when the name is empty', async () => {
+    render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    await screen.findByPlaceholderText('Name this search');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Save' })[1]);
+    expect(screen.getByText('A saved search needs a name')).toBeInTheDocument();
+  });
+
+  it('deletes saved searches', async () => {
+    saveSearch('old', fields);
+    render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    openMenu();
+    fireEvent.click(await screen.findByTestId('delete-old'));
+    expect(onSelect).not.toHaveBeenCalled();
+    expect(getSavedSearches()).toEqual([]);
+  });
+
+  it('exports saved searches', async () => {
+    saveSearch('a', fields);
+    render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    openMenu();
+    fireEvent.click(await screen.findByText('Export saved searches'));
+    expect(downloadFile).toHaveBeenCalledWith(expect.any(Blob), EXPORT_FILE_NAME);
+  });
+
+  it('opens the comparison of two searches', async () => {
+    const history = { push: jest.fn() };
+    render(
+      <HistoryProvider history={history}>
+        <SavedSearches fields={fields} onSelect={onSelect} />
+      </HistoryProvider>
+    );
+    openMenu();
+    fireEvent.click(await screen.findByText('Compare two searches'));
+    expect(history.push).toHaveBeenCalledWith(getCohortDiffUrl());
+  });
+
+  it('imports saved searches', async () => {
+    const { container } = render(<SavedSearches fields={fields} onSelect={onSelect} />);
+    const input = container.querySelector('input[type="file"]');
+    const json = JSON.stringify({ savedSearches: [{ name: 'shared', fields }] });
+    fireEvent.change(input, { target: { files: [new File([json], 'searches.json')] } });
+    await waitFor(() => expect(getSavedSearches().map(search => search.name)).toEqual(['shared']));
+
+    fireEvent.change(input, { target: { files: [new File(['{}'], 'bad.json')] } });
+    expect(await screen.findByText(/expected a list of "savedSearches"/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,190 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Dropdown, Input, Popover } from 'antd';
+import type { MenuProps } from 'antd';
+import { IoChevronDown, IoClose } from 'react-icons/io5';
+
+import {
+  deleteSavedSearch,
+  describeSearch,
+  exportSavedSearches,
+  getRecentSearches,
+  getSavedSearches,
+  importSavedSearches,
+  saveSearch,
+  TSearchFields,
+} from './saved-searches';
+import { getUrl as getCohortDiffUrl } from '../TraceDiff/CohortDiff/url';
+import downloadFile from '../../utils/download-file';
+import { useHistory } from '../../utils/useHistory';
+
+import './SavedSearches.css';
+
+type TProps = {
+  disabled?: boolean;
+  fields: Record<string, unknown>;
+  onSelect: (fields: TSearchFields) => void;
+};
+
+export const EXPORT_FILE_NAME = 'jaeger-saved-searches.json';
+
+const COMPARE_KEY = 'compare';
+const EXPORT_KEY = 'export';
+const IMPORT_KEY = 'import';
+const RECENT_PREFIX = 'recent:';
+const SAVED_PREFIX = 'saved:';
+
+/**
+ * Recent searches and searches saved under a name, kept in the browser, and
+ * shared between users as JSON files.
+ */
+export default function SavedSearches(props: TProps) {
+  const { disabled = false, fields, onSelect } = props;
+  const [recent, setRecent] = React.useState(getRecentSearches);
+  const [saved, setSaved] = React.useState(getSavedSearches);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSaveOpen, setSaveOpen] = React.useState(false);
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const history = useHistory();
+
+  const save = (name: string) => {
+    try {
+      setSaved(saveSearch(name, fields));
+      setSaveOpen(false);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const importFile = (evt: React.ChangeEvent<HTMLInputElement>) => {
+    const file = evt.target.files && evt.target.files[0];
+    // allows importing the same file again
+    // eslint-disable-next-line no-param-reassign
+    evt.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setSaved(importSavedSearches(String(reader.result)));
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    reader.onerror = () => setError(`Error reading ${file.name}`);
+    reader.readAsText(file);
+  };
+
+  const items: MenuProps['items'] = [
+    {
+      key: 'saved',
+      type: 'group',
+      label: 'Saved',
+      children: saved.length
+        ? saved.map(search => ({
+            key: `${SAVED_PREFIX}${search.name}`,
+            title: describeSearch(search.fields),
+            label: (
+              <span className="SavedSearches--item">
+                <span className="SavedSearches--name">{search.name}</span>
+                <IoClose
+                  className="SavedSearches--delete"
+                  data-testid={`delete-${search.name}`}
+                  onClick={evt => {
+                    evt.stopPropagation();
+                    setSaved(deleteSavedSearch(search.name));
+                  }}
+                />
+              </span>
+            ),
+          }))
+        : [{ key: 'no-saved', label: 'No saved searches', disabled: true }],
+    },
+    {
+      key: 'recent',
+      type: 'group',
+      label: 'Recent',
+      children: recent.length
+        ? recent.map((search, i) => ({
+            key: `${RECENT_PREFIX}${i}`,
+            label: <span className="SavedSearches--name">{describeSearch(search.fields)}</span>,
+          }))
+        : [{ key: 'no-recent', label: 'No recent searches', disabled: true }],
+    },
+    { type: 'divider' },
+    { key: COMPARE_KEY, label: 'Compare two searches' },
+    { key: EXPORT_KEY, label: 'Export saved searches', disabled: !saved.length },
+    { key: IMPORT_KEY, label: 'Import saved searches' },
+  ];
+
+  const onClick: MenuProps['onClick'] = ({ key }) => {
+    if (key === COMPARE_KEY) {
+      if (history) history.push(getCohortDiffUrl());
+    } else if (key === EXPORT_KEY) {
+      downloadFile(exportSavedSearches(), EXPORT_FILE_NAME);
+    } else if (key === IMPORT_KEY) {
+      if (fileInput.current) fileInput.current.click();
+    } else if (key.startsWith(SAVED_PREFIX)) {
+      const search = saved.find(({ name }) => name === key.slice(SAVED_PREFIX.length));
+      if (search) onSelect(search.fields);
+    } else if (key.startsWith(RECENT_PREFIX)) {
+      const search = recent[Number(key.slice(RECENT_PREFIX.length))];
+      if (search) onSelect(search.fields);
+    }
+  };
+
+  return (
+    <div className="SavedSearches">
+      <div className="SavedSearches--actions">
+        <Dropdown
+          disabled={disabled}
+          menu={{ items, onClick }}
+          onOpenChange={open => {
+            // searches are recorded by the form when it is submitted
+            if (open) setRecent(getRecentSearches());
+          }}
+          trigger={['click']}
+        >
+          <Button className="SavedSearches--load" htmlType="button">
+            Saved and recent searches <IoChevronDown />
+          </Button>
+        </Dropdown>
+        <Popover
+          content={
+            <Input.Search autoFocus enterButton="Save" onSearch={save} placeholder="Name this search" />
+          }
+          onOpenChange={setSaveOpen}
+          open={isSaveOpen}
+          placement="bottomRight"
+          trigger="click"
+        >
+          <Button disabled={disabled} htmlType="button">
+            Save
+          </Button>
+        </Popover>
+      </div>
+      {error && <div className="SavedSearches--error">{error}</div>}
+      <input
+        accept=".json"
+        className="SavedSearches--file"
+        onChange={importFile}
+        ref={fileInput}
+        type="file"
+      />
+    </div>
+  );
+}
@@ -27,10 +27,12 @@ import { connect } from 'react-redux';
 import { bindActionCreators } from 'redux';
 import store from 'store';
 
+import { addRecentSearch } from './saved-searches';
+import SavedSearches from './SavedSearches';
 import * as markers from './SearchForm.markers';
 import { trackFormInput } from './SearchForm.track';
 import * as jaegerApiActions from '../../actions/jaeger-api';
-import { formatDate, formatTime } from '../../utils/date';
+import { formatDate, formatTime, getTimeZoneLabel, parseInTimeZone } from '../../utils/date';
 import {
   DEFAULT_OPERATION,
   DEFAULT_LIMIT,
@@ -49,8 +51,8 @@ export function getUnixTimeStampInMSFromForm({ startDate, startDateTime, endDate
   const start = `${startDate} ${startDateTime}`;
   const end = `${endDate} ${endDateTime}`;
   return {
-    start: `${dayjs(start, 'YYYY-MM-DD HH:mm').valueOf()}000`,
-    end: `${dayjs(end, 'YYYY-MM-DD HH:mm').valueOf()}000`,
+    start: `${parseInTimeZone(start, 'YYYY-MM-DD HH:mm').valueOf()}000`,
+    end: `${parseInTimeZone(end, 'YYYY-MM-DD HH:mm').valueOf()}000`,
   };
 }
 
@@ -209,7 +211,10 @@ export function convertQueryParamsToFormDates({ start, end }) {
   };
 }
 
-export function submitForm(fields, searchTraces) {
+/**
+ * Converts the fields of the search form to the query of the search API.
+ */
+export function getSearchQuery(fields) {
   const {
     resultsLimit,
     service,
@@ -223,8 +228,6 @@ export function submitForm(fields, searchTraces) {
     maxDuration,
     lookback,
   } = fields;
-  // Note: traceID is ignored when the form is submitted
-  store.set('lastSearch', { service, operation });
 
   let start;
   let end;
@@ -243,9 +246,7 @@ export function submitForm(fields, searchTraces) {
     end = times.end;
   }
 
-  trackFormInput(resultsLimit, operation, tags, minDuration, maxDuration, lookback, service);
-
-  searchTraces({
+  return {
     service,
     operation: operation !== DEFAULT_OPERATION ? operation : undefined,
     limit: resultsLimit,
@@ -255,7 +256,18 @@ export function submitForm(fields, searchTraces) {
     tags: convTagsLogfmt(tags) || undefined,
     minDuration: minDuration || null,
     maxDuration: maxDuration || null,
-  });
+  };
+}
+
+export function submitForm(fields, searchTraces) {
+  const { resultsLimit, service, operation, tags, minDuration, maxDuration, lookback } = fields;
+  // Note: traceID is ignored when the form is submitted
+  store.set('lastSearch', { service, operation });
+  addRecentSearch(fields);
+
+  trackFormInput(resultsLimit, operation, tags, minDuration, maxDuration, lookback, service);
+
+  searchTraces(getSearchQuery(fields));
 }
 
 export class SearchFormImpl extends React.PureComponent {
@@ -296,6 +308,22 @@ export class SearchFormImpl extends React.PureComponent {
     }
   };
 
+  handleSelectSearch = fields => {
+    if (fields.service && fields.service !== this.state.formData.service) {
+      this.props.changeServiceHandler(fields.service);
+    }
+    this.setState(prevState => ({
+      formData: {
+        ...prevState.formData,
+        // clear the fields left empty in the selected search
+        minDuration: null,
+        maxDuration: null,
+        tags: undefined,
+        ...fields,
+      },
+    }));
+  };
+
   handleSubmit = e => {
     e.preventDefault();
     this.props.submitFormHandler(this.state.formData);
@@ -308,12 +336,13 @@ export class SearchFormImpl extends React.PureComponent {
     const selectedServicePayload = services.find(s => s.name === selectedService);
     const opsForSvc = (selectedServicePayload && selectedServicePayload.operations) || [];
     const noSelectedService = selectedService === '-' || !selectedService;
-    const tz = selectedLookback === 'custom' ? new Date().toTimeString().replace(/^.*?GMT/, 'UTC') : null;
+    const tz = selectedLookback === 'custom' ? getTimeZoneLabel() : null;
     const invalidDuration =
       validateDurationFields(formData.minDuration) || validateDurationFields(formData.maxDuration);
 
     return (
       <Form layout="vertical" onSubmitCapture={this.handleSubmit}>
+        <SavedSearches disabled={submitting} fields={formData} onSelect={this.handleSelectSearch} />
         <FormItem
           label={
             <span>
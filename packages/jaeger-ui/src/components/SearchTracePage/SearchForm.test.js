@@ -26,6 +26,7 @@ import * as jaegerApiActions from '../../actions/jaeger-api';
 import {
   convertQueryParamsToFormDates,
   convTagsLogfmt,
+  getSearchQuery,
   getUnixTimeStampInMSFromForm,
   lookbackToTimestamp,
   mapDispatchToProps,
@@ -37,8 +38,11 @@ import {
   validateDurationFields,
 } from './SearchForm';
 import * as markers from './SearchForm.markers';
+import SavedSearches from './SavedSearches';
+import { RECENT_SEARCHES_KEY } from './saved-searches';
 import getConfig from '../../utils/config/get-config';
 import { CHANGE_SERVICE_ACTION_TYPE } from '../../constants/search-form';
+import { LOCAL_TIME_ZONE, setTimeZone } from '../../utils/date';
 
 function makeDateParams(dateOffset = 0) {
   const date = new Date();
@@ -86,6 +90,19 @@ describe('conversion utils', () => {
       expect(start).toBe(`${startSrc.valueOf()}000`);
       expect(end).toBe(`${endSrc.valueOf()}000`);
     });
+
+    it('reads the times in the time zone preference', () => {
+      setTimeZone('Asia/Tokyo');
+      const { start, end } = getUnixTimeStampInMSFromForm({
+        startDate: '2000-01-01',
+        startDateTime: '09:00',
+        endDate: '2000-01-01',
+        endDateTime: '10:00',
+      });
+      setTimeZone(LOCAL_TIME_ZONE);
+      expect(start).toBe(`${Date.UTC(2000, 0, 1)}000`);
+      expect(end).toBe(`${Date.UTC(2000, 0, 1, 1)}000`);
+    });
   });
 
   describe('convertQueryParamsToFormDates()', () => {
@@ -268,6 +285,15 @@ describe('submitForm()', () => {
     };
   });
 
+  it('searches the query of getSearchQuery()', () => {
+    submitForm(fields, searchTraces);
+    expect(searchTraces).toHaveBeenCalledWith({
+      ...getSearchQuery(fields),
+      start: expect.any(Number),
+      end: expect.any(Number),
+    });
+  });
+
   it('ignores `fields.operation` when it is "all"', () => {
     fields.operation = 'all';
     submitForm(fields, searchTraces);
@@ -277,6 +303,17 @@ describe('submitForm()', () => {
     expect(operation).toBe(undefined);
   });
 
+  it('records the search in the recent searches', () => {
+    store.set.mockClear();
+    submitForm(fields, searchTraces);
+    expect(store.set).toHaveBeenCalledWith(RECENT_SEARCHES_KEY, [
+      {
+        fields: { lookback: fields.lookback, operation: 'op-a', resultsLimit: '20', service: 'svc-a' },
+        searchedAt: expect.any(Number),
+      },
+    ]);
+  });
+
   it('expects operation to be value defined in beforeEach', () => {
     submitForm(fields, searchTraces);
     const { calls } = searchTraces.mock;
@@ -416,6 +453,23 @@ describe('<SearchForm>', () => {
     expect(ops.prop('disabled')).toBe(false);
   });
 
+  it('fills the form with the selected saved search', () => {
+    const changeServiceHandler = jest.fn();
+    wrapper = shallow(
+      <SearchForm
+        {...defaultProps}
+        changeServiceHandler={changeServiceHandler}
+        initialValues={{ tags: 'a=b' }}
+      />
+    );
+    wrapper.find(SavedSearches).prop('onSelect')({ service: 'svcB', operation: 'B', lookback: '2h' });
+    expect(changeServiceHandler).toHaveBeenCalledWith('svcB');
+    expect(wrapper.state('formData')).toEqual(
+      expect.objectContaining({ service: 'svcB', operation: 'B', lookback: '2h', tags: undefined })
+    );
+    expect(wrapper.find(SavedSearches).prop('fields')).toBe(wrapper.state('formData'));
+  });
+
   it('shows custom date inputs when `props.selectedLookback` is "custom"', () => {
     function getDateFieldLengths(compWrapper) {
       return [
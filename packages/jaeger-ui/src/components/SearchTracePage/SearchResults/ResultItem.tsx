@@ -27,7 +27,7 @@ import { trackConversions, EAltViewActions } from './index.track';
 import * as markers from './ResultItem.markers';
 import ResultItemTitle from './ResultItemTitle';
 import colorGenerator from '../../../utils/color-generator';
-import { formatRelativeDate } from '../../../utils/date';
+import { formatRelativeDate, toTimeZone } from '../../../utils/date';
 
 import { KeyValuePair, Trace } from '../../../types/trace';
 
@@ -61,7 +61,7 @@ export default class ResultItem extends React.PureComponent<Props, State> {
     super(props, state);
     const { startTime, spans } = props.trace;
 
-    const startTimeDayjs = dayjs(startTime / 1000);
+    const startTimeDayjs = toTimeZone(startTime / 1000);
 
     const erroredServices: Set<string> = new Set<string>();
 
@@ -74,7 +74,8 @@ export default class ResultItem extends React.PureComponent<Props, State> {
     }).length;
 
     this.state = {
-      numSpans: spans.length,
+      // the placeholders of missing parents are not spans of the trace
+      numSpans: spans.filter(sp => !sp.isPlaceholder).length,
       timeStr: startTimeDayjs.format('h:mm:ss a'),
       fromNow: startTimeDayjs.fromNow(),
       numErredSpans,
@@ -13,7 +13,6 @@
 // limitations under the License.
 
 import React, { useRef, useState, useLayoutEffect } from 'react';
-import dayjs from 'dayjs';
 import PropTypes from 'prop-types';
 import {
   ScatterChart,
@@ -28,7 +27,7 @@ import {
 } from 'recharts';
 
 import { FALLBACK_TRACE_NAME } from '../../../constants';
-import { ONE_MILLISECOND, formatDuration } from '../../../utils/date';
+import { ONE_MILLISECOND, formatDuration, toTimeZone } from '../../../utils/date';
 
 import './ScatterPlot.css';
 
@@ -94,7 +93,7 @@ export default function ScatterPlot({
     }
 
     return ticks.filter(tick => {
-      const label = dayjs(tick / ONE_MILLISECOND).format('hh:mm:ss a');
+      const label = toTimeZone(tick / ONE_MILLISECOND).format('hh:mm:ss a');
       if (seenLabels.has(label)) {
         return false;
       }
@@ -121,7 +120,7 @@ export default function ScatterPlot({
               name="Time"
               domain={[xMin, xMax]}
               ticks={generateUniqueTicks(xMin, xMax, 10)}
-              tickFormatter={t => dayjs(t / ONE_MILLISECOND).format('hh:mm:ss a')}
+              tickFormatter={t => toTimeZone(t / ONE_MILLISECOND).format('hh:mm:ss a')}
               tick={{ fontSize: 11, dy: 5 }}
               axisLine={{ stroke: '#e6e6e9', strokeWidth: 2 }}
               tickLine={{ stroke: '#e6e6e9', strokeWidth: 1 }}
@@ -0,0 +1,75 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import TraceFacets from './TraceFacets';
+import { EMPTY_FILTERS } from '../../../model/trace-facets';
+
+function makeTrace(traceID, duration, serviceNames) {
+  return {
+    traceID,
+    duration,
+    traceName: `${serviceNames[0]}: op`,
+    spans: serviceNames.map(serviceName => ({
+      process: { serviceName },
+      tags: serviceName === 'cart' ? [{ key: 'error', value: true }] : [],
+    })),
+  };
+}
+
+describe('<TraceFacets>', () => {
+  const traces = [makeTrace('a', 10, ['frontend', 'cart']), makeTrace('b', 20, ['frontend'])];
+  let onChange;
+
+  beforeEach(() => {
+    onChange = jest.fn();
+  });
+
+  it('renders the values of each facet with their counts', () => {
+    render(<TraceFacets filters={EMPTY_FILTERS} onChange={onChange} traces={traces} />);
+    expect(screen.getByText('Services')).toBeInTheDocument();
+    expect(screen.getByTitle('cart').nextSibling).toHaveTextContent('1');
+    expect(screen.getByTitle('frontend').nextSibling).toHaveTextContent('2');
+    expect(screen.getByTitle('With errors')).toBeInTheDocument();
+    expect(screen.getByTitle('error=true')).toBeInTheDocument();
+    expect(screen.getByText('Spans')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Clear' })).toBeDisabled();
+  });
+
+  it('selects and deselects values', () => {
+    const { rerender } = render(<TraceFacets filters={EMPTY_FILTERS} onChange={onChange} traces={traces} />);
+    fireEvent.click(screen.getByTitle('cart'));
+    expect(onChange).toHaveBeenLastCalledWith({ ...EMPTY_FILTERS, services: ['cart'] });
+
+    const filters = { ...EMPTY_FILTERS, services: ['cart'], errors: [true] };
+    rerender(<TraceFacets filters={filters} onChange={onChange} traces={traces} />);
+    fireEvent.click(screen.getByTitle('cart'));
+    expect(onChange).toHaveBeenLastCalledWith({ ...filters, services: [] });
+  });
+
+  it('clears the filters', () => {
+    const filters = { ...EMPTY_FILTERS, services: ['cart'] };
+    render(<TraceFacets filters={filters} onChange={onChange} traces={traces} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+    expect(onChange).toHaveBeenLastCalledWith(EMPTY_FILTERS);
+  });
+
+  it('hides the span count slider when all traces have as many spans', () => {
+    render(<TraceFacets filters={EMPTY_FILTERS} onChange={onChange} traces={traces.slice(0, 1)} />);
+    expect(screen.queryByText('Spans')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,174 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Checkbox, Slider } from 'antd';
+
+import {
+  getTraceFacets,
+  isFiltered,
+  EMPTY_FILTERS,
+  TDurationBucket,
+  TFacetValue,
+  TTraceFacetFilters,
+} from '../../../model/trace-facets';
+import { formatDuration } from '../../../utils/date';
+import { Trace } from '../../../types/trace';
+
+import './TraceFacets.css';
+
+type TProps = {
+  filters: TTraceFacetFilters;
+  onChange: (filters: TTraceFacetFilters) => void;
+  traces: Trace[];
+};
+
+type TFacetSectionProps<T> = {
+  format?: (value: T) => string;
+  isSelected: (value: T) => boolean;
+  onToggle: (value: T, selected: boolean) => void;
+  // shows each value's share of the largest count, for the duration histogram
+  showBars?: boolean;
+  title: string;
+  values: TFacetValue<T>[];
+};
+
+// exported for tests
+export function FacetSection<T>(props: TFacetSectionProps<T>) {
+  const { format = String, isSelected, onToggle, showBars, title, values } = props;
+  if (!values.length) {
+    return null;
+  }
+  const maxCount = Math.max(...values.map(({ count }) => count));
+  return (
+    <section className="TraceFacets--section">
+      <h4 className="TraceFacets--title">{title}</h4>
+      {values.map(({ value, count }) => {
+        const label = format(value);
+        const checked = isSelected(value);
+        return (
+          <Checkbox
+            key={label}
+            className="TraceFacets--value"
+            checked={checked}
+            disabled={!count && !checked}
+            onChange={evt => onToggle(value, evt.target.checked)}
+          >
+            <span className="TraceFacets--label" title={label}>
+              {label}
+            </span>
+            <span className="TraceFacets--count">{count}</span>
+            {showBars && (
+              <span className="TraceFacets--bar" style={{ width: `${(100 * count) / maxCount}%` }} />
+            )}
+          </Checkbox>
+        );
+      })}
+    </section>
+  );
+}
+
+function toggle<T>(values: T[], value: T, selected: boolean, isEqual = (a: T, b: T) => a === b) {
+  const rest = values.filter(v => !isEqual(v, value));
+  return selected ? rest.concat([value]) : rest;
+}
+
+const isSameBucket = (a: TDurationBucket, b: TDurationBucket) => a.start === b.start && a.end === b.end;
+
+const formatBucket = ({ start, end }: TDurationBucket) => `${formatDuration(start)} - ${formatDuration(end)}`;
+
+const formatError = (value: boolean) => (value ? 'With errors' : 'Without errors');
+
+/**
+ * Narrows the search results to the traces having the selected services, root
+ * operations, durations, span counts and tags, without querying them again.
+ */
+export default function TraceFacets(props: TProps) {
+  const { filters, onChange, traces } = props;
+  const facets = getTraceFacets(traces);
+  const { min, max } = facets.spanCount;
+
+  return (
+    <div className="TraceFacets">
+      <div className="TraceFacets--header">
+        <h3 className="ub-m0 u-flex-1">Filter results</h3>
+        <Button
+          disabled={!isFiltered(filters)}
+          htmlType="button"
+          onClick={() => onChange(EMPTY_FILTERS)}
+          size="small"
+          type="link"
+        >
+          Clear
+        </Button>
+      </div>
+      <FacetSection
+        title="Services"
+        values={facets.services}
+        isSelected={value => filters.services.includes(value)}
+        onToggle={(value, selected) =>
+          onChange({ ...filters, services: toggle(filters.services, value, selected) })
+        }
+      />
+      <FacetSection
+        title="Root operation"
+        values={facets.rootOperations}
+        isSelected={value => filters.rootOperations.includes(value)}
+        onToggle={(value, selected) =>
+          onChange({ ...filters, rootOperations: toggle(filters.rootOperations, value, selected) })
+        }
+      />
+      <FacetSection
+        title="Errors"
+        format={formatError}
+        values={facets.errors}
+        isSelected={value => filters.errors.includes(value)}
+        onToggle={(value, selected) =>
+          onChange({ ...filters, errors: toggle(filters.errors, value, selected) })
+        }
+      />
+      <FacetSection
+        title="Duration"
+        format={formatBucket}
+        showBars
+        values={facets.durations}
+        isSelected={value => filters.durations.some(bucket => isSameBucket(bucket, value))}
+        onToggle={(value, selected) =>
+          onChange({ ...filters, durations: toggle(filters.durations, value, selected, isSameBucket) })
+        }
+      />
+      {min < max && (
+        <section className="TraceFacets--section">
+          <h4 className="TraceFacets--title">Spans</h4>
+          <Slider
+            range
+            min={min}
+            max={max}
+            value={filters.spanCount || [min, max]}
+            onChange={(value: number[]) => {
+              const [from, to] = value;
+              onChange({ ...filters, spanCount: from === min && to === max ? null : [from, to] });
+            }}
+          />
+        </section>
+      )}
+      <FacetSection
+        title="Top tags"
+        values={facets.tags}
+        isSelected={value => filters.tags.includes(value)}
+        onToggle={(value, selected) => onChange({ ...filters, tags: toggle(filters.tags, value, selected) })}
+      />
+    </div>
+  );
+}
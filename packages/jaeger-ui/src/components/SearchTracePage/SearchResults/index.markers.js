@@ -12,5 +12,5 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-// eslint-disable-next-line import/prefer-default-export
 export const NO_RESULTS = 'no-results';
+export const NO_FILTERED_RESULTS = 'no-filtered-results';
@@ -23,11 +23,13 @@ import AltViewOptions from './AltViewOptions';
 import DiffSelection from './DiffSelection';
 import ResultItem from './ResultItem';
 import ScatterPlot from './ScatterPlot';
+import TraceFacets from './TraceFacets';
 import { getUrl } from '../url';
 import LoadingIndicator from '../../common/LoadingIndicator';
 import SearchResultsDDG from '../../DeepDependencies/traces';
 import DownloadResults from './DownloadResults';
 import readJsonFile from '../../../utils/readJsonFile';
+import { EMPTY_FILTERS } from '../../../model/trace-facets';
 
 describe('<SearchResults>', () => {
   const searchParam = 'view';
@@ -128,6 +130,47 @@ describe('<SearchResults>', () => {
     expect(goToTrace).toHaveBeenCalledWith('id-1');
   });
 
+  describe('facets', () => {
+    const facetTraces = [
+      { traceID: 'a', traceName: 'A', duration: 1, spans: [], processes: {} },
+      { traceID: 'b', traceName: 'B', duration: 2, spans: [], processes: {} },
+    ];
+
+    beforeEach(() => {
+      wrapper.setProps({ traces: facetTraces });
+    });
+
+    it('filters the results and the scatter plot', () => {
+      expect(wrapper.find(TraceFacets).prop('traces')).toBe(facetTraces);
+      wrapper.find(TraceFacets).prop('onChange')({ ...EMPTY_FILTERS, rootOperations: ['B'] });
+      expect(wrapper.find(ResultItem).map(item => item.prop('trace').traceID)).toEqual(['b']);
+      expect(
+        wrapper
+          .find(ScatterPlot)
+          .prop('data')
+          .map(point => point.traceID)
+      ).toEqual(['b']);
+      expect(wrapper.find('h2').text()).toBe('1 of 2 Traces');
+    });
+
+    it('shows a message when no trace matches the filters', () => {
+      wrapper.find(TraceFacets).prop('onChange')({ ...EMPTY_FILTERS, rootOperations: ['C'] });
+      expect(wrapper.find(`[data-test="${markers.NO_FILTERED_RESULTS}"]`).length).toBe(1);
+    });
+
+    it('clears the filters when the results of another search are shown', () => {
+      wrapper.find(TraceFacets).prop('onChange')({ ...EMPTY_FILTERS, rootOperations: ['B'] });
+      wrapper.setProps({ queryOfResults: { service: 'other' } });
+      expect(wrapper.find(TraceFacets).prop('filters')).toBe(EMPTY_FILTERS);
+      expect(wrapper.find(ResultItem).length).toBe(2);
+    });
+
+    it('is hidden in the ddg view', () => {
+      wrapper.setProps({ location: { search: '?view=ddg' } });
+      expect(wrapper.find(TraceFacets).length).toBe(0);
+    });
+  });
+
   describe('search finished with results', () => {
     it('shows a scatter plot', () => {
       expect(wrapper.find(ScatterPlot).length).toBe(1);
@@ -253,7 +296,7 @@ describe('<SearchResults>', () => {
         const file = new File([createBlob(props.rawTraces)], 'test.json');
         const contentFile = await readJsonFile({ file });
 
-        return expect(JSON.stringify(contentFile)).toBe(content);
+        return expect(contentFile).toBe(content);
       });
     });
 
@@ -17,6 +17,7 @@
 import * as React from 'react';
 import { Select } from 'antd';
 import { History as RouterHistory, Location } from 'history';
+import memoizeOne from 'memoize-one';
 import { Link } from 'react-router-dom';
 import queryString from 'query-string';
 
@@ -27,18 +28,21 @@ import * as markers from './index.markers';
 import { EAltViewActions, trackAltView } from './index.track';
 import ResultItem from './ResultItem';
 import ScatterPlot from './ScatterPlot';
+import TraceFacets from './TraceFacets';
 import { getUrl } from '../url';
 import LoadingIndicator from '../../common/LoadingIndicator';
 import NewWindowIcon from '../../common/NewWindowIcon';
 import SearchResultsDDG from '../../DeepDependencies/traces';
 import { getLocation } from '../../TracePage/url';
 import * as orderBy from '../../../model/order-by';
+import { EMPTY_FILTERS, filterTraces, hasError, TTraceFacetFilters } from '../../../model/trace-facets';
 import { getPercentageOfDuration } from '../../../utils/date';
+import downloadFile from '../../../utils/download-file';
 import { stripEmbeddedState } from '../../../utils/embedded-url';
 
 import { FetchedTrace } from '../../../types';
 import { SearchQuery } from '../../../types/search';
-import { KeyValuePair, Trace, TraceData } from '../../../types/trace';
+import { Trace, TraceData } from '../../../types/trace';
 
 import './index.css';
 import { getTargetEmptyOrBlank } from '../../../utils/config/get-target';
@@ -66,6 +70,10 @@ type SearchResultsProps = {
   handleSortChange: (sortBy: string) => void;
 };
 
+type SearchResultsState = {
+  facetFilters: TTraceFacetFilters;
+};
+
 type SelectSortProps = {
   sortBy: string;
   handleSortChange: (sortBy: string) => void;
@@ -96,9 +104,24 @@ export function createBlob(rawTraces: TraceData[]) {
   return new Blob([`{"data":${JSON.stringify(rawTraces)}}`], { type: 'application/json' });
 }
 
-export class UnconnectedSearchResults extends React.PureComponent<SearchResultsProps> {
+export class UnconnectedSearchResults extends React.PureComponent<SearchResultsProps, SearchResultsState> {
   static defaultProps = { skipMessage: false, spanLinks: undefined, queryOfResults: undefined };
 
+  state: SearchResultsState = { facetFilters: EMPTY_FILTERS };
+
+  filterTraces = memoizeOne(filterTraces);
+
+  componentDidUpdate(prevProps: SearchResultsProps) {
+    // the facets narrow the results of a search, start over with a new search
+    if (prevProps.queryOfResults !== this.props.queryOfResults) {
+      this.setState({ facetFilters: EMPTY_FILTERS });
+    }
+  }
+
+  setFacetFilters = (facetFilters: TTraceFacetFilters) => {
+    this.setState({ facetFilters });
+  };
+
   toggleComparison = (traceID: string, remove?: boolean) => {
     const { cohortAddTrace, cohortRemoveTrace } = this.props;
     if (remove) {
@@ -117,14 +140,7 @@ export class UnconnectedSearchResults extends React.PureComponent<SearchResultsP
   };
 
   onDownloadResultsClicked = () => {
-    const file = createBlob(this.props.rawTraces);
-    const element = document.createElement('a');
-    element.href = URL.createObjectURL(file);
-    element.download = `traces-${Date.now()}.json`;
-    document.body.appendChild(element);
-    element.click();
-    URL.revokeObjectURL(element.href);
-    element.remove();
+    downloadFile(createBlob(this.props.rawTraces), `traces-${Date.now()}.json`);
   };
 
   render() {
@@ -141,10 +157,11 @@ export class UnconnectedSearchResults extends React.PureComponent<SearchResultsP
       showStandaloneLink,
       skipMessage,
       spanLinks,
-      traces,
+      traces: allTraces,
       sortBy,
       handleSortChange,
     } = this.props;
+    const { facetFilters } = this.state;
 
     const traceResultsView = queryString.parse(location.search).view !== 'ddg';
 
@@ -159,7 +176,7 @@ export class UnconnectedSearchResults extends React.PureComponent<SearchResultsP
         </React.Fragment>
       );
     }
-    if (!Array.isArray(traces) || !traces.length) {
+    if (!Array.isArray(allTraces) || !allTraces.length) {
       return (
         <React.Fragment key="no-results">
           {diffCohort.length > 0 && diffSelection}
@@ -171,75 +188,87 @@ export class UnconnectedSearchResults extends React.PureComponent<SearchResultsP
         </React.Fragment>
       );
     }
+    const traces = this.filterTraces(allTraces, facetFilters);
     const cohortIds = new Set(diffCohort.map(datum => datum.id));
     const searchUrl = queryOfResults ? getUrl(stripEmbeddedState(queryOfResults)) : getUrl();
-    const isErrorTag = ({ key, value }: KeyValuePair<string | boolean>) =>
-      key === 'error' && (value === true || value === 'true');
     return (
       <div className="SearchResults">
-        <div className="SearchResults--header">
-          {!hideGraph && traceResultsView && (
-            <div className="ub-p3 SearchResults--headerScatterPlot">
-              <ScatterPlot
-                data={traces.map(t => ({
-                  x: t.startTime,
-                  y: t.duration,
-                  traceID: t.traceID,
-                  size: t.spans.length,
-                  name: t.traceName,
-                  color: t.spans.some(sp => sp.tags.some(isErrorTag)) ? 'red' : '#12939A',
-                }))}
-                onValueClick={(t: Trace) => {
-                  goToTrace(t.traceID);
-                }}
-              />
-            </div>
-          )}
-          <div className="SearchResults--headerOverview">
-            <h2 className="ub-m0 u-flex-1">
-              {traces.length} Trace{traces.length > 1 && 's'}
-            </h2>
-            {traceResultsView && <SelectSort sortBy={sortBy} handleSortChange={handleSortChange} />}
-            {traceResultsView && <DownloadResults onDownloadResultsClicked={this.onDownloadResultsClicked} />}
-            <AltViewOptions traceResultsView={traceResultsView} onDdgViewClicked={this.onDdgViewClicked} />
-            {showStandaloneLink && (
-              <Link
-                className="u-tx-inherit ub-nowrap ub-ml3"
-                to={searchUrl}
-                target={getTargetEmptyOrBlank()}
-                rel="noopener noreferrer"
-              >
-                <NewWindowIcon isLarge />
-              </Link>
+        {traceResultsView && (
+          <TraceFacets filters={facetFilters} onChange={this.setFacetFilters} traces={allTraces} />
+        )}
+        <div className="SearchResults--content">
+          <div className="SearchResults--header">
+            {!hideGraph && traceResultsView && (
+              <div className="ub-p3 SearchResults--headerScatterPlot">
+                <ScatterPlot
+                  data={traces.map(t => ({
+                    x: t.startTime,
+                    y: t.duration,
+                    traceID: t.traceID,
+                    size: t.spans.length,
+                    name: t.traceName,
+                    color: hasError(t) ? 'red' : '#12939A',
+                  }))}
+                  onValueClick={(t: Trace) => {
+                    goToTrace(t.traceID);
+                  }}
+                />
+              </div>
             )}
+            <div className="SearchResults--headerOverview">
+              <h2 className="ub-m0 u-flex-1">
+                {traces.length !== allTraces.length && `${traces.length} of `}
+                {allTraces.length} Trace{allTraces.length > 1 && 's'}
+              </h2>
+              {traceResultsView && <SelectSort sortBy={sortBy} handleSortChange={handleSortChange} />}
+              {traceResultsView && (
+                <DownloadResults onDownloadResultsClicked={this.onDownloadResultsClicked} />
+              )}
+              <AltViewOptions traceResultsView={traceResultsView} onDdgViewClicked={this.onDdgViewClicked} />
+              {showStandaloneLink && (
+                <Link
+                  className="u-tx-inherit ub-nowrap ub-ml3"
+                  to={searchUrl}
+                  target={getTargetEmptyOrBlank()}
+                  rel="noopener noreferrer"
+                >
+                  <NewWindowIcon isLarge />
+                </Link>
+              )}
+            </div>
           </div>
+          {!traceResultsView && (
+            <div className="SearchResults--ddg-container">
+              <SearchResultsDDG location={location} history={history} />
+            </div>
+          )}
+          {traceResultsView && diffSelection}
+          {traceResultsView && !traces.length && (
+            <div className="u-simple-card" data-test={markers.NO_FILTERED_RESULTS}>
+              No traces match the selected filters.
+            </div>
+          )}
+          {traceResultsView && (
+            <ul className="ub-list-reset">
+              {traces.map(trace => (
+                <li className="ub-my3" key={trace.traceID}>
+                  <ResultItem
+                    durationPercent={getPercentageOfDuration(trace.duration, maxTraceDuration)}
+                    isInDiffCohort={cohortIds.has(trace.traceID)}
+                    linkTo={getLocation(
+                      trace.traceID,
+                      { fromSearch: searchUrl },
+                      spanLinks && (spanLinks[trace.traceID] || spanLinks[trace.traceID.replace(/^0*/, '')])
+                    )}
+                    toggleComparison={this.toggleComparison}
+                    trace={trace}
+                    disableComparision={disableComparisons}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
-        {!traceResultsView && (
-          <div className="SearchResults--ddg-container">
-            <SearchResultsDDG location={location} history={history} />
-          </div>
-        )}
-        {traceResultsView && diffSelection}
-        {traceResultsView && (
-          <ul className="ub-list-reset">
-            {traces.map(trace => (
-              <li className="ub-my3" key={trace.traceID}>
-                <ResultItem
-                  durationPercent={getPercentageOfDuration(trace.duration, maxTraceDuration)}
-                  isInDiffCohort={cohortIds.has(trace.traceID)}
-                  linkTo={getLocation(
-                    trace.traceID,
-                    { fromSearch: searchUrl },
-                    spanLinks && (spanLinks[trace.traceID] || spanLinks[trace.traceID.replace(/^0*/, '')])
-                  )}
-                  toggleComparison={this.toggleComparison}
-                  trace={trace}
-                  disableComparision={disableComparisons}
-                />
-              </li>
-            ))}
-          </ul>
-        )}
       </div>
     );
   }
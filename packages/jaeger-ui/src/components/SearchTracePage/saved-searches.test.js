@@ -0,0 +1,150 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import store from 'store';
+
+import {
+  addRecentSearch,
+  deleteSavedSearch,
+  describeSearch,
+  exportSavedSearches,
+  getRecentSearches,
+  getSavedSearches,
+  importSavedSearches,
+  saveSearch,
+  toSearchFields,
+  EXPORT_VERSION,
+  MAX_RECENT_SEARCHES,
+} from './saved-searches';
+
+function readText(blob) {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result);
+    reader.readAsText(blob);
+  });
+}
+
+const formData = {
+  service: 'frontend',
+  operation: 'HTTP GET',
+  tags: 'error=true',
+  lookback: '1h',
+  minDuration: '10ms',
+  maxDuration: null,
+  resultsLimit: 20,
+  startDate: '2026-01-01',
+  traceIDs: null,
+};
+
+describe('saved searches', () => {
+  beforeEach(() => {
+    store.clearAll();
+  });
+
+  describe('toSearchFields()', () => {
+    it('keeps the non-empty search fields as strings', () => {
+      expect(toSearchFields(formData)).toEqual({
+        service: 'frontend',
+        operation: 'HTTP GET',
+        tags: 'error=true',
+        lookback: '1h',
+        minDuration: '10ms',
+        resultsLimit: '20',
+      });
+    });
+
+    it('keeps the time range of custom lookbacks', () => {
+      expect(toSearchFields({ ...formData, lookback: 'custom' }).startDate).toBe('2026-01-01');
+    });
+  });
+
+  describe('describeSearch()', () => {
+    it('summarizes the search', () => {
+      expect(describeSearch(toSearchFields(formData))).toBe('frontend: HTTP GET, 1h, 10ms - ∞, error=true');
+      expect(describeSearch({ service: 'frontend', operation: 'all', lookback: '2d' })).toBe('frontend, 2d');
+      expect(
+        describeSearch({ service: 'svc', lookback: 'custom', startDate: '2026-01-01', endDate: '2026-01-02' })
+      ).toBe('svc, 2026-01-01 - 2026-01-02');
+    });
+  });
+
+  describe('addRecentSearch()', () => {
+    it('adds searches first, without duplicates', () => {
+      addRecentSearch(formData);
+      addRecentSearch({ ...formData, service: 'cart' });
+      addRecentSearch(formData);
+      expect(getRecentSearches().map(search => search.fields.service)).toEqual(['frontend', 'cart']);
+    });
+
+    it('keeps the most recent searches', () => {
+      for (let i = 0; i < MAX_RECENT_SEARCHES + 2; i++) {
+        addRecentSearch({ ...formData, resultsLimit: i });
+      }
+      const recent = getRecentSearches();
+      expect(recent.length).toBe(MAX_RECENT_SEARCHES);
+      expect(recent[0].fields.resultsLimit).toBe(String(MAX_RECENT_SEARCHES + 1));
+    });
+  });
+
+  describe('saveSearch()', () => {
+    it('saves searches by name', () => {
+      saveSearch(' slow ', formData);
+      saveSearch('errors', { ...formData, minDuration: null });
+      saveSearch('slow', { ...formData, minDuration: '1s' });
+      const saved = getSavedSearches();
+      expect(saved.map(search => search.name)).toEqual(['errors', 'slow']);
+      expect(saved[1].fields.minDuration).toBe('1s');
+    });
+
+    it('requires a name', () => {
+      expect(() => saveSearch('  ', formData)).toThrow('A saved search needs a name');
+    });
+  });
+
+  it('deletes saved searches', () => {
+    saveSearch('a', formData);
+    saveSearch('b', formData);
+    expect(deleteSavedSearch('a').map(search => search.name)).toEqual(['b']);
+    expect(getSavedSearches().map(search => search.name)).toEqual(['b']);
+  });
+
+  describe('import and export', () => {
+    it('imports exported searches', async () => {
+      saveSearch('a', formData);
+      saveSearch('b', { ...formData, service: 'cart' });
+      const exported = await readText(exportSavedSearches());
+      expect(JSON.parse(exported).version).toBe(EXPORT_VERSION);
+
+      store.clearAll();
+      saveSearch('b', formData);
+      saveSearch('c', formData);
+      const saved = importSavedSearches(exported);
+      expect(saved.map(({ name, fields }) => [name, fields.service])).toEqual([
+        ['a', 'frontend'],
+        ['b', 'cart'],
+        ['c', 'frontend'],
+      ]);
+      expect(getSavedSearches()).toEqual(saved);
+    });
+
+    it('rejects invalid files', () => {
+      expect(() => importSavedSearches('{')).toThrow('Invalid saved searches file');
+      expect(() => importSavedSearches('{}')).toThrow('expected a list of "savedSearches"');
+      expect(() => importSavedSearches('{"savedSearches":[{"name":"a"}]}')).toThrow(
+        'search #1 needs a name and fields'
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import _isEqual from 'lodash/isEqual';
+import _pick from 'lodash/pick';
+// @ts-ignore
+import store from 'store';
+
+export const RECENT_SEARCHES_KEY = 'recentSearches';
+export const SAVED_SEARCHES_KEY = 'savedSearches';
+export const MAX_RECENT_SEARCHES = 10;
+// version of the format of exported saved searches
+export const EXPORT_VERSION = 1;
+
+// the search form fields kept in saved and recent searches
+const SEARCH_FIELDS = [
+  'service',
+  'operation',
+  'tags',
+  'lookback',
+  'minDuration',
+  'maxDuration',
+  'resultsLimit',
+] as const;
+// only kept when the lookback is a custom time range
+const TIME_RANGE_FIELDS = ['startDate', 'startDateTime', 'endDate', 'endDateTime'] as const;
+
+export type TSearchFields = Partial<
+  Record<(typeof SEARCH_FIELDS)[number] | (typeof TIME_RANGE_FIELDS)[number], string | null>
+>;
+
+export type TSavedSearch = {
+  name: string;
+  fields: TSearchFields;
+  savedAt: number;
+};
+
+export type TRecentSearch = {
+  fields: TSearchFields;
+  searchedAt: number;
+};
+
+// exported for tests
+export function toSearchFields(formData: Record<string, unknown>): TSearchFields {
+  const keys: string[] = [...SEARCH_FIELDS];
+  if (formData.lookback === 'custom') {
+    keys.push(...TIME_RANGE_FIELDS);
+  }
+  const fields: TSearchFields = {};
+  Object.entries(_pick(formData, keys)).forEach(([key, value]) => {
+    if (value != null && value !== '') {
+      fields[key as keyof TSearchFields] = String(value);
+    }
+  });
+  return fields;
+}
+
+/**
+ * A one-line summary of a search, e.g. `frontend: HTTP GET, 1h, error=true`.
+ */
+export function describeSearch(fields: TSearchFields) {
+  const { service, operation, tags, lookback, minDuration, maxDuration } = fields;
+  const parts = [operation && operation !== 'all' ? `${service}: ${operation}` : service];
+  parts.push(lookback === 'custom' ? `${fields.startDate} - ${fields.endDate}` : lookback);
+  if (minDuration || maxDuration) {
+    parts.push(`${minDuration || '0'} - ${maxDuration || '∞'}`);
+  }
+  parts.push(tags);
+  return parts.filter(Boolean).join(', ');
+}
+
+export function getRecentSearches(): TRecentSearch[] {
+  return store.get(RECENT_SEARCHES_KEY) || [];
+}
+
+/**
+ * Records a submitted search, most recent first. Searching again with the same
+ * fields moves the search to the top instead of adding a duplicate.
+ */
+export function addRecentSearch(formData: Record<string, unknown>) {
+  const fields = toSearchFields(formData);
+  const others = getRecentSearches().filter(search => !_isEqual(search.fields, fields));
+  const recent = [{ fields, searchedAt: Date.now() }, ...others].slice(0, MAX_RECENT_SEARCHES);
+  store.set(RECENT_SEARCHES_KEY, recent);
+  return recent;
+}
+
+export function getSavedSearches(): TSavedSearch[] {
+  return store.get(SAVED_SEARCHES_KEY) || [];
+}
+
+function setSavedSearches(savedSearches: TSavedSearch[]) {
+  const sorted = savedSearches.slice().sort((a, b) => a.name.localeCompare(b.name));
+  store.set(SAVED_SEARCHES_KEY, sorted);
+  return sorted;
+}
+
+/**
+ * Saves the search under the given name, replacing the search of that name, if any.
+ */
+export function saveSearch(name: string, formData: Record<string, unknown>) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('A saved search needs a name');
+  }
+  const others = getSavedSearches().filter(search => search.name !== trimmed);
+  return setSavedSearches([
+    ...others,
+    { name: trimmed, fields: toSearchFields(formData), savedAt: Date.now() },
+  ]);
+}
+
+export function deleteSavedSearch(name: string) {
+  return setSavedSearches(getSavedSearches().filter(search => search.name !== name));
+}
+
+export function exportSavedSearches() {
+  const data = { version: EXPORT_VERSION, savedSearches: getSavedSearches() };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Adds the saved searches of a file created by `exportSavedSearches()`. Imported
+ * searches replace the saved searches of the same name.
+ */
+export function importSavedSearches(json: string) {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid saved searches file: ${(error as Error).message}`);
+  }
+  const imported = data && data.savedSearches;
+  if (!Array.isArray(imported)) {
+    throw new Error('Invalid saved searches file: expected a list of "savedSearches"');
+  }
+  const now = Date.now();
+  const searches: TSavedSearch[] = imported.map((search: unknown, i: number) => {
+    const { name, fields, savedAt } = (search || {}) as Partial<TSavedSearch>;
+    if (typeof name !== 'string' || !name.trim() || !fields || typeof fields !== 'object') {
+      throw new Error(`Invalid saved searches file: search #${i + 1} needs a name and fields`);
+    }
+    return { name: name.trim(), fields: toSearchFields(fields), savedAt: Number(savedAt) || now };
+  });
+  const names = new Set(searches.map(search => search.name));
+  const others = getSavedSearches().filter(search => !names.has(search.name));
+  return setSavedSearches([...others, ...searches]);
+}
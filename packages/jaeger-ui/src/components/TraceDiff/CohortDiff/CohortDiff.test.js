@@ -0,0 +1,139 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import store from 'store';
+
+import { CohortDiffImpl, getSearchOptions } from './CohortDiff';
+import { getUrl, ROUTE_PATH } from './url';
+import JaegerAPI from '../../../api/jaeger';
+
+jest.mock('./CohortDiffGraph', () => props => (
+  <div data-testid="cohort-diff-graph">
+    {props.a.length} vs {props.b.length}
+  </div>
+));
+jest.mock('../../common/ErrorMessage', () => props => (
+  <div data-testid="error-message">{props.error.message}</div>
+));
+jest.mock('../../common/LoadingIndicator', () => () => <div data-testid="loading-indicator" />);
+
+describe('CohortDiff', () => {
+  const baseline = { service: 'svc', lookback: '1h' };
+  const candidate = { service: 'svc', lookback: '2h' };
+  const rawTrace = traceID => ({
+    traceID,
+    processes: { p1: { serviceName: 'svc', tags: [] } },
+    spans: [
+      {
+        traceID,
+        spanID: 'span',
+        operationName: 'op',
+        processID: 'p1',
+        references: [],
+        startTime: 1,
+        duration: 10,
+        tags: [],
+        logs: [],
+      },
+    ],
+  });
+  const location = state => ({ search: getUrl(state).slice(ROUTE_PATH.length) });
+  let history;
+  let searchTraces;
+
+  beforeEach(() => {
+    store.clearAll();
+    history = { push: jest.fn() };
+    // a pending search by default
+    searchTraces = jest.spyOn(JaegerAPI, 'searchTraces').mockReturnValue(new Promise(() => {}));
+  });
+
+  afterEach(() => {
+    searchTraces.mockRestore();
+  });
+
+  it('asks for two searches when one is missing', () => {
+    render(<CohortDiffImpl history={history} location={location({ baseline })} />);
+    expect(screen.getByTestId('cohort-diff-empty-state')).toBeInTheDocument();
+    expect(searchTraces).toHaveBeenCalledTimes(1);
+  });
+
+  it('searches the traces of both cohorts and renders their diff', async () => {
+    searchTraces.mockImplementation(({ lookback }) =>
+      Promise.resolve({ data: lookback === '1h' ? [rawTrace('a')] : [rawTrace('b'), rawTrace('c')] })
+    );
+    render(<CohortDiffImpl history={history} location={location({ baseline, candidate })} />);
+    expect(screen.getByTestId('loading-indicator')).toBeInTheDocument();
+    expect(searchTraces).toHaveBeenCalledWith(expect.objectContaining({ service: 'svc', lookback: '1h' }));
+    expect(searchTraces).toHaveBeenCalledWith(expect.objectContaining({ service: 'svc', lookback: '2h' }));
+    expect(await screen.findByTestId('cohort-diff-graph')).toHaveTextContent('1 vs 2');
+    expect(screen.getByTestId('Baseline-trace-count')).toHaveTextContent('1 trace');
+    expect(screen.getByTestId('Candidate-trace-count')).toHaveTextContent('2 traces');
+  });
+
+  it('renders the errors of the searches', async () => {
+    searchTraces.mockImplementation(({ lookback }) =>
+      lookback === '1h' ? Promise.resolve({ data: [] }) : Promise.reject(new Error('candidate failed'))
+    );
+    render(<CohortDiffImpl history={history} location={location({ baseline, candidate })} />);
+    expect(await screen.findByTestId('error-message')).toHaveTextContent('candidate failed');
+  });
+
+  it('tells which search found no traces', async () => {
+    searchTraces.mockImplementation(({ lookback }) =>
+      Promise.resolve({ data: lookback === '1h' ? [] : [rawTrace('b')] })
+    );
+    render(<CohortDiffImpl history={history} location={location({ baseline, candidate })} />);
+    expect(await screen.findByTestId('cohort-diff-no-traces')).toHaveTextContent(
+      'No traces found for the baseline search'
+    );
+  });
+
+  it('searches again when a search changes', async () => {
+    searchTraces.mockResolvedValue({ data: [rawTrace('a')] });
+    const { rerender } = render(
+      <CohortDiffImpl history={history} location={location({ baseline, candidate })} />
+    );
+    await screen.findByTestId('cohort-diff-graph');
+    const newCandidate = { ...candidate, tags: 'error=true' };
+    rerender(<CohortDiffImpl history={history} location={location({ baseline, candidate: newCandidate })} />);
+    await waitFor(() => expect(searchTraces).toHaveBeenCalledTimes(3));
+    expect(searchTraces).toHaveBeenLastCalledWith(expect.objectContaining({ tags: '{"error":"true"}' }));
+  });
+
+  describe('getSearchOptions()', () => {
+    it('lists saved and recent searches once', () => {
+      store.set('savedSearches', [{ name: 'before', fields: baseline, savedAt: 1 }]);
+      store.set('recentSearches', [
+        { fields: baseline, searchedAt: 2 },
+        { fields: candidate, searchedAt: 1 },
+      ]);
+      expect(getSearchOptions(undefined)).toEqual([
+        { label: 'Saved', options: [{ label: 'before', value: JSON.stringify(baseline) }] },
+        { label: 'Recent', options: [{ label: 'svc, 2h', value: JSON.stringify(candidate) }] },
+      ]);
+    });
+
+    it('lists the current search when it is neither saved nor recent', () => {
+      const [current] = getSearchOptions(candidate);
+      expect(current).toEqual({
+        label: 'Current',
+        options: [{ label: 'svc, 2h', value: JSON.stringify(candidate) }],
+      });
+    });
+  });
+});
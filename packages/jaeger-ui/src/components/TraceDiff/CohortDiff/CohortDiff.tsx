@@ -0,0 +1,218 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Select } from 'antd';
+import { History as RouterHistory, Location } from 'history';
+import _isEqual from 'lodash/isEqual';
+
+import CohortDiffGraph from './CohortDiffGraph';
+import { getUrl, getUrlState, TCohortDiffUrlState } from './url';
+import JaegerAPI from '../../../api/jaeger';
+import ErrorMessage from '../../common/ErrorMessage';
+import LoadingIndicator from '../../common/LoadingIndicator';
+import { getSearchQuery } from '../../SearchTracePage/SearchForm';
+import {
+  describeSearch,
+  getRecentSearches,
+  getSavedSearches,
+  TSearchFields,
+} from '../../SearchTracePage/saved-searches';
+import transformTraceData from '../../../model/transform-trace-data';
+import { Trace } from '../../../types/trace';
+import withRouteProps from '../../../utils/withRouteProps';
+
+import './CohortDiff.css';
+
+type TCohortSide = 'baseline' | 'candidate';
+
+type TCohort = {
+  error?: Error;
+  traces?: Trace[];
+};
+
+type TProps = {
+  history: RouterHistory;
+  location: Location;
+};
+
+type TState = Record<TCohortSide, TCohort>;
+
+type TCohortSelectProps = {
+  fields: TSearchFields | undefined;
+  label: string;
+  onChange: (fields: TSearchFields) => void;
+  traceCount: number | undefined;
+};
+
+const SIDES: TCohortSide[] = ['baseline', 'candidate'];
+
+// exported for tests
+export function getSearchOptions(current: TSearchFields | undefined) {
+  const seen = new Set<string>();
+  const toOption = (fields: TSearchFields, label: string) => {
+    const value = JSON.stringify(fields);
+    if (seen.has(value)) return null;
+    seen.add(value);
+    return { label, value };
+  };
+  const saved = getSavedSearches().map(({ fields, name }) => toOption(fields, name));
+  const recent = getRecentSearches().map(({ fields }) => toOption(fields, describeSearch(fields)));
+  const groups = [
+    { label: 'Saved', options: saved.filter(Boolean) },
+    { label: 'Recent', options: recent.filter(Boolean) },
+  ];
+  // a search from a shared link may be neither saved nor recent
+  const other = current && toOption(current, describeSearch(current));
+  return other ? [{ label: 'Current', options: [other] }, ...groups] : groups;
+}
+
+function CohortSelect(props: TCohortSelectProps) {
+  const { fields, label, onChange, traceCount } = props;
+  const options = React.useMemo(() => getSearchOptions(fields), [fields]);
+  return (
+    <label className="CohortDiff--select">
+      <span className="CohortDiff--selectLabel">{label}</span>
+      <Select
+        className="u-flex-1"
+        onChange={(value: string) => onChange(JSON.parse(value))}
+        options={options}
+        placeholder="Choose a saved or recent search"
+        value={fields && JSON.stringify(fields)}
+      />
+      {traceCount !== undefined && (
+        <span className="CohortDiff--traceCount" data-testid={`${label}-trace-count`}>
+          {traceCount} {traceCount === 1 ? 'trace' : 'traces'}
+        </span>
+      )}
+    </label>
+  );
+}
+
+/**
+ * Compares the results of two searches, e.g. before and after a deploy: the
+ * traces of each search are merged into a DAG, and the nodes of the diff have
+ * the change of their spans per trace, durations and error rate.
+ */
+export class CohortDiffImpl extends React.PureComponent<TProps, TState> {
+  state: TState = {
+    baseline: {},
+    candidate: {},
+  };
+
+  componentDidMount() {
+    SIDES.forEach(side => this.fetchCohort(side));
+  }
+
+  componentDidUpdate(prevProps: TProps) {
+    const prev = getUrlState(prevProps.location.search);
+    const next = getUrlState(this.props.location.search);
+    SIDES.forEach(side => {
+      if (!_isEqual(prev[side], next[side])) {
+        this.fetchCohort(side);
+      }
+    });
+  }
+
+  setCohort(side: TCohortSide, cohort: TCohort) {
+    this.setState({ [side]: cohort } as Pick<TState, TCohortSide>);
+  }
+
+  fetchCohort(side: TCohortSide) {
+    const fields = getUrlState(this.props.location.search)[side];
+    if (!fields) {
+      this.setCohort(side, {});
+      return;
+    }
+    this.setCohort(side, {});
+    JaegerAPI.searchTraces(getSearchQuery(fields))
+      .then(({ data }: { data: Parameters<typeof transformTraceData>[0][] }) => {
+        // the search may have changed while it was running
+        if (!_isEqual(fields, getUrlState(this.props.location.search)[side])) return;
+        const traces = data.map(transformTraceData).filter(Boolean) as Trace[];
+        this.setCohort(side, { traces });
+      })
+      .catch((error: Error) => {
+        if (!_isEqual(fields, getUrlState(this.props.location.search)[side])) return;
+        this.setCohort(side, { error });
+      });
+  }
+
+  setSearch(side: TCohortSide, fields: TSearchFields) {
+    const { history, location } = this.props;
+    const state: TCohortDiffUrlState = { ...getUrlState(location.search), [side]: fields };
+    history.push(getUrl(state));
+  }
+
+  renderContent() {
+    const { baseline, candidate } = this.state;
+    const { baseline: baselineFields, candidate: candidateFields } = getUrlState(this.props.location.search);
+    if (!baselineFields || !candidateFields) {
+      return (
+        <div className="CohortDiff--message" data-testid="cohort-diff-empty-state">
+          <h2>Choose a baseline and a candidate search</h2>
+          <p>
+            The traces found by each search are merged, and the graph shows how the spans per trace, durations
+            and errors changed from the baseline to the candidate.
+          </p>
+        </div>
+      );
+    }
+    if (baseline.error || candidate.error) {
+      return (
+        <div className="CohortDiff--message">
+          {baseline.error && <ErrorMessage className="ub-my4" error={baseline.error} />}
+          {candidate.error && <ErrorMessage className="ub-my4" error={candidate.error} />}
+        </div>
+      );
+    }
+    if (!baseline.traces || !candidate.traces) {
+      return <LoadingIndicator className="u-mt-vast" centered />;
+    }
+    if (!baseline.traces.length || !candidate.traces.length) {
+      return (
+        <div className="CohortDiff--message" data-testid="cohort-diff-no-traces">
+          <h2>No traces found for the {baseline.traces.length ? 'candidate' : 'baseline'} search</h2>
+        </div>
+      );
+    }
+    // `key` is necessary to see updates to the graph when a search changes
+    return <CohortDiffGraph key={this.props.location.search} a={baseline.traces} b={candidate.traces} />;
+  }
+
+  render() {
+    const { baseline, candidate } = getUrlState(this.props.location.search);
+    return (
+      <div className="CohortDiff">
+        <div className="CohortDiff--header">
+          <CohortSelect
+            fields={baseline}
+            label="Baseline"
+            onChange={fields => this.setSearch('baseline', fields)}
+            traceCount={this.state.baseline.traces && this.state.baseline.traces.length}
+          />
+          <CohortSelect
+            fields={candidate}
+            label="Candidate"
+            onChange={fields => this.setSearch('candidate', fields)}
+            traceCount={this.state.candidate.traces && this.state.candidate.traces.length}
+          />
+        </div>
+        <div className="CohortDiff--graphWrapper">{this.renderContent()}</div>
+      </div>
+    );
+  }
+}
+
+export default withRouteProps(CohortDiffImpl);
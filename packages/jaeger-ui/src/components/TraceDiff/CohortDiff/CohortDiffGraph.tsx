@@ -0,0 +1,79 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { cacheAs, Digraph, LayoutManager } from '@jaegertracing/plexus';
+import memoizeOne from 'memoize-one';
+
+import renderCohortNode from './renderCohortNode';
+import cohortDiff from '../../../model/trace-dag/cohortDiff';
+import convPlexus from '../../../model/trace-dag/convPlexus';
+import { Trace } from '../../../types/trace';
+
+type TProps = {
+  a: Trace[];
+  b: Trace[];
+};
+
+const { classNameIsSmall, scaleOpacity, scaleStrokeOpacity } = Digraph.propsFactories;
+
+const getEdgesAndVertices = memoizeOne((a: Trace[], b: Trace[]) => convPlexus(cohortDiff(a, b).nodesMap));
+
+export default class CohortDiffGraph extends React.PureComponent<TProps> {
+  layoutManager = new LayoutManager({ useDotEdges: true, splines: 'polyline' });
+
+  cacheAs = cacheAs.makeScope();
+
+  componentWillUnmount() {
+    this.layoutManager.stopAndRelease();
+  }
+
+  render() {
+    const { a, b } = this.props;
+    const { edges, vertices } = getEdgesAndVertices(a, b);
+    return (
+      <Digraph
+        minimap
+        zoom
+        className="CohortDiff--dag"
+        minimapClassName="u-miniMap"
+        layoutManager={this.layoutManager}
+        measurableNodesKey="nodes"
+        layers={[
+          {
+            key: 'edges',
+            layerType: 'svg',
+            edges: true,
+            defs: [{ localId: 'arrow' }],
+            markerEndId: 'arrow',
+            setOnContainer: this.cacheAs('edges/container', [
+              scaleOpacity,
+              scaleStrokeOpacity,
+              { stroke: '#444' },
+            ]),
+          },
+          {
+            renderNode: renderCohortNode,
+            key: 'nodes',
+            measurable: true,
+            layerType: 'html',
+          },
+        ]}
+        setOnGraph={[classNameIsSmall, { style: { position: 'static' } }]}
+        edges={edges}
+        vertices={vertices}
+      />
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import renderCohortNode, { CohortDiffNode, formatDelta } from './renderCohortNode';
+
+describe('renderCohortNode', () => {
+  const a = { count: 4, countPerTrace: 2, meanDuration: 1000, p95Duration: 2000, errorRate: 0 };
+  const b = { count: 9, countPerTrace: 3, meanDuration: 1500, p95Duration: 3000, errorRate: 0.25 };
+  const baseProps = { a, b, operation: 'op', service: 'svc' };
+
+  describe('formatDelta()', () => {
+    it('is empty without a change', () => {
+      expect(formatDelta(1, 1, String)).toBe('');
+    });
+
+    it('signs the change', () => {
+      expect(formatDelta(1, 3, String)).toBe('+2');
+      expect(formatDelta(3, 1, String)).toBe('-2');
+    });
+  });
+
+  describe('CohortDiffNode', () => {
+    it('renders the metrics of both cohorts and their change', () => {
+      render(<CohortDiffNode {...baseProps} />);
+      expect(screen.getByText('svc')).toBeInTheDocument();
+      expect(screen.getByText('op')).toBeInTheDocument();
+      const count = screen.getByTestId('cohort-metric-countPerTrace');
+      expect(count).toHaveTextContent('Spans per trace23+1');
+      expect(screen.getByTestId('cohort-metric-p95Duration')).toHaveTextContent('p952ms3ms+1ms');
+      expect(screen.getByTestId('cohort-metric-errorRate')).toHaveTextContent('Errors0%25%+25%');
+    });
+
+    it('flags slower and faster nodes by their p95 duration', () => {
+      const { container, rerender } = render(<CohortDiffNode {...baseProps} />);
+      expect(container.firstChild).toHaveClass('is-slower');
+      rerender(<CohortDiffNode {...baseProps} a={b} b={a} />);
+      expect(container.firstChild).toHaveClass('is-faster');
+    });
+
+    it('flags nodes of only one cohort', () => {
+      const { container, rerender } = render(<CohortDiffNode {...baseProps} a={null} />);
+      expect(container.firstChild).toHaveClass('is-added');
+      expect(screen.getByTestId('cohort-metric-meanDuration')).toHaveTextContent('Mean—1.5ms');
+      rerender(<CohortDiffNode {...baseProps} b={null} />);
+      expect(container.firstChild).toHaveClass('is-removed');
+    });
+  });
+
+  it('renders the data of the vertex', () => {
+    render(renderCohortNode({ key: 'key', data: baseProps }));
+    expect(screen.getByRole('table')).toHaveClass('CohortDiffNode');
+  });
+});
@@ -0,0 +1,100 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import cx from 'classnames';
+
+import { TCohortDiffStats, TCohortStats } from '../../../model/trace-dag/types';
+import TDagPlexusVertex from '../../../model/trace-dag/types/TDagPlexusVertex';
+import { formatDuration } from '../../../utils/date';
+
+import './renderCohortNode.css';
+
+type TProps = {
+  a: TCohortStats | null;
+  b: TCohortStats | null;
+  operation: string;
+  service: string;
+};
+
+type TMetric = {
+  key: keyof TCohortStats;
+  label: string;
+  format: (value: number) => string;
+};
+
+const formatCount = (value: number) => String(Math.round(value * 100) / 100);
+const formatRate = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: TMetric[] = [
+  { key: 'countPerTrace', label: 'Spans per trace', format: formatCount },
+  { key: 'meanDuration', label: 'Mean', format: formatDuration },
+  { key: 'p95Duration', label: 'p95', format: formatDuration },
+  { key: 'errorRate', label: 'Errors', format: formatRate },
+];
+
+// exported for tests
+export function formatDelta(a: number, b: number, format: (value: number) => string) {
+  if (a === b) {
+    return '';
+  }
+  return `${b > a ? '+' : '-'}${format(Math.abs(b - a))}`;
+}
+
+/**
+ * A node of the cohort diff: the spans per trace, durations and error rate of
+ * the node in the baseline and in the candidate, with their change.
+ */
+export function CohortDiffNode(props: TProps) {
+  const { a, b, operation, service } = props;
+  const className = cx('CohortDiffNode', {
+    'is-added': !a,
+    'is-removed': !b,
+    'is-slower': a && b && b.p95Duration > a.p95Duration,
+    'is-faster': a && b && b.p95Duration < a.p95Duration,
+  });
+  return (
+    <table className={className}>
+      <thead>
+        <tr>
+          <th className="CohortDiffNode--label" colSpan={4}>
+            <strong>{service}</strong>
+            <div>{operation}</div>
+          </th>
+        </tr>
+      </thead>
+      <tbody className="CohortDiffNode--body">
+        <tr className="CohortDiffNode--columns">
+          <td />
+          <td>Baseline</td>
+          <td>Candidate</td>
+          <td>Change</td>
+        </tr>
+        {METRICS.map(({ key, label, format }) => (
+          <tr key={key} data-testid={`cohort-metric-${key}`}>
+            <td className="CohortDiffNode--metricLabel">{label}</td>
+            <td>{a ? format(a[key]) : '—'}</td>
+            <td>{b ? format(b[key]) : '—'}</td>
+            <td className="CohortDiffNode--delta">{a && b ? formatDelta(a[key], b[key], format) : null}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function renderCohortNode(vertex: TDagPlexusVertex<TCohortDiffStats>) {
+  const { a, b, operation, service } = vertex.data;
+  return <CohortDiffNode a={a} b={b} operation={operation} service={service} />;
+}
@@ -0,0 +1,64 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as reactRouterDom from 'react-router-dom';
+
+import { ROUTE_PATH, matches, getUrl, getUrlState } from './url';
+
+jest.mock('react-router-dom', () => ({
+  matchPath: jest.fn(),
+}));
+
+describe('CohortDiff/url', () => {
+  const baseline = { service: 'svc', lookback: '1h' };
+  const candidate = { service: 'svc', lookback: '2h', tags: 'error=true' };
+
+  describe('matches', () => {
+    it("returns truthiness of matchPath's return value", () => {
+      const matchPathSpy = jest.spyOn(reactRouterDom, 'matchPath');
+      matchPathSpy.mockReturnValueOnce(null);
+      expect(matches('path')).toBe(false);
+      matchPathSpy.mockReturnValueOnce({});
+      expect(matches('path')).toBe(true);
+      expect(matchPathSpy).toHaveBeenLastCalledWith('path', { path: ROUTE_PATH, strict: true, exact: true });
+    });
+  });
+
+  describe('getUrl', () => {
+    it('handles an absent state', () => {
+      expect(getUrl()).toBe(ROUTE_PATH);
+    });
+
+    it('keeps the searches in the query', () => {
+      const url = getUrl({ baseline });
+      expect(url).toBe(`${ROUTE_PATH}?baseline=${encodeURIComponent(JSON.stringify(baseline))}`);
+    });
+  });
+
+  describe('getUrlState', () => {
+    it('round-trips the searches of getUrl', () => {
+      const search = getUrl({ baseline, candidate }).slice(ROUTE_PATH.length);
+      expect(getUrlState(search)).toEqual({ baseline, candidate });
+    });
+
+    it('ignores invalid searches', () => {
+      expect(getUrlState('?baseline=not-json&candidate=42')).toEqual({});
+    });
+
+    it('drops unknown fields', () => {
+      const search = `?baseline=${encodeURIComponent(JSON.stringify({ ...baseline, other: 'x' }))}`;
+      expect(getUrlState(search)).toEqual({ baseline });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+import queryString from 'query-string';
+import { matchPath } from 'react-router-dom';
+
+import { toSearchFields, TSearchFields } from '../../SearchTracePage/saved-searches';
+import prefixUrl from '../../../utils/prefix-url';
+
+export const ROUTE_PATH = prefixUrl('/cohort-diff');
+
+const ROUTE_MATCHER = { path: ROUTE_PATH, strict: true, exact: true };
+
+export type TCohortDiffUrlState = {
+  baseline?: TSearchFields;
+  candidate?: TSearchFields;
+};
+
+export function matches(path: string) {
+  return Boolean(matchPath(path, ROUTE_MATCHER));
+}
+
+export function getUrl(state: TCohortDiffUrlState = {}) {
+  const { baseline, candidate } = state;
+  const search = queryString.stringify({
+    baseline: baseline && JSON.stringify(baseline),
+    candidate: candidate && JSON.stringify(candidate),
+  });
+  return `${ROUTE_PATH}${search ? '?' : ''}${search}`;
+}
+
+function parseFields(param: string | (string | null)[] | null | undefined): TSearchFields | undefined {
+  const value = Array.isArray(param) ? param[0] : param;
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const fields = JSON.parse(value);
+    return fields && typeof fields === 'object' ? toSearchFields(fields) : undefined;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+export const getUrlState = memoizeOne(function getUrlState(search: string): TCohortDiffUrlState {
+  const { baseline, candidate } = queryString.parse(search);
+  const rv: TCohortDiffUrlState = {};
+  const baselineFields = parseFields(baseline);
+  const candidateFields = parseFields(candidate);
+  if (baselineFields) rv.baseline = baselineFields;
+  if (candidateFields) rv.candidate = candidateFields;
+  return rv;
+});
@@ -18,7 +18,9 @@ import queryString from 'query-string';
 import * as redux from 'redux';
 
 import { mapStateToProps, mapDispatchToProps, TraceDiffImpl } from './TraceDiff';
+import TraceDiffGraph from './TraceDiffGraph';
 import TraceDiffHeader from './TraceDiffHeader';
+import { MODE_COUNT, MODE_TIME } from './TraceDiffGraph/renderNode';
 import { actions as diffActions } from './duck';
 import * as TraceDiffUrl from './url';
 import * as jaegerApiActions from '../../actions/jaeger-api';
@@ -187,6 +189,13 @@ describe('TraceDiff', () => {
     expect(historyPushMock).toHaveBeenCalledTimes(4);
   });
 
+  it('compares the nodes by the mode selected in TraceDiffHeader', () => {
+    expect(wrapper.find(TraceDiffGraph).prop('mode')).toBe(MODE_COUNT);
+    wrapper.find(TraceDiffHeader).prop('setMode')(MODE_TIME);
+    expect(wrapper.find(TraceDiffHeader).prop('mode')).toBe(MODE_TIME);
+    expect(wrapper.find(TraceDiffGraph).prop('mode')).toBe(MODE_TIME);
+  });
+
   describe('render', () => {
     it('renders as expected', () => {
       expect(wrapper).toMatchSnapshot();
@@ -20,6 +20,7 @@ import { bindActionCreators, Dispatch } from 'redux';
 import { actions as diffActions } from './duck';
 import { getUrl, TDiffRouteParams } from './url';
 import TraceDiffGraph from './TraceDiffGraph';
+import { MODE_COUNT } from './TraceDiffGraph/renderNode';
 import TraceDiffHeader from './TraceDiffHeader';
 import * as jaegerApiActions from '../../actions/jaeger-api';
 import { TOP_NAV_HEIGHT } from '../../constants';
@@ -51,6 +52,8 @@ type TOwnProps = {
 
 type TState = {
   graphTopOffset: number;
+  // the metric compared by the nodes of the graph
+  mode: string;
 };
 
 function syncStates(
@@ -80,6 +83,7 @@ function syncStates(
 export class TraceDiffImpl extends React.PureComponent<TStateProps & TDispatchProps & TOwnProps, TState> {
   state = {
     graphTopOffset: TOP_NAV_HEIGHT,
+    mode: MODE_COUNT,
   };
 
   headerWrapperElm: HTMLDivElement | TNil = null;
@@ -136,9 +140,13 @@ export class TraceDiffImpl extends React.PureComponent<TStateProps & TDispatchPr
     this.diffSetUrl({ newB });
   };
 
+  setMode = (mode: string) => {
+    this.setState({ mode });
+  };
+
   render() {
     const { a, b, cohort, tracesData } = this.props;
-    const { graphTopOffset } = this.state;
+    const { graphTopOffset, mode } = this.state;
     const traceA = a ? tracesData.get(a) || { id: a } : null;
     const traceB = b ? tracesData.get(b) || { id: b } : null;
     const cohortData: FetchedTrace[] = cohort.map(id => tracesData.get(id) || { id });
@@ -152,10 +160,12 @@ export class TraceDiffImpl extends React.PureComponent<TStateProps & TDispatchPr
             cohort={cohortData}
             diffSetA={this.diffSetA}
             diffSetB={this.diffSetB}
+            mode={mode}
+            setMode={this.setMode}
           />
         </div>
         <div key="graph" className="TraceDiff--graphWrapper" style={{ top: graphTopOffset }}>
-          <TraceDiffGraph a={traceA} b={traceB} />
+          <TraceDiffGraph a={traceA} b={traceB} mode={mode} />
         </div>
       </React.Fragment>
     );
@@ -21,7 +21,7 @@ import { getConfigValue } from '../../../utils/config/get-config';
 import { getTargetEmptyOrBlank } from '../../../utils/config/get-target';
 import prefixUrl from '../../../utils/prefix-url';
 
-import renderNode, { getNodeEmphasisRenderer } from './renderNode';
+import { getNodeEmphasisRenderer, getNodeRenderer, MODE_COUNT } from './renderNode';
 import { getUiFindVertexKeys, getEdgesAndVertices } from './traceDiffGraphUtils';
 import ErrorMessage from '../../common/ErrorMessage';
 import LoadingIndicator from '../../common/LoadingIndicator';
@@ -34,6 +34,8 @@ import './TraceDiffGraph.css';
 type Props = {
   a: FetchedTrace | TNil;
   b: FetchedTrace | TNil;
+  // the metric compared by the nodes, defaults to the span count
+  mode?: string;
 } & TExtractUiFindFromStateReturn;
 
 const { classNameIsSmall, scaleOpacity, scaleStrokeOpacity } = Digraph.propsFactories;
@@ -48,7 +50,7 @@ export class UnconnectedTraceDiffGraph extends React.PureComponent<Props> {
   }
 
   render() {
-    const { a, b, uiFind = '' } = this.props;
+    const { a, b, mode = MODE_COUNT, uiFind = '' } = this.props;
     if (!a || !b) {
       return (
         <div className="TraceDiffGraph--emptyState" data-testid="trace-diff-empty-state">
@@ -155,7 +157,7 @@ export class UnconnectedTraceDiffGraph extends React.PureComponent<Props> {
               ]),
             },
             {
-              renderNode,
+              renderNode: this.cacheAs(`nodes/render/${mode}`, getNodeRenderer(mode)),
               key: 'nodes',
               measurable: true,
               layerType: 'html',
@@ -16,13 +16,21 @@ import React from 'react';
 import { render, cleanup, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
-import renderNode, { DiffNode, getNodeEmphasisRenderer } from './renderNode';
+import renderNode, {
+  DiffNode,
+  getNodeEmphasisRenderer,
+  getNodeRenderer,
+  getScaledBackground,
+  MODE_COUNT,
+  MODE_ERRORS,
+  MODE_SELFTIME,
+  MODE_TIME,
+} from './renderNode';
 import EmphasizedNode from '../../common/EmphasizedNode';
 
 describe('drawNode', () => {
   const operation = 'operationName';
   const service = 'serviceName';
-  const defaultCount = 100;
 
   afterEach(cleanup);
 
@@ -96,6 +104,57 @@ describe('drawNode', () => {
     });
   });
 
+  describe('duration and error modes', () => {
+    const baseProps = { a: 1000, b: 3000, operation, service };
+
+    it('formats durations in the time modes', () => {
+      render(<DiffNode {...baseProps} mode={MODE_TIME} />);
+      expect(screen.getByTestId('diff-metric-cell')).toHaveTextContent('+2ms');
+      expect(screen.getByTestId('diff-percent-cell')).toHaveTextContent('+67%');
+    });
+
+    it('flags increases and decreases instead of added and removed nodes', () => {
+      const { container, rerender } = render(<DiffNode {...baseProps} a={0} mode={MODE_SELFTIME} />);
+      expect(container.querySelector('table')).toHaveClass('is-increased');
+      expect(container.querySelector('table')).not.toHaveClass('is-added');
+      rerender(<DiffNode {...baseProps} a={5} b={2} mode={MODE_ERRORS} />);
+      expect(container.querySelector('table')).toHaveClass('is-decreased');
+      expect(screen.getByTestId('diff-metric-cell')).toHaveTextContent('-3');
+    });
+
+    it('scales the background with the change', () => {
+      expect(getScaledBackground(10, 10)).toBeUndefined();
+      expect(getScaledBackground(0, 10)).toBe('rgba(204,22,22,1)');
+      expect(getScaledBackground(10, 5)).toBe('rgba(42,143,4,0.6)');
+      render(<DiffNode {...baseProps} mode={MODE_TIME} />);
+      expect(screen.getByRole('table').style.background).toBe('rgba(204, 22, 22, 0.73)');
+    });
+  });
+
+  describe('getNodeRenderer()', () => {
+    const vertex = {
+      key: 'vertex-key',
+      data: {
+        a: [{}],
+        b: [{}, {}],
+        metrics: { a: { time: 10, selfTime: 5, errors: 0 }, b: { time: 30, selfTime: 4, errors: 2 } },
+        operation,
+        service,
+      },
+    };
+
+    it('renders the span count by default', () => {
+      expect(getNodeRenderer(MODE_COUNT)).toBe(renderNode);
+    });
+
+    it('renders the metric of the mode', () => {
+      const node = getNodeRenderer(MODE_SELFTIME)(vertex);
+      expect(node.props).toEqual(expect.objectContaining({ a: 5, b: 4, mode: MODE_SELFTIME }));
+      expect(getNodeRenderer(MODE_TIME)(vertex).props).toEqual(expect.objectContaining({ a: 10, b: 30 }));
+      expect(getNodeRenderer(MODE_ERRORS)(vertex).props).toEqual(expect.objectContaining({ a: 0, b: 2 }));
+    });
+  });
+
   describe('getNodeEmphasisRenderer', () => {
     const matchKey = 'match-key';
     const nonMatchKey = 'no-match';
@@ -17,38 +17,85 @@ import { Popover } from 'antd';
 import cx from 'classnames';
 import { TLayoutVertex } from '@jaegertracing/plexus/lib/types';
 
+import { TDiffNodeData } from './traceDiffGraphUtils';
 import EmphasizedNode from '../../common/EmphasizedNode';
 import CopyIcon from '../../common/CopyIcon';
 import { TDiffCounts } from '../../../model/trace-dag/types';
 import TDagPlexusVertex from '../../../model/trace-dag/types/TDagPlexusVertex';
+import { formatDuration } from '../../../utils/date';
 
 import './renderNode.css';
 
 type Props = {
   a: number;
   b: number;
+  mode: string;
   operation: string;
   service: string;
 };
 
+export const MODE_COUNT = 'count';
+export const MODE_TIME = 'time';
+export const MODE_SELFTIME = 'selftime';
+export const MODE_ERRORS = 'errors';
+
+// the metric of the nodes compared in each mode, except the span count
+const MODE_METRICS: Record<string, 'time' | 'selfTime' | 'errors'> = {
+  [MODE_TIME]: 'time',
+  [MODE_SELFTIME]: 'selfTime',
+  [MODE_ERRORS]: 'errors',
+};
+
+const INCREASE_RGB = [204, 22, 22];
+const DECREASE_RGB = [42, 143, 4];
+
 const abs = Math.abs;
 const max = Math.max;
 
+// exported for tests
+export function getScaledBackground(a: number, b: number) {
+  if (a === b) {
+    return undefined;
+  }
+  // the share of the larger value that changed, from 0 to 1
+  const change = abs(b - a) / max(a, b);
+  const rgb = b > a ? INCREASE_RGB : DECREASE_RGB;
+  const alpha = Math.round((0.2 + 0.8 * change) * 100) / 100;
+  return `rgba(${rgb.concat(alpha).join()})`;
+}
+
 export class DiffNode extends React.PureComponent<Props> {
+  static defaultProps = {
+    mode: MODE_COUNT,
+  };
+
   render() {
-    const { a, b, operation, service } = this.props;
+    const { a, b, mode, operation, service } = this.props;
     const isSame = a === b;
-    const className = cx({
-      'is-same': isSame,
-      'is-changed': !isSame,
-      'is-more': b > a && a > 0,
-      'is-added': a === 0,
-      'is-less': a > b && b > 0,
-      'is-removed': b === 0,
-    });
+    // durations and errors going up are regressions, scaled by how much they changed
+    const isScaled = mode !== MODE_COUNT;
+    const className = cx(
+      isScaled
+        ? {
+            'is-same': isSame,
+            'is-changed': !isSame,
+            'is-increased': b > a,
+            'is-decreased': a > b,
+          }
+        : {
+            'is-same': isSame,
+            'is-changed': !isSame,
+            'is-more': b > a && a > 0,
+            'is-added': a === 0,
+            'is-less': a > b && b > 0,
+            'is-removed': b === 0,
+          }
+    );
+    const format = mode === MODE_TIME || mode === MODE_SELFTIME ? formatDuration : String;
+    const style = isScaled ? { background: getScaledBackground(a, b) } : undefined;
     const chgSign = a < b ? '+' : '-';
     const table = (
-      <table className={`DiffNode ${className}`}>
+      <table className={`DiffNode ${className}`} style={style}>
         <tbody className="DiffNode--body">
           <tr>
             <td
@@ -57,7 +104,7 @@ export class DiffNode extends React.PureComponent<Props> {
               data-testid="diff-metric-cell"
             >
               {isSame ? null : <span className="DiffNode--metricSymbol">{chgSign}</span>}
-              {isSame ? a : abs(b - a)}
+              {format(isSame ? a : abs(b - a))}
             </td>
             <td className={`DiffNode--labelCell ${className}`}>
               <strong>{service}</strong>
@@ -97,6 +144,25 @@ export default function renderNode(vertex: TDagPlexusVertex<TDiffCounts>) {
   return <DiffNode a={lenA} b={lenB} operation={operation} service={service} />;
 }
 
+export function getNodeRenderer(mode: string) {
+  const metric = MODE_METRICS[mode];
+  if (!metric) {
+    return renderNode;
+  }
+  return function drawNode(vertex: TDagPlexusVertex<TDiffNodeData>) {
+    const { metrics, operation, service } = vertex.data;
+    return (
+      <DiffNode
+        a={metrics.a[metric]}
+        b={metrics.b[metric]}
+        mode={mode}
+        operation={operation}
+        service={service}
+      />
+    );
+  };
+}
+
 export function getNodeEmphasisRenderer(keys: Set<string>) {
   return function drawEmphasizedNode(lv: TLayoutVertex) {
     if (!keys.has(lv.vertex.key)) {
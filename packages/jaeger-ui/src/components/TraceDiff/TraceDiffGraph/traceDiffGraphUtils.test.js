@@ -0,0 +1,72 @@
+// Copyright (c) 2019 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getDiffMetrics, getEdgesAndVertices } from './traceDiffGraphUtils';
+import transformTraceData from '../../../model/transform-trace-data';
+
+describe('traceDiffGraphUtils', () => {
+  function makeTrace(traceID, childDuration, childTags = []) {
+    const span = (spanID, duration, parentID, tags = []) => ({
+      traceID,
+      spanID,
+      operationName: spanID,
+      processID: 'p1',
+      references: parentID ? [{ refType: 'CHILD_OF', traceID, spanID: parentID }] : [],
+      startTime: 1000,
+      duration,
+      tags,
+      logs: [],
+    });
+    return transformTraceData({
+      traceID,
+      processes: { p1: { serviceName: 'svc', tags: [] } },
+      spans: [span('root', 100), span('child', childDuration, 'root', childTags)],
+    });
+  }
+
+  describe('getDiffMetrics()', () => {
+    it('returns zeros without members', () => {
+      expect(getDiffMetrics(null, new Map())).toEqual({ time: 0, selfTime: 0, errors: 0 });
+    });
+
+    it('sums the durations, self times and errors of the members', () => {
+      const members = [
+        { span: { spanID: 'x', duration: 10, tags: [{ key: 'error', value: true }] } },
+        { span: { spanID: 'y', duration: 20, tags: [] } },
+      ];
+      const selfTimes = new Map([
+        ['x', 4],
+        ['y', 20],
+      ]);
+      expect(getDiffMetrics(members, selfTimes)).toEqual({ time: 30, selfTime: 24, errors: 1 });
+    });
+  });
+
+  describe('getEdgesAndVertices()', () => {
+    it('has the metrics of both traces on the vertices', () => {
+      const a = makeTrace('a', 40);
+      const b = makeTrace('b', 70, [{ key: 'error', value: true }]);
+      const { vertices } = getEdgesAndVertices(a, b);
+      const byOperation = Object.fromEntries(vertices.map(({ data }) => [data.operation, data.metrics]));
+      expect(byOperation.root).toEqual({
+        a: { time: 100, selfTime: 60, errors: 0 },
+        b: { time: 100, selfTime: 30, errors: 0 },
+      });
+      expect(byOperation.child).toEqual({
+        a: { time: 40, selfTime: 40, errors: 0 },
+        b: { time: 70, selfTime: 70, errors: 1 },
+      });
+    });
+  });
+});
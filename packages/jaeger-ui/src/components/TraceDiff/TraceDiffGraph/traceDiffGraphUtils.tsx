@@ -19,11 +19,37 @@ import memoizeOne from 'memoize-one';
 
 import convPlexus from '../../../model/trace-dag/convPlexus';
 import TraceDag from '../../../model/trace-dag/TraceDag';
-import { TDenseSpanMembers, TDiffCounts } from '../../../model/trace-dag/types';
+import { TDenseSpan, TDenseSpanMembers, TDiffCounts } from '../../../model/trace-dag/types';
 import TDagPlexusVertex from '../../../model/trace-dag/types/TDagPlexusVertex';
-import { Trace } from '../../../types/trace';
+import getTraceSelfTimes from '../../../model/self-time';
+import { isErrorTag } from '../../../model/trace-facets';
+import { Span, Trace } from '../../../types/trace';
 import filterSpans from '../../../utils/filter-spans';
 
+export type TDiffMetrics = {
+  // the total duration of the spans of the node
+  time: number;
+  selfTime: number;
+  errors: number;
+};
+
+export type TDiffNodeData = TDiffCounts & {
+  metrics: { a: TDiffMetrics; b: TDiffMetrics };
+};
+
+// the spans of the members are kept along with them, so `filterSpans` reuses
+// their index, see `getSpanIndex`
+const membersSpans = new WeakMap<TDenseSpan[], Span[]>();
+
+function getMembersSpans(members: TDenseSpan[]) {
+  let spans = membersSpans.get(members);
+  if (!spans) {
+    spans = _map(members, 'span');
+    membersSpans.set(members, spans);
+  }
+  return spans;
+}
+
 function getUiFindVertexKeysFn(
   uiFind: string,
   vertices: TDagPlexusVertex<TDenseSpanMembers>[]
@@ -31,7 +57,7 @@ function getUiFindVertexKeysFn(
   if (!uiFind) return new Set<TVertexKey>();
   const newVertexKeys: Set<TVertexKey> = new Set();
   vertices.forEach(({ key, data: { members } }) => {
-    if (_get(filterSpans(uiFind, _map(members, 'span')), 'size')) {
+    if (_get(filterSpans(uiFind, getMembersSpans(members)), 'size')) {
       newVertexKeys.add(key);
     }
   });
@@ -40,11 +66,34 @@ function getUiFindVertexKeysFn(
 
 export const getUiFindVertexKeys = memoizeOne(getUiFindVertexKeysFn);
 
+// exported for tests
+export function getDiffMetrics(members: TDenseSpan[] | null, selfTimes: Map<string, number>): TDiffMetrics {
+  const metrics = { time: 0, selfTime: 0, errors: 0 };
+  (members || []).forEach(({ span }) => {
+    metrics.time += span.duration;
+    metrics.selfTime += selfTimes.get(span.spanID) || 0;
+    if (span.tags.some(isErrorTag)) metrics.errors++;
+  });
+  return metrics;
+}
+
 function getEdgesAndVerticesFn(aData: Trace, bData: Trace) {
   const aTraceDag = TraceDag.newFromTrace(aData);
   const bTraceDag = TraceDag.newFromTrace(bData);
   const diffDag = TraceDag.diff(aTraceDag, bTraceDag);
-  return convPlexus<TDiffCounts>(diffDag.nodesMap);
+  const aSelfTimes = getTraceSelfTimes(aData);
+  const bSelfTimes = getTraceSelfTimes(bData);
+  const dag = new TraceDag<TDiffNodeData>();
+  diffDag.nodesMap.forEach(node => {
+    dag.addNode(node.id, node.parentID, {
+      ...node,
+      metrics: {
+        a: getDiffMetrics(node.a, aSelfTimes),
+        b: getDiffMetrics(node.b, bSelfTimes),
+      },
+    });
+  });
+  return convPlexus<TDiffNodeData>(dag.nodesMap);
 }
 
 export const getEdgesAndVertices = memoizeOne(getEdgesAndVerticesFn);
@@ -14,9 +14,10 @@
 
 import React from 'react';
 import { shallow } from 'enzyme';
-import { Popover } from 'antd';
+import { Popover, Radio } from 'antd';
 
 import TraceDiffHeader from './TraceDiffHeader';
+import { MODE_ERRORS, MODE_TIME } from '../TraceDiffGraph/renderNode';
 import { fetchedState } from '../../../constants';
 
 describe('TraceDiffHeader', () => {
@@ -132,6 +133,16 @@ describe('TraceDiffHeader', () => {
     expect(wrapper).toMatchSnapshot();
   });
 
+  it('selects the mode of the diff when setMode is given', () => {
+    expect(wrapper.find(Radio.Group).length).toBe(0);
+    const setMode = jest.fn();
+    wrapper.setProps({ mode: MODE_TIME, setMode });
+    const modes = wrapper.find(Radio.Group);
+    expect(modes.prop('value')).toBe(MODE_TIME);
+    modes.prop('onChange')({ target: { value: MODE_ERRORS } });
+    expect(setMode).toHaveBeenCalledWith(MODE_ERRORS);
+  });
+
   it('manages visibility correctly', () => {
     expect(wrapper.state().tableVisible).toBe(null);
     const popovers = wrapper.find(Popover);
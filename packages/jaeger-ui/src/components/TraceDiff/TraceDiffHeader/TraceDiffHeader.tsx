@@ -13,11 +13,12 @@
 // limitations under the License.
 
 import * as React from 'react';
-import { Popover } from 'antd';
+import { Popover, Radio } from 'antd';
 
 import CohortTable from './CohortTable';
 import TraceHeader from './TraceHeader';
 import TraceIdInput from './TraceIdInput';
+import { MODE_COUNT, MODE_ERRORS, MODE_SELFTIME, MODE_TIME } from '../TraceDiffGraph/renderNode';
 
 import { FetchedTrace, TNil } from '../../../types';
 
@@ -29,8 +30,17 @@ type Props = {
   cohort: FetchedTrace[];
   diffSetA: (traceId: string) => void;
   diffSetB: (traceId: string) => void;
+  mode?: string;
+  setMode?: (mode: string) => void;
 };
 
+const MODE_OPTIONS = [
+  { label: 'Count', title: 'Number of spans', value: MODE_COUNT },
+  { label: 'Duration', title: 'Total duration of the spans', value: MODE_TIME },
+  { label: 'Self time', title: 'Time not spent in child spans', value: MODE_SELFTIME },
+  { label: 'Errors', title: 'Number of spans with errors', value: MODE_ERRORS },
+];
+
 type State = {
   tableVisible: ('a' | 'b') | null;
 };
@@ -68,7 +78,7 @@ export default class TraceDiffHeader extends React.PureComponent<Props, State> {
   }
 
   render() {
-    const { a, b, cohort } = this.props;
+    const { a, b, cohort, mode = MODE_COUNT, setMode } = this.props;
     const { tableVisible } = this.state;
     const {
       data: aData = undefined,
@@ -146,6 +156,18 @@ export default class TraceDiffHeader extends React.PureComponent<Props, State> {
             />
           </div>
         </Popover>
+        {setMode && (
+          <div className="TraceDiffHeader--mode">
+            <Radio.Group
+              buttonStyle="solid"
+              onChange={evt => setMode(evt.target.value)}
+              optionType="button"
+              options={MODE_OPTIONS}
+              size="small"
+              value={mode}
+            />
+          </div>
+        )}
       </header>
     );
   }
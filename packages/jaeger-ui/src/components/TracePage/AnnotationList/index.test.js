@@ -0,0 +1,82 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import store from 'store';
+
+import AnnotationList, { AUTHOR_STORAGE_KEY } from './index';
+
+describe('<AnnotationList>', () => {
+  const annotations = [
+    {
+      id: 'a',
+      traceID: 'trace',
+      spanID: 'span',
+      author: 'Ada',
+      text: 'slow query',
+      createdAt: 1700000000000,
+    },
+    { id: 'b', traceID: 'trace', spanID: 'span', author: '', text: 'retried', createdAt: 1700000001000 },
+  ];
+  let onAdd;
+  let onDelete;
+
+  beforeEach(() => {
+    store.clearAll();
+    onAdd = jest.fn();
+    onDelete = jest.fn();
+  });
+
+  it('renders the notes with their author', () => {
+    render(<AnnotationList annotations={annotations} onAdd={onAdd} onDelete={onDelete} />);
+    const items = screen.getAllByTestId('annotation');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('Ada');
+    expect(items[0]).toHaveTextContent('slow query');
+    expect(items[1]).toHaveTextContent('Anonymous');
+  });
+
+  it('deletes a note', async () => {
+    render(<AnnotationList annotations={annotations} onAdd={onAdd} onDelete={onDelete} />);
+    await userEvent.click(screen.getAllByRole('button', { name: 'Delete note' })[1]);
+    expect(onDelete).toHaveBeenCalledWith(annotations[1]);
+  });
+
+  it('adds a note and remembers the author', async () => {
+    render(<AnnotationList annotations={[]} onAdd={onAdd} onDelete={onDelete} />);
+    const addButton = screen.getByRole('button', { name: 'Add note' });
+    expect(addButton).toBeDisabled();
+    await userEvent.type(screen.getByPlaceholderText('Your name'), 'Ada');
+    await userEvent.type(screen.getByPlaceholderText(/Add a note/), 'cache miss');
+    await userEvent.click(addButton);
+    expect(onAdd).toHaveBeenCalledWith('Ada', 'cache miss');
+    expect(store.get(AUTHOR_STORAGE_KEY)).toBe('Ada');
+    expect(screen.getByPlaceholderText(/Add a note/)).toHaveValue('');
+  });
+
+  it('adds a note with Ctrl+Enter', async () => {
+    store.set(AUTHOR_STORAGE_KEY, 'Grace');
+    render(<AnnotationList annotations={[]} onAdd={onAdd} onDelete={onDelete} />);
+    expect(screen.getByPlaceholderText('Your name')).toHaveValue('Grace');
+    const textArea = screen.getByPlaceholderText(/Add a note/);
+    await userEvent.type(textArea, 'flaky');
+    fireEvent.keyDown(textArea, { key: 'Enter', keyCode: 13 });
+    expect(onAdd).not.toHaveBeenCalled();
+    fireEvent.keyDown(textArea, { key: 'Enter', keyCode: 13, ctrlKey: true });
+    expect(onAdd).toHaveBeenCalledWith('Grace', 'flaky');
+  });
+});
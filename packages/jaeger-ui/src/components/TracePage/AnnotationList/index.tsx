@@ -0,0 +1,97 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Input } from 'antd';
+import { IoTrashOutline } from 'react-icons/io5';
+// @ts-ignore
+import store from 'store';
+
+import { TraceAnnotation } from '../../../types/trace';
+import { formatDatetime, ONE_MILLISECOND } from '../../../utils/date';
+
+import './index.css';
+
+// exported for tests
+export const AUTHOR_STORAGE_KEY = 'annotationAuthor';
+
+type TProps = {
+  annotations: TraceAnnotation[];
+  onAdd: (author: string, text: string) => void;
+  onDelete: (annotation: TraceAnnotation) => void;
+};
+
+/**
+ * The notes on a span or a trace, and a form to add one.
+ */
+export default function AnnotationList(props: TProps) {
+  const { annotations, onAdd, onDelete } = props;
+  const [author, setAuthor] = React.useState<string>(() => store.get(AUTHOR_STORAGE_KEY) || '');
+  const [text, setText] = React.useState('');
+
+  const add = () => {
+    if (!text.trim()) return;
+    store.set(AUTHOR_STORAGE_KEY, author.trim());
+    onAdd(author, text);
+    setText('');
+  };
+
+  return (
+    <div className="AnnotationList">
+      {annotations.length > 0 && (
+        <ul className="AnnotationList--items">
+          {annotations.map(annotation => (
+            <li key={annotation.id} className="AnnotationList--item" data-testid="annotation">
+              <div className="AnnotationList--meta">
+                <strong>{annotation.author || 'Anonymous'}</strong>
+                <span className="AnnotationList--time">
+                  {formatDatetime(annotation.createdAt * ONE_MILLISECOND)}
+                </span>
+                <Button
+                  aria-label="Delete note"
+                  className="AnnotationList--delete"
+                  icon={<IoTrashOutline />}
+                  onClick={() => onDelete(annotation)}
+                  size="small"
+                  type="text"
+                />
+              </div>
+              <div className="AnnotationList--text">{annotation.text}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="AnnotationList--form">
+        <Input
+          className="AnnotationList--author"
+          onChange={event => setAuthor(event.target.value)}
+          placeholder="Your name"
+          value={author}
+        />
+        <Input.TextArea
+          autoSize={{ minRows: 1, maxRows: 6 }}
+          onChange={event => setText(event.target.value)}
+          onPressEnter={event => {
+            if (event.ctrlKey || event.metaKey) add();
+          }}
+          placeholder="Add a note, Ctrl+Enter to save"
+          value={text}
+        />
+        <Button disabled={!text.trim()} onClick={add}>
+          Add note
+        </Button>
+      </div>
+    </div>
+  );
+}
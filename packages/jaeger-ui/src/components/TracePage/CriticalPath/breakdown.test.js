@@ -0,0 +1,60 @@
+// Copyright (c) 2023 The Jaeger Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import getCriticalPathBreakdown from './breakdown';
+import test2 from './testCases/test2';
+
+describe('getCriticalPathBreakdown()', () => {
+  // span-X and span-C, both of service1, are on the critical path
+  const { trace, criticalPathSections } = test2;
+
+  it('attributes the critical path to services', () => {
+    const { byService, total } = getCriticalPathBreakdown(trace, criticalPathSections);
+    expect(total).toBe(100);
+    expect(byService).toEqual([
+      { key: 'service1', service: 'service1', duration: 100, percent: 100, sections: 3 },
+    ]);
+  });
+
+  it('attributes the critical path to operations, longest first', () => {
+    const { byOperation } = getCriticalPathBreakdown(trace, criticalPathSections);
+    expect(
+      byOperation.map(({ operation, duration, percent, sections }) => [
+        operation,
+        duration,
+        percent,
+        sections,
+      ])
+    ).toEqual([
+      ['op1', 60, 60, 2],
+      ['op3', 40, 40, 1],
+    ]);
+  });
+
+  it('lists the sections in the order they happen', () => {
+    const { chain } = getCriticalPathBreakdown(trace, criticalPathSections);
+    expect(chain.map(({ span, start, duration }) => [span.spanID, start, duration])).toEqual([
+      ['span-X', 0, 19],
+      ['span-C', 19, 40],
+      ['span-X', 59, 41],
+    ]);
+  });
+
+  it('ignores sections of unknown spans', () => {
+    const sections = [...criticalPathSections, { spanId: 'missing', section_start: 1, section_end: 2 }];
+    const { chain, total } = getCriticalPathBreakdown(trace, sections);
+    expect(chain).toHaveLength(3);
+    expect(total).toBe(100);
+  });
+});
@@ -0,0 +1,106 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { criticalPathSection, Span, Trace } from '../../../types/trace';
+
+export type TCriticalPathShare = {
+  key: string;
+  service: string;
+  // absent when the share is the one of a whole service
+  operation?: string;
+  // the time the spans are on the critical path
+  duration: number;
+  // the share of the trace duration, from 0 to 100
+  percent: number;
+  sections: number;
+};
+
+export type TCriticalPathLink = {
+  key: string;
+  span: Span;
+  // relative to the start of the trace
+  start: number;
+  duration: number;
+  percent: number;
+};
+
+export type TCriticalPathBreakdown = {
+  byService: TCriticalPathShare[];
+  byOperation: TCriticalPathShare[];
+  // the sections of the critical path, in the order they happen
+  chain: TCriticalPathLink[];
+  total: number;
+};
+
+function addShare(
+  shares: Map<string, TCriticalPathShare>,
+  key: string,
+  share: Omit<TCriticalPathShare, 'duration' | 'key' | 'percent' | 'sections'>,
+  duration: number
+) {
+  const current = shares.get(key) || { ...share, key, duration: 0, percent: 0, sections: 0 };
+  current.duration += duration;
+  current.sections++;
+  shares.set(key, current);
+}
+
+function sortShares(shares: Map<string, TCriticalPathShare>, traceDuration: number) {
+  return Array.from(shares.values())
+    .map(share => ({ ...share, percent: traceDuration ? (100 * share.duration) / traceDuration : 0 }))
+    .sort((a, b) => b.duration - a.duration || a.key.localeCompare(b.key));
+}
+
+/**
+ * Attributes the time on the critical path to the services and operations of
+ * the spans it goes through.
+ */
+export function getCriticalPathBreakdown(
+  trace: Trace,
+  criticalPath: criticalPathSection[]
+): TCriticalPathBreakdown {
+  const spans = new Map(trace.spans.map(span => [span.spanID, span]));
+  const byService = new Map<string, TCriticalPathShare>();
+  const byOperation = new Map<string, TCriticalPathShare>();
+  const chain: TCriticalPathLink[] = [];
+  let total = 0;
+
+  criticalPath.forEach(section => {
+    const span = spans.get(section.spanId);
+    if (!span) return;
+    const duration = section.section_end - section.section_start;
+    const service = span.process.serviceName;
+    const operation = span.operationName;
+    total += duration;
+    addShare(byService, service, { service }, duration);
+    addShare(byOperation, `${service}\t${operation}`, { service, operation }, duration);
+    chain.push({
+      key: `${section.spanId}-${section.section_start}`,
+      span,
+      start: section.section_start - trace.startTime,
+      duration,
+      percent: trace.duration ? (100 * duration) / trace.duration : 0,
+    });
+  });
+
+  return {
+    byService: sortShares(byService, trace.duration),
+    byOperation: sortShares(byOperation, trace.duration),
+    chain: chain.sort((a, b) => a.start - b.start),
+    total,
+  };
+}
+
+export default memoizeOne(getCriticalPathBreakdown);
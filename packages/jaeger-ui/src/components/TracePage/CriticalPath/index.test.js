@@ -22,13 +22,31 @@ import test7 from './testCases/test7';
 import test5 from './testCases/test5';
 import test8 from './testCases/test8';
 import test9 from './testCases/test9';
+import test10 from './testCases/test10';
+import test11 from './testCases/test11';
 
-describe.each([[test1], [test2], [test3], [test4], [test5], [test6], [test7], [test8], [test9]])(
-  'Happy Path',
-  testProps => {
-    it('should find criticalPathSections correctly', () => {
-      const criticalPath = TraceCriticalPath(testProps.trace);
-      expect(criticalPath).toStrictEqual(testProps.criticalPathSections);
-    });
-  }
-);
+describe.each([
+  [test1],
+  [test2],
+  [test3],
+  [test4],
+  [test5],
+  [test6],
+  [test7],
+  [test8],
+  [test9],
+  [test10],
+  [test11],
+])('Happy Path', testProps => {
+  it('should find criticalPathSections correctly', () => {
+    const criticalPath = TraceCriticalPath(testProps.trace);
+    expect(criticalPath).toStrictEqual(testProps.criticalPathSections);
+  });
+});
+
+describe.each([[test10], [test11]])('Following async spans', testProps => {
+  it('should continue the critical path through FOLLOWS_FROM and overflowing children', () => {
+    const criticalPath = TraceCriticalPath(testProps.trace, true);
+    expect(criticalPath).toStrictEqual(testProps.asyncCriticalPathSections);
+  });
+});
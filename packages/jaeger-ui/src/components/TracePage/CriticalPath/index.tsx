@@ -17,6 +17,8 @@ import { Span, Trace, criticalPathSection } from '../../../types/trace';
 import getChildOfSpans from './utils/getChildOfSpans';
 import findLastFinishingChildSpan from './utils/findLastFinishingChildSpan';
 import sanitizeOverFlowingChildren from './utils/sanitizeOverFlowingChildren';
+import extendAsyncSpans from './utils/extendAsyncSpans';
+import { getPrecomputedCriticalPath } from '../../../utils/trace-pipeline/precomputed';
 
 /**
  * Computes the critical path sections of a Jaeger trace.
@@ -73,17 +75,39 @@ const computeCriticalPath = (
     // Now as there are no lfc's focus shifts to parent span from startTime of span
     // return from recursion and walk backwards to one level depth to parent span
     // provide span's startTime as returningChildStartTime
-    if (currentSpan.references.length) {
-      const parentSpanId: string = currentSpan.references.filter(
-        reference => reference.refType === 'CHILD_OF'
-      )[0].spanID;
+    // The parent is the first reference, which is a FOLLOWS_FROM one only when async spans are followed
+    if (currentSpan.references.length && spanMap.has(currentSpan.references[0].spanID)) {
+      const parentSpanId: string = currentSpan.references[0].spanID;
       computeCriticalPath(spanMap, parentSpanId, criticalPath, currentSpan.startTime);
     }
   }
   return criticalPath;
 };
 
-function criticalPathForTrace(trace: Trace) {
+/**
+ * Extended spans are on the critical path while their continuations run, so
+ * the sections are cut at the end of the actual spans. The time a message waits
+ * in a queue is then on no span.
+ */
+const clipToSpans = (spanMap: Map<string, Span>, criticalPath: criticalPathSection[]) =>
+  criticalPath
+    .map(section => {
+      const span = spanMap.get(section.spanId)!;
+      return { ...section, section_end: Math.min(section.section_end, span.startTime + span.duration) };
+    })
+    .filter(section => section.section_start < section.section_end);
+
+/**
+ * @param trace - The trace.
+ * @param followAsync - Whether FOLLOWS_FROM spans and children that finish after their parent continue
+ *                    the critical path, instead of being left out or truncated.
+ */
+function criticalPathForTrace(trace: Trace, followAsync = false) {
+  // computed while the trace was loaded, see `processTraces`
+  const precomputed = getPrecomputedCriticalPath(trace, followAsync);
+  if (precomputed) {
+    return precomputed;
+  }
   let criticalPath: criticalPathSection[] = [];
   // As spans are already sorted based on startTime first span is always rootSpan
   const rootSpanId = trace.spans[0].spanID;
@@ -94,9 +118,14 @@ function criticalPathForTrace(trace: Trace) {
       return map;
     }, new Map<string, Span>());
     try {
-      const refinedSpanMap = getChildOfSpans(spanMap);
-      const sanitizedSpanMap = sanitizeOverFlowingChildren(refinedSpanMap);
-      criticalPath = computeCriticalPath(sanitizedSpanMap, rootSpanId, criticalPath);
+      if (followAsync) {
+        const sanitizedSpanMap = sanitizeOverFlowingChildren(extendAsyncSpans(spanMap));
+        criticalPath = clipToSpans(spanMap, computeCriticalPath(sanitizedSpanMap, rootSpanId, criticalPath));
+      } else {
+        const refinedSpanMap = getChildOfSpans(spanMap);
+        const sanitizedSpanMap = sanitizeOverFlowingChildren(refinedSpanMap);
+        criticalPath = computeCriticalPath(sanitizedSpanMap, rootSpanId, criticalPath);
+      }
     } catch (error) {
       /* eslint-disable no-console */
       console.log('error while computing critical path for a trace', error);
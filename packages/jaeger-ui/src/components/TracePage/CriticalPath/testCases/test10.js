@@ -0,0 +1,175 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import transformTraceData from '../../../../model/transform-trace-data';
+
+/*
+ ┌──────────────────────────┐                                    |
+ │          Span R          │                                    |        span R
+ └───┬──────────────────────┘                                    |          |
+ ++++│                                                           |        span P
+     ▼───────────┐                                               |        /    \
+     │  Span P   ├ ─ ─ ─ ─ ─ ─ ─ ─ ─ ┐                           |   span C    span C2
+     └─────┬─────┘                   │                           |      |
+     +++++++++++++                   │                           |   span D
+           │                         ▼─────────────────────┐     |
+           │                         │  Span C (consume)   │     |  (parent-child tree)
+           │                         └──────┬─────────▲────┘     |
+           │                         +++++++│         │+++++     |
+           │                                ▼─────────┤          |
+           │                                │ Span D  │          |
+           │                                └─────────┘          |
+           │                                +++++++++++          |
+           └ ─ ─ ─ ─ ─ ─ ─ ─ ─ ─ ─ ▶┌──────────────────┐         |
+                                    │ Span C2 (consume)│         |
+                                    └──────────────────┘         |
+                                                                 |
+Spans C and C2 are FOLLOWS_FROM span P. Following async spans,   |
+the critical path goes from the producer P to the consumer that  |
+finishes last, the time in the queue is on no span. Otherwise,   |
+it ends with span R.                                             |
+*/
+
+const trace = {
+  traceID: 'trace-queue',
+  spans: [
+    {
+      spanID: 'span-R',
+      operationName: 'publish',
+      startTime: 1,
+      duration: 30,
+      references: [],
+      processID: 'p1',
+    },
+    {
+      spanID: 'span-P',
+      operationName: 'send',
+      startTime: 5,
+      duration: 10,
+      references: [
+        {
+          refType: 'CHILD_OF',
+          spanID: 'span-R',
+        },
+      ],
+      processID: 'p1',
+    },
+    {
+      spanID: 'span-C',
+      operationName: 'consume',
+      startTime: 20,
+      duration: 40,
+      references: [
+        {
+          refType: 'FOLLOWS_FROM',
+          spanID: 'span-P',
+        },
+      ],
+      processID: 'p2',
+    },
+    {
+      spanID: 'span-D',
+      operationName: 'store',
+      startTime: 30,
+      duration: 20,
+      references: [
+        {
+          refType: 'CHILD_OF',
+          spanID: 'span-C',
+        },
+      ],
+      processID: 'p2',
+    },
+    {
+      spanID: 'span-C2',
+      operationName: 'consume',
+      startTime: 18,
+      duration: 20,
+      references: [
+        {
+          refType: 'FOLLOWS_FROM',
+          spanID: 'span-P',
+        },
+      ],
+      processID: 'p3',
+    },
+  ],
+  processes: {
+    p1: {
+      serviceName: 'producer',
+    },
+    p2: {
+      serviceName: 'consumer',
+    },
+    p3: {
+      serviceName: 'other-consumer',
+    },
+  },
+};
+
+const transformedTrace = transformTraceData(trace);
+
+const criticalPathSections = [
+  {
+    spanId: 'span-R',
+    section_start: 15,
+    section_end: 31,
+  },
+  {
+    spanId: 'span-P',
+    section_start: 5,
+    section_end: 15,
+  },
+  {
+    spanId: 'span-R',
+    section_start: 1,
+    section_end: 5,
+  },
+];
+
+const asyncCriticalPathSections = [
+  {
+    spanId: 'span-C',
+    section_start: 50,
+    section_end: 60,
+  },
+  {
+    spanId: 'span-D',
+    section_start: 30,
+    section_end: 50,
+  },
+  {
+    spanId: 'span-C',
+    section_start: 20,
+    section_end: 30,
+  },
+  {
+    spanId: 'span-P',
+    section_start: 5,
+    section_end: 15,
+  },
+  {
+    spanId: 'span-R',
+    section_start: 1,
+    section_end: 5,
+  },
+];
+
+const test10 = {
+  asyncCriticalPathSections,
+  criticalPathSections,
+  trace: transformedTrace,
+};
+
+export default test10;
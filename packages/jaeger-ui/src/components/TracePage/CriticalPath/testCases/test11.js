@@ -0,0 +1,113 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import transformTraceData from '../../../../model/transform-trace-data';
+
+/*
+ ┌──────────────────────────┐                                 |
+ │          Span R          │                                 |          span R
+ └───┬─────────┬────────────┘                                 |          /    \
+ ++++│         │                                              |     span A    span B
+     ▼─────────┼──┐                                           |
+     │  Span A │  │                                           |
+     └─────────┼──┘                                           |   (parent-child tree)
+               ▼────────────────────────────────────────┐     |
+               │     Span B (async, outlives span R)    │     |
+               └────────────────────────────────────────┘     |
+               ++++++++++++++++++++++++++++++++++++++++++     |
+                                                              |
+Following async spans, span B is on the critical path until   |
+it ends. Otherwise, it is truncated at the end of span R.     |
+*/
+
+const trace = {
+  traceID: 'trace-fire-and-forget',
+  spans: [
+    {
+      spanID: 'span-R',
+      operationName: 'op-R',
+      startTime: 1,
+      duration: 20,
+      references: [],
+      processID: 'p1',
+    },
+    {
+      spanID: 'span-A',
+      operationName: 'op-A',
+      startTime: 5,
+      duration: 10,
+      references: [
+        {
+          refType: 'CHILD_OF',
+          spanID: 'span-R',
+        },
+      ],
+      processID: 'p1',
+    },
+    {
+      spanID: 'span-B',
+      operationName: 'op-B',
+      startTime: 10,
+      duration: 40,
+      references: [
+        {
+          refType: 'CHILD_OF',
+          spanID: 'span-R',
+        },
+      ],
+      processID: 'p1',
+    },
+  ],
+  processes: {
+    p1: {
+      serviceName: 'service1',
+    },
+  },
+};
+
+const transformedTrace = transformTraceData(trace);
+
+const criticalPathSections = [
+  {
+    spanId: 'span-B',
+    section_start: 10,
+    section_end: 21,
+  },
+  {
+    spanId: 'span-R',
+    section_start: 1,
+    section_end: 10,
+  },
+];
+
+const asyncCriticalPathSections = [
+  {
+    spanId: 'span-B',
+    section_start: 10,
+    section_end: 50,
+  },
+  {
+    spanId: 'span-R',
+    section_start: 1,
+    section_end: 10,
+  },
+];
+
+const test11 = {
+  asyncCriticalPathSections,
+  criticalPathSections,
+  trace: transformedTrace,
+};
+
+export default test11;
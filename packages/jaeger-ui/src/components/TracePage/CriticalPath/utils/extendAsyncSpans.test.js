@@ -0,0 +1,49 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import test10 from '../testCases/test10';
+import test11 from '../testCases/test11';
+import extendAsyncSpans from './extendAsyncSpans';
+
+const getSpanMap = trace => new Map(trace.spans.map(span => [span.spanID, span]));
+
+describe('extendAsyncSpans', () => {
+  it('extends spans until their FOLLOWS_FROM descendants finish', () => {
+    const spanMap = getSpanMap(test10.trace);
+    const extendedSpanMap = extendAsyncSpans(spanMap);
+    expect(
+      [...extendedSpanMap.values()].map(({ spanID, startTime, duration }) => [spanID, startTime, duration])
+    ).toEqual([
+      ['span-R', 1, 59],
+      ['span-P', 5, 55],
+      ['span-C2', 18, 20],
+      ['span-C', 20, 40],
+      ['span-D', 30, 20],
+    ]);
+    expect(extendedSpanMap.get('span-P').childSpanIds).toEqual(['span-C', 'span-C2']);
+  });
+
+  it('extends spans until their overflowing children finish', () => {
+    const extendedSpanMap = extendAsyncSpans(getSpanMap(test11.trace));
+    expect(extendedSpanMap.get('span-R').duration).toBe(49);
+    expect(extendedSpanMap.get('span-R').childSpanIds).toEqual(['span-B', 'span-A']);
+  });
+
+  it('does not change the spans of the trace', () => {
+    const spanMap = getSpanMap(test11.trace);
+    const extendedSpanMap = extendAsyncSpans(spanMap);
+    expect(spanMap.get('span-R').duration).toBe(20);
+    expect(extendedSpanMap.get('span-B').references[0]).not.toBe(spanMap.get('span-B').references[0]);
+  });
+});
@@ -0,0 +1,62 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Span } from '../../../../types/trace';
+
+/**
+ * Treats FOLLOWS_FROM children and children that outlive their parent as
+ * continuations of the parent: every span is extended until the last of its
+ * descendants finishes, so the critical path can follow e.g. a message from its
+ * producer to its consumers.
+ * The spans are copied, and the children are sorted by the end of the extended
+ * spans, as `findLastFinishingChildSpan` expects.
+ * @param spanMap - A map of the spans of a trace, parents before their children.
+ * @returns - A map of the extended spans.
+ */
+const extendAsyncSpans = (spanMap: Map<string, Span>): Map<string, Span> => {
+  const ends = new Map<string, number>();
+  const childSpanIds = new Map<string, string[]>();
+
+  // children follow their parents, so walking backwards ends them first
+  [...spanMap.values()].reverse().forEach(span => {
+    const children = childSpanIds.get(span.spanID) || [];
+    const end = children.reduce(
+      (latest, childId) => Math.max(latest, ends.get(childId)!),
+      span.startTime + span.duration
+    );
+    ends.set(span.spanID, end);
+    const parentSpanId = span.references[0]?.spanID;
+    if (parentSpanId && spanMap.has(parentSpanId)) {
+      const siblings = childSpanIds.get(parentSpanId) || [];
+      siblings.push(span.spanID);
+      childSpanIds.set(parentSpanId, siblings);
+    }
+  });
+
+  const extendedSpanMap = new Map<string, Span>();
+  spanMap.forEach(span => {
+    const children = (childSpanIds.get(span.spanID) || []).sort((a, b) => ends.get(b)! - ends.get(a)!);
+    extendedSpanMap.set(span.spanID, {
+      ...span,
+      duration: ends.get(span.spanID)! - span.startTime,
+      childSpanIds: children,
+      hasChildren: children.length > 0,
+      // sanitizeOverFlowingChildren updates the references
+      references: span.references.map(reference => ({ ...reference })),
+    });
+  });
+  return extendedSpanMap;
+};
+
+export default extendAsyncSpans;
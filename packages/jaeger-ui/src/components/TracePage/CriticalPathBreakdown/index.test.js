@@ -0,0 +1,56 @@
+// Copyright (c) 2023 The Jaeger Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import CriticalPathBreakdown from './index';
+import test2 from '../CriticalPath/testCases/test2';
+
+describe('<CriticalPathBreakdown>', () => {
+  const { trace, criticalPathSections } = test2;
+  let onSpanClick;
+
+  beforeEach(() => {
+    onSpanClick = jest.fn();
+  });
+
+  it('renders the shares of services and operations', () => {
+    render(
+      <CriticalPathBreakdown criticalPath={criticalPathSections} onSpanClick={onSpanClick} trace={trace} />
+    );
+    expect(screen.getByText(/of the trace are on the critical path, through 3 sections/)).toBeInTheDocument();
+    const byService = screen.getByText('By service').closest('section');
+    expect(within(byService).getByText('100.0%')).toBeInTheDocument();
+    const byOperation = screen.getByText('By operation').closest('section');
+    expect(within(byOperation).getByText('60.0%')).toBeInTheDocument();
+    expect(within(byOperation).getByText('40.0%')).toBeInTheDocument();
+  });
+
+  it('shows the spans of the chain in the timeline', () => {
+    render(
+      <CriticalPathBreakdown criticalPath={criticalPathSections} onSpanClick={onSpanClick} trace={trace} />
+    );
+    const links = screen.getAllByRole('button', { name: /service1/ });
+    expect(links).toHaveLength(3);
+    fireEvent.click(links[1]);
+    expect(onSpanClick).toHaveBeenCalledWith('span-C');
+  });
+
+  it('renders a message without critical path', () => {
+    render(<CriticalPathBreakdown criticalPath={[]} onSpanClick={onSpanClick} trace={trace} />);
+    expect(screen.getByTestId('no-critical-path')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,147 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Table } from 'antd';
+import { ColumnProps } from 'antd/es/table';
+
+import getCriticalPathBreakdown, { TCriticalPathLink, TCriticalPathShare } from '../CriticalPath/breakdown';
+import { criticalPathSection, Trace } from '../../../types/trace';
+import { formatDuration } from '../../../utils/date';
+
+import './index.css';
+
+type TProps = {
+  criticalPath: criticalPathSection[];
+  // shows the span in the trace timeline
+  onSpanClick: (spanID: string) => void;
+  trace: Trace;
+};
+
+function renderPercent(percent: number) {
+  return (
+    <div className="CriticalPathBreakdown--percent">
+      <span className="CriticalPathBreakdown--barTrack">
+        <span className="CriticalPathBreakdown--bar" style={{ width: `${Math.min(percent, 100)}%` }} />
+      </span>
+      <span className="CriticalPathBreakdown--percentValue">{percent.toFixed(1)}%</span>
+    </div>
+  );
+}
+
+const SHARE_COLUMNS: ColumnProps<TCriticalPathShare>[] = [
+  { title: 'Duration', dataIndex: 'duration', width: '20%', render: formatDuration },
+  { title: 'Trace duration', dataIndex: 'percent', width: '30%', render: renderPercent },
+  { title: 'Sections', dataIndex: 'sections', width: '10%' },
+];
+
+const SERVICE_COLUMNS: ColumnProps<TCriticalPathShare>[] = [
+  { title: 'Service', dataIndex: 'service', ellipsis: true },
+  ...SHARE_COLUMNS,
+];
+
+const OPERATION_COLUMNS: ColumnProps<TCriticalPathShare>[] = [
+  {
+    title: 'Operation',
+    dataIndex: 'operation',
+    ellipsis: true,
+    render: (operation: string, share) => (
+      <>
+        <span className="CriticalPathBreakdown--service">{share.service}</span> {operation}
+      </>
+    ),
+  },
+  ...SHARE_COLUMNS,
+];
+
+/**
+ * Answers "what should we optimize?": how much of the trace duration each
+ * service and operation is on the critical path, and the sections of the
+ * critical path in the order they happen.
+ */
+export default function CriticalPathBreakdown(props: TProps) {
+  const { criticalPath, onSpanClick, trace } = props;
+  const { byOperation, byService, chain, total } = getCriticalPathBreakdown(trace, criticalPath);
+
+  if (!chain.length) {
+    return (
+      <h2 className="u-mt-vast u-tx-muted ub-tx-center" data-testid="no-critical-path">
+        No critical path found for this trace
+      </h2>
+    );
+  }
+
+  const chainColumns: ColumnProps<TCriticalPathLink>[] = [
+    {
+      title: '#',
+      key: 'index',
+      width: '4rem',
+      render: (_value, _link, index) => index + 1,
+    },
+    {
+      title: 'Span',
+      key: 'span',
+      ellipsis: true,
+      render: (_value, { span }) => (
+        <a
+          className="CriticalPathBreakdown--spanLink"
+          onClick={() => onSpanClick(span.spanID)}
+          role="button"
+          title="Show the span in the trace timeline"
+        >
+          <span className="CriticalPathBreakdown--service">{span.process.serviceName}</span>{' '}
+          {span.operationName}
+        </a>
+      ),
+    },
+    { title: 'Start', dataIndex: 'start', width: '12%', render: formatDuration },
+    { title: 'Duration', dataIndex: 'duration', width: '12%', render: formatDuration },
+    { title: 'Trace duration', dataIndex: 'percent', width: '25%', render: renderPercent },
+  ];
+
+  return (
+    <div className="CriticalPathBreakdown">
+      <p className="CriticalPathBreakdown--summary">
+        {formatDuration(total)} of the {formatDuration(trace.duration)} of the trace are on the critical path,
+        through {chain.length} {chain.length === 1 ? 'section' : 'sections'}.
+      </p>
+      <div className="CriticalPathBreakdown--shares">
+        <section className="CriticalPathBreakdown--section">
+          <h3>By service</h3>
+          <Table
+            columns={SERVICE_COLUMNS}
+            dataSource={byService}
+            pagination={false}
+            rowKey="key"
+            size="small"
+          />
+        </section>
+        <section className="CriticalPathBreakdown--section">
+          <h3>By operation</h3>
+          <Table
+            columns={OPERATION_COLUMNS}
+            dataSource={byOperation}
+            pagination={false}
+            rowKey="key"
+            size="small"
+          />
+        </section>
+      </div>
+      <section className="CriticalPathBreakdown--section">
+        <h3>Critical path</h3>
+        <Table columns={chainColumns} dataSource={chain} pagination={false} rowKey="key" size="small" />
+      </section>
+    </div>
+  );
+}
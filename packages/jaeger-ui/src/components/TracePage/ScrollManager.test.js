@@ -251,6 +251,59 @@ describe('ScrollManager', () => {
     });
   });
 
+  describe('scrollToSpan()', () => {
+    beforeEach(() => {
+      jest.spyOn(manager, '_scrollPast').mockImplementation();
+    });
+
+    it('scrolls to the row of the span', () => {
+      manager.scrollToSpan(4);
+      expect(accessors.mapSpanIndexToRowIndex).toHaveBeenCalledWith(3);
+      expect(manager._scrollPast).toHaveBeenCalledWith(3, 1);
+    });
+
+    it('is a no-op for an unknown span or without accessors', () => {
+      manager.scrollToSpan('unknown');
+      manager.setAccessors(null);
+      manager.scrollToSpan(4);
+      expect(manager._scrollPast).not.toHaveBeenCalled();
+    });
+
+    it('is a no-op if a parent of the span is collapsed', () => {
+      trace.spans[3].references = [{ refType: 'CHILD_OF', spanID: 1 }];
+      accessors.getCollapsedChildren.mockReturnValue(new Set([1]));
+      manager.scrollToSpan(4);
+      expect(manager._scrollPast).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scrollSpanIntoView()', () => {
+    beforeEach(() => {
+      jest.spyOn(manager, '_scrollPast').mockImplementation();
+      accessors.getTopRowIndexVisible.mockReturnValue(2);
+      accessors.getBottomRowIndexVisible.mockReturnValue(5);
+    });
+
+    it('does not scroll when the span is in view', () => {
+      manager.scrollSpanIntoView(4);
+      expect(manager._scrollPast).not.toHaveBeenCalled();
+    });
+
+    it('scrolls up or down to a span out of view', () => {
+      manager.scrollSpanIntoView(trace.spans[1].spanID);
+      expect(manager._scrollPast).toHaveBeenLastCalledWith(1, -1);
+      manager.scrollSpanIntoView(trace.spans[6].spanID);
+      expect(manager._scrollPast).toHaveBeenLastCalledWith(6, 1);
+    });
+
+    it('is a no-op for an unknown span or without accessors', () => {
+      manager.scrollSpanIntoView('unknown');
+      manager.setAccessors(null);
+      manager.scrollSpanIntoView(trace.spans[1].spanID);
+      expect(manager._scrollPast).not.toHaveBeenCalled();
+    });
+  });
+
   describe('scrollPageDown() and scrollPageUp()', () => {
     it('scrolls by +/~ viewHeight when invoked', () => {
       manager.scrollPageDown();
@@ -266,6 +266,55 @@ export default class ScrollManager {
     this._scrollToVisibleSpan(1, 0);
   };
 
+  /**
+   * Scrolls to the span with the given ID, unless one of its parents is
+   * collapsed. Used to show the selected span of a permalink.
+   */
+  scrollToSpan = (spanID: string) => {
+    const rowIndex = this._getVisibleRowIndex(spanID);
+    if (rowIndex != null) {
+      this._scrollPast(rowIndex, 1);
+    }
+  };
+
+  /**
+   * Scrolls the least needed to show the span with the given ID, unless it is
+   * already in view or one of its parents is collapsed. Used to follow the
+   * span selected with the keyboard.
+   */
+  scrollSpanIntoView = (spanID: string) => {
+    const rowIndex = this._getVisibleRowIndex(spanID);
+    const xrs = this._accessors;
+    if (rowIndex == null || !xrs) {
+      return;
+    }
+    if (rowIndex <= xrs.getTopRowIndexVisible()) {
+      this._scrollPast(rowIndex, -1);
+    } else if (rowIndex >= xrs.getBottomRowIndexVisible()) {
+      this._scrollPast(rowIndex, 1);
+    }
+  };
+
+  _getVisibleRowIndex(spanID: string) {
+    const xrs = this._accessors;
+    if (!xrs || !this._trace) {
+      return null;
+    }
+    const { spans } = this._trace;
+    const spanIndex = spans.findIndex(span => span.spanID === spanID);
+    if (spanIndex === -1) {
+      return null;
+    }
+    const collapsed = xrs.getCollapsedChildren();
+    if (collapsed && collapsed.size) {
+      const spansMap = new Map(spans.map(s => [s.spanID, s] as [string, Span]));
+      if (isSpanHidden(spans[spanIndex], new Set(collapsed), spansMap).isHidden) {
+        return null;
+      }
+    }
+    return xrs.mapSpanIndexToRowIndex(spanIndex);
+  }
+
   destroy() {
     this._trace = undefined;
     this._scroller = undefined;
@@ -0,0 +1,110 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import SpanComparison from '.';
+
+describe('<SpanComparison>', () => {
+  const makeSpan = (spanID, traceID, overrides) => ({
+    spanID,
+    traceID,
+    operationName: 'GET /users',
+    process: { serviceName: 'frontend', tags: [{ key: 'hostname', value: 'host-1' }] },
+    startTime: 1000,
+    duration: 1000,
+    hasChildren: false,
+    references: [],
+    logs: [],
+    tags: [{ key: 'http.status_code', value: 200 }],
+    ...overrides,
+  });
+  const fast = makeSpan('fast', 'trace-1');
+  const slow = makeSpan('slow', 'trace-2', {
+    duration: 3000,
+    tags: [
+      { key: 'http.status_code', value: 200 },
+      { key: 'retry', value: true },
+    ],
+  });
+  const traces = {
+    'trace-1': {
+      id: 'trace-1',
+      data: { traceID: 'trace-1', traceName: 'one', startTime: 1000, spans: [fast] },
+    },
+    'trace-2': {
+      id: 'trace-2',
+      data: { traceID: 'trace-2', traceName: 'two', startTime: 1000, spans: [slow] },
+    },
+  };
+  const a = { spanID: 'fast', traceID: 'trace-1' };
+  const b = { spanID: 'slow', traceID: 'trace-2' };
+  let onChange;
+
+  const renderComparison = spanComparison =>
+    render(<SpanComparison onChange={onChange} spanComparison={spanComparison} traces={traces} />);
+
+  const getRow = key => screen.getByText(key).closest('tr');
+
+  beforeEach(() => {
+    onChange = jest.fn();
+  });
+
+  it('shows the first span until the second one is picked', () => {
+    renderComparison({ a, b: null });
+    expect(within(getRow('Duration')).getByText('1ms')).toBeInTheDocument();
+    expect(getRow('http.status_code')).not.toHaveClass('is-different');
+    expect(screen.getByRole('button', { name: /Swap/ })).toBeDisabled();
+  });
+
+  it('aligns the attributes of the spans and highlights the differences', () => {
+    renderComparison({ a, b });
+    expect(getRow('http.status_code')).not.toHaveClass('is-different');
+    expect(getRow('hostname')).not.toHaveClass('is-different');
+    expect(getRow('retry')).toHaveClass('is-different');
+    expect(within(getRow('Duration')).getByText('+2ms (+200%)')).toHaveClass('is-slower');
+    expect(getRow('Start offset')).not.toHaveClass('is-different');
+  });
+
+  it('hides the rows without differences', () => {
+    renderComparison({ a, b });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Only differences' }));
+    expect(screen.queryByText('http.status_code')).not.toBeInTheDocument();
+    expect(screen.queryByText('Process')).not.toBeInTheDocument();
+    expect(screen.getByText('retry')).toBeInTheDocument();
+  });
+
+  it('swaps the spans and ends the comparison', () => {
+    renderComparison({ a, b });
+    fireEvent.click(screen.getByRole('button', { name: /Swap/ }));
+    expect(onChange).toHaveBeenLastCalledWith({ a: b, b: a });
+    fireEvent.click(screen.getByRole('button', { name: 'Close the span comparison' }));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('picks the second span from the loaded traces', () => {
+    renderComparison({ a, b: null });
+    const pickers = screen.getAllByRole('combobox');
+    fireEvent.mouseDown(pickers[1]);
+    fireEvent.click(screen.getAllByText('frontend: GET /users (3ms)').pop());
+    expect(onChange).toHaveBeenCalledWith({ a, b });
+  });
+
+  it('tells when the first span is not loaded', () => {
+    renderComparison({ a: { spanID: 'gone', traceID: 'trace-1' }, b: null });
+    expect(screen.getByText('The span is not in the loaded traces')).toBeInTheDocument();
+  });
+});
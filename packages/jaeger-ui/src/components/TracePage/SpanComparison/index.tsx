@@ -0,0 +1,208 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Checkbox, Select } from 'antd';
+import cx from 'classnames';
+import { IoClose, IoSwapHorizontal } from 'react-icons/io5';
+
+import {
+  alignKeyValues,
+  alignLogs,
+  decodeSpanRef,
+  encodeSpanRef,
+  findSpan,
+  formatDelta,
+  getSpanOptions,
+  getTiming,
+  TComparisonRow,
+  TTiming,
+} from './utils';
+import { FetchedTrace } from '../../../types';
+import { TSpanComparison, TSpanRef } from '../../../types/TTraceTimeline';
+import { formatDuration } from '../../../utils/date';
+
+import './index.css';
+
+type TProps = {
+  // replaces the compared spans, or ends the comparison when given `null`
+  onChange: (spanComparison: TSpanComparison | null) => void;
+  spanComparison: TSpanComparison;
+  traces: Record<string, FetchedTrace>;
+};
+
+const TIMINGS: { key: keyof TTiming; label: string }[] = [
+  { key: 'duration', label: 'Duration' },
+  { key: 'selfTime', label: 'Self time' },
+  { key: 'startOffset', label: 'Start offset' },
+];
+
+function renderValue(value: string | undefined) {
+  return value === undefined ? <span className="SpanComparison--missing">—</span> : value;
+}
+
+/**
+ * Two spans side by side, with their timings and attributes aligned by key
+ * and the differences highlighted. The spans can be of different traces.
+ */
+export default function SpanComparison(props: TProps) {
+  const { onChange, spanComparison, traces } = props;
+  const [onlyDifferences, setOnlyDifferences] = React.useState(false);
+  const spanOptions = React.useMemo(() => getSpanOptions(traces), [traces]);
+
+  const found = findSpan(traces, spanComparison.a);
+  const foundB = spanComparison.b ? findSpan(traces, spanComparison.b) : null;
+  const a = found && found.span;
+  const b = foundB && foundB.span;
+
+  const renderPicker = (ref: TSpanRef | null | undefined, onSelect: (value: string) => void) => (
+    <Select
+      className="SpanComparison--picker"
+      onChange={onSelect}
+      optionFilterProp="label"
+      options={spanOptions}
+      placeholder="Pick a span, or compare another span row"
+      popupMatchSelectWidth={false}
+      showSearch
+      size="small"
+      value={ref ? encodeSpanRef(ref) : undefined}
+    />
+  );
+
+  const renderSection = (label: string, rows: TComparisonRow[]) => {
+    // the differences are only highlighted once there is a second span
+    const isDifferent = (row: TComparisonRow) => Boolean(b) && row.a !== row.b;
+    const shown = onlyDifferences ? rows.filter(isDifferent) : rows;
+    if (!shown.length) {
+      return null;
+    }
+    return (
+      <tbody>
+        <tr className="SpanComparison--section">
+          <th colSpan={3}>{label}</th>
+        </tr>
+        {shown.map(row => (
+          <tr key={row.key} className={cx({ 'is-different': isDifferent(row) })}>
+            <td className="SpanComparison--key">{row.key}</td>
+            <td>{renderValue(row.a)}</td>
+            <td>{b ? renderValue(row.b) : null}</td>
+          </tr>
+        ))}
+      </tbody>
+    );
+  };
+
+  const renderTimings = () => {
+    const timingA = found && getTiming(found.span, found.trace);
+    const timingB = foundB && getTiming(foundB.span, foundB.trace);
+    if (!timingA) {
+      return null;
+    }
+    return (
+      <tbody>
+        <tr className="SpanComparison--section">
+          <th colSpan={3}>Timing</th>
+        </tr>
+        {TIMINGS.map(({ key, label }) => (
+          <tr key={key} className={cx({ 'is-different': timingB && timingA[key] !== timingB[key] })}>
+            <td className="SpanComparison--key">{label}</td>
+            <td>{formatDuration(timingA[key])}</td>
+            <td>
+              {timingB && (
+                <>
+                  {formatDuration(timingB[key])}{' '}
+                  <span
+                    className={cx('SpanComparison--delta', {
+                      'is-faster': timingB[key] < timingA[key],
+                      'is-slower': timingB[key] > timingA[key],
+                    })}
+                  >
+                    {formatDelta(timingA[key], timingB[key])}
+                  </span>
+                </>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    );
+  };
+
+  return (
+    <>
+      <div className="SpanComparison--spacer" />
+      <section className="SpanComparison" data-testid="span-comparison">
+        <div className="SpanComparison--header">
+          <h3 className="SpanComparison--title">Span comparison</h3>
+          <Checkbox checked={onlyDifferences} onChange={event => setOnlyDifferences(event.target.checked)}>
+            Only differences
+          </Checkbox>
+          <Button
+            disabled={!spanComparison.b}
+            htmlType="button"
+            icon={<IoSwapHorizontal />}
+            onClick={() => spanComparison.b && onChange({ a: spanComparison.b, b: spanComparison.a })}
+            size="small"
+          >
+            Swap
+          </Button>
+          <Button
+            aria-label="Close the span comparison"
+            className="SpanComparison--close"
+            htmlType="button"
+            icon={<IoClose />}
+            onClick={() => onChange(null)}
+            size="small"
+            type="text"
+          />
+        </div>
+        <div className="SpanComparison--body">
+          <table className="SpanComparison--table">
+            <thead>
+              <tr>
+                <th className="SpanComparison--key" />
+                <th>
+                  {renderPicker(spanComparison.a, value =>
+                    onChange({ ...spanComparison, a: decodeSpanRef(value) })
+                  )}
+                </th>
+                <th>
+                  {renderPicker(spanComparison.b, value =>
+                    onChange({ ...spanComparison, b: decodeSpanRef(value) })
+                  )}
+                </th>
+              </tr>
+            </thead>
+            {a ? (
+              <>
+                {renderTimings()}
+                {renderSection('Tags', alignKeyValues(a.tags, b && b.tags))}
+                {renderSection('Process', alignKeyValues(a.process.tags, b && b.process.tags))}
+                {renderSection('Logs', alignLogs(a, b))}
+              </>
+            ) : (
+              <tbody>
+                <tr>
+                  <td className="SpanComparison--missing" colSpan={3}>
+                    The span is not in the loaded traces
+                  </td>
+                </tr>
+              </tbody>
+            )}
+          </table>
+        </div>
+      </section>
+    </>
+  );
+}
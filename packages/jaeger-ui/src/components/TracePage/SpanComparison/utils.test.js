@@ -0,0 +1,135 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  alignKeyValues,
+  alignLogs,
+  decodeSpanRef,
+  encodeSpanRef,
+  findSpan,
+  formatDelta,
+  getSpanOptions,
+  getTiming,
+} from './utils';
+
+describe('SpanComparison utils', () => {
+  const parent = {
+    spanID: 'parent',
+    traceID: 'trace',
+    operationName: 'GET /users',
+    process: { serviceName: 'frontend' },
+    startTime: 1000,
+    duration: 500,
+    hasChildren: true,
+    references: [],
+    logs: [],
+  };
+  const child = {
+    spanID: 'child',
+    traceID: 'trace',
+    operationName: 'query',
+    process: { serviceName: 'db' },
+    startTime: 1100,
+    duration: 200,
+    hasChildren: false,
+    references: [{ refType: 'CHILD_OF', spanID: 'parent', traceID: 'trace' }],
+    logs: [],
+  };
+  const trace = {
+    traceID: 'trace',
+    traceName: 'frontend: GET /users',
+    startTime: 1000,
+    spans: [parent, child],
+  };
+  const traces = { trace: { id: 'trace', data: trace }, loading: { id: 'loading' } };
+
+  it('aligns the key values by key', () => {
+    const a = [
+      { key: 'b', value: 1 },
+      { key: 'a', value: 'x' },
+      { key: 'a', value: 'y' },
+    ];
+    const b = [
+      { key: 'a', value: 'x, y' },
+      { key: 'c', value: true },
+    ];
+    expect(alignKeyValues(a, b)).toEqual([
+      { key: 'a', a: 'x, y', b: 'x, y' },
+      { key: 'b', a: '1', b: undefined },
+      { key: 'c', a: undefined, b: 'true' },
+    ]);
+    expect(alignKeyValues(a, null)).toEqual([
+      { key: 'a', a: 'x, y', b: undefined },
+      { key: 'b', a: '1', b: undefined },
+    ]);
+  });
+
+  it('aligns the logs by their order and their fields by key', () => {
+    const a = { ...parent, logs: [{ timestamp: 1010, fields: [{ key: 'event', value: 'retry' }] }] };
+    const b = {
+      ...child,
+      logs: [
+        { timestamp: 1120, fields: [{ key: 'event', value: 'retry' }] },
+        { timestamp: 1150, fields: [{ key: 'error', value: 'timeout' }] },
+      ],
+    };
+    expect(alignLogs(a, b)).toEqual([
+      { key: '#1 time', a: '10μs', b: '20μs' },
+      { key: '#1 event', a: 'retry', b: 'retry' },
+      { key: '#2 time', a: undefined, b: '50μs' },
+      { key: '#2 error', a: undefined, b: 'timeout' },
+    ]);
+    expect(alignLogs(a, null)).toEqual([
+      { key: '#1 time', a: '10μs', b: undefined },
+      { key: '#1 event', a: 'retry', b: undefined },
+    ]);
+  });
+
+  it('computes the timing of a span', () => {
+    expect(getTiming(parent, trace)).toEqual({ duration: 500, selfTime: 300, startOffset: 0 });
+    expect(getTiming(child, trace)).toEqual({ duration: 200, selfTime: 200, startOffset: 100 });
+  });
+
+  it('formats the difference between two times', () => {
+    expect(formatDelta(2000, 3000)).toBe('+1ms (+50%)');
+    expect(formatDelta(2000, 1000)).toBe('-1ms (-50%)');
+    expect(formatDelta(0, 1000)).toBe('+1ms');
+    expect(formatDelta(1000, 1000)).toBe('±0');
+  });
+
+  it('finds the compared spans in the loaded traces', () => {
+    expect(findSpan(traces, { traceID: 'trace', spanID: 'child' })).toEqual({ span: child, trace });
+    expect(findSpan(traces, { traceID: 'trace', spanID: 'missing' })).toBe(null);
+    expect(findSpan(traces, { traceID: 'loading', spanID: 'child' })).toBe(null);
+    expect(findSpan(traces, { traceID: 'unknown', spanID: 'child' })).toBe(null);
+  });
+
+  it('encodes and decodes the span references', () => {
+    const ref = { spanID: 'abc', traceID: 'def' };
+    expect(encodeSpanRef(ref)).toBe('def:abc');
+    expect(decodeSpanRef(encodeSpanRef(ref))).toEqual(ref);
+  });
+
+  it('lists the spans of the loaded traces', () => {
+    expect(getSpanOptions(traces)).toEqual([
+      {
+        label: 'frontend: GET /users trace',
+        options: [
+          { label: 'frontend: GET /users (500μs)', value: 'trace:parent' },
+          { label: 'db: query (200μs)', value: 'trace:child' },
+        ],
+      },
+    ]);
+  });
+});
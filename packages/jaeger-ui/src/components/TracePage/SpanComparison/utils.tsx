@@ -0,0 +1,148 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import getTraceSelfTimes from '../../../model/self-time';
+import { FetchedTrace, TNil } from '../../../types';
+import { KeyValuePair, Span, Trace } from '../../../types/trace';
+import { TSpanRef } from '../../../types/TTraceTimeline';
+import { formatDuration } from '../../../utils/date';
+
+// the values of a key of the compared spans, `undefined` if a span does not have the key
+export type TComparisonRow = {
+  key: string;
+  a?: string;
+  b?: string;
+};
+
+export type TTiming = {
+  duration: number;
+  selfTime: number;
+  startOffset: number;
+};
+
+export type TSpanOptionGroup = {
+  label: string;
+  options: { label: string; value: string }[];
+};
+
+function stringify(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// the values of each key, the values of a key that repeats are joined
+function groupValues(pairs: KeyValuePair[] | TNil) {
+  const values = new Map<string, string[]>();
+  (pairs || []).forEach(({ key, value }) => {
+    values.set(key, [...(values.get(key) || []), stringify(value)]);
+  });
+  return new Map(Array.from(values, ([key, list]) => [key, list.join(', ')]));
+}
+
+/**
+ * Aligns the tags, the process tags or the log fields of two spans by key,
+ * sorted by key.
+ */
+export function alignKeyValues(a: KeyValuePair[] | TNil, b: KeyValuePair[] | TNil): TComparisonRow[] {
+  const valuesA = groupValues(a);
+  const valuesB = groupValues(b);
+  const keys = Array.from(new Set([...valuesA.keys(), ...valuesB.keys()])).sort();
+  return keys.map(key => ({ key, a: valuesA.get(key), b: valuesB.get(key) }));
+}
+
+/**
+ * Aligns the logs of two spans by their order, and the fields of each log by
+ * key. The time of a log is the offset from the start of its span.
+ */
+export function alignLogs(a: Span, b: Span | TNil): TComparisonRow[] {
+  const rows: TComparisonRow[] = [];
+  const logsB = b ? b.logs : [];
+  const count = Math.max(a.logs.length, logsB.length);
+  for (let i = 0; i < count; i++) {
+    const logA = a.logs[i];
+    const logB = logsB[i];
+    const prefix = `#${i + 1}`;
+    rows.push({
+      key: `${prefix} time`,
+      a: logA && formatDuration(logA.timestamp - a.startTime),
+      b: b && logB ? formatDuration(logB.timestamp - b.startTime) : undefined,
+    });
+    alignKeyValues(logA && logA.fields, logB && logB.fields).forEach(row => {
+      rows.push({ ...row, key: `${prefix} ${row.key}` });
+    });
+  }
+  return rows;
+}
+
+export function getTiming(span: Span, trace: Trace): TTiming {
+  const selfTime = getTraceSelfTimes(trace).get(span.spanID);
+  return {
+    duration: span.duration,
+    selfTime: selfTime == null ? span.duration : selfTime,
+    startOffset: span.startTime - trace.startTime,
+  };
+}
+
+/**
+ * @example
+ * ```
+ * formatDelta(2000, 3000) // => +1ms (+50%)
+ * formatDelta(2000, 1000) // => -1ms (-50%)
+ * ```
+ */
+export function formatDelta(a: number, b: number): string {
+  const delta = b - a;
+  if (!delta) {
+    return '±0';
+  }
+  const sign = delta > 0 ? '+' : '-';
+  const percent = a ? ` (${sign}${Math.round((Math.abs(delta) / a) * 100)}%)` : '';
+  return `${sign}${formatDuration(Math.abs(delta))}${percent}`;
+}
+
+export function findSpan(traces: Record<string, FetchedTrace>, { spanID, traceID }: TSpanRef) {
+  const trace = traces[traceID] && traces[traceID].data;
+  const span = trace && trace.spans.find(s => s.spanID === spanID);
+  return trace && span ? { span, trace } : null;
+}
+
+// the IDs are hex strings, so the delimiter cannot be part of them
+const REF_DELIMITER = ':';
+
+export function encodeSpanRef({ spanID, traceID }: TSpanRef) {
+  return `${traceID}${REF_DELIMITER}${spanID}`;
+}
+
+export function decodeSpanRef(value: string): TSpanRef {
+  const [traceID, spanID] = value.split(REF_DELIMITER);
+  return { spanID, traceID };
+}
+
+/**
+ * The spans of the traces in the store that can be compared, grouped by trace.
+ */
+export function getSpanOptions(traces: Record<string, FetchedTrace>): TSpanOptionGroup[] {
+  const groups: TSpanOptionGroup[] = [];
+  Object.values(traces).forEach(({ data }) => {
+    if (data) {
+      groups.push({
+        label: `${data.traceName} ${data.traceID.slice(0, 7)}`,
+        options: data.spans.map(span => ({
+          label: `${span.process.serviceName}: ${span.operationName} (${formatDuration(span.duration)})`,
+          value: encodeSpanRef(span),
+        })),
+      });
+    }
+  });
+  return groups;
+}
@@ -0,0 +1,33 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import excessiveFanOut, { MAX_CHILDREN } from './excessiveFanOut';
+import makeTrace from './fixtures';
+
+describe('excessiveFanOut', () => {
+  const children = count =>
+    Array.from({ length: count }, (_, i) => ({ spanID: `child-${i}`, parentID: 'root', duration: 1 }));
+
+  it('reports spans with too many children', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...children(MAX_CHILDREN + 1)]);
+    expect(excessiveFanOut.detect(trace)).toEqual([
+      { message: `frontend::operation has ${MAX_CHILDREN + 1} child spans`, spanIDs: ['root'] },
+    ]);
+  });
+
+  it('does not report spans with up to the most children', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...children(MAX_CHILDREN)]);
+    expect(excessiveFanOut.detect(trace)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getChildrenByParent, getSpanLabel } from './utils';
+import { TDetector, TFinding } from './types';
+
+// the most children of a span that are not reported
+export const MAX_CHILDREN = 50;
+
+const excessiveFanOut: TDetector = {
+  id: 'excessive-fan-out',
+  name: 'Excessive fan-out',
+  description:
+    'Spans with a large number of children, which may overload the services they call and are often better batched.',
+  severity: 'warning',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    getChildrenByParent(trace.spans).forEach((children, parent) => {
+      if (children.length > MAX_CHILDREN) {
+        findings.push({
+          message: `${getSpanLabel(parent)} has ${children.length} child spans`,
+          spanIDs: [parent.spanID],
+        });
+      }
+    });
+    return findings;
+  },
+};
+
+export default excessiveFanOut;
@@ -0,0 +1,44 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import transformTraceData from '../../../../model/transform-trace-data';
+
+const processes = {
+  p1: { serviceName: 'frontend' },
+  p2: { serviceName: 'customers' },
+};
+
+// spans without a start time are dropped by `transformTraceData`
+const TRACE_START = 1000;
+
+/**
+ * Builds a trace from short descriptions of its spans, each with a `spanID`,
+ * its `parentID` if any, and optionally `operationName`, `processID`,
+ * `startTime`, relative to the start of the trace, `duration` and `tags`.
+ */
+export default function makeTrace(spans) {
+  return transformTraceData({
+    traceID: 'trace-id',
+    processes,
+    spans: spans.map(({ parentID, startTime = 0, tags = {}, ...span }) => ({
+      operationName: 'operation',
+      processID: 'p1',
+      duration: 100,
+      ...span,
+      startTime: TRACE_START + startTime,
+      tags: Object.keys(tags).map(key => ({ key, type: 'string', value: tags[key] })),
+      references: parentID ? [{ refType: 'CHILD_OF', spanID: parentID }] : [],
+    })),
+  });
+}
@@ -0,0 +1,59 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import identicalRetries from './identicalRetries';
+import makeTrace from './fixtures';
+
+describe('identicalRetries', () => {
+  const attempt = (spanID, startTime, tags) => ({
+    spanID,
+    parentID: 'root',
+    operationName: 'GET /customer',
+    startTime,
+    duration: 10,
+    tags: { 'http.url': '/customer?id=1', ...tags },
+  });
+
+  it('reports requests repeated after a failed attempt', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      attempt('first', 0, { error: true, 'http.status_code': 503 }),
+      attempt('second', 20, { 'http.resend_count': 1, 'http.status_code': 200 }),
+    ]);
+    expect(identicalRetries.detect(trace)).toEqual([
+      {
+        message: '2 attempts of frontend::GET /customer with identical parameters, 1 of them failed',
+        spanIDs: ['first', 'second'],
+      },
+    ]);
+  });
+
+  it('does not report requests that only failed on the last attempt', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      attempt('first', 0),
+      attempt('second', 20, { error: true }),
+    ]);
+    expect(identicalRetries.detect(trace)).toEqual([]);
+  });
+
+  it('does not report requests with different parameters', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      attempt('first', 0, { error: true }),
+      attempt('second', 20, { 'http.url': '/customer?id=2' }),
+    ]);
+    expect(identicalRetries.detect(trace)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getChildrenByParent, getSpanLabel } from './utils';
+import { TDetector, TFinding } from './types';
+import { isErrorSpan } from '../../TraceTimelineViewer/utils';
+import { Span } from '../../../../types/trace';
+
+// the tags that differ between the attempts of the same request
+const OUTCOME_TAG_KEYS = new Set([
+  'error',
+  'http.resend_count',
+  'http.response.status_code',
+  'http.status_code',
+  'otel.status_code',
+  'otel.status_description',
+  'rpc.grpc.status_code',
+]);
+
+// identifies the requests with the same operation and parameters
+function getRequestKey(span: Span) {
+  const params = span.tags
+    .filter(({ key }) => !OUTCOME_TAG_KEYS.has(key))
+    .map(({ key, value }) => `${key}=${JSON.stringify(value)}`)
+    .sort();
+  return [span.process.serviceName, span.operationName, ...params].join('\n');
+}
+
+const identicalRetries: TDetector = {
+  id: 'identical-retries',
+  name: 'Retries',
+  description:
+    'Requests repeated with identical parameters after a failed attempt, which can multiply the load on a failing service.',
+  severity: 'warning',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    getChildrenByParent(trace.spans).forEach(children => {
+      const requests = new Map<string, Span[]>();
+      children.forEach(span => {
+        const key = getRequestKey(span);
+        const attempts = requests.get(key);
+        if (attempts) {
+          attempts.push(span);
+        } else {
+          requests.set(key, [span]);
+        }
+      });
+      requests.forEach(attempts => {
+        // the last attempt may have succeeded
+        const failed = attempts.slice(0, -1).filter(isErrorSpan).length;
+        if (failed) {
+          findings.push({
+            message: `${attempts.length} attempts of ${getSpanLabel(
+              attempts[0]
+            )} with identical parameters, ${failed} of them failed`,
+            spanIDs: attempts.map(span => span.spanID),
+          });
+        }
+      });
+    });
+    return findings;
+  },
+};
+
+export default identicalRetries;
@@ -0,0 +1,55 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import analyzeTrace, { getDetectors, registerDetector } from './index';
+import makeTrace from './fixtures';
+
+describe('analyzeTrace', () => {
+  const trace = makeTrace([{ spanID: 'root' }]);
+
+  it('runs the registered detectors', () => {
+    const results = analyzeTrace(trace);
+    expect(results.map(({ detector }) => detector)).toEqual(getDetectors());
+    results.forEach(({ findings }) => expect(findings).toEqual([]));
+  });
+
+  it('leaves out the detectors that fail', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const findings = [{ message: 'found', spanIDs: ['root'] }];
+    const working = { id: 'working', detect: () => findings };
+    const failing = {
+      id: 'failing',
+      detect: () => {
+        throw new Error('oops');
+      },
+    };
+    expect(analyzeTrace(trace, [failing, working])).toEqual([{ detector: working, findings }]);
+    expect(consoleError).toHaveBeenCalledWith('The failing detector failed: Error: oops');
+    consoleError.mockRestore();
+  });
+});
+
+describe('registerDetector', () => {
+  it('adds a detector, or replaces the one with the same id', () => {
+    const count = getDetectors().length;
+    const detector = { id: 'custom', detect: () => [] };
+    registerDetector(detector);
+    expect(getDetectors()).toHaveLength(count + 1);
+    expect(getDetectors()[count]).toBe(detector);
+    const replacement = { id: 'custom', detect: () => [] };
+    registerDetector(replacement);
+    expect(getDetectors()).toHaveLength(count + 1);
+    expect(getDetectors()[count]).toBe(replacement);
+  });
+});
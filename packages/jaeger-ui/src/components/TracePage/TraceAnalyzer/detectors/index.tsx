@@ -0,0 +1,70 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import excessiveFanOut from './excessiveFanOut';
+import identicalRetries from './identicalRetries';
+import missingServerSpans from './missingServerSpans';
+import nPlusOneQueries from './nPlusOneQueries';
+import selfTimeGaps from './selfTimeGaps';
+import sequentialCalls from './sequentialCalls';
+import spansExceedingParent from './spansExceedingParent';
+import { TDetector, TDetectorResult } from './types';
+import { Trace } from '../../../../types/trace';
+
+// the detectors run by the analyzer, in the order their results are shown
+const detectors: TDetector[] = [
+  nPlusOneQueries,
+  sequentialCalls,
+  excessiveFanOut,
+  identicalRetries,
+  selfTimeGaps,
+  missingServerSpans,
+  spansExceedingParent,
+];
+
+/**
+ * Adds a detector to the analyzer, or replaces the one with the same `id`.
+ */
+export function registerDetector(detector: TDetector) {
+  const index = detectors.findIndex(({ id }) => id === detector.id);
+  if (index === -1) {
+    detectors.push(detector);
+  } else {
+    detectors[index] = detector;
+  }
+}
+
+export function getDetectors(): readonly TDetector[] {
+  return detectors;
+}
+
+/**
+ * Runs the detectors over the trace. A detector that fails is left out of the
+ * results, so one faulty detector does not hide the findings of the others.
+ */
+export default function analyzeTrace(
+  trace: Trace,
+  from: readonly TDetector[] = detectors
+): TDetectorResult[] {
+  const results: TDetectorResult[] = [];
+  from.forEach(detector => {
+    try {
+      results.push({ detector, findings: detector.detect(trace) });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`The ${detector.id} detector failed: ${error}`);
+    }
+  });
+  return results;
+}
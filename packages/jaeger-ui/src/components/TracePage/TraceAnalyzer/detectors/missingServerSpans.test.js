@@ -0,0 +1,51 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import missingServerSpans from './missingServerSpans';
+import makeTrace from './fixtures';
+
+describe('missingServerSpans', () => {
+  const call = (spanID, peerService) => ({
+    spanID,
+    parentID: 'root',
+    operationName: 'query',
+    duration: 10,
+    tags: { 'span.kind': 'client', 'peer.service': peerService },
+  });
+
+  it('groups the calls without a server span by caller and peer service', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      call('redis-1', 'redis'),
+      call('redis-2', 'redis'),
+      call('mysql', 'mysql'),
+    ]);
+    expect(missingServerSpans.detect(trace)).toEqual([
+      {
+        message: '2 calls of frontend::query to redis without a server span',
+        spanIDs: ['redis-1', 'redis-2'],
+      },
+      { message: 'A call of frontend::query to mysql without a server span', spanIDs: ['mysql'] },
+    ]);
+  });
+
+  it('does not report calls with a server span', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      call('call', 'customers'),
+      { spanID: 'server', parentID: 'call', processID: 'p2', tags: { 'span.kind': 'server' } },
+    ]);
+    expect(missingServerSpans.detect(trace)).toEqual([]);
+  });
+});
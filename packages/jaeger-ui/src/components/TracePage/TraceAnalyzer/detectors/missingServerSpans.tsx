@@ -0,0 +1,54 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getSpanLabel } from './utils';
+import { TDetector, TFinding } from './types';
+import { getUninstrumentedPeerService } from '../../TraceTimelineViewer/utils';
+import { Span } from '../../../../types/trace';
+
+const missingServerSpans: TDetector = {
+  id: 'missing-server-spans',
+  name: 'Missing server spans',
+  description:
+    'Calls to a peer service without a span of the service, which is likely not instrumented or is outside the system.',
+  severity: 'info',
+  detect: trace => {
+    // the calls without a server span, by caller and peer service
+    const calls = new Map<string, { peerService: string; spans: Span[] }>();
+    trace.spans.forEach(span => {
+      const peerService = getUninstrumentedPeerService(span);
+      if (peerService) {
+        const key = `${getSpanLabel(span)}\n${peerService}`;
+        const group = calls.get(key);
+        if (group) {
+          group.spans.push(span);
+        } else {
+          calls.set(key, { peerService, spans: [span] });
+        }
+      }
+    });
+    const findings: TFinding[] = [];
+    calls.forEach(({ peerService, spans }) => {
+      findings.push({
+        message: `${spans.length === 1 ? 'A call' : `${spans.length} calls`} of ${getSpanLabel(
+          spans[0]
+        )} to ${peerService} without a server span`,
+        spanIDs: spans.map(span => span.spanID),
+      });
+    });
+    return findings;
+  },
+};
+
+export default missingServerSpans;
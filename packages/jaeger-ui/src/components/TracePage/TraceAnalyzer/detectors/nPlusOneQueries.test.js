@@ -0,0 +1,49 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import nPlusOneQueries, { MIN_QUERIES } from './nPlusOneQueries';
+import makeTrace from './fixtures';
+
+describe('nPlusOneQueries', () => {
+  const queries = (count, tags = { 'db.system': 'mysql' }) =>
+    Array.from({ length: count }, (_, i) => ({
+      spanID: `query-${i}`,
+      parentID: 'root',
+      operationName: 'SELECT',
+      processID: 'p2',
+      startTime: i * 10,
+      duration: 5,
+      tags,
+    }));
+
+  it('reports the repeated queries of one span', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...queries(MIN_QUERIES)]);
+    expect(nPlusOneQueries.detect(trace)).toEqual([
+      {
+        message: `${MIN_QUERIES} customers::SELECT queries by frontend::operation, taking 25μs in total`,
+        spanIDs: queries(MIN_QUERIES).map(({ spanID }) => spanID),
+      },
+    ]);
+  });
+
+  it('does not report fewer queries', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...queries(MIN_QUERIES - 1)]);
+    expect(nPlusOneQueries.detect(trace)).toEqual([]);
+  });
+
+  it('does not report spans that are not queries', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...queries(MIN_QUERIES, {})]);
+    expect(nPlusOneQueries.detect(trace)).toEqual([]);
+  });
+});
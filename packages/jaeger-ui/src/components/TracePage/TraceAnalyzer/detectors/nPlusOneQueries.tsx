@@ -0,0 +1,57 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getChildrenByParent, getSpanLabel, isDbSpan, sumDurations } from './utils';
+import { TDetector, TFinding } from './types';
+import { Span } from '../../../../types/trace';
+import { formatDuration } from '../../../../utils/date';
+
+// the fewest queries of the same operation by one span that are reported
+export const MIN_QUERIES = 5;
+
+const nPlusOneQueries: TDetector = {
+  id: 'n-plus-one-queries',
+  name: 'N+1 queries',
+  description:
+    'Many database queries of the same operation made by one span, e.g. a query per item of a list, which a single query could replace.',
+  severity: 'warning',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    getChildrenByParent(trace.spans).forEach((children, parent) => {
+      const queries = new Map<string, Span[]>();
+      children.filter(isDbSpan).forEach(span => {
+        const key = getSpanLabel(span);
+        const group = queries.get(key);
+        if (group) {
+          group.push(span);
+        } else {
+          queries.set(key, [span]);
+        }
+      });
+      queries.forEach((group, label) => {
+        if (group.length >= MIN_QUERIES) {
+          findings.push({
+            message: `${group.length} ${label} queries by ${getSpanLabel(parent)}, taking ${formatDuration(
+              sumDurations(group)
+            )} in total`,
+            spanIDs: group.map(span => span.spanID),
+          });
+        }
+      });
+    });
+    return findings;
+  },
+};
+
+export default nPlusOneQueries;
@@ -0,0 +1,70 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import selfTimeGaps from './selfTimeGaps';
+import makeTrace from './fixtures';
+
+describe('selfTimeGaps', () => {
+  it('reports the longest period of a span without children', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      { spanID: 'first', parentID: 'root', startTime: 0, duration: 10 },
+      { spanID: 'second', parentID: 'root', startTime: 70, duration: 30 },
+    ]);
+    expect(selfTimeGaps.detect(trace)).toEqual([
+      {
+        message: 'frontend::operation has no child spans for 60μs, from 10μs into the span',
+        spanIDs: ['root'],
+      },
+    ]);
+  });
+
+  it('counts the time after the last child', () => {
+    const trace = makeTrace([{ spanID: 'root' }, { spanID: 'child', parentID: 'root', duration: 20 }]);
+    expect(selfTimeGaps.detect(trace)).toEqual([
+      {
+        message: 'frontend::operation has no child spans for 80μs, from 20μs into the span',
+        spanIDs: ['root'],
+      },
+    ]);
+  });
+
+  it('does not report spans mostly covered by their children', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      { spanID: 'first', parentID: 'root', startTime: 0, duration: 60 },
+      { spanID: 'second', parentID: 'root', startTime: 50, duration: 40 },
+    ]);
+    expect(selfTimeGaps.detect(trace)).toEqual([]);
+  });
+
+  it('does not report the placeholders of missing parents', () => {
+    const trace = makeTrace([
+      { spanID: 'first', parentID: 'missing', startTime: 0, duration: 10 },
+      { spanID: 'second', parentID: 'missing', startTime: 70, duration: 30 },
+    ]);
+    expect(trace.spans[0].isPlaceholder).toBe(true);
+    expect(selfTimeGaps.detect(trace)).toEqual([]);
+  });
+
+  it('does not report gaps that are short in the trace', () => {
+    const trace = makeTrace([
+      { spanID: 'root', duration: 10000 },
+      { spanID: 'parent', parentID: 'root', duration: 100 },
+      { spanID: 'child', parentID: 'parent', duration: 10 },
+      { spanID: 'other', parentID: 'root', duration: 10000 },
+    ]);
+    expect(selfTimeGaps.detect(trace)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getChildrenByParent, getSpanLabel } from './utils';
+import { TDetector, TFinding } from './types';
+import { Span } from '../../../../types/trace';
+import { formatDuration } from '../../../../utils/date';
+
+// the smallest portion of the duration of the parent a gap is reported at
+export const MIN_PARENT_SHARE = 0.5;
+// the smallest portion of the duration of the trace a gap is reported at
+export const MIN_TRACE_SHARE = 0.05;
+
+// the longest time of the parent not covered by any of its children
+function getLongestGap(parent: Span, children: Span[]) {
+  const parentEnd = parent.startTime + parent.duration;
+  let covered = parent.startTime;
+  let gap = { start: parent.startTime, duration: 0 };
+  const extend = (start: number) => {
+    if (start - covered > gap.duration) {
+      gap = { start: covered, duration: start - covered };
+    }
+  };
+  children.forEach(child => {
+    extend(Math.min(child.startTime, parentEnd));
+    covered = Math.max(covered, Math.min(child.startTime + child.duration, parentEnd));
+  });
+  extend(parentEnd);
+  return gap;
+}
+
+const selfTimeGaps: TDetector = {
+  id: 'self-time-gaps',
+  name: 'Self-time gaps',
+  description:
+    'Long periods of a span without any child span, which may be spent in code that is not instrumented, e.g. CPU work or waiting on a lock.',
+  severity: 'info',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    getChildrenByParent(trace.spans).forEach((children, parent) => {
+      const gap = getLongestGap(parent, children);
+      if (
+        gap.duration >= MIN_PARENT_SHARE * parent.duration &&
+        gap.duration >= MIN_TRACE_SHARE * trace.duration
+      ) {
+        findings.push({
+          message: `${getSpanLabel(parent)} has no child spans for ${formatDuration(
+            gap.duration
+          )}, from ${formatDuration(gap.start - parent.startTime)} into the span`,
+          spanIDs: [parent.spanID],
+        });
+      }
+    });
+    return findings;
+  },
+};
+
+export default selfTimeGaps;
@@ -0,0 +1,53 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import sequentialCalls, { MIN_SEQUENTIAL_CALLS } from './sequentialCalls';
+import makeTrace from './fixtures';
+
+describe('sequentialCalls', () => {
+  const calls = (starts, tags = { 'span.kind': 'client' }) =>
+    starts.map((startTime, i) => ({
+      spanID: `call-${i}`,
+      parentID: 'root',
+      operationName: 'GET',
+      startTime,
+      duration: 20,
+      tags,
+    }));
+
+  it('reports the calls made one after the other', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...calls([0, 25, 50])]);
+    expect(sequentialCalls.detect(trace)).toEqual([
+      {
+        message: `${MIN_SEQUENTIAL_CALLS} sequential calls by frontend::operation take 60μs, in parallel they could take about 20μs`,
+        spanIDs: ['call-0', 'call-1', 'call-2'],
+      },
+    ]);
+  });
+
+  it('does not report calls made in parallel', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...calls([0, 10, 20])]);
+    expect(sequentialCalls.detect(trace)).toEqual([]);
+  });
+
+  it('does not report calls taking a small part of the parent', () => {
+    const trace = makeTrace([{ spanID: 'root', duration: 1000 }, ...calls([0, 25, 50])]);
+    expect(sequentialCalls.detect(trace)).toEqual([]);
+  });
+
+  it('does not report spans that are not calls', () => {
+    const trace = makeTrace([{ spanID: 'root' }, ...calls([0, 25, 50], {})]);
+    expect(sequentialCalls.detect(trace)).toEqual([]);
+  });
+});
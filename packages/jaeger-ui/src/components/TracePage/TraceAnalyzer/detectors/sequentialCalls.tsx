@@ -0,0 +1,70 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getChildrenByParent, getSpanLabel, sumDurations } from './utils';
+import { TDetector, TFinding } from './types';
+import { isKindClient } from '../../TraceTimelineViewer/utils';
+import { Span } from '../../../../types/trace';
+import { formatDuration } from '../../../../utils/date';
+
+// the fewest calls one after the other that are reported
+export const MIN_SEQUENTIAL_CALLS = 3;
+// the smallest portion of the duration of the parent the calls take together
+export const MIN_PARENT_SHARE = 0.5;
+
+// the runs of calls that each start after the previous one ended
+function getSequences(calls: Span[]) {
+  const sequences: Span[][] = [];
+  let current: Span[] = [];
+  let currentEnd = -Infinity;
+  calls.forEach(call => {
+    if (call.startTime < currentEnd) {
+      sequences.push(current);
+      current = [];
+    }
+    current.push(call);
+    currentEnd = Math.max(currentEnd, call.startTime + call.duration);
+  });
+  sequences.push(current);
+  return sequences;
+}
+
+const sequentialCalls: TDetector = {
+  id: 'sequential-calls',
+  name: 'Sequential calls',
+  description:
+    'Calls to other services made one after the other by one span, which could be made in parallel if they do not depend on each other.',
+  severity: 'warning',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    getChildrenByParent(trace.spans).forEach((children, parent) => {
+      getSequences(children.filter(isKindClient)).forEach(calls => {
+        const total = sumDurations(calls);
+        if (calls.length < MIN_SEQUENTIAL_CALLS || total < MIN_PARENT_SHARE * parent.duration) {
+          return;
+        }
+        const longest = Math.max(...calls.map(call => call.duration));
+        findings.push({
+          message: `${calls.length} sequential calls by ${getSpanLabel(parent)} take ${formatDuration(
+            total
+          )}, in parallel they could take about ${formatDuration(longest)}`,
+          spanIDs: calls.map(call => call.spanID),
+        });
+      });
+    });
+    return findings;
+  },
+};
+
+export default sequentialCalls;
@@ -0,0 +1,46 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import spansExceedingParent from './spansExceedingParent';
+import makeTrace from './fixtures';
+
+describe('spansExceedingParent', () => {
+  it('reports the spans starting before or ending after their parent', () => {
+    const trace = makeTrace([
+      { spanID: 'root', startTime: 10 },
+      { spanID: 'early', parentID: 'root', operationName: 'early', startTime: 5, duration: 10 },
+      { spanID: 'late', parentID: 'root', operationName: 'late', startTime: 100, duration: 20 },
+      { spanID: 'both', parentID: 'root', operationName: 'both', startTime: 0, duration: 200 },
+    ]);
+    expect(spansExceedingParent.detect(trace)).toEqual([
+      {
+        message: 'frontend::both starts 10μs before and ends 90μs after its parent frontend::operation',
+        spanIDs: ['both', 'root'],
+      },
+      {
+        message: 'frontend::early starts 5μs before its parent frontend::operation',
+        spanIDs: ['early', 'root'],
+      },
+      { message: 'frontend::late ends 10μs after its parent frontend::operation', spanIDs: ['late', 'root'] },
+    ]);
+  });
+
+  it('does not report spans within their parent', () => {
+    const trace = makeTrace([
+      { spanID: 'root' },
+      { spanID: 'child', parentID: 'root', startTime: 10, duration: 90 },
+    ]);
+    expect(spansExceedingParent.detect(trace)).toEqual([]);
+  });
+});
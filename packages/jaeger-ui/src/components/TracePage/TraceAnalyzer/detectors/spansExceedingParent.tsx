@@ -0,0 +1,54 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getSpanLabel } from './utils';
+import { TDetector, TFinding } from './types';
+import { getParent } from '../../../../model/span';
+import { formatDuration } from '../../../../utils/date';
+
+const spansExceedingParent: TDetector = {
+  id: 'spans-exceeding-parent',
+  name: 'Spans exceeding their parent',
+  description:
+    'Spans that start before or end after the span they are a child of, from clock skew between hosts or from work the parent does not wait for.',
+  severity: 'warning',
+  detect: trace => {
+    const findings: TFinding[] = [];
+    trace.spans.forEach(span => {
+      const parent = getParent(span);
+      // the times of a placeholder are inferred from its children
+      if (!parent || parent.isPlaceholder) {
+        return;
+      }
+      const before = parent.startTime - span.startTime;
+      const after = span.startTime + span.duration - (parent.startTime + parent.duration);
+      const excesses = [];
+      if (before > 0) {
+        excesses.push(`starts ${formatDuration(before)} before`);
+      }
+      if (after > 0) {
+        excesses.push(`ends ${formatDuration(after)} after`);
+      }
+      if (excesses.length) {
+        findings.push({
+          message: `${getSpanLabel(span)} ${excesses.join(' and ')} its parent ${getSpanLabel(parent)}`,
+          spanIDs: [span.spanID, parent.spanID],
+        });
+      }
+    });
+    return findings;
+  },
+};
+
+export default spansExceedingParent;
@@ -0,0 +1,40 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Trace } from '../../../../types/trace';
+
+export type TFinding = {
+  // what was found, with the spans and the time involved
+  message: string;
+  // the spans involved, the most relevant first
+  spanIDs: string[];
+};
+
+/**
+ * A heuristic that looks for an anti-pattern in a trace, see
+ * `registerDetector` to add one.
+ */
+export type TDetector = {
+  id: string;
+  name: string;
+  // what the detector looks for, and why it matters
+  description: string;
+  severity: 'warning' | 'info';
+  detect: (trace: Trace) => TFinding[];
+};
+
+export type TDetectorResult = {
+  detector: TDetector;
+  findings: TFinding[];
+};
@@ -0,0 +1,56 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { Span } from '../../../../types/trace';
+
+const DB_TAG_KEYS = new Set(['db.system', 'db.type', 'db.statement', 'db.query.text']);
+
+export function getTagValue(span: Span, key: string) {
+  const kv = span.tags.find(tag => tag.key === key);
+  return kv ? kv.value : undefined;
+}
+
+export function isDbSpan(span: Span) {
+  return span.tags.some(({ key }) => DB_TAG_KEYS.has(key));
+}
+
+export function getSpanLabel(span: Span) {
+  return `${span.process.serviceName}::${span.operationName}`;
+}
+
+export function sumDurations(spans: Span[]) {
+  return spans.reduce((sum, span) => sum + span.duration, 0);
+}
+
+/**
+ * The children of the spans that have children, by parent, in
+ * the order they start. Shared by the detectors. The placeholders of
+ * missing parents are left out, their children are not calls they made.
+ */
+export const getChildrenByParent = memoizeOne((spans: Span[]) => {
+  const spansByID = new Map(spans.map(span => [span.spanID, span]));
+  const childrenByParent = new Map<Span, Span[]>();
+  spans.forEach(span => {
+    if (span.childSpanIds.length && !span.isPlaceholder) {
+      const children = span.childSpanIds
+        .map(id => spansByID.get(id))
+        .filter((child): child is Span => Boolean(child))
+        .sort((a, b) => a.startTime - b.startTime);
+      childrenByParent.set(span, children);
+    }
+  });
+  return childrenByParent;
+});
@@ -0,0 +1,69 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import TraceAnalyzer from './index';
+import makeTrace from './detectors/fixtures';
+import { MAX_CHILDREN } from './detectors/excessiveFanOut';
+
+describe('<TraceAnalyzer>', () => {
+  let onSpanClick;
+
+  beforeEach(() => {
+    onSpanClick = jest.fn();
+  });
+
+  it('lists the findings of each detector, and the detectors without findings', () => {
+    const children = Array.from({ length: MAX_CHILDREN + 1 }, (_, i) => ({
+      spanID: `child-${i}`,
+      parentID: 'root',
+      duration: 1,
+    }));
+    render(<TraceAnalyzer onSpanClick={onSpanClick} trace={makeTrace([{ spanID: 'root' }, ...children])} />);
+    expect(screen.getByText(/checks found possible anti-patterns in this trace/)).toBeInTheDocument();
+    const fanOut = screen.getByTestId('detector-excessive-fan-out');
+    expect(
+      within(fanOut).getByText(`frontend::operation has ${MAX_CHILDREN + 1} child spans`)
+    ).toBeInTheDocument();
+    const passed = screen.getByTestId('passed-checks');
+    expect(within(passed).getByText('N+1 queries')).toBeInTheDocument();
+    expect(within(passed).queryByText('Excessive fan-out')).not.toBeInTheDocument();
+  });
+
+  it('shows the spans of a finding in the trace timeline', () => {
+    const queries = Array.from({ length: 7 }, (_, i) => ({
+      spanID: `query-${i}`,
+      parentID: 'root',
+      operationName: 'SELECT',
+      startTime: i * 10,
+      duration: 5,
+      tags: { 'db.system': 'mysql' },
+    }));
+    render(<TraceAnalyzer onSpanClick={onSpanClick} trace={makeTrace([{ spanID: 'root' }, ...queries])} />);
+    const section = screen.getByTestId('detector-n-plus-one-queries');
+    const links = within(section).getAllByTitle('Show the span in the trace timeline');
+    expect(links).toHaveLength(5);
+    expect(within(section).getByText('and 2 more')).toBeInTheDocument();
+    fireEvent.click(links[1]);
+    expect(onSpanClick).toHaveBeenCalledWith('query-1');
+  });
+
+  it('says when no anti-patterns are found', () => {
+    render(<TraceAnalyzer onSpanClick={onSpanClick} trace={makeTrace([{ spanID: 'root' }])} />);
+    expect(screen.getByText(/None of the \d+ checks found anti-patterns in this trace/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Table, Tag } from 'antd';
+import { ColumnProps } from 'antd/es/table';
+
+import analyzeTrace from './detectors';
+import { TFinding } from './detectors/types';
+import { Span, Trace } from '../../../types/trace';
+
+import './index.css';
+
+type TProps = {
+  // shows the span in the trace timeline
+  onSpanClick: (spanID: string) => void;
+  trace: Trace;
+};
+
+const SEVERITY_COLORS = {
+  info: 'blue',
+  warning: 'orange',
+};
+
+// the most spans of a finding that are linked
+const MAX_SPAN_LINKS = 5;
+
+/**
+ * Lists the anti-patterns found in the trace by the detectors, e.g. N+1
+ * queries, with links to the spans involved.
+ */
+export default function TraceAnalyzer(props: TProps) {
+  const { onSpanClick, trace } = props;
+  const results = React.useMemo(() => analyzeTrace(trace), [trace]);
+  const spansByID = React.useMemo(() => new Map(trace.spans.map(span => [span.spanID, span])), [trace]);
+
+  const withFindings = results.filter(({ findings }) => findings.length);
+  const withoutFindings = results.filter(({ findings }) => !findings.length);
+
+  const renderSpanLink = (span: Span) => (
+    <a
+      className="TraceAnalyzer--spanLink"
+      key={span.spanID}
+      onClick={() => onSpanClick(span.spanID)}
+      role="button"
+      title="Show the span in the trace timeline"
+    >
+      <span className="TraceAnalyzer--service">{span.process.serviceName}</span> {span.operationName}
+    </a>
+  );
+
+  const columns: ColumnProps<TFinding>[] = [
+    { title: 'Finding', dataIndex: 'message' },
+    {
+      title: 'Spans',
+      key: 'spans',
+      width: '35%',
+      render: (_value, { spanIDs }) => {
+        const spans = spanIDs.map(id => spansByID.get(id)).filter((span): span is Span => Boolean(span));
+        const more = spans.length - MAX_SPAN_LINKS;
+        return (
+          <div className="TraceAnalyzer--spans">
+            {spans.slice(0, MAX_SPAN_LINKS).map(renderSpanLink)}
+            {more > 0 && <span className="TraceAnalyzer--more">and {more} more</span>}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="TraceAnalyzer">
+      <p className="TraceAnalyzer--summary">
+        {withFindings.length
+          ? `${withFindings.length} of the ${results.length} checks found possible anti-patterns in this trace.`
+          : `None of the ${results.length} checks found anti-patterns in this trace.`}
+      </p>
+      {withFindings.map(({ detector, findings }) => (
+        <section className="TraceAnalyzer--section" data-testid={`detector-${detector.id}`} key={detector.id}>
+          <h3>
+            {detector.name} <Tag color={SEVERITY_COLORS[detector.severity]}>{findings.length}</Tag>
+          </h3>
+          <p className="TraceAnalyzer--description">{detector.description}</p>
+          <Table
+            columns={columns}
+            dataSource={findings}
+            pagination={findings.length > 20 ? { pageSize: 20 } : false}
+            rowKey={finding => finding.spanIDs.join(' ')}
+            size="small"
+          />
+        </section>
+      ))}
+      {withoutFindings.length > 0 && (
+        <section className="TraceAnalyzer--section" data-testid="passed-checks">
+          <h3>No findings</h3>
+          <ul className="TraceAnalyzer--passed">
+            {withoutFindings.map(({ detector }) => (
+              <li key={detector.id} title={detector.description}>
+                {detector.name}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -22,7 +22,7 @@ import { TDenseSpanMembers } from '../../../model/trace-dag/types';
 import { Trace, Span, KeyValuePair } from '../../../types/trace';
 import { TSumSpan, TEv } from './types';
 
-let parentChildOfMap: Record<string, Span[]>;
+let parentChildOfMap: Record<string, Span[]> | null = null;
 
 export function isError(tags: Array<KeyValuePair>) {
   if (tags) {
@@ -53,17 +53,18 @@ export function mapFollowsFrom(
 
 function getChildOfSpans(parentID: string, trace: Trace): Span[] {
   if (!parentChildOfMap) {
-    parentChildOfMap = {};
+    const map: Record<string, Span[]> = {};
     trace.spans.forEach(s => {
       if (s.references) {
         // Filter for CHILD_OF we don't want to calculate FOLLOWS_FROM (prod-cons)
         const parentIDs = s.references.filter(r => r.refType === 'CHILD_OF').map(r => r.spanID);
         parentIDs.forEach((pID: string) => {
-          parentChildOfMap[pID] = parentChildOfMap[pID] || [];
-          parentChildOfMap[pID].push(s);
+          map[pID] = map[pID] || [];
+          map[pID].push(s);
         });
       }
     });
+    parentChildOfMap = map;
   }
   return parentChildOfMap[parentID] || [];
 }
@@ -78,6 +79,8 @@ function getChildOfDrange(parentID: string, trace: Trace) {
 }
 
 export function calculateTraceDag(trace: Trace): TraceDag<TSumSpan & TDenseSpanMembers> {
+  // the children are looked up in the spans of this trace only
+  parentChildOfMap = null;
   const baseDag = TraceDag.newFromTrace(trace);
   const dag = new TraceDag<TSumSpan & TDenseSpanMembers>();
 
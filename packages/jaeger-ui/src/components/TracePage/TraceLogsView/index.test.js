@@ -0,0 +1,106 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import TraceLogsView from './index';
+import transformTraceData from '../../../model/transform-trace-data';
+
+const makeSpan = (spanID, processID, logs) => ({
+  traceID: 'trace-id',
+  spanID,
+  processID,
+  operationName: `op-${spanID}`,
+  startTime: 1000,
+  duration: 1000,
+  logs: logs.map(([timestamp, fields]) => ({
+    timestamp,
+    fields: Object.keys(fields).map(key => ({ key, value: fields[key] })),
+  })),
+});
+
+describe('<TraceLogsView>', () => {
+  const trace = transformTraceData({
+    traceID: 'trace-id',
+    processes: {
+      p1: { serviceName: 'frontend', tags: [] },
+      p2: { serviceName: 'backend', tags: [] },
+    },
+    spans: [
+      makeSpan('a', 'p1', [[1100, { event: 'request' }]]),
+      makeSpan('b', 'p2', [
+        [1300, { event: 'exception', 'exception.message': 'Timeout on db' }],
+        [1400, { level: 'warn', message: 'retrying' }],
+      ]),
+    ],
+  });
+  let onSpanClick;
+
+  beforeEach(() => {
+    onSpanClick = jest.fn();
+  });
+
+  const getRows = () => screen.getAllByTitle('Show the span in the trace timeline');
+
+  it('lists the logs of the trace, with a column per field key', () => {
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={trace} />);
+    expect(getRows()).toHaveLength(3);
+    ['Time', 'Span', 'Level', 'event', 'exception.message', 'message'].forEach(title =>
+      expect(screen.getByRole('columnheader', { name: title })).toBeInTheDocument()
+    );
+    expect(within(getRows()[1]).getByText('Timeout on db')).toBeInTheDocument();
+    expect(screen.getByText('3 of 3 logs')).toBeInTheDocument();
+  });
+
+  it('filters the logs by field value', () => {
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={trace} />);
+    fireEvent.change(screen.getByTestId('logs-filter'), { target: { value: 'timeout' } });
+    expect(getRows()).toHaveLength(1);
+    expect(screen.getByText('1 of 3 logs')).toBeInTheDocument();
+  });
+
+  it('filters the logs by level', () => {
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={trace} />);
+    fireEvent.mouseDown(within(screen.getByTestId('logs-levels')).getByRole('combobox'));
+    fireEvent.click(screen.getByTitle('warn'));
+    expect(getRows()).toHaveLength(1);
+    expect(within(getRows()[0]).getByText('retrying')).toBeInTheDocument();
+  });
+
+  it('groups the logs by service', () => {
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={trace} />);
+    fireEvent.mouseDown(within(screen.getByTestId('logs-group-by')).getByRole('combobox'));
+    fireEvent.click(screen.getByTitle('Service'));
+    const groups = screen.getAllByRole('heading', { level: 3 });
+    expect(groups.map(group => group.textContent)).toEqual(['frontend (1)', 'backend (2)']);
+  });
+
+  it('shows the span of a log in the timeline', () => {
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={trace} />);
+    fireEvent.click(getRows()[2]);
+    expect(onSpanClick).toHaveBeenCalledWith('b');
+  });
+
+  it('renders a message without logs', () => {
+    const noLogs = transformTraceData({
+      traceID: 'trace-id',
+      processes: { p1: { serviceName: 'frontend', tags: [] } },
+      spans: [makeSpan('a', 'p1', [])],
+    });
+    render(<TraceLogsView onSpanClick={onSpanClick} trace={noLogs} />);
+    expect(screen.getByTestId('no-logs')).toBeInTheDocument();
+  });
+});
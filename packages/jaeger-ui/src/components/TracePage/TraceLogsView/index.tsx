@@ -0,0 +1,162 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Input, Select, Table, Tag } from 'antd';
+import { ColumnProps } from 'antd/es/table';
+
+import getTraceLogs, { filterLogs, getFieldKeys, getLevels, groupLogs, TLogRow } from './logs';
+import { ELogsGroupBy } from '../types';
+import { Trace } from '../../../types/trace';
+import { formatDuration } from '../../../utils/date';
+
+import './index.css';
+
+type TProps = {
+  // shows the span in the trace timeline
+  onSpanClick: (spanID: string) => void;
+  trace: Trace;
+};
+
+const GROUP_BY_OPTIONS = [
+  { label: 'None', value: ELogsGroupBy.None },
+  { label: 'Span', value: ELogsGroupBy.Span },
+  { label: 'Service', value: ELogsGroupBy.Service },
+];
+
+const LEVEL_COLORS: Record<string, string> = {
+  critical: 'red',
+  error: 'red',
+  fatal: 'red',
+  warn: 'orange',
+  warning: 'orange',
+};
+
+const PAGINATION = { defaultPageSize: 100, hideOnSinglePage: true };
+
+/**
+ * The logs of all the spans of the trace in a table, to find the events, e.g.
+ * the exceptions, without opening the spans one at a time.
+ */
+export default function TraceLogsView(props: TProps) {
+  const { onSpanClick, trace } = props;
+  const [text, setText] = React.useState('');
+  const [levels, setLevels] = React.useState<string[]>([]);
+  const [groupBy, setGroupBy] = React.useState(ELogsGroupBy.None);
+
+  const rows = getTraceLogs(trace);
+  if (!rows.length) {
+    return (
+      <h2 className="u-mt-vast u-tx-muted ub-tx-center" data-testid="no-logs">
+        No logs in this trace
+      </h2>
+    );
+  }
+  const filtered = filterLogs(rows, text, levels);
+
+  const columns: ColumnProps<TLogRow>[] = [
+    {
+      title: 'Time',
+      dataIndex: 'relativeTime',
+      width: '7rem',
+      render: formatDuration,
+    },
+    {
+      title: 'Span',
+      key: 'span',
+      width: '16rem',
+      ellipsis: true,
+      render: (_value, { span }) => (
+        <>
+          <span className="TraceLogsView--service">{span.process.serviceName}</span> {span.operationName}
+        </>
+      ),
+    },
+    {
+      title: 'Level',
+      dataIndex: 'level',
+      width: '6rem',
+      render: (level: string | null) => level && <Tag color={LEVEL_COLORS[level]}>{level}</Tag>,
+    },
+    ...getFieldKeys(filtered).map(
+      (key): ColumnProps<TLogRow> => ({
+        title: key,
+        key: `field-${key}`,
+        ellipsis: true,
+        render: (_value, { fields }) => fields[key],
+      })
+    ),
+  ];
+
+  const renderTable = (dataSource: TLogRow[]) => (
+    <Table
+      columns={columns}
+      dataSource={dataSource}
+      onRow={row => ({
+        className: 'TraceLogsView--row',
+        onClick: () => onSpanClick(row.span.spanID),
+        title: 'Show the span in the trace timeline',
+      })}
+      pagination={PAGINATION}
+      rowKey="key"
+      size="small"
+    />
+  );
+
+  return (
+    <div className="TraceLogsView">
+      <div className="TraceLogsView--controls">
+        <Input
+          allowClear
+          className="TraceLogsView--filter"
+          data-testid="logs-filter"
+          onChange={event => setText(event.target.value)}
+          placeholder="Filter by field value"
+          value={text}
+        />
+        <Select
+          allowClear
+          className="TraceLogsView--levels"
+          data-testid="logs-levels"
+          mode="multiple"
+          onChange={setLevels}
+          options={getLevels(rows).map(level => ({ label: level, value: level }))}
+          placeholder="Levels"
+          value={levels}
+        />
+        <span className="TraceLogsView--label">Group by</span>
+        <Select
+          className="TraceLogsView--groupBy"
+          data-testid="logs-group-by"
+          onChange={setGroupBy}
+          options={GROUP_BY_OPTIONS}
+          value={groupBy}
+        />
+        <span className="TraceLogsView--count">
+          {filtered.length} of {rows.length} logs
+        </span>
+      </div>
+      {groupBy === ELogsGroupBy.None
+        ? renderTable(filtered)
+        : groupLogs(filtered, groupBy).map(group => (
+            <section key={group.key} className="TraceLogsView--group">
+              <h3>
+                {group.label} <span className="TraceLogsView--groupCount">({group.rows.length})</span>
+              </h3>
+              {renderTable(group.rows)}
+            </section>
+          ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { filterLogs, getFieldKeys, getLevels, getTraceLogs, groupLogs } from './logs';
+import { ELogsGroupBy } from '../types';
+import transformTraceData from '../../../model/transform-trace-data';
+
+const makeLog = (timestamp, fields) => ({
+  timestamp,
+  fields: Object.keys(fields).map(key => ({ key, value: fields[key] })),
+});
+
+const makeSpan = (spanID, processID, startTime, logs, parentID) => ({
+  traceID: 'trace-id',
+  spanID,
+  processID,
+  operationName: `op-${spanID}`,
+  startTime,
+  duration: 1000,
+  logs,
+  references: parentID ? [{ refType: 'CHILD_OF', traceID: 'trace-id', spanID: parentID }] : [],
+});
+
+const trace = transformTraceData({
+  traceID: 'trace-id',
+  processes: {
+    p1: { serviceName: 'frontend', tags: [] },
+    p2: { serviceName: 'backend', tags: [] },
+  },
+  spans: [
+    makeSpan('a', 'p1', 1000, [
+      makeLog(1100, { event: 'request', 'http.url': '/cart' }),
+      makeLog(1900, { level: 'INFO', message: 'done' }),
+    ]),
+    makeSpan('b', 'p2', 1200, [
+      makeLog(1300, { event: 'exception', 'exception.message': 'Timeout on db' }),
+      makeLog(1400, { severity: 'warn', message: 'retrying', attempt: 2 }),
+    ]),
+    makeSpan('c', 'p2', 1500, [makeLog(1600, { message: 'cache', hit: { key: 'cart' } })], 'b'),
+  ],
+});
+
+describe('getTraceLogs()', () => {
+  const rows = getTraceLogs(trace);
+
+  it('lists the logs of all the spans in chronological order', () => {
+    expect(rows.map(({ relativeTime, span }) => [relativeTime, span.spanID])).toEqual([
+      [100, 'a'],
+      [300, 'b'],
+      [400, 'b'],
+      [600, 'c'],
+      [900, 'a'],
+    ]);
+  });
+
+  it('formats the field values as strings', () => {
+    expect(rows[2].fields).toEqual({ severity: 'warn', message: 'retrying', attempt: '2' });
+    expect(rows[3].fields.hit).toBe('{"key":"cart"}');
+  });
+
+  it('finds the level of the logs, and treats exceptions as errors', () => {
+    expect(rows.map(({ level }) => level)).toEqual([null, 'error', 'warn', null, 'info']);
+    expect(getLevels(rows)).toEqual(['error', 'info', 'warn']);
+  });
+
+  it('skips the spans without logs', () => {
+    const spans = [{ ...trace.spans[0], logs: undefined }, ...trace.spans.slice(1)];
+    expect(getTraceLogs({ ...trace, spans }).map(({ span }) => span.spanID)).toEqual(['b', 'b', 'c']);
+  });
+});
+
+describe('getFieldKeys()', () => {
+  it('lists the keys of the fields but the level, the most used first', () => {
+    expect(getFieldKeys(getTraceLogs(trace))).toEqual([
+      'message',
+      'event',
+      'attempt',
+      'exception.message',
+      'hit',
+      'http.url',
+    ]);
+  });
+});
+
+describe('filterLogs()', () => {
+  const rows = getTraceLogs(trace);
+
+  it('keeps the logs with a field value containing the text', () => {
+    expect(filterLogs(rows, ' timeout ', []).map(({ key }) => key)).toEqual(['b-0']);
+    expect(filterLogs(rows, 'cart', [])).toHaveLength(2);
+  });
+
+  it('keeps the logs with the levels', () => {
+    expect(filterLogs(rows, '', ['error', 'warn']).map(({ key }) => key)).toEqual(['b-0', 'b-1']);
+    expect(filterLogs(rows, 'retry', ['error'])).toEqual([]);
+  });
+
+  it('keeps all the logs without filter', () => {
+    expect(filterLogs(rows, '', [])).toBe(rows);
+  });
+});
+
+describe('groupLogs()', () => {
+  const rows = getTraceLogs(trace);
+  const summarize = groups => groups.map(({ label, rows: groupRows }) => [label, groupRows.length]);
+
+  it('groups the logs by span', () => {
+    expect(summarize(groupLogs(rows, ELogsGroupBy.Span))).toEqual([
+      ['frontend: op-a', 2],
+      ['backend: op-b', 2],
+      ['backend: op-c', 1],
+    ]);
+  });
+
+  it('groups the logs by service', () => {
+    expect(summarize(groupLogs(rows, ELogsGroupBy.Service))).toEqual([
+      ['frontend', 2],
+      ['backend', 3],
+    ]);
+  });
+
+  it('keeps the logs in one group without grouping', () => {
+    expect(summarize(groupLogs(rows, ELogsGroupBy.None))).toEqual([['', 5]]);
+  });
+});
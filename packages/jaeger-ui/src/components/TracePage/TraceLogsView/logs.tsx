@@ -0,0 +1,145 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { ELogsGroupBy } from '../types';
+import { Log, Span, Trace } from '../../../types/trace';
+
+export type TLogRow = {
+  key: string;
+  fields: Record<string, string>;
+  level: string | null;
+  log: Log;
+  // in microseconds since the start of the trace
+  relativeTime: number;
+  span: Span;
+};
+
+export type TLogGroup = {
+  key: string;
+  label: string;
+  rows: TLogRow[];
+};
+
+// the fields that give the level of a log, the first one set is used
+export const LEVEL_KEYS = ['level', 'log.level', 'severity'];
+
+// events logged for errors, which do not always have a level
+const ERROR_EVENTS = ['error', 'exception'];
+
+function formatValue(value: unknown) {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function getLevel(fields: Record<string, string>) {
+  const levelKey = LEVEL_KEYS.find(key => key in fields);
+  if (levelKey) {
+    return fields[levelKey].toLowerCase();
+  }
+  return ERROR_EVENTS.includes(fields.event) ? 'error' : null;
+}
+
+/**
+ * The logs of all the spans of a trace, in chronological order.
+ */
+export function getTraceLogs(trace: Trace): TLogRow[] {
+  const rows: TLogRow[] = [];
+  trace.spans.forEach(span => {
+    if (!Array.isArray(span.logs)) {
+      return;
+    }
+    span.logs.forEach((log, i) => {
+      const fields: Record<string, string> = {};
+      log.fields.forEach(({ key, value }) => {
+        fields[key] = formatValue(value);
+      });
+      rows.push({
+        key: `${span.spanID}-${i}`,
+        fields,
+        level: getLevel(fields),
+        log,
+        relativeTime: log.timestamp - trace.startTime,
+        span,
+      });
+    });
+  });
+  // the sort is stable, the logs at the same time stay in the order of their spans
+  return rows.sort((a, b) => a.log.timestamp - b.log.timestamp);
+}
+
+/**
+ * The keys of the fields of the logs, but the level, the most used first.
+ */
+export function getFieldKeys(rows: TLogRow[]): string[] {
+  const counts = new Map<string, number>();
+  rows.forEach(({ fields }) => {
+    Object.keys(fields).forEach(key => {
+      if (!LEVEL_KEYS.includes(key)) counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  return Array.from(counts.keys()).sort(
+    (a, b) => (counts.get(b) as number) - (counts.get(a) as number) || a.localeCompare(b)
+  );
+}
+
+export function getLevels(rows: TLogRow[]): string[] {
+  const levels = new Set<string>();
+  rows.forEach(({ level }) => {
+    if (level) levels.add(level);
+  });
+  return Array.from(levels).sort();
+}
+
+/**
+ * Keeps the logs with one of the levels, if any, and a field value that
+ * contains the text, ignoring the case.
+ */
+export function filterLogs(rows: TLogRow[], text: string, levels: string[]): TLogRow[] {
+  const search = text.trim().toLowerCase();
+  if (!search && !levels.length) {
+    return rows;
+  }
+  return rows.filter(
+    ({ fields, level }) =>
+      (!levels.length || (level != null && levels.includes(level))) &&
+      (!search || Object.values(fields).some(value => value.toLowerCase().includes(search)))
+  );
+}
+
+/**
+ * Groups the logs by span or by service, the groups are in the order of their
+ * first log.
+ */
+export function groupLogs(rows: TLogRow[], groupBy: ELogsGroupBy): TLogGroup[] {
+  if (groupBy === ELogsGroupBy.None) {
+    return [{ key: 'all', label: '', rows }];
+  }
+  const groups = new Map<string, TLogGroup>();
+  rows.forEach(row => {
+    const { operationName, process, spanID } = row.span;
+    const key = groupBy === ELogsGroupBy.Span ? spanID : process.serviceName;
+    let group = groups.get(key);
+    if (!group) {
+      const label =
+        groupBy === ELogsGroupBy.Span ? `${process.serviceName}: ${operationName}` : process.serviceName;
+      group = { key, label, rows: [] };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+  });
+  return Array.from(groups.values());
+}
+
+export default memoizeOne(getTraceLogs);
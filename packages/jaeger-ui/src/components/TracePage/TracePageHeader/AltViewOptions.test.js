@@ -20,9 +20,11 @@ import * as track from './TracePageHeader.track';
 import { ETraceViewType } from '../types';
 
 describe('AltViewOptions', () => {
+  let trackAnalyzerView;
   let trackGanttView;
   let trackGraphView;
   let trackJsonView;
+  let trackLogsView;
   let trackRawJsonView;
   let trackStatisticsView;
   let trackTraceSpansView;
@@ -44,9 +46,11 @@ describe('AltViewOptions', () => {
   };
 
   beforeAll(() => {
+    trackAnalyzerView = jest.spyOn(track, 'trackAnalyzerView');
     trackGanttView = jest.spyOn(track, 'trackGanttView');
     trackGraphView = jest.spyOn(track, 'trackGraphView');
     trackJsonView = jest.spyOn(track, 'trackJsonView');
+    trackLogsView = jest.spyOn(track, 'trackLogsView');
     trackRawJsonView = jest.spyOn(track, 'trackRawJsonView');
     trackStatisticsView = jest.spyOn(track, 'trackStatisticsView');
     trackTraceSpansView = jest.spyOn(track, 'trackTraceSpansView');
@@ -108,6 +112,16 @@ describe('AltViewOptions', () => {
         onTraceViewChangeArg: ETraceViewType.TraceSpansView,
         propViewType: ETraceViewType.TraceTimelineViewer,
       },
+      {
+        link: 'Trace Logs',
+        trackFn: trackLogsView,
+        onTraceViewChangeArg: ETraceViewType.TraceLogs,
+      },
+      {
+        link: 'Trace Anti-Patterns',
+        trackFn: trackAnalyzerView,
+        onTraceViewChangeArg: ETraceViewType.TraceAnalyzer,
+      },
     ];
 
     viewInteractions.forEach(({ link, trackFn, propViewType }, i) => {
@@ -19,11 +19,14 @@ import { Link } from 'react-router-dom';
 import './AltViewOptions.css';
 
 import {
+  trackAnalyzerView,
+  trackCriticalPathView,
   trackGanttView,
   trackGraphView,
   trackStatisticsView,
   trackTraceSpansView,
   trackJsonView,
+  trackLogsView,
   trackRawJsonView,
 } from './TracePageHeader.track';
 import prefixUrl from '../../../utils/prefix-url';
@@ -58,6 +61,18 @@ const MENU_ITEMS = [
     viewType: ETraceViewType.TraceFlamegraph,
     label: 'Trace Flamegraph',
   },
+  {
+    viewType: ETraceViewType.TraceCriticalPath,
+    label: 'Critical Path Breakdown',
+  },
+  {
+    viewType: ETraceViewType.TraceLogs,
+    label: 'Trace Logs',
+  },
+  {
+    viewType: ETraceViewType.TraceAnalyzer,
+    label: 'Trace Anti-Patterns',
+  },
 ];
 
 export default function AltViewOptions(props: Props) {
@@ -72,6 +87,12 @@ export default function AltViewOptions(props: Props) {
       trackStatisticsView();
     } else if (item === ETraceViewType.TraceSpansView) {
       trackTraceSpansView();
+    } else if (item === ETraceViewType.TraceCriticalPath) {
+      trackCriticalPathView();
+    } else if (item === ETraceViewType.TraceLogs) {
+      trackLogsView();
+    } else if (item === ETraceViewType.TraceAnalyzer) {
+      trackAnalyzerView();
     }
     onTraceViewChange(item);
   };
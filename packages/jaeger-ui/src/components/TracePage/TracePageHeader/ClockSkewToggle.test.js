@@ -0,0 +1,31 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import ClockSkewToggle from './ClockSkewToggle';
+
+describe('<ClockSkewToggle>', () => {
+  it('switches between the adjusted and the raw timing', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(<ClockSkewToggle adjusted onChange={onChange} />);
+    expect(screen.getByTestId('clock-skew-toggle')).toBeChecked();
+    fireEvent.click(screen.getByTestId('clock-skew-toggle'));
+    expect(onChange).toHaveBeenCalledWith(false, expect.anything());
+    rerender(<ClockSkewToggle adjusted={false} onChange={onChange} />);
+    expect(screen.getByTestId('clock-skew-toggle')).not.toBeChecked();
+  });
+});
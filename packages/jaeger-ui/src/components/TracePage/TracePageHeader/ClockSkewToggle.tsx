@@ -0,0 +1,39 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Switch, Tooltip } from 'antd';
+
+import './ClockSkewToggle.css';
+
+type Props = {
+  adjusted: boolean;
+  onChange: (adjusted: boolean) => void;
+};
+
+/**
+ * Switches between the timing with the clock skew of processes adjusted, and
+ * the timing as reported by the spans.
+ */
+export default function ClockSkewToggle(props: Props) {
+  const { adjusted, onChange } = props;
+  return (
+    <Tooltip title="Some server spans are not within their client spans, the clocks of their processes seem skewed">
+      <label className="ClockSkewToggle">
+        <Switch checked={adjusted} data-testid="clock-skew-toggle" onChange={onChange} size="small" />
+        <span className="ClockSkewToggle--label">Adjust clock skew</span>
+      </label>
+    </Tooltip>
+  );
+}
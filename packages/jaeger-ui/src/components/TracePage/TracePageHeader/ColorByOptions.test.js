@@ -0,0 +1,63 @@
+// Copyright (c) 2023 The Jaeger Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import ColorByOptions, { getTagKeys } from './ColorByOptions';
+import * as track from './TracePageHeader.track';
+import { EColorBy } from '../types';
+import traceGenerator from '../../../demo/trace-generators';
+import transformTraceData from '../../../model/transform-trace-data';
+
+describe('<ColorByOptions>', () => {
+  const trace = transformTraceData(traceGenerator.trace({}));
+  let onChange;
+  let trackColorBy;
+
+  beforeEach(() => {
+    onChange = jest.fn();
+    trackColorBy = jest.spyOn(track, 'trackColorBy').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    trackColorBy.mockRestore();
+  });
+
+  it('changes and tracks the mode', () => {
+    render(<ColorByOptions colorBy={{ mode: EColorBy.Service }} onChange={onChange} trace={trace} />);
+    fireEvent.mouseDown(within(screen.getByTestId('color-by-mode')).getByRole('combobox'));
+    fireEvent.click(screen.getByTitle('Self time'));
+    expect(onChange).toHaveBeenCalledWith({ mode: EColorBy.SelfTime });
+    expect(trackColorBy).toHaveBeenCalledWith(EColorBy.SelfTime);
+  });
+
+  it('offers the tag keys of the trace in the tag mode', () => {
+    const { rerender } = render(
+      <ColorByOptions colorBy={{ mode: EColorBy.Service }} onChange={onChange} trace={trace} />
+    );
+    expect(screen.queryByTestId('color-by-tag-key')).not.toBeInTheDocument();
+    rerender(<ColorByOptions colorBy={{ mode: EColorBy.Tag }} onChange={onChange} trace={trace} />);
+    const [{ value: tagKey }] = getTagKeys(trace);
+    fireEvent.mouseDown(within(screen.getByTestId('color-by-tag-key')).getByRole('combobox'));
+    fireEvent.click(screen.getByTitle(tagKey));
+    expect(onChange).toHaveBeenCalledWith({ mode: EColorBy.Tag, tagKey });
+  });
+
+  it('lists the tag keys once, sorted', () => {
+    const keys = getTagKeys(trace).map(({ value }) => value);
+    expect(keys).toEqual(Array.from(new Set(keys)).sort());
+  });
+});
@@ -0,0 +1,74 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Select } from 'antd';
+import memoizeOne from 'memoize-one';
+
+import { trackColorBy } from './TracePageHeader.track';
+import { COLOR_BY_OPTIONS } from '../span-colors';
+import { EColorBy, TColorBy } from '../types';
+import { Trace } from '../../../types/trace';
+
+import './ColorByOptions.css';
+
+type Props = {
+  colorBy: TColorBy;
+  onChange: (colorBy: TColorBy) => void;
+  trace: Trace;
+};
+
+// exported for tests
+export const getTagKeys = memoizeOne((trace: Trace) => {
+  const keys = new Set<string>();
+  trace.spans.forEach(span => span.tags.forEach(({ key }) => keys.add(key)));
+  return Array.from(keys)
+    .sort()
+    .map(key => ({ label: key, value: key }));
+});
+
+export default function ColorByOptions(props: Props) {
+  const { colorBy, onChange, trace } = props;
+
+  const handleModeChange = (mode: EColorBy) => {
+    trackColorBy(mode);
+    onChange({ ...colorBy, mode });
+  };
+
+  return (
+    <div className="ColorByOptions">
+      <span className="ColorByOptions--label">Color by</span>
+      <Select
+        className="ColorByOptions--mode"
+        data-testid="color-by-mode"
+        onChange={handleModeChange}
+        options={COLOR_BY_OPTIONS}
+        popupMatchSelectWidth={false}
+        value={colorBy.mode}
+      />
+      {colorBy.mode === EColorBy.Tag && (
+        <Select
+          showSearch
+          className="ColorByOptions--tagKey"
+          data-testid="color-by-tag-key"
+          onChange={(tagKey: string) => onChange({ ...colorBy, tagKey })}
+          options={getTagKeys(trace)}
+          placeholder="Tag key"
+          popupMatchSelectWidth={false}
+          value={colorBy.tagKey}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+// Copyright (c) 2023 The Jaeger Authors
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import ColorLegend, { MAX_LEGEND_ITEMS } from './ColorLegend';
+import { EColorBy } from '../types';
+import traceGenerator from '../../../demo/trace-generators';
+import transformTraceData from '../../../model/transform-trace-data';
+import { formatDuration } from '../../../utils/date';
+
+describe('<ColorLegend>', () => {
+  const trace = transformTraceData(traceGenerator.trace({ numberOfSpans: 50 }));
+
+  it('renders the categories', () => {
+    render(<ColorLegend colorBy={{ mode: EColorBy.Error }} trace={trace} />);
+    expect(screen.getByText('Error')).toBeInTheDocument();
+    expect(screen.getByText('No error')).toBeInTheDocument();
+  });
+
+  it('renders the ends of the scale', () => {
+    render(<ColorLegend colorBy={{ mode: EColorBy.Duration }} trace={trace} />);
+    const durations = trace.spans.map(span => span.duration);
+    expect(screen.getByText(formatDuration(Math.max(...durations)))).toBeInTheDocument();
+    expect(screen.getByText(formatDuration(Math.min(...durations)))).toBeInTheDocument();
+  });
+
+  it('limits the number of categories', () => {
+    render(<ColorLegend colorBy={{ mode: EColorBy.Operation }} trace={trace} />);
+    const operations = new Set(trace.spans.map(span => `${span.process.serviceName}: ${span.operationName}`));
+    expect(screen.getByTestId('color-legend').querySelectorAll('.ColorLegend--item')).toHaveLength(
+      Math.min(operations.size, MAX_LEGEND_ITEMS)
+    );
+    if (operations.size > MAX_LEGEND_ITEMS) {
+      expect(screen.getByText(`and ${operations.size - MAX_LEGEND_ITEMS} more`)).toBeInTheDocument();
+    }
+  });
+});
@@ -0,0 +1,61 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+
+import getSpanColors, { HEAT_COLORS } from '../span-colors';
+import { TColorBy } from '../types';
+import { Trace } from '../../../types/trace';
+
+import './ColorLegend.css';
+
+type Props = {
+  colorBy: TColorBy;
+  trace: Trace;
+};
+
+// exported for tests
+export const MAX_LEGEND_ITEMS = 20;
+
+export default function ColorLegend(props: Props) {
+  const { colorBy, trace } = props;
+  const { isScale, legend } = getSpanColors(trace, colorBy);
+
+  if (isScale) {
+    const [low, high] = legend;
+    return (
+      <div className="ColorLegend" data-testid="color-legend">
+        <span className="ColorLegend--label">{low.label}</span>
+        <span
+          className="ColorLegend--scale"
+          style={{ background: `linear-gradient(to right, ${HEAT_COLORS.join(', ')})` }}
+        />
+        <span className="ColorLegend--label">{high.label}</span>
+      </div>
+    );
+  }
+
+  const hidden = legend.length - MAX_LEGEND_ITEMS;
+  return (
+    <div className="ColorLegend" data-testid="color-legend">
+      {legend.slice(0, MAX_LEGEND_ITEMS).map(({ color, label }) => (
+        <span className="ColorLegend--item" key={label}>
+          <span className="ColorLegend--swatch" style={{ background: color }} />
+          {label}
+        </span>
+      ))}
+      {hidden > 0 && <span className="ColorLegend--more">and {hidden} more</span>}
+    </div>
+  );
+}
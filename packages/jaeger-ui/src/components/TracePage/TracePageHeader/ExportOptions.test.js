@@ -0,0 +1,110 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+
+import ExportOptions, { EExportFormat, exportTrace } from './ExportOptions';
+import * as track from './TracePageHeader.track';
+import traceGenerator from '../../../demo/trace-generators';
+import transformTraceData from '../../../model/transform-trace-data';
+import downloadFile from '../../../utils/download-file';
+
+jest.mock('../../../utils/download-file');
+
+describe('ExportOptions', () => {
+  const trace = transformTraceData(traceGenerator.trace({ numberOfSpans: 3 }));
+  let trackExport;
+
+  // jsdom does not implement Blob.text()
+  const readText = blob =>
+    new Promise(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result);
+      reader.readAsText(blob);
+    });
+
+  const readDownload = () => {
+    const [file, fileName] = downloadFile.mock.calls[0];
+    return { file, fileName };
+  };
+
+  beforeAll(() => {
+    trackExport = jest.spyOn(track, 'trackExport');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('downloads OTLP JSON', async () => {
+    exportTrace(trace, EExportFormat.Otlp);
+    const { file, fileName } = readDownload();
+    expect(fileName).toBe(`trace-${trace.traceID}-otlp.json`);
+    expect(file.type).toBe('application/json');
+    const otlp = JSON.parse(await readText(file));
+    expect(otlp.resourceSpans.length).toBeGreaterThan(0);
+    expect(trackExport).toHaveBeenCalledWith(EExportFormat.Otlp);
+  });
+
+  it('downloads Jaeger JSON with the annotations', async () => {
+    const annotations = [{ id: 'a', traceID: trace.traceID, author: '', text: 'slow', createdAt: 1 }];
+    exportTrace(trace, EExportFormat.Jaeger, annotations);
+    const { file, fileName } = readDownload();
+    expect(fileName).toBe(`trace-${trace.traceID}-jaeger.json`);
+    const payload = JSON.parse(await readText(file));
+    expect(payload.data[0].spans.length).toBe(trace.spans.length);
+    expect(payload.annotations).toEqual(annotations);
+  });
+
+  it('downloads Zipkin JSON', async () => {
+    exportTrace(trace, EExportFormat.Zipkin);
+    const { file, fileName } = readDownload();
+    expect(fileName).toBe(`trace-${trace.traceID}-zipkin.json`);
+    expect(JSON.parse(await readText(file)).length).toBe(trace.spans.length);
+  });
+
+  it('downloads CSV', async () => {
+    exportTrace(trace, EExportFormat.Csv);
+    const { file, fileName } = readDownload();
+    expect(fileName).toBe(`trace-${trace.traceID}.csv`);
+    expect(file.type).toBe('text/csv');
+    expect((await readText(file)).split('\r\n').length).toBe(trace.spans.length + 1);
+  });
+
+  it('leaves out the placeholders of the missing parents', async () => {
+    const raw = traceGenerator.trace({ numberOfSpans: 5 });
+    // without its root span
+    const orphaned = transformTraceData({ ...raw, spans: raw.spans.filter(span => span.references.length) });
+    exportTrace(orphaned, EExportFormat.Jaeger);
+    const { file } = readDownload();
+    const spanIDs = JSON.parse(await readText(file)).data[0].spans.map(span => span.spanID);
+    expect(spanIDs.length).toBe(raw.spans.length - 1);
+    orphaned.missingParentIDs.forEach(spanID => expect(spanIDs).not.toContain(spanID));
+  });
+
+  it('ignores unknown formats', () => {
+    exportTrace(trace, 'pdf');
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+
+  it('exports from the dropdown', async () => {
+    render(<ExportOptions trace={trace} />);
+    await userEvent.hover(screen.getByRole('button', { name: /Export/ }));
+    await userEvent.click(await screen.findByText('Spans CSV'));
+    expect(readDownload().fileName).toBe(`trace-${trace.traceID}.csv`);
+  });
+});
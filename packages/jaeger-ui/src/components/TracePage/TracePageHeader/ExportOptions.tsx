@@ -0,0 +1,110 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Dropdown, Button } from 'antd';
+import { IoChevronDown } from 'react-icons/io5';
+
+import { trackExport } from './TracePageHeader.track';
+import { removePlaceholders } from '../../../model/missing-parents';
+import { traceToCsv } from '../../../model/trace-formats/csv';
+import { traceToJaegerPayload } from '../../../model/trace-formats/jaeger';
+import { traceToOtlp } from '../../../model/trace-formats/otlp';
+import { traceToZipkin } from '../../../model/trace-formats/zipkin';
+import { Trace, TraceAnnotation } from '../../../types/trace';
+import downloadFile from '../../../utils/download-file';
+
+import './ExportOptions.css';
+
+type Props = {
+  annotations?: TraceAnnotation[];
+  trace: Trace;
+};
+
+export enum EExportFormat {
+  Csv = 'csv',
+  Jaeger = 'jaeger',
+  Otlp = 'otlp',
+  Zipkin = 'zipkin',
+}
+
+// exported for tests
+export const EXPORT_FORMATS: {
+  format: EExportFormat;
+  label: string;
+  fileSuffix: string;
+  mimeType: string;
+  serialize: (trace: Trace, annotations: TraceAnnotation[]) => string;
+}[] = [
+  {
+    format: EExportFormat.Jaeger,
+    label: 'Jaeger JSON with notes',
+    fileSuffix: '-jaeger.json',
+    mimeType: 'application/json',
+    serialize: (trace, annotations) => JSON.stringify(traceToJaegerPayload(trace, annotations)),
+  },
+  {
+    format: EExportFormat.Otlp,
+    label: 'OTLP JSON',
+    fileSuffix: '-otlp.json',
+    mimeType: 'application/json',
+    serialize: trace => JSON.stringify(traceToOtlp(trace)),
+  },
+  {
+    format: EExportFormat.Zipkin,
+    label: 'Zipkin JSON',
+    fileSuffix: '-zipkin.json',
+    mimeType: 'application/json',
+    serialize: trace => JSON.stringify(traceToZipkin(trace)),
+  },
+  {
+    format: EExportFormat.Csv,
+    label: 'Spans CSV',
+    fileSuffix: '.csv',
+    mimeType: 'text/csv',
+    serialize: traceToCsv,
+  },
+];
+
+export function exportTrace(trace: Trace, format: EExportFormat, annotations: TraceAnnotation[] = []) {
+  const exportFormat = EXPORT_FORMATS.find(item => item.format === format);
+  if (!exportFormat) {
+    return;
+  }
+  trackExport(format);
+  // the placeholders of the missing parents are not part of the trace
+  const file = new Blob([exportFormat.serialize(removePlaceholders(trace), annotations)], {
+    type: exportFormat.mimeType,
+  });
+  downloadFile(file, `trace-${trace.traceID}${exportFormat.fileSuffix}`);
+}
+
+export default function ExportOptions(props: Props) {
+  const { annotations, trace } = props;
+  const items = EXPORT_FORMATS.map(({ format, label }) => ({
+    key: format,
+    label: (
+      <a onClick={() => exportTrace(trace, format, annotations)} role="button">
+        {label}
+      </a>
+    ),
+  }));
+  return (
+    <Dropdown menu={{ items }}>
+      <Button className="ExportOptions">
+        Export <IoChevronDown />
+      </Button>
+    </Dropdown>
+  );
+}
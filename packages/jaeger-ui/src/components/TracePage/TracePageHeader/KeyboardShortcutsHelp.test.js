@@ -16,8 +16,18 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
-import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import KeyboardShortcutsHelp, { getBinding } from './KeyboardShortcutsHelp';
 import * as track from './KeyboardShortcutsHelp.track';
+import { getKeyboardMappings, KEYBOARD_MAPPINGS_STORAGE_KEY } from '../keyboard-mappings';
+import { remap, restoreDefaults } from '../keyboard-shortcuts';
+
+jest.mock('../keyboard-shortcuts', () => {
+  const { resetKeyboardBindings, setKeyboardBinding } = jest.requireActual('../keyboard-mappings');
+  return {
+    remap: jest.fn(setKeyboardBinding),
+    restoreDefaults: jest.fn(resetKeyboardBindings),
+  };
+});
 
 describe('KeyboardShortcutsHelp', () => {
   const testClassName = 'test--ClassName';
@@ -29,14 +39,91 @@ describe('KeyboardShortcutsHelp', () => {
 
   beforeEach(() => {
     trackSpy.mockReset();
+    remap.mockClear();
+    restoreDefaults.mockClear();
     render(<KeyboardShortcutsHelp className={testClassName} />);
   });
 
+  afterEach(() => {
+    localStorage.removeItem(KEYBOARD_MAPPINGS_STORAGE_KEY);
+  });
+
   it('renders as expected', () => {
     const buttonElement = screen.getByRole('button');
     expect(buttonElement.className).toContain(testClassName);
   });
 
+  it('lists the span selection shortcuts', () => {
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByText('Select the next span')).toBeInTheDocument();
+    expect(screen.getByText('J')).toBeInTheDocument();
+    expect(screen.getByText('↵')).toBeInTheDocument();
+  });
+
+  describe('remapping', () => {
+    const startEditing = () => {
+      fireEvent.click(screen.getByRole('button'));
+      fireEvent.click(screen.getByRole('button', { name: 'Change the keys of Select the next span' }));
+      return screen.getByTestId('shortcut-recorder');
+    };
+
+    it('changes the keys of a shortcut to the pressed keys', () => {
+      fireEvent.keyDown(startEditing(), { key: 'N', shiftKey: true });
+      expect(remap).toHaveBeenCalledWith('selectNextSpan', ['shift+n']);
+      expect(screen.queryByTestId('shortcut-recorder')).not.toBeInTheDocument();
+      expect(screen.getByText('⇧ N')).toBeInTheDocument();
+      expect(getKeyboardMappings().selectNextSpan.binding).toEqual(['shift+n']);
+    });
+
+    it('waits for a key other than a modifier', () => {
+      const recorder = startEditing();
+      fireEvent.keyDown(recorder, { key: 'Control', ctrlKey: true });
+      expect(remap).not.toHaveBeenCalled();
+      expect(screen.getByTestId('shortcut-recorder')).toBeInTheDocument();
+    });
+
+    it('cancels with escape', () => {
+      fireEvent.keyDown(startEditing(), { key: 'Escape' });
+      expect(remap).not.toHaveBeenCalled();
+      expect(screen.queryByTestId('shortcut-recorder')).not.toBeInTheDocument();
+    });
+
+    it('refuses keys used by another shortcut', () => {
+      const recorder = startEditing();
+      fireEvent.keyDown(recorder, { key: 'k' });
+      expect(remap).not.toHaveBeenCalled();
+      expect(screen.getByText('k is used by "Select the previous span"')).toBeInTheDocument();
+    });
+
+    it('restores the default keys of a shortcut', () => {
+      fireEvent.keyDown(startEditing(), { key: 'n' });
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Restore the default keys of Select the next span' })
+      );
+      expect(remap).toHaveBeenLastCalledWith('selectNextSpan', null);
+      expect(screen.getByText('J')).toBeInTheDocument();
+    });
+
+    it('restores all the default keys', () => {
+      fireEvent.keyDown(startEditing(), { key: 'n' });
+      fireEvent.click(screen.getByRole('button', { name: 'Restore Defaults' }));
+      expect(restoreDefaults).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('J')).toBeInTheDocument();
+    });
+  });
+
+  describe('getBinding()', () => {
+    it('converts the keydown events to Combokeys bindings', () => {
+      expect(getBinding({ key: 'a' })).toBe('a');
+      expect(getBinding({ key: 'A', shiftKey: true })).toBe('shift+a');
+      expect(getBinding({ key: '?', shiftKey: true })).toBe('?');
+      expect(getBinding({ key: 'ArrowUp', ctrlKey: true, altKey: true })).toBe('ctrl+alt+up');
+      expect(getBinding({ key: ' ', metaKey: true })).toBe('meta+space');
+      expect(getBinding({ key: 'F2', shiftKey: true })).toBe('shift+f2');
+      expect(getBinding({ key: 'Shift', shiftKey: true })).toBe(null);
+    });
+  });
+
   it('opens modal and tracks its opening', () => {
     const buttonElement = screen.getByRole('button');
     let modalElement = screen.queryByText('Keyboard Shortcuts');
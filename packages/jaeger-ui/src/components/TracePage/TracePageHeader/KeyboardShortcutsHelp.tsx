@@ -13,9 +13,10 @@
 // limitations under the License.
 
 import * as React from 'react';
-import { Button, Modal, Table } from 'antd';
+import { Button, Input, Modal, Table } from 'antd';
 
-import keyboardMappings from '../keyboard-mappings';
+import keyboardMappings, { getKeyboardMappings, TKeyboardMapping } from '../keyboard-mappings';
+import { remap, restoreDefaults } from '../keyboard-shortcuts';
 import track from './KeyboardShortcutsHelp.track';
 
 import './KeyboardShortcutsHelp.css';
@@ -25,12 +26,15 @@ type Props = {
 };
 
 type State = {
+  editing: string | null;
+  error: string | null;
+  mappings: Record<string, TKeyboardMapping>;
   visible: boolean;
 };
 
 type DataRecord = {
   key: string;
-  kbds: React.JSX.Element;
+  binding: string[];
   description: string;
 };
 
@@ -42,68 +46,173 @@ const SYMBOL_CONV: Record<string, string> = {
   down: '↓',
   left: '←',
   shift: '⇧',
+  enter: '↵',
 };
 
+// the names Combokeys uses for the keys that do not print a character
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'space',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  Backspace: 'backspace',
+  Delete: 'del',
+  End: 'end',
+  Enter: 'enter',
+  Home: 'home',
+  PageDown: 'pagedown',
+  PageUp: 'pageup',
+  Tab: 'tab',
+};
+
+const MODIFIER_KEYS = new Set(['Alt', 'Control', 'Meta', 'Shift']);
+
 const ODD_ROW_CLASS = 'KeyboardShortcutsHelp--oddRow';
 
+function toArray(binding: string | string[]) {
+  return Array.isArray(binding) ? binding : [binding];
+}
+
 function convertKeys(keyConfig: string | string[]): string[][] {
-  const config = Array.isArray(keyConfig) ? keyConfig : [keyConfig];
-  return config.map(str => str.split('+').map(part => SYMBOL_CONV[part] || part.toUpperCase()));
+  return toArray(keyConfig).map(str => str.split('+').map(part => SYMBOL_CONV[part] || part.toUpperCase()));
+}
+
+/**
+ * Returns the Combokeys binding of the keys pressed in a keydown event, or
+ * `null` while only modifier keys are pressed.
+ */
+// exported for tests
+export function getBinding(event: React.KeyboardEvent) {
+  const { altKey, ctrlKey, key, metaKey, shiftKey } = event;
+  if (MODIFIER_KEYS.has(key)) {
+    return null;
+  }
+  const isChar = key.length === 1 && key !== ' ';
+  const parts = [];
+  if (ctrlKey) parts.push('ctrl');
+  if (altKey) parts.push('alt');
+  if (metaKey) parts.push('meta');
+  // the shift key is part of the character for the symbols, e.g. "?"
+  if (shiftKey && (!isChar || /[a-z0-9]/i.test(key))) parts.push('shift');
+  parts.push(isChar ? key.toLowerCase() : KEY_NAMES[key] || key.toLowerCase());
+  return parts.join('+');
 }
 
 const padLeft = (text: string) => <span className="ub-pl4">{text}</span>;
-const padRight = (text: string) => <span className="ub-pr4">{text}</span>;
 const getRowClass = (_: DataRecord, index: number) => (index % 2 > 0 ? ODD_ROW_CLASS : '');
 
-let kbdTable: React.ReactNode | null = null;
+export default class KeyboardShortcutsHelp extends React.PureComponent<Props, State> {
+  state: State = {
+    editing: null,
+    error: null,
+    mappings: getKeyboardMappings(),
+    visible: false,
+  };
 
-function getHelpModal() {
-  if (kbdTable) {
-    return kbdTable;
-  }
-  const data: DataRecord[] = [];
-  Object.keys(keyboardMappings).forEach(handle => {
-    const { binding, label } = keyboardMappings[handle];
-    const keyConfigs = convertKeys(binding);
-    data.push(
-      ...keyConfigs.map(config => ({
-        key: String(config),
-        kbds: <kbd>{config.join(' ')}</kbd>,
-        description: label,
-      }))
+  renderKeys = (binding: string[], { key }: DataRecord) => {
+    const { editing, error } = this.state;
+    if (editing === key) {
+      return (
+        <span className="KeyboardShortcutsHelp--recorder">
+          <Input
+            autoFocus
+            data-testid="shortcut-recorder"
+            onBlur={this.onEditCancelled}
+            onKeyDown={this.onKeysRecorded}
+            placeholder="Press the new keys, Esc to cancel"
+            readOnly
+            size="small"
+          />
+          {error && <small className="KeyboardShortcutsHelp--error">{error}</small>}
+        </span>
+      );
+    }
+    return (
+      <span className="KeyboardShortcutsHelp--keys">
+        {convertKeys(binding).map(config => (
+          <kbd key={config.join(' ')}>{config.join(' ')}</kbd>
+        ))}
+      </span>
     );
-  });
-
-  kbdTable = (
-    <Table
-      className="KeyboardShortcutsHelp--table u-simple-scrollbars"
-      dataSource={data}
-      size="middle"
-      pagination={false}
-      showHeader={false}
-      rowClassName={getRowClass}
-    >
-      <Column title="Description" dataIndex="description" key="description" render={padLeft} />
-      <Column title="Key(s)" dataIndex="kbds" key="kbds" align="right" render={padRight} />
-    </Table>
-  );
-  return kbdTable;
-}
+  };
 
-export default class KeyboardShortcutsHelp extends React.PureComponent<Props, State> {
-  state = {
-    visible: false,
+  renderActions = (_: unknown, { key, description }: DataRecord) => {
+    const isChanged = this.state.mappings[key] !== keyboardMappings[key];
+    return (
+      <span className="ub-pr4">
+        <Button
+          aria-label={`Change the keys of ${description}`}
+          onClick={() => this.setState({ editing: key, error: null })}
+          size="small"
+          type="link"
+        >
+          Change
+        </Button>
+        {isChanged && (
+          <Button
+            aria-label={`Restore the default keys of ${description}`}
+            onClick={() => this.onBindingReset(key)}
+            size="small"
+            type="link"
+          >
+            Default
+          </Button>
+        )}
+      </span>
+    );
   };
 
   onCtaClicked = () => {
     track();
-    this.setState({ visible: true });
+    this.setState({ mappings: getKeyboardMappings(), visible: true });
+  };
+
+  onCloserClicked = () => this.setState({ editing: null, error: null, visible: false });
+
+  onEditCancelled = () => this.setState({ editing: null, error: null });
+
+  onDefaultsRestored = () => {
+    restoreDefaults();
+    this.setState({ editing: null, error: null, mappings: getKeyboardMappings() });
   };
 
-  onCloserClicked = () => this.setState({ visible: false });
+  onKeysRecorded = (event: React.KeyboardEvent) => {
+    const { editing, mappings } = this.state;
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      this.onEditCancelled();
+      return;
+    }
+    const binding = getBinding(event);
+    if (!editing || !binding) {
+      return;
+    }
+    const taken = Object.keys(mappings).find(
+      name => name !== editing && toArray(mappings[name].binding).includes(binding)
+    );
+    if (taken) {
+      this.setState({ error: `${binding} is used by "${mappings[taken].label}"` });
+      return;
+    }
+    remap(editing, [binding]);
+    this.setState({ editing: null, error: null, mappings: getKeyboardMappings() });
+  };
+
+  onBindingReset = (name: string) => {
+    remap(name, null);
+    this.setState({ mappings: getKeyboardMappings() });
+  };
 
   render() {
     const { className } = this.props;
+    const { mappings, visible } = this.state;
+    const data: DataRecord[] = Object.keys(mappings).map(name => ({
+      key: name,
+      binding: toArray(mappings[name].binding),
+      description: mappings[name].label,
+    }));
     return (
       <React.Fragment>
         <Button className={className} htmlType="button" onClick={this.onCtaClicked}>
@@ -111,17 +220,35 @@ export default class KeyboardShortcutsHelp extends React.PureComponent<Props, St
         </Button>
         <Modal
           title="Keyboard Shortcuts"
-          open={this.state.visible}
+          open={visible}
           onOk={this.onCloserClicked}
           onCancel={this.onCloserClicked}
-          cancelButtonProps={{ style: { display: 'none' } }}
+          footer={[
+            <Button key="defaults" htmlType="button" onClick={this.onDefaultsRestored}>
+              Restore Defaults
+            </Button>,
+            <Button key="ok" htmlType="button" onClick={this.onCloserClicked} type="primary">
+              OK
+            </Button>,
+          ]}
           styles={{
             body: {
               padding: 0,
             },
           }}
         >
-          {getHelpModal()}
+          <Table
+            className="KeyboardShortcutsHelp--table u-simple-scrollbars"
+            dataSource={data}
+            size="middle"
+            pagination={false}
+            showHeader={false}
+            rowClassName={getRowClass}
+          >
+            <Column title="Description" dataIndex="description" key="description" render={padLeft} />
+            <Column title="Key(s)" dataIndex="binding" key="binding" align="right" render={this.renderKeys} />
+            <Column title="Actions" key="actions" align="right" render={this.renderActions} />
+          </Table>
         </Modal>
       </React.Fragment>
     );
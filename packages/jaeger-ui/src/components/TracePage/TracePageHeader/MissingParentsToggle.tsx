@@ -0,0 +1,45 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Switch, Tooltip } from 'antd';
+
+import './MissingParentsToggle.css';
+
+type Props = {
+  reconstructed: boolean;
+  onChange: (reconstructed: boolean) => void;
+};
+
+/**
+ * Switches between the structure with placeholders for the parents missing
+ * from the trace, and the structure as received, with their children at the
+ * top level.
+ */
+export default function MissingParentsToggle(props: Props) {
+  const { reconstructed, onChange } = props;
+  return (
+    <Tooltip title="Some spans reference a parent that is not in the trace">
+      <label className="MissingParentsToggle">
+        <Switch
+          checked={reconstructed}
+          data-testid="missing-parents-toggle"
+          onChange={onChange}
+          size="small"
+        />
+        <span className="MissingParentsToggle--label">Reconstruct missing parents</span>
+      </label>
+    </Tooltip>
+  );
+}
@@ -18,13 +18,12 @@ import '@testing-library/jest-dom';
 
 import CanvasSpanGraph, { getColor } from './CanvasSpanGraph';
 import * as renderUtils from './render-into-canvas'; // Import the module to mock
-import colorGenerator from '../../../../utils/color-generator';
 
 // Mock the renderIntoCanvas function
 jest.mock('./render-into-canvas');
 
 describe('<CanvasSpanGraph />', () => {
-  const items = [{ valueWidth: 1, valueOffset: 1, serviceName: 'service-name-0' }];
+  const items = [{ valueWidth: 1, valueOffset: 1, color: '#17b8be' }];
   const props = {
     items: [],
     valueWidth: 4000,
@@ -65,11 +64,7 @@ describe('<CanvasSpanGraph />', () => {
     expect(renderUtils.default).toHaveBeenCalledWith(canvas, items, props.valueWidth, expect.any(Function));
   });
 
-  it('calls colorGenerator.getRgbColorByKey with correct hex', () => {
-    const spy = jest.spyOn(colorGenerator, 'getRgbColorByKey');
-    const hex = '#abcdef';
-    getColor(hex);
-    expect(spy).toHaveBeenCalledWith(hex);
-    spy.mockRestore();
+  it('converts the hex color of an item to RGB', () => {
+    expect(getColor('#abcdef')).toEqual([171, 205, 239]);
   });
 });
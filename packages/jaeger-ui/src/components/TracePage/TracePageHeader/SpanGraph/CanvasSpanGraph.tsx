@@ -15,16 +15,16 @@
 import React, { useRef, useEffect } from 'react';
 
 import renderIntoCanvas from './render-into-canvas';
-import colorGenerator from '../../../../utils/color-generator';
+import { strToRgb } from '../../../../utils/color-generator';
 
 import './CanvasSpanGraph.css';
 
 type CanvasSpanGraphProps = {
-  items: { valueWidth: number; valueOffset: number; serviceName: string }[];
+  items: { valueWidth: number; valueOffset: number; color: string }[];
   valueWidth: number;
 };
 
-export const getColor = (hex: string) => colorGenerator.getRgbColorByKey(hex);
+export const getColor = (hex: string) => strToRgb(hex);
 
 const CanvasSpanGraph: React.FC<CanvasSpanGraphProps> = ({ items, valueWidth }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -22,6 +22,9 @@ import ViewingLayer from './ViewingLayer';
 import traceGenerator from '../../../../demo/trace-generators';
 import transformTraceData from '../../../../model/transform-trace-data';
 import * as canvasSpanGraphModule from './CanvasSpanGraph';
+import { EColorBy } from '../../types';
+import { ERROR_COLOR, NO_VALUE_COLOR } from '../../span-colors';
+import colorGenerator from '../../../../utils/color-generator';
 
 jest.mock('./CanvasSpanGraph', () => jest.fn(() => <div data-testid="CanvasSpanGraph" />));
 jest.mock('./TickLabels', () => jest.fn(() => <div data-testid="TickLabels" />));
@@ -81,7 +84,7 @@ describe('<SpanGraph>', () => {
     const expectedItems = trace.spans.map(span => ({
       valueOffset: span.relativeStartTime,
       valueWidth: span.duration,
-      serviceName: span.process.serviceName,
+      color: colorGenerator.getColorByKey(span.process.serviceName),
     }));
 
     expect(CanvasSpanGraph).toHaveBeenCalledWith(
@@ -93,6 +96,12 @@ describe('<SpanGraph>', () => {
     );
   });
 
+  it('colors the items like the timeline', () => {
+    render(<SpanGraph {...defaultProps} colorBy={{ mode: EColorBy.Error }} />);
+    const { items } = CanvasSpanGraph.mock.calls[0][0];
+    items.forEach(item => expect([ERROR_COLOR, NO_VALUE_COLOR]).toContain(item.color));
+  });
+
   it('uses memoization and does not regenerate items if props unchanged', () => {
     const { rerender } = render(<SpanGraph {...defaultProps} />);
 
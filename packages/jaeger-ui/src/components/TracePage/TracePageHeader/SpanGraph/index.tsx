@@ -18,13 +18,15 @@ import memoizeOne from 'memoize-one';
 import CanvasSpanGraph from './CanvasSpanGraph';
 import TickLabels from './TickLabels';
 import ViewingLayer from './ViewingLayer';
-import { TUpdateViewRangeTimeFunction, IViewRange, ViewRangeTimeUpdate } from '../../types';
-import { Span, Trace } from '../../../../types/trace';
+import getSpanColors, { DEFAULT_COLOR_BY } from '../../span-colors';
+import { TColorBy, TUpdateViewRangeTimeFunction, IViewRange, ViewRangeTimeUpdate } from '../../types';
+import { Trace } from '../../../../types/trace';
 
 const DEFAULT_HEIGHT = 60;
 const TIMELINE_TICK_INTERVAL = 4;
 
 type SpanGraphProps = {
+  colorBy?: TColorBy;
   height?: number;
   trace: Trace;
   viewRange: IViewRange;
@@ -35,35 +37,34 @@ type SpanGraphProps = {
 type SpanItem = {
   valueOffset: number;
   valueWidth: number;
-  serviceName: string;
+  color: string;
 };
 
-function getItem(span: Span): SpanItem {
-  return {
+// the spans have the colors of the timeline
+function getItems(trace: Trace, colorBy: TColorBy): SpanItem[] {
+  const { colors } = getSpanColors(trace, colorBy);
+  return trace.spans.map(span => ({
     valueOffset: span.relativeStartTime,
     valueWidth: span.duration,
-    serviceName: span.process.serviceName,
-  };
-}
-
-function getItems(trace: Trace): SpanItem[] {
-  return trace.spans.map(getItem);
+    color: colors.get(span.spanID)!,
+  }));
 }
 
 const memoizedGetItems = memoizeOne(getItems);
 
 export default class SpanGraph extends React.PureComponent<SpanGraphProps> {
   static defaultProps = {
+    colorBy: DEFAULT_COLOR_BY,
     height: DEFAULT_HEIGHT,
   };
 
   render() {
-    const { height, trace, viewRange, updateNextViewRangeTime, updateViewRangeTime } = this.props;
+    const { colorBy, height, trace, viewRange, updateNextViewRangeTime, updateViewRangeTime } = this.props;
     if (!trace) {
       return <div />;
     }
 
-    const items = memoizedGetItems(trace);
+    const items = memoizedGetItems(trace, colorBy || DEFAULT_COLOR_BY);
     return (
       <div className="ub-pb2 ub-px2">
         <TickLabels numTicks={TIMELINE_TICK_INTERVAL} duration={trace.duration} />
@@ -35,7 +35,7 @@ const getBgFillRect = items => ({
 });
 
 describe('renderIntoCanvas()', () => {
-  const basicItem = { valueWidth: 100, valueOffset: 50, serviceName: 'some-name' };
+  const basicItem = { valueWidth: 100, valueOffset: 50, color: 'some-color' };
 
   class CanvasContext {
     constructor() {
@@ -116,14 +116,14 @@ describe('renderIntoCanvas()', () => {
     it('draws the map', () => {
       const totalValueWidth = 4000;
       const items = [
-        { valueWidth: 50, valueOffset: 50, serviceName: 'service-name-0' },
-        { valueWidth: 100, valueOffset: 100, serviceName: 'service-name-1' },
-        { valueWidth: 150, valueOffset: 150, serviceName: 'service-name-2' },
+        { valueWidth: 50, valueOffset: 50, color: 'color-0' },
+        { valueWidth: 100, valueOffset: 100, color: 'color-1' },
+        { valueWidth: 150, valueOffset: 150, color: 'color-2' },
       ];
       const expectedColors = [
-        { input: items[0].serviceName, output: [0, 0, 0] },
-        { input: items[1].serviceName, output: [1, 1, 1] },
-        { input: items[2].serviceName, output: [2, 2, 2] },
+        { input: items[0].color, output: [0, 0, 0] },
+        { input: items[1].color, output: [1, 1, 1] },
+        { input: items[2].color, output: [2, 2, 2] },
       ];
       const cHeight =
         items.length < MIN_TOTAL_HEIGHT ? MIN_TOTAL_HEIGHT : Math.min(items.length, MAX_TOTAL_HEIGHT);
@@ -168,10 +168,10 @@ describe('renderIntoCanvas()', () => {
       const items = _range(MIN_TOTAL_HEIGHT * 10).map(i => ({
         valueWidth: i,
         valueOffset: i,
-        serviceName: `service-name-${i}`,
+        color: `color-${i}`,
       }));
       const expectedColors = items.map((item, i) => ({
-        input: item.serviceName,
+        input: item.color,
         output: [i, i, i],
       }));
       const expectedDrawings = [
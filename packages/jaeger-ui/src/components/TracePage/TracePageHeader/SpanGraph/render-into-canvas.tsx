@@ -25,9 +25,9 @@ export const MAX_ITEM_HEIGHT = 6;
 
 export default function renderIntoCanvas(
   canvas: HTMLCanvasElement,
-  items: { valueWidth: number; valueOffset: number; serviceName: string }[],
+  items: { valueWidth: number; valueOffset: number; color: string }[],
   totalValueWidth: number,
-  getFillColor: (serviceName: string) => [number, number, number]
+  getFillColor: (color: string) => [number, number, number]
 ) {
   const fillCache: Map<string, string | TNil> = new Map();
   const cHeight =
@@ -44,16 +44,16 @@ export default function renderIntoCanvas(
   ctx.fillStyle = BG_COLOR;
   ctx.fillRect(0, 0, cWidth, cHeight);
   for (let i = 0; i < items.length; i++) {
-    const { valueWidth, valueOffset, serviceName } = items[i];
+    const { valueWidth, valueOffset, color } = items[i];
     const x = (valueOffset / totalValueWidth) * cWidth;
     let width = (valueWidth / totalValueWidth) * cWidth;
     if (width < MIN_ITEM_WIDTH) {
       width = MIN_ITEM_WIDTH;
     }
-    let fillStyle = fillCache.get(serviceName);
+    let fillStyle = fillCache.get(color);
     if (!fillStyle) {
-      fillStyle = `rgba(${getFillColor(serviceName).concat(ITEM_ALPHA).join()})`;
-      fillCache.set(serviceName, fillStyle);
+      fillStyle = `rgba(${getFillColor(color).concat(ITEM_ALPHA).join()})`;
+      fillCache.set(color, fillStyle);
     }
     ctx.fillStyle = fillStyle;
     ctx.fillRect(x, i * itemYChange, width, itemHeight);
@@ -0,0 +1,38 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+
+import TraceNotes from './TraceNotes';
+
+describe('<TraceNotes>', () => {
+  const annotations = [{ id: 'a', traceID: 'trace', author: 'Ada', text: 'incident 42', createdAt: 1 }];
+
+  it('shows the number of notes', () => {
+    render(<TraceNotes annotations={annotations} onAdd={jest.fn()} onDelete={jest.fn()} />);
+    expect(screen.getByRole('button', { name: /Notes \(1\)/ })).toBeInTheDocument();
+  });
+
+  it('shows the notes when clicked', async () => {
+    const onDelete = jest.fn();
+    render(<TraceNotes annotations={annotations} onAdd={jest.fn()} onDelete={onDelete} />);
+    await userEvent.click(screen.getByRole('button', { name: /Notes/ }));
+    expect(await screen.findByText('incident 42')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Delete note' }));
+    expect(onDelete).toHaveBeenCalledWith(annotations[0]);
+  });
+});
@@ -0,0 +1,52 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Popover } from 'antd';
+import { IoChatboxEllipsesOutline } from 'react-icons/io5';
+
+import AnnotationList from '../AnnotationList';
+import { TraceAnnotation } from '../../../types/trace';
+
+import './TraceNotes.css';
+
+type Props = {
+  annotations: TraceAnnotation[];
+  onAdd: (author: string, text: string) => void;
+  onDelete: (annotation: TraceAnnotation) => void;
+};
+
+/**
+ * The notes on the whole trace, rather than on one of its spans.
+ */
+export default function TraceNotes(props: Props) {
+  const { annotations, onAdd, onDelete } = props;
+  return (
+    <Popover
+      content={
+        <div className="TraceNotes--content">
+          <AnnotationList annotations={annotations} onAdd={onAdd} onDelete={onDelete} />
+        </div>
+      }
+      placement="bottomRight"
+      title="Trace notes"
+      trigger="click"
+    >
+      <Button className="TraceNotes ub-mr2 ub-flex ub-items-center" htmlType="button">
+        <IoChatboxEllipsesOutline className="TraceNotes--icon" />
+        Notes{annotations.length > 0 && ` (${annotations.length})`}
+      </Button>
+    </Popover>
+  );
+}
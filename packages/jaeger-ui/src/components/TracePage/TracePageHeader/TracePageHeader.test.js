@@ -17,9 +17,16 @@ import { shallow, mount } from 'enzyme';
 import { Link } from 'react-router-dom';
 
 import AltViewOptions from './AltViewOptions';
+import ClockSkewToggle from './ClockSkewToggle';
+import ColorByOptions from './ColorByOptions';
+import ColorLegend from './ColorLegend';
+import ExportOptions from './ExportOptions';
 import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import MissingParentsToggle from './MissingParentsToggle';
 import SpanGraph from './SpanGraph';
+import TraceNotes from './TraceNotes';
 import { TracePageHeaderFn as TracePageHeader, HEADER_ITEMS } from './TracePageHeader';
+import { EColorBy, ETraceViewType } from '../types';
 import LabeledList from '../../common/LabeledList';
 import traceGenerator from '../../../demo/trace-generators';
 import { getTraceName } from '../../../model/trace-viewer';
@@ -28,6 +35,9 @@ import transformTraceData from '../../../model/transform-trace-data';
 describe('<TracePageHeader>', () => {
   const trace = transformTraceData(traceGenerator.trace({}));
   const defaultProps = {
+    annotations: [],
+    colorBy: { mode: EColorBy.Service },
+    exportedTrace: trace,
     trace,
     showArchiveButton: false,
     showShortcutsHelp: false,
@@ -111,6 +121,82 @@ describe('<TracePageHeader>', () => {
       expect(wrapper.find(AltViewOptions).length).toBe(0);
     });
 
+    it('toggles <ExportOptions /> with the view options, exporting the trace as received', () => {
+      const exportedTrace = { ...trace };
+      wrapper.setProps({ exportedTrace, showViewOptions: true });
+      expect(wrapper.find(ExportOptions).prop('trace')).toBe(exportedTrace);
+      wrapper.setProps({ showViewOptions: false });
+      expect(wrapper.find(ExportOptions).length).toBe(0);
+    });
+
+    it('toggles <TraceNotes /> with the view options, with the notes on the trace', () => {
+      expect(wrapper.find(TraceNotes).length).toBe(0);
+      const onTrace = { id: 'a', traceID: trace.traceID, author: '', text: 'slow', createdAt: 1 };
+      const onSpan = { ...onTrace, id: 'b', spanID: trace.spans[0].spanID };
+      wrapper.setProps({ annotations: [onTrace, onSpan], showViewOptions: true });
+      expect(wrapper.find(TraceNotes).prop('annotations')).toEqual([onTrace]);
+      expect(wrapper.find(ExportOptions).prop('annotations')).toEqual([onTrace, onSpan]);
+    });
+
+    it('renders the <ClockSkewToggle /> with the view options, when the trace has clock skew', () => {
+      const onAdjustClockSkewChange = jest.fn();
+      wrapper.setProps({ adjustClockSkew: true, onAdjustClockSkewChange, showViewOptions: true });
+      expect(wrapper.find(ClockSkewToggle).length).toBe(0);
+      wrapper.setProps({ trace: { ...trace, clockSkewOffsets: { p2: 300 } } });
+      expect(wrapper.find(ClockSkewToggle).props()).toEqual({
+        adjusted: true,
+        onChange: onAdjustClockSkewChange,
+      });
+      wrapper.setProps({ showViewOptions: false });
+      expect(wrapper.find(ClockSkewToggle).length).toBe(0);
+    });
+
+    it('renders the <MissingParentsToggle /> with the view options, when parents are missing', () => {
+      const onReconstructMissingParentsChange = jest.fn();
+      wrapper.setProps({
+        onReconstructMissingParentsChange,
+        reconstructMissingParents: true,
+        showViewOptions: true,
+      });
+      expect(wrapper.find(MissingParentsToggle).length).toBe(0);
+      wrapper.setProps({ trace: { ...trace, missingParentIDs: ['missing-span-id'] } });
+      expect(wrapper.find(MissingParentsToggle).props()).toEqual({
+        reconstructed: true,
+        onChange: onReconstructMissingParentsChange,
+      });
+      wrapper.setProps({ showViewOptions: false });
+      expect(wrapper.find(MissingParentsToggle).length).toBe(0);
+    });
+
+    it('renders the warnings about the trace, unless in the slim view', () => {
+      expect(wrapper.find('[data-testid="trace-warnings"]').length).toBe(0);
+      wrapper.setProps({ trace: { ...trace, warnings: ['Missing spans'] } });
+      expect(wrapper.find('[data-testid="trace-warnings"]').text()).toContain('Missing spans');
+      wrapper.setProps({ slimView: true });
+      expect(wrapper.find('[data-testid="trace-warnings"]').length).toBe(0);
+    });
+
+    it('toggles <ColorByOptions /> with the view options, in the timeline view', () => {
+      const onColorByChange = jest.fn();
+      wrapper.setProps({ onColorByChange, showViewOptions: true });
+      expect(wrapper.find(ColorByOptions).length).toBe(0);
+      wrapper.setProps({ viewType: ETraceViewType.TraceTimelineViewer });
+      expect(wrapper.find(ColorByOptions).prop('onChange')).toBe(onColorByChange);
+      wrapper.setProps({ showViewOptions: false });
+      expect(wrapper.find(ColorByOptions).length).toBe(0);
+    });
+
+    it('renders the <ColorLegend /> unless coloring by service', () => {
+      wrapper.setProps({ viewType: ETraceViewType.TraceTimelineViewer });
+      expect(wrapper.find(ColorLegend).length).toBe(0);
+      const colorBy = { mode: EColorBy.Duration };
+      wrapper.setProps({ colorBy });
+      expect(wrapper.find(ColorLegend).prop('colorBy')).toBe(colorBy);
+      expect(wrapper.find(SpanGraph).prop('colorBy')).toBe(colorBy);
+      wrapper.setProps({ slimView: true });
+      expect(wrapper.find(ColorLegend).length).toBe(0);
+    });
+
     it('renders the link to search', () => {
       expect(wrapper.find(Link).length).toBe(0);
 
@@ -49,6 +49,18 @@ describe('TracePageHeader.track', () => {
       msg: 'tracks a GA event for viewing trace JSON',
       fn: 'trackJsonView',
     },
+    {
+      action: track.ACTION_ANALYZER,
+      category: track.CATEGORY_ALT_VIEW,
+      msg: 'tracks a GA event for viewing trace anti-patterns',
+      fn: 'trackAnalyzerView',
+    },
+    {
+      action: track.ACTION_LOGS,
+      category: track.CATEGORY_ALT_VIEW,
+      msg: 'tracks a GA event for viewing trace logs',
+      fn: 'trackLogsView',
+    },
     {
       action: track.ACTION_RAW_JSON,
       category: track.CATEGORY_ALT_VIEW,
@@ -81,6 +93,13 @@ describe('TracePageHeader.track', () => {
       msg: 'tracks a GA event for closing slim header',
       fn: 'trackSlimHeaderToggle',
     },
+    {
+      action: 'csv',
+      arg: 'csv',
+      category: track.CATEGORY_EXPORT,
+      msg: 'tracks a GA event for exporting a trace',
+      fn: 'trackExport',
+    },
   ];
 
   cases.forEach(({ action, arg, msg, fn, category }) => {
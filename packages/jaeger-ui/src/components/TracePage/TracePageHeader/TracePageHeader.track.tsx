@@ -18,22 +18,34 @@ import { trackEvent } from '../../../utils/tracking';
 // export for tests
 export const CATEGORY_ALT_VIEW = 'jaeger/ux/trace/alt-view';
 export const CATEGORY_SLIM_HEADER = 'jaeger/ux/trace/slim-header';
+export const CATEGORY_EXPORT = 'jaeger/ux/trace/export';
+export const CATEGORY_COLOR_BY = 'jaeger/ux/trace/color-by';
 
 // export for tests
+export const ACTION_ANALYZER = 'traceAnalyzer';
+export const ACTION_CRITICAL_PATH = 'criticalPath';
 export const ACTION_GANTT = 'gantt';
 export const ACTION_GRAPH = 'graph';
 export const ACTION_JSON = 'json';
+export const ACTION_LOGS = 'traceLogs';
 export const ACTION_RAW_JSON = 'rawJson';
 export const ACTION_STATISTICS = 'traceStatistics';
 export const ACTION_TRACE_SPANS_VIEW = 'tracesSpansView';
 
 // use a closure instead of bind to prevent forwarding any arguments to trackEvent()
+export const trackAnalyzerView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_ANALYZER);
+export const trackCriticalPathView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_CRITICAL_PATH);
 export const trackGanttView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_GANTT);
 export const trackGraphView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_GRAPH);
 export const trackJsonView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_JSON);
+export const trackLogsView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_LOGS);
 export const trackRawJsonView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_RAW_JSON);
 export const trackStatisticsView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_STATISTICS);
 export const trackTraceSpansView = () => trackEvent(CATEGORY_ALT_VIEW, ACTION_TRACE_SPANS_VIEW);
 
+export const trackExport = (format: string) => trackEvent(CATEGORY_EXPORT, format);
+
+export const trackColorBy = (mode: string) => trackEvent(CATEGORY_COLOR_BY, mode);
+
 export const trackSlimHeaderToggle = (isOpen: boolean) =>
   trackEvent(CATEGORY_SLIM_HEADER, getToggleValue(isOpen));
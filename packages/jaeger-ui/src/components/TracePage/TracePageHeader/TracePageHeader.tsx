@@ -17,21 +17,35 @@ import { Button, InputRef } from 'antd';
 import _get from 'lodash/get';
 import _maxBy from 'lodash/maxBy';
 import _values from 'lodash/values';
-import { IoArrowBack, IoFileTrayFull, IoChevronForward } from 'react-icons/io5';
+import { IoArrowBack, IoFileTrayFull, IoChevronForward, IoWarningOutline } from 'react-icons/io5';
 import { Link } from 'react-router-dom';
 
 import { Helmet } from 'react-helmet';
 import AltViewOptions from './AltViewOptions';
+import ClockSkewToggle from './ClockSkewToggle';
+import ColorByOptions from './ColorByOptions';
+import ColorLegend from './ColorLegend';
+import ExportOptions from './ExportOptions';
 import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import MissingParentsToggle from './MissingParentsToggle';
 import SpanGraph from './SpanGraph';
+import TraceNotes from './TraceNotes';
 import TracePageSearchBar from './TracePageSearchBar';
-import { TUpdateViewRangeTimeFunction, IViewRange, ViewRangeTimeUpdate, ETraceViewType } from '../types';
+import {
+  EColorBy,
+  TColorBy,
+  TUpdateViewRangeTimeFunction,
+  IViewRange,
+  ViewRangeTimeUpdate,
+  ETraceViewType,
+} from '../types';
 import LabeledList from '../../common/LabeledList';
 import NewWindowIcon from '../../common/NewWindowIcon';
 import TraceName from '../../common/TraceName';
 import { TNil } from '../../../types';
-import { Trace } from '../../../types/trace';
+import { Trace, TraceAnnotation } from '../../../types/trace';
 import { formatDatetime, formatDuration } from '../../../utils/date';
+import { groupAnnotationsBySpan } from '../../../model/annotations';
 import { getTraceLinks } from '../../../model/link-patterns';
 
 import './TracePageHeader.css';
@@ -40,17 +54,28 @@ import { getTargetEmptyOrBlank } from '../../../utils/config/get-target';
 import TraceId from '../../common/TraceId';
 
 type TracePageHeaderEmbedProps = {
+  adjustClockSkew: boolean;
+  annotations: TraceAnnotation[];
   canCollapse: boolean;
   clearSearch: () => void;
+  colorBy: TColorBy;
+  // the trace as received, without the linked traces and the adjusted timing
+  exportedTrace: Trace;
   focusUiFindMatches: () => void;
   hideMap: boolean;
   hideSummary: boolean;
   linkToStandalone: string;
   nextResult: () => void;
+  onAddAnnotation: (author: string, text: string) => void;
+  onAdjustClockSkewChange: (adjust: boolean) => void;
   onArchiveClicked: () => void;
+  onColorByChange: (colorBy: TColorBy) => void;
+  onDeleteAnnotation: (annotation: TraceAnnotation) => void;
+  onReconstructMissingParentsChange: (reconstruct: boolean) => void;
   onSlimViewClicked: () => void;
   onTraceViewChange: (viewType: ETraceViewType) => void;
   prevResult: () => void;
+  reconstructMissingParents: boolean;
   resultCount: number;
   showArchiveButton: boolean;
   showShortcutsHelp: boolean;
@@ -108,18 +133,28 @@ export const HEADER_ITEMS = [
 
 export function TracePageHeaderFn(props: TracePageHeaderEmbedProps & { forwardedRef: React.Ref<InputRef> }) {
   const {
+    adjustClockSkew,
+    annotations,
     canCollapse,
     clearSearch,
+    colorBy,
+    exportedTrace,
     focusUiFindMatches,
     forwardedRef,
     hideMap,
     hideSummary,
     linkToStandalone,
     nextResult,
+    onAddAnnotation,
+    onAdjustClockSkewChange,
     onArchiveClicked,
+    onColorByChange,
+    onDeleteAnnotation,
+    onReconstructMissingParentsChange,
     onSlimViewClicked,
     onTraceViewChange,
     prevResult,
+    reconstructMissingParents,
     resultCount,
     showArchiveButton,
     showShortcutsHelp,
@@ -141,6 +176,7 @@ export function TracePageHeaderFn(props: TracePageHeaderEmbedProps & { forwarded
   }
 
   const links = getTraceLinks(trace);
+  const isTimeline = viewType === ETraceViewType.TraceTimelineViewer;
 
   const summaryItems =
     !hideSummary &&
@@ -192,6 +228,18 @@ export function TracePageHeaderFn(props: TracePageHeaderEmbedProps & { forwarded
           navigable={viewType === ETraceViewType.TraceTimelineViewer}
         />
         {showShortcutsHelp && <KeyboardShortcutsHelp className="ub-m2" />}
+        {showViewOptions && isTimeline && (
+          <ColorByOptions colorBy={colorBy} onChange={onColorByChange} trace={trace} />
+        )}
+        {showViewOptions && trace.clockSkewOffsets && Object.keys(trace.clockSkewOffsets).length > 0 && (
+          <ClockSkewToggle adjusted={adjustClockSkew} onChange={onAdjustClockSkewChange} />
+        )}
+        {showViewOptions && trace.missingParentIDs && trace.missingParentIDs.length > 0 && (
+          <MissingParentsToggle
+            reconstructed={reconstructMissingParents}
+            onChange={onReconstructMissingParentsChange}
+          />
+        )}
         {showViewOptions && (
           <AltViewOptions
             disableJsonView={disableJsonView}
@@ -200,6 +248,14 @@ export function TracePageHeaderFn(props: TracePageHeaderEmbedProps & { forwarded
             viewType={viewType}
           />
         )}
+        {showViewOptions && (
+          <TraceNotes
+            annotations={groupAnnotationsBySpan(annotations).get('') || []}
+            onAdd={onAddAnnotation}
+            onDelete={onDeleteAnnotation}
+          />
+        )}
+        {showViewOptions && <ExportOptions annotations={annotations} trace={exportedTrace} />}
         {showArchiveButton && (
           <Button className="ub-mr2 ub-flex ub-items-center" htmlType="button" onClick={onArchiveClicked}>
             <IoFileTrayFull className="TracePageHeader--archiveIcon" />
@@ -217,9 +273,22 @@ export function TracePageHeaderFn(props: TracePageHeaderEmbedProps & { forwarded
           </Link>
         )}
       </div>
+      {!slimView && trace.warnings && trace.warnings.length > 0 && (
+        <ul className="TracePageHeader--warnings" data-testid="trace-warnings">
+          {trace.warnings.map(warning => (
+            <li key={warning}>
+              <IoWarningOutline className="TracePageHeader--warningIcon" /> {warning}
+            </li>
+          ))}
+        </ul>
+      )}
       {summaryItems && <LabeledList className="TracePageHeader--overviewItems" items={summaryItems} />}
+      {isTimeline && !slimView && colorBy.mode !== EColorBy.Service && (
+        <ColorLegend colorBy={colorBy} trace={trace} />
+      )}
       {!hideMap && !slimView && (
         <SpanGraph
+          colorBy={colorBy}
           trace={trace}
           viewRange={viewRange}
           updateNextViewRangeTime={updateNextViewRangeTime}
@@ -73,6 +73,16 @@ describe('<TracePageSearchBar>', () => {
     });
   });
 
+  describe('invalid textFilter', () => {
+    it('shows the syntax error instead of the result count', () => {
+      wrapper.setProps({ textFilter: 'duration > 50' });
+      const { status, suffix } = wrapper.find(UiFindInput).prop('inputProps');
+      expect(status).toBe('warning');
+      expect(suffix.props.title).toMatch('"50" at position 12 is not a duration');
+      expect(suffix.props.title).toMatch('the text is searched as free text');
+    });
+  });
+
   describe('falsy textFilter', () => {
     beforeEach(() => {
       wrapper.setProps({ textFilter: '' });
@@ -15,11 +15,12 @@
 import * as React from 'react';
 import { Button, Input, InputRef, Tooltip } from 'antd';
 import cx from 'classnames';
-import { IoLocate, IoHelp, IoClose, IoChevronDown, IoChevronUp } from 'react-icons/io5';
+import { IoAlert, IoLocate, IoHelp, IoClose, IoChevronDown, IoChevronUp } from 'react-icons/io5';
 
 import * as markers from './TracePageSearchBar.markers';
 import { trackFilter } from '../index.track';
 import UiFindInput from '../../common/UiFindInput';
+import { getSpanQueryError } from '../../../utils/span-query';
 import { TNil } from '../../../types';
 import './TracePageSearchBar.css';
 
@@ -45,14 +46,25 @@ export function TracePageSearchBarFn(props: TracePageSearchBarProps & { forwarde
     textFilter,
   } = props;
 
-  const count = textFilter ? <span className="TracePageSearchBar--count">{resultCount}</span> : null;
+  const queryError = textFilter ? getSpanQueryError(textFilter) : null;
+  let suffix: React.ReactNode = null;
+  if (queryError) {
+    suffix = (
+      <Tooltip title={`${queryError}, the text is searched as free text`}>
+        <IoAlert className="TracePageSearchBar--error" data-testid="query-error" />
+      </Tooltip>
+    );
+  } else if (textFilter) {
+    suffix = <span className="TracePageSearchBar--count">{resultCount}</span>;
+  }
 
   const btnClass = cx('TracePageSearchBar--btn', { 'is-disabled': !textFilter });
   const uiFindInputInputProps = {
     'data-test': markers.IN_TRACE_SEARCH,
     className: 'TracePageSearchBar--bar ub-flex-auto',
     name: 'search',
-    suffix: count,
+    status: queryError ? 'warning' : undefined,
+    suffix,
   };
 
   const renderTooltip = () => {
@@ -77,6 +89,23 @@ export function TracePageSearchBarFn(props: TracePageSearchBarProps & { forwarde
           To preclude certain key-value pairs from participating in the matching, prefix the key with the
           minus <code>&apos;-&apos;</code> sign, e.g., <code>-http.status_code</code>.
         </p>
+        <p>
+          Conditions compare a field with a value, e.g. <code>duration &gt; 50ms</code>,{' '}
+          <code>service = cart</code> or <code>http.status_code &gt;= 500</code>. The fields are{' '}
+          <code>duration</code>, <code>self_time</code>, <code>service</code>, <code>operation</code>,{' '}
+          <code>tag.&lt;key&gt;</code>, <code>log.&lt;key&gt;</code>, and any other key, which is looked up in
+          tags, process tags and logs. The operators are <code>=</code>, <code>!=</code>, <code>&gt;</code>,{' '}
+          <code>&gt;=</code>, <code>&lt;</code>, <code>&lt;=</code>, and <code>=~</code> and <code>!~</code>{' '}
+          for regular expressions. Durations need a unit, e.g. <code>1.2s</code>, <code>50ms</code> or{' '}
+          <code>500us</code>. With <code>=</code>, any other key is matched as text, like{' '}
+          <code>http.status_code=200</code> above, and the text of a query that is not valid is searched as
+          free text.
+        </p>
+        <p>
+          Combine terms and conditions with <code>AND</code>, <code>OR</code>, <code>NOT</code> and
+          parentheses, e.g. <code>duration &gt; 50ms AND NOT (service = cart OR error = true)</code>. Terms
+          next to each other match any of them, as with <code>OR</code>.
+        </p>
       </div>
     );
   };
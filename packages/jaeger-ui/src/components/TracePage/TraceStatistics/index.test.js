@@ -49,6 +49,26 @@ describe('<TraceTagOverview>', () => {
     expect(wrapper.find(PopupSql).length).toBe(0);
   });
 
+  it('leaves the placeholders of missing parents out of the statistics', () => {
+    const makeSpan = spanID => ({
+      traceID: 'orphans-trace-id',
+      spanID,
+      processID: 'p1',
+      operationName: 'op',
+      startTime: 1000,
+      duration: 10,
+      references: [{ refType: 'CHILD_OF', traceID: 'orphans-trace-id', spanID: 'missing' }],
+    });
+    const trace = transformTraceData({
+      traceID: 'orphans-trace-id',
+      processes: { p1: { serviceName: 'service1', tags: [] } },
+      spans: [makeSpan('a'), makeSpan('b')],
+    });
+    wrapper.setProps({ trace });
+    const { spans } = wrapper.find(TraceStatisticsHeader).prop('trace');
+    expect(spans.map(({ spanID }) => spanID)).toEqual(['a', 'b']);
+  });
+
   it('check search', () => {
     const searchSet = new Set();
     searchSet.add('service1	op1	__LEAF__');
@@ -17,6 +17,7 @@ import './index.css';
 import { Table } from 'antd';
 import { ColumnProps } from 'antd/es/table';
 import { Trace } from '../../../types/trace';
+import { removePlaceholders } from '../../../model/missing-parents';
 import TraceStatisticsHeader from './TraceStatisticsHeader';
 import { ITableSpan } from './types';
 import { TNil } from '../../../types';
@@ -349,7 +350,8 @@ export default class TraceStatistics extends Component<Props, State> {
         <h3 className="title--TraceStatistics"> Trace Statistics</h3>
 
         <TraceStatisticsHeader
-          trace={this.props.trace}
+          // the placeholders of missing parents are not counted as spans
+          trace={removePlaceholders(this.props.trace)}
           tableValue={this.state.tableValue}
           wholeTable={this.state.wholeTable}
           handler={this.handler}
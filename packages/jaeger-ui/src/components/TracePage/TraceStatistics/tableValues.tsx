@@ -17,80 +17,17 @@ import _uniq from 'lodash/uniq';
 import { Trace, Span } from '../../../types/trace';
 import { ITableSpan } from './types';
 import colorGenerator from '../../../utils/color-generator';
+import { computeSelfTime, getChildOfMap } from '../../../model/self-time';
 
 const serviceName = 'Service Name';
 const operationName = 'Operation Name';
 
-function parentChildOfMap(allSpans: Span[]): Record<string, Span[]> {
-  const parentChildOfMap: Record<string, Span[]> = {};
-  allSpans.forEach(s => {
-    if (s.references) {
-      // Filter for CHILD_OF we don't want to calculate FOLLOWS_FROM (prod-cons)
-      const parentIDs = s.references.filter(r => r.refType === 'CHILD_OF').map(r => r.spanID);
-      parentIDs.forEach((pID: string) => {
-        parentChildOfMap[pID] = parentChildOfMap[pID] || [];
-        parentChildOfMap[pID].push(s);
-      });
-    }
-  });
-  return parentChildOfMap;
-}
-
-const memoizedParentChildOfMap = memoizeOne(parentChildOfMap);
+const memoizedParentChildOfMap = memoizeOne(getChildOfMap);
 
 function getChildOfSpans(parentID: string, allSpans: Span[]): Span[] {
   return memoizedParentChildOfMap(allSpans)[parentID] || [];
 }
 
-function computeSelfTime(parentSpan: Span, allSpans: Span[]): number {
-  if (!parentSpan.hasChildren) return parentSpan.duration;
-
-  let parentSpanSelfTime = parentSpan.duration;
-  let previousChildEndTime = parentSpan.startTime;
-
-  const children = getChildOfSpans(parentSpan.spanID, allSpans).sort((a, b) => a.startTime - b.startTime);
-
-  const parentSpanEndTime = parentSpan.startTime + parentSpan.duration;
-
-  for (let index = 0; index < children.length; index++) {
-    const child = children[index];
-
-    const childEndTime = child.startTime + child.duration;
-    const childStartsAfterParentEnded = child.startTime > parentSpanEndTime;
-    const childEndsBeforePreviousChild = childEndTime < previousChildEndTime;
-
-    // parent |..................|
-    // child    |.......|                     - previousChild
-    // child     |.....|                      - childEndsBeforePreviousChild is true, skipped
-    // child                         |......| - childStartsAfterParentEnded is true, skipped
-    if (childStartsAfterParentEnded || childEndsBeforePreviousChild) {
-      continue;
-    }
-
-    // parent |.....................|
-    // child    |.......|                    - previousChild
-    // child        |.....|                  - nonOverlappingStartTime is previousChildEndTime
-    // child                |.....|          - nonOverlappingStartTime is child.startTime
-    const nonOverlappingStartTime = Math.max(previousChildEndTime, child.startTime);
-    const childEndTimeOrParentEndTime = Math.min(parentSpanEndTime, childEndTime);
-
-    const nonOverlappingDuration = childEndTimeOrParentEndTime - nonOverlappingStartTime;
-    parentSpanSelfTime -= nonOverlappingDuration;
-
-    // last span which can be included in self time calculation, because it ends after parent span ends
-    // parent |......................|
-    // child                      |.....|        - last span included in self time calculation
-    // child                       |.........|   - skipped
-    if (childEndTimeOrParentEndTime === parentSpanEndTime) {
-      break;
-    }
-
-    previousChildEndTime = childEndTime;
-  }
-
-  return parentSpanSelfTime;
-}
-
 function computeColumnValues(trace: Trace, span: Span, allSpans: Span[], resultValue: StatsPerTag) {
   const resultValueChange = resultValue;
   resultValueChange.count += 1;
@@ -102,7 +39,7 @@ function computeColumnValues(trace: Trace, span: Span, allSpans: Span[], resultV
     resultValueChange.max = span.duration;
   }
 
-  const tempSelf = computeSelfTime(span, allSpans);
+  const tempSelf = computeSelfTime(span, getChildOfSpans(span.spanID, allSpans));
   if (resultValueChange.selfMin > tempSelf) {
     resultValueChange.selfMin = tempSelf;
   }
@@ -0,0 +1,83 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import SpanAggregateRow, { getCompressedExtents } from './SpanAggregateRow';
+
+jest.mock('./SpanTreeOffset');
+
+describe('<SpanAggregateRow>', () => {
+  const span = spanID => ({
+    operationName: 'query',
+    process: { serviceName: 'svc' },
+    spanID,
+  });
+  const aggregate = {
+    key: 'a',
+    startIndex: 1,
+    endIndex: 4,
+    siblings: [span('a'), span('b'), span('c')],
+    totalDuration: 6000,
+    minDuration: 1000,
+    maxDuration: 3000,
+    extents: [
+      [0, 10],
+      [20, 30],
+    ],
+  };
+  const props = {
+    aggregate,
+    color: 'red',
+    columnDivision: 0.5,
+    getViewedBounds: (start, end) => ({ start: start / 100, end: end / 100 }),
+    isExpanded: false,
+    isMatchingFilter: false,
+    numTicks: 5,
+    onToggled: jest.fn(),
+  };
+
+  beforeEach(() => {
+    props.onToggled.mockReset();
+  });
+
+  it('shows the count and the durations of the siblings', () => {
+    render(<SpanAggregateRow {...props} />);
+    expect(screen.getByText('×3')).toBeInTheDocument();
+    expect(screen.getByText('3 spans | total 6ms | min 1ms | max 3ms')).toBeInTheDocument();
+    expect(screen.getByText('svc')).toBeInTheDocument();
+    expect(screen.getByText('query')).toBeInTheDocument();
+  });
+
+  it('expands and collapses the aggregate', () => {
+    const { rerender } = render(<SpanAggregateRow {...props} />);
+    const toggle = screen.getByRole('button');
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.click(toggle);
+    expect(props.onToggled).toHaveBeenCalledWith('a');
+    rerender(<SpanAggregateRow {...props} isExpanded />);
+    expect(screen.getByRole('button')).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('merges the extents that are closer than a fraction of the view', () => {
+    const bounds = (start, end) => ({ start: start / 100000, end: end / 100000 });
+    expect(getCompressedExtents(aggregate.extents, props.getViewedBounds)).toEqual([
+      { start: 0, end: 0.1 },
+      { start: 0.2, end: 0.3 },
+    ]);
+    expect(getCompressedExtents(aggregate.extents, bounds)).toEqual([{ start: 0, end: 0.0003 }]);
+  });
+});
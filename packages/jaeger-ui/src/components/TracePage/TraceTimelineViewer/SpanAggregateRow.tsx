@@ -0,0 +1,160 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import cx from 'classnames';
+import { IoChevronDown, IoChevronForward } from 'react-icons/io5';
+
+import SpanTreeOffset from './SpanTreeOffset';
+import Ticks from './Ticks';
+import TimelineRow from './TimelineRow';
+import { formatDuration, ViewedBoundsFunctionType } from './utils';
+import { TSiblingAggregate } from '../../../model/sibling-aggregates';
+
+import './SpanAggregateRow.css';
+
+type TProps = {
+  aggregate: TSiblingAggregate;
+  className?: string;
+  color: string;
+  columnDivision: number;
+  getViewedBounds: ViewedBoundsFunctionType;
+  isExpanded: boolean;
+  isMatchingFilter: boolean;
+  isSelected?: boolean;
+  numTicks: number;
+  onToggled: (spanID: string) => void;
+};
+
+// the gap, as a portion of the view, below which the extents are drawn as one
+const MIN_EXTENT_GAP = 0.002;
+
+function toPercent(value: number) {
+  return `${value * 100}%`;
+}
+
+/**
+ * The extents of the siblings in view coordinates, with the ones closer than
+ * `MIN_EXTENT_GAP` merged, so thousands of siblings draw a few segments.
+ */
+export function getCompressedExtents(
+  extents: [number, number][],
+  getViewedBounds: ViewedBoundsFunctionType
+): { start: number; end: number }[] {
+  const compressed: { start: number; end: number }[] = [];
+  extents.forEach(([startTime, endTime]) => {
+    const { start, end } = getViewedBounds(startTime, endTime);
+    const last = compressed[compressed.length - 1];
+    if (last && start - last.end < MIN_EXTENT_GAP) {
+      last.end = Math.max(last.end, end);
+    } else {
+      compressed.push({ start, end });
+    }
+  });
+  return compressed;
+}
+
+/**
+ * A row of the timeline standing for consecutive siblings with the same
+ * service and operation, which are shown as individual rows when expanded.
+ */
+const SpanAggregateRow = React.memo((props: TProps) => {
+  const {
+    aggregate,
+    className,
+    color,
+    columnDivision,
+    getViewedBounds,
+    isExpanded,
+    isMatchingFilter,
+    isSelected,
+    numTicks,
+    onToggled,
+  } = props;
+  const { extents, key, maxDuration, minDuration, siblings, totalDuration } = aggregate;
+  const span = siblings[0];
+  const {
+    operationName,
+    process: { serviceName },
+  } = span;
+  const toggle = () => onToggled(key);
+  const segments = getCompressedExtents(extents, getViewedBounds);
+  const viewStart = segments[0].start;
+  const viewEnd = segments[segments.length - 1].end;
+  const label = `${siblings.length} spans | total ${formatDuration(totalDuration)} | min ${formatDuration(
+    minDuration
+  )} | max ${formatDuration(maxDuration)}`;
+  const hintSide = viewStart > 1 - viewEnd ? 'left' : 'right';
+
+  return (
+    <TimelineRow
+      className={cx('span-row', 'SpanAggregateRow', className, {
+        'is-matching-filter': isMatchingFilter,
+        'is-selected': isSelected,
+      })}
+    >
+      <TimelineRow.Cell className="span-name-column" width={columnDivision}>
+        <div className={cx('span-name-wrapper', { 'is-matching-filter': isMatchingFilter })}>
+          <SpanTreeOffset span={span} showChildrenIcon={false} />
+          <a
+            className="span-name"
+            aria-expanded={isExpanded}
+            onClick={toggle}
+            role="button"
+            style={{ borderColor: color }}
+            tabIndex={0}
+          >
+            <span className="span-svc-name">
+              {isExpanded ? (
+                <IoChevronDown className="SpanAggregateRow--toggleIcon" />
+              ) : (
+                <IoChevronForward className="SpanAggregateRow--toggleIcon" />
+              )}
+              {serviceName}
+            </span>
+            <small className="endpoint-name">{operationName}</small>
+          </a>
+          <span className="SpanAggregateRow--count" title={`${siblings.length} consecutive siblings`}>
+            &times;{siblings.length}
+          </span>
+        </div>
+      </TimelineRow.Cell>
+      <TimelineRow.Cell
+        className="span-view"
+        style={{ cursor: 'pointer' }}
+        width={1 - columnDivision}
+        onClick={toggle}
+      >
+        <Ticks numTicks={numTicks} />
+        <div className="SpanAggregateRow--bar" aria-hidden>
+          {segments.map(({ start, end }) => (
+            <div
+              key={start}
+              className="SpanAggregateRow--extent"
+              style={{ background: color, left: toPercent(start), width: toPercent(end - start) }}
+            />
+          ))}
+          <div
+            className="SpanAggregateRow--labelAnchor"
+            style={{ left: toPercent(viewStart), width: toPercent(viewEnd - viewStart) }}
+          >
+            <div className={`SpanAggregateRow--label is-${hintSide}`}>{label}</div>
+          </div>
+        </div>
+      </TimelineRow.Cell>
+    </TimelineRow>
+  );
+});
+
+export default SpanAggregateRow;
@@ -69,6 +69,18 @@ describe('<SpanBarRow>', () => {
     expect(wrapper).toBeDefined();
   });
 
+  it('highlights the selected span', () => {
+    expect(wrapper.find('.span-row').hostNodes().hasClass('is-selected')).toBe(false);
+    wrapper.setProps({ isSelected: true });
+    expect(wrapper.find('.span-row').hostNodes().hasClass('is-selected')).toBe(true);
+  });
+
+  it('marks the placeholders of missing spans', () => {
+    expect(wrapper.find('.span-row').hostNodes().hasClass('is-placeholder')).toBe(false);
+    wrapper.setProps({ span: { ...props.span, isPlaceholder: true } });
+    expect(wrapper.find('.span-row').hostNodes().hasClass('is-placeholder')).toBe(true);
+  });
+
   it('escalates detail toggling', () => {
     const { onDetailToggled } = props;
     expect(onDetailToggled.mock.calls.length).toBe(0);
@@ -83,6 +95,33 @@ describe('<SpanBarRow>', () => {
     expect(onChildrenToggled.mock.calls).toEqual([[spanID]]);
   });
 
+  it('toggles the span in the comparison of spans', () => {
+    expect(wrapper.find('.SpanBarRow--compare').length).toBe(0);
+    const onCompareToggled = jest.fn();
+    wrapper = mount(
+      <SpanBarRow
+        {...props}
+        span={{ ...props.span, traceID: 'trace-id' }}
+        onCompareToggled={onCompareToggled}
+      />
+    );
+    const button = wrapper.find('button.SpanBarRow--compare');
+    expect(button.prop('aria-pressed')).toBe(false);
+    button.simulate('click');
+    expect(onCompareToggled).toHaveBeenCalledWith('trace-id', spanID);
+    expect(props.onDetailToggled).not.toHaveBeenCalled();
+    wrapper.setProps({ isCompared: true });
+    expect(wrapper.find('button.SpanBarRow--compare').hasClass('is-compared')).toBe(true);
+  });
+
+  it('shows the number of notes on the span', () => {
+    expect(wrapper.find('.SpanBarRow--notes').length).toBe(0);
+    wrapper = mount(<SpanBarRow {...props} annotationCount={2} />);
+    const notes = wrapper.find('.SpanBarRow--notes');
+    expect(notes.prop('title')).toBe('2 notes');
+    expect(notes.text()).toContain('2');
+  });
+
   it('render references button', () => {
     const span = Object.assign(
       {
@@ -13,7 +13,14 @@
 // limitations under the License.
 
 import * as React from 'react';
-import { IoAlert, IoGitNetwork, IoCloudUploadOutline, IoArrowForward } from 'react-icons/io5';
+import {
+  IoAlert,
+  IoGitNetwork,
+  IoCloudUploadOutline,
+  IoArrowForward,
+  IoChatboxEllipsesOutline,
+  IoGitCompareOutline,
+} from 'react-icons/io5';
 import ReferencesButton from './ReferencesButton';
 import TimelineRow from './TimelineRow';
 import { formatDuration, ViewedBoundsFunctionType } from './utils';
@@ -27,15 +34,20 @@ import { criticalPathSection, Span } from '../../../types/trace';
 import './SpanBarRow.css';
 
 type SpanBarRowProps = {
+  annotationCount?: number;
   className?: string;
   color: string;
   criticalPath: criticalPathSection[];
   columnDivision: number;
   isChildrenExpanded: boolean;
+  // whether the span is in the side by side comparison of two spans
+  isCompared?: boolean;
   isDetailExpanded: boolean;
   isMatchingFilter: boolean;
+  isSelected?: boolean;
   onDetailToggled: (spanID: string) => void;
   onChildrenToggled: (spanID: string) => void;
+  onCompareToggled?: (traceID: string, spanID: string) => void;
   numTicks: number;
   rpc?:
     | {
@@ -70,7 +82,10 @@ type SpanBarRowProps = {
  */
 export default class SpanBarRow extends React.PureComponent<SpanBarRowProps> {
   static defaultProps = {
+    annotationCount: 0,
     className: '',
+    isCompared: false,
+    isSelected: false,
     rpc: null,
   };
 
@@ -82,16 +97,25 @@ export default class SpanBarRow extends React.PureComponent<SpanBarRowProps> {
     this.props.onChildrenToggled(this.props.span.spanID);
   };
 
+  _compareToggle = () => {
+    const { onCompareToggled, span } = this.props;
+    if (onCompareToggled) onCompareToggled(span.traceID, span.spanID);
+  };
+
   render() {
     const {
+      annotationCount,
       className,
       color,
       criticalPath,
       columnDivision,
       isChildrenExpanded,
+      isCompared,
       isDetailExpanded,
       isMatchingFilter,
+      isSelected,
       numTicks,
+      onCompareToggled,
       rpc,
       noInstrumentedServer,
       showErrorIcon,
@@ -130,6 +154,8 @@ export default class SpanBarRow extends React.PureComponent<SpanBarRowProps> {
           ${className || ''}
           ${isDetailExpanded ? 'is-expanded' : ''}
           ${isMatchingFilter ? 'is-matching-filter' : ''}
+          ${isSelected ? 'is-selected' : ''}
+          ${span.isPlaceholder ? 'is-placeholder' : ''}
         `}
       >
         <TimelineRow.Cell className="span-name-column" width={columnDivision}>
@@ -172,6 +198,14 @@ export default class SpanBarRow extends React.PureComponent<SpanBarRowProps> {
               </span>
               <small className="endpoint-name">{rpc ? rpc.operationName : operationName}</small>
             </a>
+            {Boolean(annotationCount) && (
+              <span
+                className="SpanBarRow--notes"
+                title={`${annotationCount} ${annotationCount === 1 ? 'note' : 'notes'}`}
+              >
+                <IoChatboxEllipsesOutline /> {annotationCount}
+              </span>
+            )}
             {span.references && span.references.length > 1 && (
               <ReferencesButton
                 references={span.references}
@@ -192,6 +226,17 @@ export default class SpanBarRow extends React.PureComponent<SpanBarRowProps> {
                 <IoCloudUploadOutline />
               </ReferencesButton>
             )}
+            {onCompareToggled && (
+              <button
+                aria-pressed={isCompared}
+                className={`SpanBarRow--compare ${isCompared ? 'is-compared' : ''}`}
+                onClick={this._compareToggle}
+                title={isCompared ? 'Remove from the comparison' : 'Compare with another span'}
+                type="button"
+              >
+                <IoGitCompareOutline />
+              </button>
+            )}
           </div>
         </TimelineRow.Cell>
         <TimelineRow.Cell
@@ -128,6 +128,18 @@ describe('<AccordianLogs>', () => {
     expect(screen.getByRole('button', { name: /show all/i })).toBeInTheDocument();
   });
 
+  it('labels the logs with their offsets from the trace start by default', () => {
+    render(<AccordianLogs {...defaultProps} isOpen />);
+    expect(mockAccordianKeyValues.mock.calls[0][0].label).toBe('5μs');
+    expect(screen.getByText(/relative to the start time of the full trace/)).toBeInTheDocument();
+  });
+
+  it('labels the logs with their wall-clock times when showing absolute times', () => {
+    render(<AccordianLogs {...defaultProps} absoluteTime isOpen />);
+    expect(mockAccordianKeyValues.mock.calls[0][0].label).toBe('00:00:00.000010');
+    expect(screen.getByText(/wall-clock times/)).toBeInTheDocument();
+  });
+
   it('is interactive by default', () => {
     const { interactive, ...propsWithoutInteractive } = defaultProps;
     render(<AccordianLogs {...propsWithoutInteractive} isOpen />);
@@ -21,10 +21,12 @@ import AccordianKeyValues from './AccordianKeyValues';
 import { formatDuration } from '../utils';
 import { TNil } from '../../../../types';
 import { Log, KeyValuePair, Link } from '../../../../types/trace';
+import { formatTimeOfDay, getTimeZoneLabel } from '../../../../utils/date';
 
 import './AccordianLogs.css';
 
 type AccordianLogsProps = {
+  absoluteTime?: boolean;
   interactive?: boolean;
   isOpen: boolean;
   linksGetter?: ((pairs: KeyValuePair[], index: number) => Link[]) | TNil;
@@ -38,6 +40,7 @@ type AccordianLogsProps = {
 };
 
 export default function AccordianLogs({
+  absoluteTime = false,
   interactive = true,
   isOpen,
   linksGetter,
@@ -115,13 +118,19 @@ export default function AccordianLogs({
               highContrast
               interactive={interactive}
               isOpen={openedItems ? openedItems.has(log) : false}
-              label={`${formatDuration(log.timestamp - timestamp)}`}
+              label={
+                absoluteTime
+                  ? formatTimeOfDay(log.timestamp, true)
+                  : `${formatDuration(log.timestamp - timestamp)}`
+              }
               linksGetter={linksGetter}
               onToggle={interactive && onItemToggle ? () => onItemToggle(log) : null}
             />
           ))}
           <small className="AccordianLogs--footer">
-            Log timestamps are relative to the start time of the full trace.
+            {absoluteTime
+              ? `Log timestamps are wall-clock times in ${getTimeZoneLabel()}.`
+              : 'Log timestamps are relative to the start time of the full trace.'}
           </small>
         </div>
       )}
@@ -14,6 +14,7 @@
 
 import React from 'react';
 import { shallow } from 'enzyme';
+import { Button } from 'antd';
 import AccordianReferences, { References } from './AccordianReferences';
 import ReferenceLink from '../../url/ReferenceLink';
 
@@ -108,4 +109,24 @@ describe('<References>', () => {
       }
     });
   });
+
+  it('does not offer to show the other traces inline by default', () => {
+    expect(wrapper.find(Button).length).toBe(0);
+  });
+
+  it('toggles the other traces inline', () => {
+    const onLinkedTraceToggle = jest.fn();
+    wrapper.setProps({
+      isLinkedTraceShown: id => id === 'trace2',
+      onLinkedTraceToggle,
+      traceID,
+    });
+    const button = wrapper.find(Button);
+    expect(button.length).toBe(1);
+    expect(button.children().text()).toBe('Hide inline');
+    button.simulate('click');
+    expect(onLinkedTraceToggle).toHaveBeenCalledWith('trace2');
+    wrapper.setProps({ isLinkedTraceShown: () => false });
+    expect(wrapper.find(Button).children().text()).toBe('Show inline');
+  });
 });
@@ -13,6 +13,7 @@
 // limitations under the License.
 
 import * as React from 'react';
+import { Button } from 'antd';
 import cx from 'classnames';
 import { IoChevronDown, IoChevronForward } from 'react-icons/io5';
 import './AccordianReferences.css';
@@ -26,16 +27,23 @@ type AccordianReferencesProps = {
   isOpen: boolean;
   onToggle?: null | (() => void);
   focusSpan: (uiFind: string) => void;
+} & TLinkedTraceProps;
+
+type TLinkedTraceProps = {
+  isLinkedTraceShown?: (traceID: string) => boolean;
+  onLinkedTraceToggle?: null | ((traceID: string) => void);
+  // the trace of the span, the references to other traces can be shown inline
+  traceID?: string;
 };
 
 type ReferenceItemProps = {
   data: SpanReference[];
   focusSpan: (uiFind: string) => void;
-};
+} & TLinkedTraceProps;
 
 // export for test
 export function References(props: ReferenceItemProps) {
-  const { data, focusSpan } = props;
+  const { data, focusSpan, isLinkedTraceShown, onLinkedTraceToggle, traceID } = props;
 
   return (
     <div className="ReferencesList u-simple-scrollbars">
@@ -63,6 +71,17 @@ export function References(props: ReferenceItemProps) {
                   </small>
                 </span>
               </ReferenceLink>
+              {onLinkedTraceToggle && !reference.span && reference.traceID !== traceID && (
+                <Button
+                  className="ReferencesList--inlineToggle"
+                  onClick={() => onLinkedTraceToggle(reference.traceID)}
+                  size="small"
+                >
+                  {isLinkedTraceShown && isLinkedTraceShown(reference.traceID)
+                    ? 'Hide inline'
+                    : 'Show inline'}
+                </Button>
+              )}
             </li>
           );
         })}
@@ -76,10 +95,21 @@ export default class AccordianReferences extends React.PureComponent<AccordianRe
     highContrast: false,
     interactive: true,
     onToggle: null,
+    onLinkedTraceToggle: null,
   };
 
   render() {
-    const { data, highContrast, interactive, isOpen, onToggle, focusSpan } = this.props;
+    const {
+      data,
+      highContrast,
+      interactive,
+      isOpen,
+      onToggle,
+      focusSpan,
+      isLinkedTraceShown,
+      onLinkedTraceToggle,
+      traceID,
+    } = this.props;
     const isEmpty = !Array.isArray(data) || !data.length;
     const iconCls = cx('u-align-icon', { 'AccordianKReferences--emptyIcon': isEmpty });
     let arrow: React.ReactNode | null = null;
@@ -108,7 +138,15 @@ export default class AccordianReferences extends React.PureComponent<AccordianRe
           </strong>{' '}
           ({data.length})
         </div>
-        {isOpen && <References data={data} focusSpan={focusSpan} />}
+        {isOpen && (
+          <References
+            data={data}
+            focusSpan={focusSpan}
+            isLinkedTraceShown={isLinkedTraceShown}
+            onLinkedTraceToggle={onLinkedTraceToggle}
+            traceID={traceID}
+          />
+        )}
       </div>
     );
   }
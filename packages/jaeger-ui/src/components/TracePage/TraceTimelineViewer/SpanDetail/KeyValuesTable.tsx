@@ -12,108 +12,20 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-/* eslint-disable import/no-extraneous-dependencies */
 import * as React from 'react';
 import { Dropdown } from 'antd';
 import { IoOpenOutline, IoList, IoCopyOutline } from 'react-icons/io5';
-import { JsonView, allExpanded, collapseAllNested, defaultStyles } from 'react-json-view-lite';
 
 import CopyIcon from '../../../common/CopyIcon';
+import renderValue from './ValueRenderers';
 
 import { TNil } from '../../../../types';
 import { KeyValuePair, Link } from '../../../../types/trace';
 
 import './KeyValuesTable.css';
 
-const jsonObjectOrArrayStartRegex = /^(\[|\{)/;
-
-function tryParseJson(value: string) {
-  // if the value is a string representing actual json object or array, then use json-markup
-  // otherwise just return as is
-  try {
-    return jsonObjectOrArrayStartRegex.test(value) ? JSON.parse(value) : value;
-  } catch (_) {
-    return value;
-  }
-}
-
-function shouldDisplayAsStringList(key: string) {
-  return key.startsWith('http.request.header.') || key.startsWith('http.response.header.');
-}
-
-const stringListMarkup = (value: any[]) => (
-  <div className="json-markup">
-    {value.map((item, i) => (
-      <React.Fragment key={i}>
-        {i > 0 && ', '}
-        <span className="json-markup-string">{item}</span>
-      </React.Fragment>
-    ))}
-  </div>
-);
-
-const scalarMarkup = (value: string | number | boolean) => {
-  let className;
-  switch (typeof value) {
-    case 'boolean': {
-      className = 'json-markup-bool';
-      break;
-    }
-    case 'number': {
-      className = 'json-markup-number';
-      break;
-    }
-    default: {
-      className = 'json-markup-string';
-    }
-  }
-  return (
-    <div className="json-markup">
-      <span className={className}>{value.toString()}</span>
-    </div>
-  );
-};
-
 function formatValue(key: string, value: any) {
-  let content;
-  let parsed = value;
-
-  if (typeof value === 'string') {
-    parsed = tryParseJson(value);
-  }
-
-  if (Array.isArray(parsed) && shouldDisplayAsStringList(key)) {
-    content = stringListMarkup(parsed);
-  } else if (typeof parsed === 'object') {
-    const shouldJsonTreeExpand = Object.keys(parsed).length <= 10;
-
-    content = (
-      <JsonView
-        data={parsed}
-        shouldExpandNode={shouldJsonTreeExpand ? allExpanded : collapseAllNested}
-        style={{
-          ...defaultStyles,
-          container: 'json-markup',
-          label: 'json-markup-key',
-          stringValue: 'json-markup-string',
-          collapseIcon: 'json-markup-icon-collapse',
-          collapsedContent: 'json-markup-collapse-content',
-          expandIcon: 'json-markup-icon-expand',
-          numberValue: 'json-markup-number',
-          booleanValue: 'json-markup-bool',
-          nullValue: 'json-markup-null',
-          undefinedValue: 'json-markup-undefined',
-          basicChildStyle: 'json-markup-child',
-          punctuation: 'json-markup-puncuation',
-          otherValue: 'json-markup-other',
-        }}
-      />
-    );
-  } else {
-    content = scalarMarkup(parsed);
-  }
-
-  return <div className="ub-inline-block">{content}</div>;
+  return <div className="ub-inline-block">{renderValue(key, value)}</div>;
 }
 
 export const LinkValue = (props: { href: string; title?: string; children: React.ReactNode }) => (
@@ -0,0 +1,66 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+
+import { decodeUtf8, formatBytes } from './utils';
+
+import './index.css';
+
+// the number of bytes in each line of the hex dump
+const BYTES_PER_LINE = 16;
+
+function toHexDump(bytes: Uint8Array) {
+  const lines = [];
+  for (let offset = 0; offset < bytes.length; offset += BYTES_PER_LINE) {
+    const hex = Array.from(bytes.subarray(offset, offset + BYTES_PER_LINE), byte =>
+      byte.toString(16).padStart(2, '0')
+    );
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+type Props = {
+  bytes: Uint8Array;
+  encoded: string;
+};
+
+export default function Base64Value(props: Props) {
+  const { bytes, encoded } = props;
+  const [showEncoded, setShowEncoded] = React.useState(false);
+  const text = React.useMemo(() => decodeUtf8(bytes), [bytes]);
+
+  let content;
+  if (showEncoded) {
+    content = <span className="json-markup-string">{encoded}</span>;
+  } else if (text === null) {
+    content = <span className="Base64Value--hex">{toHexDump(bytes)}</span>;
+  } else {
+    content = <span className="json-markup-string">{text}</span>;
+  }
+
+  return (
+    <div className="Base64Value">
+      <pre className="ValueRenderer--pre">{content}</pre>
+      <span className="Base64Value--meta">
+        {formatBytes(bytes.length)}
+        {text === null ? ', binary' : ', UTF-8'}
+      </span>
+      <button className="ValueRenderer--toggle" type="button" onClick={() => setShowEncoded(!showEncoded)}>
+        {showEncoded ? 'Show decoded' : 'Show base64'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/* eslint-disable import/no-extraneous-dependencies */
+import * as React from 'react';
+import { JsonView, allExpanded, collapseAllNested, defaultStyles } from 'react-json-view-lite';
+
+import './index.css';
+
+// objects with more keys start collapsed
+const MAX_EXPANDED_KEYS = 10;
+
+const JSON_STYLES = {
+  ...defaultStyles,
+  container: 'json-markup',
+  label: 'json-markup-key',
+  stringValue: 'json-markup-string',
+  collapseIcon: 'json-markup-icon-collapse',
+  collapsedContent: 'json-markup-collapse-content',
+  expandIcon: 'json-markup-icon-expand',
+  numberValue: 'json-markup-number',
+  booleanValue: 'json-markup-bool',
+  nullValue: 'json-markup-null',
+  undefinedValue: 'json-markup-undefined',
+  basicChildStyle: 'json-markup-child',
+  punctuation: 'json-markup-puncuation',
+  otherValue: 'json-markup-other',
+};
+
+function isNested(data: object) {
+  return Object.values(data).some(value => value !== null && typeof value === 'object');
+}
+
+type Props = {
+  data: object;
+};
+
+export default function JsonValue(props: Props) {
+  const { data } = props;
+  const [expanded, setExpanded] = React.useState(() => Object.keys(data).length <= MAX_EXPANDED_KEYS);
+
+  return (
+    <div className="JsonValue">
+      {isNested(data) && (
+        <button className="ValueRenderer--toggle" type="button" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Collapse all' : 'Expand all'}
+        </button>
+      )}
+      <JsonView
+        // the nodes only read shouldExpandNode when they mount
+        key={String(expanded)}
+        data={data}
+        shouldExpandNode={expanded ? allExpanded : collapseAllNested}
+        style={JSON_STYLES}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+
+import { formatSql } from './sql';
+
+import './index.css';
+
+type Props = {
+  sql: string;
+};
+
+export default function SqlValue(props: Props) {
+  const { sql } = props;
+  const [showOriginal, setShowOriginal] = React.useState(false);
+  const tokens = React.useMemo(() => formatSql(sql), [sql]);
+
+  return (
+    <div className="SqlValue">
+      <pre className="ValueRenderer--pre">
+        {showOriginal
+          ? sql
+          : tokens.map((token, i) => (
+              // eslint-disable-next-line react/no-array-index-key
+              <span key={i} className={`SqlValue--${token.type}`}>
+                {token.text}
+              </span>
+            ))}
+      </pre>
+      <button className="ValueRenderer--toggle" type="button" onClick={() => setShowOriginal(!showOriginal)}>
+        {showOriginal ? 'Show formatted' : 'Show original'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+
+import { parseStackTrace } from './utils';
+
+import './index.css';
+
+// the number of frames of each run of frames that are shown before folding
+export const VISIBLE_FRAMES = 5;
+
+type Props = {
+  stackTrace: string;
+};
+
+export default function StackTraceValue(props: Props) {
+  const { stackTrace } = props;
+  const [unfolded, setUnfolded] = React.useState<Set<number>>(() => new Set());
+  const blocks = React.useMemo(() => parseStackTrace(stackTrace), [stackTrace]);
+
+  const toggle = (index: number) => {
+    const next = new Set(unfolded);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setUnfolded(next);
+  };
+
+  return (
+    <div className="StackTraceValue ValueRenderer--pre">
+      {blocks.map(({ isFrames, lines }, i) => {
+        if (!isFrames) {
+          return (
+            // eslint-disable-next-line react/no-array-index-key
+            <div key={i} className="StackTraceValue--message">
+              {lines.join('\n')}
+            </div>
+          );
+        }
+        const isFoldable = lines.length > VISIBLE_FRAMES;
+        const isUnfolded = unfolded.has(i);
+        return (
+          // eslint-disable-next-line react/no-array-index-key
+          <div key={i} className="StackTraceValue--frames">
+            {(isFoldable && !isUnfolded ? lines.slice(0, VISIBLE_FRAMES) : lines).join('\n')}
+            {isFoldable && (
+              <div>
+                <button className="ValueRenderer--toggle" type="button" onClick={() => toggle(i)}>
+                  {isUnfolded ? 'Fold frames' : `${lines.length - VISIBLE_FRAMES} more frames`}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
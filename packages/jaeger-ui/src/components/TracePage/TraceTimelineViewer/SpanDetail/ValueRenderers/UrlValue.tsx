@@ -0,0 +1,52 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+
+import './index.css';
+
+type Props = {
+  url: URL;
+};
+
+export default function UrlValue(props: Props) {
+  const { url } = props;
+  const params = Array.from(url.searchParams.entries());
+
+  return (
+    <div className="UrlValue json-markup">
+      <span className="json-markup-string">{`${url.origin}${url.pathname}`}</span>
+      {params.length > 0 && (
+        <table className="UrlValue--params">
+          <tbody>
+            {params.map(([name, value], i) => (
+              // `i` is necessary in the key because the parameters can repeat
+              // eslint-disable-next-line react/no-array-index-key
+              <tr key={`${name}-${i}`}>
+                <td className="UrlValue--paramName">{name}</td>
+                <td className="json-markup-string">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {url.hash && (
+        <div>
+          <span className="UrlValue--paramName">#</span>
+          <span className="json-markup-string">{decodeURIComponent(url.hash.slice(1))}</span>
+        </div>
+      )}
+    </div>
+  );
+}
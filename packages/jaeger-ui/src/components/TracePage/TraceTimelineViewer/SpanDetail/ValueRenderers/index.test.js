@@ -0,0 +1,141 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import renderValue, { registerValueRenderer } from '.';
+import { VISIBLE_FRAMES } from './StackTraceValue';
+import { getConfigValue } from '../../../../../utils/config/get-config';
+
+jest.mock('../../../../../utils/config/get-config', () => ({
+  getConfigValue: jest.fn(),
+}));
+
+describe('renderValue()', () => {
+  const renderTag = (key, value) => render(<div data-testid="value">{renderValue(key, value)}</div>);
+
+  beforeEach(() => {
+    getConfigValue.mockReturnValue(undefined);
+  });
+
+  it('renders scalars as text', () => {
+    renderTag('span.kind', 'client');
+    expect(screen.getByText('client')).toHaveClass('json-markup-string');
+  });
+
+  it('renders JSON objects as a tree that can be expanded and collapsed', () => {
+    const data = { '<xss>': 'safe', nested: { a: 'b' } };
+    renderTag('payload', JSON.stringify(data));
+    expect(screen.getByText('<xss>:')).toBeInTheDocument();
+    expect(screen.getByText('"b"')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse all' }));
+    expect(screen.queryByText('"b"')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Expand all' }));
+    expect(screen.getByText('"b"')).toBeInTheDocument();
+  });
+
+  it('renders the headers as a list', () => {
+    renderTag('http.request.header.accept', ['text/html', 'application/json']);
+    expect(screen.getByTestId('value')).toHaveTextContent('text/html, application/json');
+  });
+
+  it('formats and highlights SQL statements', () => {
+    renderTag('db.statement', 'select id from users where id = 1');
+    expect(screen.getByText('select')).toHaveClass('SqlValue--keyword');
+    expect(screen.getByText('1')).toHaveClass('SqlValue--number');
+    expect(screen.getByTestId('value').querySelector('pre').textContent).toBe(
+      'select id\nfrom users\nwhere id = 1'
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Show original' }));
+    expect(screen.getByText('select id from users where id = 1')).toBeInTheDocument();
+  });
+
+  it('folds long runs of stack frames', () => {
+    const frames = Array.from({ length: VISIBLE_FRAMES + 3 }, (_, i) => `    at frame${i} (file.js:${i})`);
+    renderTag('exception.stacktrace', ['Error: boom', ...frames].join('\n'));
+    expect(screen.getByText('Error: boom')).toHaveClass('StackTraceValue--message');
+    expect(screen.getByTestId('value')).not.toHaveTextContent(`frame${VISIBLE_FRAMES}`);
+    fireEvent.click(screen.getByRole('button', { name: '3 more frames' }));
+    expect(screen.getByTestId('value')).toHaveTextContent(`frame${VISIBLE_FRAMES + 2}`);
+    fireEvent.click(screen.getByRole('button', { name: 'Fold frames' }));
+    expect(screen.getByTestId('value')).not.toHaveTextContent(`frame${VISIBLE_FRAMES}`);
+  });
+
+  it('decomposes URLs into their query parameters', () => {
+    renderTag('http.url', 'https://example.com/search?q=a%20b&page=2#top');
+    expect(screen.getByText('https://example.com/search')).toBeInTheDocument();
+    expect(screen.getByText('a b')).toBeInTheDocument();
+    expect(screen.getByText('page')).toBeInTheDocument();
+    expect(screen.getByText('top')).toBeInTheDocument();
+  });
+
+  it('falls back to text when the value cannot be rendered by the renderer of the key', () => {
+    renderTag('http.url', '/relative/path');
+    expect(screen.getByText('/relative/path')).toHaveClass('json-markup-string');
+  });
+
+  it('renders the byte sizes with units', () => {
+    renderTag('http.response.body.size', 1536);
+    expect(screen.getByText('1.5 KiB')).toHaveAttribute('title', '1536');
+  });
+
+  it('uses the renderers of the config before the built-in ones', () => {
+    getConfigValue.mockReturnValue([
+      { key: '^db\\.statement$', type: 'text' },
+      { key: 'latency$', type: 'duration', unit: 'ms' },
+    ]);
+    renderTag('db.statement', 'SELECT 1');
+    renderTag('rpc.latency', '1500');
+    expect(screen.getByText('SELECT 1')).toHaveClass('json-markup-string');
+    expect(screen.getByText('1.5s')).toHaveAttribute('title', '1500');
+  });
+
+  it('decodes base64 values as text or as a hex dump', () => {
+    getConfigValue.mockReturnValue([{ key: '^payload', type: 'base64' }]);
+    renderTag('payload.text', 'aGVsbG8gd29ybGQ=');
+    expect(screen.getByText('hello world')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Show base64' }));
+    expect(screen.getByText('aGVsbG8gd29ybGQ=')).toBeInTheDocument();
+    renderTag('payload.binary', 'AAEC/w==');
+    expect(screen.getByText('00000000 00 01 02 ff')).toHaveClass('Base64Value--hex');
+  });
+
+  it('shows base64 values that are not valid UTF-8 as a hex dump', () => {
+    getConfigValue.mockReturnValue([{ key: '^payload', type: 'base64' }]);
+    // a code point above U+10FFFF
+    renderTag('payload.binary', '97+/vw==');
+    expect(screen.getByText('00000000 f7 bf bf bf')).toHaveClass('Base64Value--hex');
+  });
+
+  it('ignores the renderers of the config with invalid keys', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    getConfigValue.mockReturnValue([{ key: '(', type: 'bytes' }]);
+    renderTag('size', 2048);
+    expect(screen.getByText('2048')).toHaveClass('json-markup-number');
+    expect(consoleError).toHaveBeenCalledWith(expect.stringMatching(/invalid tag value renderer/), {
+      key: '(',
+      type: 'bytes',
+    });
+    consoleError.mockRestore();
+  });
+
+  it('uses the renderers that are registered', () => {
+    registerValueRenderer('upper', value => <span>{String(value).toUpperCase()}</span>);
+    getConfigValue.mockReturnValue([{ key: '^shout$', type: 'upper' }]);
+    renderTag('shout', 'hello');
+    expect(screen.getByText('HELLO')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,198 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import memoizeOne from 'memoize-one';
+
+import Base64Value from './Base64Value';
+import JsonValue from './JsonValue';
+import SqlValue from './SqlValue';
+import StackTraceValue from './StackTraceValue';
+import UrlValue from './UrlValue';
+import { decodeBase64, formatBytes, isBase64, toMicroseconds, toNumber } from './utils';
+import { getConfigValue } from '../../../../../utils/config/get-config';
+import { formatDuration } from '../../../../../utils/date';
+
+import { TagValueRendererConfig } from '../../../../../types/config';
+
+/**
+ * Renders a tag value, or returns `null` if the value cannot be rendered by
+ * the renderer, e.g. a number given to the SQL renderer. The value is parsed
+ * already if it is a string of a JSON object or array.
+ */
+export type TValueRenderer = (value: unknown, config: TagValueRendererConfig) => React.ReactNode | null;
+
+type TRule = {
+  config: TagValueRendererConfig;
+  keyRegExp: RegExp;
+};
+
+// the built-in rules, which come after the rules of the config
+export const DEFAULT_RULES: TagValueRendererConfig[] = [
+  { key: '^http\\.(request|response)\\.header\\.', type: 'list' },
+  { key: '^(db\\.statement|db\\.query\\.text)$', type: 'sql' },
+  { key: '(^|\\.)(stack|stacktrace|stack_trace)$', type: 'stacktrace' },
+  { key: '^(http\\.url|url\\.full)$', type: 'url' },
+  { key: '^http\\.(request|response)\\.(body\\.size|content_length)$', type: 'bytes' },
+];
+
+const jsonObjectOrArrayStartRegex = /^(\[|\{)/;
+
+function tryParseJson(value: string): unknown {
+  // if the value is a string representing actual json object or array, then use json-markup
+  // otherwise just return as is
+  try {
+    return jsonObjectOrArrayStartRegex.test(value) ? JSON.parse(value) : value;
+  } catch (_) {
+    return value;
+  }
+}
+
+const scalarMarkup = (value: unknown, title?: string) => {
+  let className;
+  switch (typeof value) {
+    case 'boolean': {
+      className = 'json-markup-bool';
+      break;
+    }
+    case 'number': {
+      className = 'json-markup-number';
+      break;
+    }
+    default: {
+      className = 'json-markup-string';
+    }
+  }
+  return (
+    <div className="json-markup">
+      <span className={className} title={title}>
+        {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+      </span>
+    </div>
+  );
+};
+
+const renderText: TValueRenderer = value => scalarMarkup(value);
+
+const renderJson: TValueRenderer = value =>
+  value !== null && typeof value === 'object' ? <JsonValue data={value} /> : null;
+
+const renderers = new Map<string, TValueRenderer>([
+  ['text', renderText],
+  ['json', renderJson],
+  [
+    'list',
+    value =>
+      Array.isArray(value) ? (
+        <div className="json-markup">
+          {value.map((item, i) => (
+            // eslint-disable-next-line react/no-array-index-key
+            <React.Fragment key={i}>
+              {i > 0 && ', '}
+              <span className="json-markup-string">{String(item)}</span>
+            </React.Fragment>
+          ))}
+        </div>
+      ) : null,
+  ],
+  ['sql', value => (typeof value === 'string' ? <SqlValue sql={value} /> : null)],
+  ['stacktrace', value => (typeof value === 'string' ? <StackTraceValue stackTrace={value} /> : null)],
+  [
+    'url',
+    value => {
+      if (typeof value !== 'string') {
+        return null;
+      }
+      try {
+        return <UrlValue url={new URL(value)} />;
+      } catch (_) {
+        return null;
+      }
+    },
+  ],
+  [
+    'base64',
+    value => {
+      if (typeof value !== 'string' || !isBase64(value)) {
+        return null;
+      }
+      try {
+        return <Base64Value bytes={decodeBase64(value)} encoded={value} />;
+      } catch (_) {
+        return null;
+      }
+    },
+  ],
+  [
+    'duration',
+    (value, config) => {
+      const number = toNumber(value);
+      return number === null
+        ? null
+        : scalarMarkup(formatDuration(toMicroseconds(number, config.unit)), String(value));
+    },
+  ],
+  [
+    'bytes',
+    value => {
+      const number = toNumber(value);
+      return number === null ? null : scalarMarkup(formatBytes(number), String(value));
+    },
+  ],
+]);
+
+function compileRules(configs: readonly TagValueRendererConfig[]) {
+  const rules: TRule[] = [];
+  configs.forEach(config => {
+    try {
+      rules.push({ config, keyRegExp: new RegExp(config.key) });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Ignoring invalid tag value renderer: ${error}`, config);
+    }
+  });
+  return rules;
+}
+
+const getRules = memoizeOne((configs: readonly TagValueRendererConfig[] | undefined) =>
+  compileRules([...(configs || []), ...DEFAULT_RULES])
+);
+
+/**
+ * Adds a renderer, or replaces a built-in one, that the `type` of the
+ * `tagValueRenderers` in the config can refer to.
+ */
+export function registerValueRenderer(type: string, renderer: TValueRenderer) {
+  renderers.set(type, renderer);
+}
+
+/**
+ * Returns the markup of the value of a tag or log field. The first rule that
+ * matches the key and whose renderer can render the value is used, falling
+ * back to a JSON tree for objects and arrays and to plain text otherwise.
+ */
+export default function renderValue(key: string, value: unknown): React.ReactNode {
+  const parsed = typeof value === 'string' ? tryParseJson(value) : value;
+  const rules = getRules(getConfigValue('tagValueRenderers'));
+  for (let i = 0; i < rules.length; i++) {
+    const { config, keyRegExp } = rules[i];
+    const renderer = renderers.get(config.type);
+    const content = renderer && keyRegExp.test(key) ? renderer(parsed, config) : null;
+    if (content != null) {
+      return content;
+    }
+  }
+  const config = { key, type: 'json' };
+  return renderJson(parsed, config) ?? renderText(parsed, config);
+}
@@ -0,0 +1,53 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { formatSql, tokenizeSql } from './sql';
+
+const toText = tokens => tokens.map(token => token.text).join('');
+
+describe('tokenizeSql()', () => {
+  it('tells apart keywords, strings, numbers and comments', () => {
+    const tokens = tokenizeSql("select 'it''s', 1.5 -- note");
+    expect(tokens.map(({ type }) => type)).toEqual([
+      'keyword',
+      'whitespace',
+      'string',
+      'punctuation',
+      'whitespace',
+      'number',
+      'whitespace',
+      'comment',
+    ]);
+    expect(tokens[2].text).toBe("'it''s'");
+  });
+
+  it('keeps the text of the statement', () => {
+    const sql = 'SELECT "a" /* c */ FROM t WHERE x >= $1::int';
+    expect(toText(tokenizeSql(sql))).toBe(sql);
+  });
+});
+
+describe('formatSql()', () => {
+  it('puts each clause on its own line', () => {
+    const sql = 'SELECT a, b FROM t1 LEFT OUTER JOIN t2 ON t1.id = t2.id WHERE a > 1 ORDER BY b';
+    expect(toText(formatSql(sql))).toBe(
+      'SELECT a, b\nFROM t1\nLEFT OUTER JOIN t2 ON t1.id = t2.id\nWHERE a > 1\nORDER BY b'
+    );
+  });
+
+  it('indents the subqueries', () => {
+    const sql = '  select *\n  from t where id in (select id from u)';
+    expect(toText(formatSql(sql))).toBe('select *\nfrom t\nwhere id in (\n  select id\n  from u)');
+  });
+});
@@ -0,0 +1,112 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type TSqlToken = {
+  type: 'comment' | 'keyword' | 'newline' | 'number' | 'punctuation' | 'string' | 'whitespace' | 'word';
+  text: string;
+};
+
+const TOKEN_PATTERNS: [TSqlToken['type'], RegExp][] = [
+  ['whitespace', /^\s+/],
+  ['comment', /^(--[^\n]*|\/\*[\s\S]*?(\*\/|$))/],
+  ['string', /^('(?:[^']|'')*'?|"(?:[^"]|"")*"?|`[^`]*`?)/],
+  ['number', /^\d+(\.\d+)?(e[+-]?\d+)?\b/i],
+  ['word', /^[\w$@:#]+/],
+  ['punctuation', /^(<=|>=|<>|!=|::|\|\||[^\w\s])/],
+];
+
+const KEYWORDS = new Set(
+  `ADD ALL ALTER AND ANY AS ASC BETWEEN BY CASE CREATE CROSS DELETE DESC DISTINCT DROP ELSE END EXISTS
+  FALSE FETCH FOR FROM FULL GROUP HAVING IF IN INNER INSERT INTO IS JOIN LEFT LIKE LIMIT NOT NULL OFFSET
+  ON OR ORDER OUTER RETURNING RIGHT SELECT SET TABLE THEN TRUE UNION UPDATE USING VALUES WHEN WHERE WITH`.split(
+    /\s+/
+  )
+);
+
+// the keywords that start a clause on a new line
+const CLAUSE_KEYWORDS = new Set(
+  `CROSS DELETE FETCH FROM FULL GROUP HAVING INNER INSERT JOIN LEFT LIMIT OFFSET ORDER RETURNING RIGHT
+  SELECT SET UNION UPDATE VALUES WHERE WITH`.split(/\s+/)
+);
+
+// the keywords that continue the clause of the previous keyword, e.g. LEFT JOIN
+const JOIN_PREFIXES = new Set(['CROSS', 'FULL', 'INNER', 'LEFT', 'OUTER', 'RIGHT']);
+
+const INDENT = '  ';
+
+/**
+ * Splits a SQL statement into tokens. The tokenizer does not know the SQL
+ * grammar, it only tells apart what is needed to format and highlight it.
+ */
+export function tokenizeSql(sql: string): TSqlToken[] {
+  const tokens: TSqlToken[] = [];
+  let rest = sql;
+  while (rest) {
+    let token: TSqlToken | null = null;
+    for (let i = 0; i < TOKEN_PATTERNS.length && !token; i++) {
+      const [type, pattern] = TOKEN_PATTERNS[i];
+      const match = pattern.exec(rest);
+      if (match) {
+        const isKeyword = type === 'word' && KEYWORDS.has(match[0].toUpperCase());
+        token = { type: isKeyword ? 'keyword' : type, text: match[0] };
+      }
+    }
+    /* istanbul ignore next: the punctuation pattern matches any other character */
+    if (!token) {
+      token = { type: 'punctuation', text: rest[0] };
+    }
+    tokens.push(token);
+    rest = rest.slice(token.text.length);
+  }
+  return tokens;
+}
+
+/**
+ * Formats a SQL statement with each clause on its own line, indented by the
+ * nesting of the parentheses. Only the whitespace between the tokens changes.
+ */
+export function formatSql(sql: string): TSqlToken[] {
+  const formatted: TSqlToken[] = [];
+  let depth = 0;
+  let prevKeyword = '';
+  tokenizeSql(sql.trim()).forEach(token => {
+    const last = formatted[formatted.length - 1];
+    if (token.type === 'whitespace') {
+      if (last && last.type !== 'newline') {
+        formatted.push({ type: 'whitespace', text: ' ' });
+      }
+      return;
+    }
+    if (token.type === 'keyword') {
+      const keyword = token.text.toUpperCase();
+      const continues = keyword === 'JOIN' || keyword === 'OUTER' ? JOIN_PREFIXES.has(prevKeyword) : false;
+      if (last && CLAUSE_KEYWORDS.has(keyword) && !continues) {
+        if (last.type === 'whitespace') {
+          formatted.pop();
+        }
+        formatted.push({ type: 'newline', text: `\n${INDENT.repeat(depth)}` });
+      }
+      prevKeyword = keyword;
+    } else {
+      prevKeyword = '';
+    }
+    if (token.text === '(') {
+      depth += 1;
+    } else if (token.text === ')') {
+      depth = Math.max(depth - 1, 0);
+    }
+    formatted.push(token);
+  });
+  return formatted;
+}
@@ -0,0 +1,97 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  decodeBase64,
+  decodeUtf8,
+  formatBytes,
+  isBase64,
+  parseStackTrace,
+  toMicroseconds,
+  toNumber,
+} from './utils';
+
+describe('ValueRenderers utils', () => {
+  it('toNumber() parses numbers and numeric strings', () => {
+    expect(toNumber(42)).toBe(42);
+    expect(toNumber('1.5')).toBe(1.5);
+    expect(toNumber(' ')).toBe(null);
+    expect(toNumber('abc')).toBe(null);
+    expect(toNumber(Infinity)).toBe(null);
+    expect(toNumber(true)).toBe(null);
+  });
+
+  it('toMicroseconds() converts from the unit', () => {
+    expect(toMicroseconds(1500, 'ns')).toBe(1.5);
+    expect(toMicroseconds(3)).toBe(3);
+    expect(toMicroseconds(3, 'ms')).toBe(3000);
+    expect(toMicroseconds(3, 's')).toBe(3000000);
+  });
+
+  it('formatBytes() uses binary units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1024)).toBe('1 KiB');
+    expect(formatBytes(1536)).toBe('1.5 KiB');
+    expect(formatBytes(5 * 1024 ** 3)).toBe('5 GiB');
+  });
+
+  it('decodes standard and URL-safe base64', () => {
+    expect(isBase64('aGk=')).toBe(true);
+    expect(isBase64('a?b=')).toBe(false);
+    expect(Array.from(decodeBase64('-_8'))).toEqual([0xfb, 0xff]);
+    expect(Array.from(decodeBase64('+/8='))).toEqual([0xfb, 0xff]);
+  });
+
+  it('decodeUtf8() decodes text and rejects binary data', () => {
+    expect(decodeUtf8(Uint8Array.from([0x68, 0xc3, 0xa9, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80]))).toBe(
+      'hé€😀'
+    );
+    expect(decodeUtf8(Uint8Array.from([0x61, 0x0a, 0x62]))).toBe('a\nb');
+    expect(decodeUtf8(Uint8Array.from([0x00, 0x01]))).toBe(null);
+    expect(decodeUtf8(Uint8Array.from([0xff]))).toBe(null);
+    expect(decodeUtf8(Uint8Array.from([0x80]))).toBe(null);
+    expect(decodeUtf8(Uint8Array.from([0xc3]))).toBe(null);
+    expect(decodeUtf8(Uint8Array.from([0xc3, 0x41]))).toBe(null);
+  });
+
+  it('decodeUtf8() rejects code points that are not valid', () => {
+    // above U+10FFFF
+    expect(decodeUtf8(Uint8Array.from([0xf7, 0xbf, 0xbf, 0xbf]))).toBe(null);
+    expect(decodeUtf8(Uint8Array.from([0xf4, 0x90, 0x80, 0x80]))).toBe(null);
+    // a surrogate
+    expect(decodeUtf8(Uint8Array.from([0xed, 0xa0, 0x80]))).toBe(null);
+    // an overlong "/"
+    expect(decodeUtf8(Uint8Array.from([0xc0, 0xaf]))).toBe(null);
+  });
+
+  it('parseStackTrace() groups the frames', () => {
+    const stackTrace = [
+      'java.lang.IllegalStateException: boom',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.d(B.java:2)',
+      'Caused by: java.io.IOException',
+      '\t... 2 more',
+    ].join('\n');
+    expect(parseStackTrace(stackTrace)).toEqual([
+      { isFrames: false, lines: ['java.lang.IllegalStateException: boom'] },
+      { isFrames: true, lines: ['\tat a.B.c(B.java:1)', '\tat a.B.d(B.java:2)'] },
+      { isFrames: false, lines: ['Caused by: java.io.IOException'] },
+      { isFrames: true, lines: ['\t... 2 more'] },
+    ]);
+    expect(parseStackTrace('Traceback:\n  File "a.py", line 1\n#0 0x1 in main')).toEqual([
+      { isFrames: false, lines: ['Traceback:'] },
+      { isFrames: true, lines: ['  File "a.py", line 1', '#0 0x1 in main'] },
+    ]);
+  });
+});
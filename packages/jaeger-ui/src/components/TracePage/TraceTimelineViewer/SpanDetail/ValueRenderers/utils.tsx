@@ -0,0 +1,118 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { TagValueRendererConfig } from '../../../../../types/config';
+
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+const MICROSECONDS_PER_UNIT: Record<NonNullable<TagValueRendererConfig['unit']>, number> = {
+  ns: 0.001,
+  us: 1,
+  ms: 1000,
+  s: 1000000,
+};
+
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/_-]{4})*(?:[A-Za-z0-9+/_-]{2}(?:==)?|[A-Za-z0-9+/_-]{3}=?)?$/;
+
+// the lines of the frames of Java, JavaScript, Python, Go and C++ stack traces
+const FRAME_REGEX = /^(\s+at\s|\s+File\s"|\s*#\d+\s|\s+\.\.\. \d+ more|\t)/;
+
+/**
+ * Returns the number of a numeric tag value, or `null` for other values.
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+export function toMicroseconds(value: number, unit: TagValueRendererConfig['unit'] = 'us') {
+  return value * (MICROSECONDS_PER_UNIT[unit] || 1);
+}
+
+/**
+ * @example
+ * ```
+ * formatBytes(512) // => 512 B
+ * formatBytes(1536) // => 1.5 KiB
+ * ```
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit ? Number(value.toFixed(1)) : value} ${BYTE_UNITS[unit]}`;
+}
+
+export function isBase64(value: string) {
+  return value.length >= 4 && BASE64_REGEX.test(value);
+}
+
+/**
+ * Decodes standard or URL-safe base64, with or without the padding.
+ */
+export function decodeBase64(value: string): Uint8Array {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// the control characters other than whitespace, which are not in text
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS_REGEX = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/;
+
+/**
+ * Returns the text of UTF-8 bytes, or `null` if the bytes are not valid UTF-8
+ * or contain control characters other than whitespace.
+ */
+export function decodeUtf8(bytes: Uint8Array): string | null {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (_) {
+    return null;
+  }
+  return CONTROL_CHARACTERS_REGEX.test(text) ? null : text;
+}
+
+export type TStackTraceBlock = { isFrames: boolean; lines: string[] };
+
+/**
+ * Splits a stack trace into the blocks of consecutive frames and the blocks
+ * of the other lines, e.g. the messages of the exception and its causes.
+ */
+export function parseStackTrace(stackTrace: string): TStackTraceBlock[] {
+  const blocks: TStackTraceBlock[] = [];
+  stackTrace.split(/\r?\n/).forEach(line => {
+    const isFrames = FRAME_REGEX.test(line);
+    const last = blocks[blocks.length - 1];
+    if (last && last.isFrames === isFrames) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ isFrames, lines: [line] });
+    }
+  });
+  return blocks;
+}
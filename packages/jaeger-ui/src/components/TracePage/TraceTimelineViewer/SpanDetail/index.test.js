@@ -20,13 +20,16 @@ import { shallow } from 'enzyme';
 
 import AccordianKeyValues from './AccordianKeyValues';
 import AccordianLogs from './AccordianLogs';
+import AccordianReferences from './AccordianReferences';
 import DetailState from './DetailState';
 import SpanDetail from './index';
 import { formatDuration } from '../utils';
 import CopyIcon from '../../../common/CopyIcon';
+import AnnotationList from '../../AnnotationList';
 import LabeledList from '../../../common/LabeledList';
 import traceGenerator from '../../../../demo/trace-generators';
 import transformTraceData from '../../../../model/transform-trace-data';
+import { formatTimeOfDay } from '../../../../utils/date';
 
 describe('<SpanDetail>', () => {
   let wrapper;
@@ -36,7 +39,12 @@ describe('<SpanDetail>', () => {
   const detailState = new DetailState().toggleLogs().toggleProcess().toggleReferences().toggleTags();
   const traceStartTime = 5;
   const props = {
+    addAnnotation: jest.fn(),
+    annotations: [],
+    deleteAnnotation: jest.fn(),
     detailState,
+    linkedTraceAnchors: new Map([['trace2', span.spanID]]),
+    linkedTraceToggle: jest.fn(),
     span,
     traceStartTime,
     logItemToggle: jest.fn(),
@@ -135,6 +143,18 @@ describe('<SpanDetail>', () => {
     ).toEqual(words);
   });
 
+  it('shows the wall-clock start time when showing absolute times', () => {
+    const getStart = () =>
+      wrapper
+        .find(LabeledList)
+        .prop('items')
+        .find(item => item.key === 'start').value;
+    expect(formatDuration).toHaveBeenCalledWith(span.relativeStartTime);
+    wrapper.setProps({ absoluteTime: true });
+    expect(getStart()).toBe(formatTimeOfDay(span.startTime, true));
+    expect(wrapper.find(AccordianLogs).prop('absoluteTime')).toBe(true);
+  });
+
   it('renders the span tags', () => {
     const target = <AccordianKeyValues data={span.tags} label="Tags" isOpen={detailState.isTagsOpen} />;
     expect(wrapper.containsMatchingElement(target)).toBe(true);
@@ -183,6 +203,34 @@ describe('<SpanDetail>', () => {
     expect(props.referencesToggle).toHaveBeenLastCalledWith(span.spanID);
   });
 
+  it('renders the notes on the span', () => {
+    const annotationList = wrapper.find(AnnotationList);
+    expect(annotationList.prop('annotations')).toBe(props.annotations);
+    expect(annotationList.prop('onDelete')).toBe(props.deleteAnnotation);
+    annotationList.prop('onAdd')('Ada', 'slow');
+    expect(props.addAnnotation).toHaveBeenLastCalledWith(span.spanID, 'Ada', 'slow');
+  });
+
+  it('shows the referenced traces inline under the span', () => {
+    const refElem = wrapper.find(AccordianReferences);
+    expect(refElem.prop('traceID')).toBe(span.traceID);
+    expect(refElem.prop('isLinkedTraceShown')('trace2')).toBe(true);
+    expect(refElem.prop('isLinkedTraceShown')('trace3')).toBe(false);
+    refElem.prop('onLinkedTraceToggle')('trace3');
+    expect(props.linkedTraceToggle).toHaveBeenLastCalledWith(span.spanID, 'trace3');
+  });
+
+  it('renders the references to a parent in another trace', () => {
+    const childOfOtherTrace = {
+      ...span,
+      references: [{ refType: 'CHILD_OF', spanID: 'parent', traceID: 'other-trace' }],
+    };
+    wrapper.setProps({ span: childOfOtherTrace });
+    expect(wrapper.find(AccordianReferences).length).toBe(1);
+    wrapper.setProps({ span: { ...span, references: [{ ...span.references[0], traceID: span.traceID }] } });
+    expect(wrapper.find(AccordianReferences).length).toBe(0);
+  });
+
   it('renders CopyIcon with deep link URL', () => {
     expect(wrapper.find(CopyIcon).prop('copyText').includes(`?uiFind=${props.span.spanID}`)).toBe(true);
   });
@@ -22,15 +22,21 @@ import AccordianReferences from './AccordianReferences';
 import AccordianText from './AccordianText';
 import DetailState from './DetailState';
 import { formatDuration } from '../utils';
+import AnnotationList from '../../AnnotationList';
 import CopyIcon from '../../../common/CopyIcon';
 import LabeledList from '../../../common/LabeledList';
 
 import { TNil } from '../../../../types';
-import { KeyValuePair, Link, Log, Span } from '../../../../types/trace';
+import { KeyValuePair, Link, Log, Span, TraceAnnotation } from '../../../../types/trace';
+import { formatTimeOfDay } from '../../../../utils/date';
 
 import './index.css';
 
 type SpanDetailProps = {
+  absoluteTime?: boolean;
+  addAnnotation: (spanID: string, author: string, text: string) => void;
+  annotations: TraceAnnotation[];
+  deleteAnnotation: (annotation: TraceAnnotation) => void;
   detailState: DetailState;
   linksGetter: ((links: KeyValuePair[], index: number) => Link[]) | TNil;
   logItemToggle: (spanID: string, log: Log) => void;
@@ -42,12 +48,18 @@ type SpanDetailProps = {
   warningsToggle: (spanID: string) => void;
   referencesToggle: (spanID: string) => void;
   focusSpan: (uiFind: string) => void;
+  linkedTraceAnchors: Map<string, string>;
+  linkedTraceToggle: (spanID: string, traceID: string) => void;
   currentViewRangeTime: [number, number];
   traceDuration: number;
 };
 
 export default function SpanDetail(props: SpanDetailProps) {
   const {
+    absoluteTime = false,
+    addAnnotation,
+    annotations,
+    deleteAnnotation,
     detailState,
     linksGetter,
     logItemToggle,
@@ -59,12 +71,24 @@ export default function SpanDetail(props: SpanDetailProps) {
     warningsToggle,
     referencesToggle,
     focusSpan,
+    linkedTraceAnchors,
+    linkedTraceToggle,
     currentViewRangeTime,
     traceDuration,
   } = props;
   const { isTagsOpen, isProcessOpen, logs: logsState, isWarningsOpen, isReferencesOpen } = detailState;
-  const { operationName, process, duration, relativeStartTime, spanID, logs, tags, warnings, references } =
-    span;
+  const {
+    operationName,
+    process,
+    duration,
+    relativeStartTime,
+    spanID,
+    logs,
+    startTime,
+    tags,
+    warnings,
+    references,
+  } = span;
   const overviewItems = [
     {
       key: 'svc',
@@ -79,7 +103,7 @@ export default function SpanDetail(props: SpanDetailProps) {
     {
       key: 'start',
       label: 'Start Time:',
-      value: formatDuration(relativeStartTime),
+      value: absoluteTime ? formatTimeOfDay(startTime, true) : formatDuration(relativeStartTime),
     },
   ];
   const deepLinkCopyText = `${window.location.origin}${window.location.pathname}?uiFind=${spanID}`;
@@ -117,6 +141,7 @@ export default function SpanDetail(props: SpanDetailProps) {
         </div>
         {logs && logs.length > 0 && (
           <AccordianLogs
+            absoluteTime={absoluteTime}
             linksGetter={linksGetter}
             logs={logs}
             isOpen={logsState.isOpen}
@@ -140,14 +165,27 @@ export default function SpanDetail(props: SpanDetailProps) {
         )}
         {references &&
           references.length > 0 &&
-          (references.length > 1 || references[0].refType !== 'CHILD_OF') && (
+          (references.length > 1 ||
+            references[0].refType !== 'CHILD_OF' ||
+            references[0].traceID !== span.traceID) && (
             <AccordianReferences
               data={references}
               isOpen={isReferencesOpen}
               onToggle={() => referencesToggle(spanID)}
               focusSpan={focusSpan}
+              isLinkedTraceShown={traceID => linkedTraceAnchors.get(traceID) === spanID}
+              onLinkedTraceToggle={traceID => linkedTraceToggle(spanID, traceID)}
+              traceID={span.traceID}
             />
           )}
+        <div className="SpanDetail--notes">
+          <h4 className="SpanDetail--notesLabel">Notes</h4>
+          <AnnotationList
+            annotations={annotations}
+            onAdd={(author, text) => addAnnotation(spanID, author, text)}
+            onDelete={deleteAnnotation}
+          />
+        </div>
         <small className="SpanDetail--debugInfo">
           <span className="SpanDetail--debugLabel" data-label="SpanID:" /> {spanID}
           <CopyIcon
@@ -19,11 +19,15 @@ import DetailState from './SpanDetail/DetailState';
 import SpanTreeOffset from './SpanTreeOffset';
 import TimelineRow from './TimelineRow';
 
-import { Log, Span, KeyValuePair, Link } from '../../../types/trace';
+import { Log, Span, KeyValuePair, Link, TraceAnnotation } from '../../../types/trace';
 
 import './SpanDetailRow.css';
 
 type SpanDetailRowProps = {
+  absoluteTime?: boolean;
+  addAnnotation: (spanID: string, author: string, text: string) => void;
+  annotations: TraceAnnotation[];
+  deleteAnnotation: (annotation: TraceAnnotation) => void;
   color: string;
   columnDivision: number;
   detailState: DetailState;
@@ -38,6 +42,8 @@ type SpanDetailRowProps = {
   tagsToggle: (spanID: string) => void;
   traceStartTime: number;
   focusSpan: (uiFind: string) => void;
+  linkedTraceAnchors: Map<string, string>;
+  linkedTraceToggle: (spanID: string, traceID: string) => void;
   currentViewRangeTime: [number, number];
   traceDuration: number;
 };
@@ -53,6 +59,10 @@ const SpanDetailRow = React.memo((props: SpanDetailRowProps) => {
   };
 
   const {
+    absoluteTime,
+    addAnnotation,
+    annotations,
+    deleteAnnotation,
     color,
     columnDivision,
     detailState,
@@ -65,6 +75,8 @@ const SpanDetailRow = React.memo((props: SpanDetailRowProps) => {
     tagsToggle,
     traceStartTime,
     focusSpan,
+    linkedTraceAnchors,
+    linkedTraceToggle,
     currentViewRangeTime,
     traceDuration,
   } = props;
@@ -85,6 +97,10 @@ const SpanDetailRow = React.memo((props: SpanDetailRowProps) => {
       <TimelineRow.Cell width={1 - columnDivision}>
         <div className="detail-info-wrapper" style={{ borderTopColor: color }}>
           <SpanDetail
+            absoluteTime={absoluteTime}
+            addAnnotation={addAnnotation}
+            annotations={annotations}
+            deleteAnnotation={deleteAnnotation}
             detailState={detailState}
             linksGetter={_linksGetter}
             logItemToggle={logItemToggle}
@@ -96,6 +112,8 @@ const SpanDetailRow = React.memo((props: SpanDetailRowProps) => {
             tagsToggle={tagsToggle}
             traceStartTime={traceStartTime}
             focusSpan={focusSpan}
+            linkedTraceAnchors={linkedTraceAnchors}
+            linkedTraceToggle={linkedTraceToggle}
             currentViewRangeTime={currentViewRangeTime}
             traceDuration={traceDuration}
           />
@@ -22,4 +22,38 @@ describe('<Ticks>', () => {
     const { container } = render(<Ticks endTime={200} numTicks={5} showLabels startTime={100} />);
     expect(container).toBeDefined();
   });
+
+  it('labels the ticks with the offsets from the trace start', () => {
+    const { container } = render(<Ticks endTime={200} numTicks={3} showLabels startTime={100} />);
+    const labels = [...container.querySelectorAll('.Ticks--tickLabel')].map(label => label.textContent);
+    expect(labels).toEqual(['100μs', '150μs', '200μs']);
+  });
+
+  it('labels the ticks with the wall-clock times when given the trace start time', () => {
+    const { container } = render(
+      <Ticks
+        endTime={20000}
+        numTicks={3}
+        showLabels
+        startTime={0}
+        traceStartTime={Date.UTC(2020, 0, 1) * 1000}
+      />
+    );
+    const labels = [...container.querySelectorAll('.Ticks--tickLabel')].map(label => label.textContent);
+    expect(labels).toEqual(['00:00:00.000', '00:00:00.010', '00:00:00.020']);
+  });
+
+  it('shows the microseconds of the wall-clock times for short ranges', () => {
+    const { container } = render(
+      <Ticks
+        endTime={300}
+        numTicks={2}
+        showLabels
+        startTime={100}
+        traceStartTime={Date.UTC(2020, 0, 1) * 1000}
+      />
+    );
+    const labels = [...container.querySelectorAll('.Ticks--tickLabel')].map(label => label.textContent);
+    expect(labels).toEqual(['00:00:00.000100', '00:00:00.000300']);
+  });
 });
@@ -16,6 +16,7 @@ import * as React from 'react';
 
 import { formatDuration } from './utils';
 import { TNil } from '../../../types';
+import { formatTimeOfDay, ONE_MILLISECOND } from '../../../utils/date';
 
 import './Ticks.css';
 
@@ -24,16 +25,28 @@ type TicksProps = {
   numTicks: number;
   showLabels?: boolean | TNil;
   startTime?: number | TNil;
+  // when given, the labels are the wall-clock times instead of the offsets from the trace start
+  traceStartTime?: number | TNil;
 };
 
-export default function Ticks({ endTime = null, numTicks, showLabels = null, startTime = null }: TicksProps) {
+export default function Ticks({
+  endTime = null,
+  numTicks,
+  showLabels = null,
+  startTime = null,
+  traceStartTime = null,
+}: TicksProps) {
   let labels: undefined | string[];
   if (showLabels) {
     labels = [];
     const viewingDuration = (endTime || 0) - (startTime || 0);
     for (let i = 0; i < numTicks; i++) {
       const durationAtTick = (startTime || 0) + (i / (numTicks - 1)) * viewingDuration;
-      labels.push(formatDuration(durationAtTick));
+      labels.push(
+        traceStartTime == null
+          ? formatDuration(durationAtTick)
+          : formatTimeOfDay(traceStartTime + durationAtTick, viewingDuration < 10 * ONE_MILLISECOND)
+      );
     }
   }
   const ticks: React.ReactNode[] = [];
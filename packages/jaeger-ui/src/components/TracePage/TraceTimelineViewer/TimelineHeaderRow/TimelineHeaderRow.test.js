@@ -27,13 +27,18 @@ describe('<TimelineHeaderRow>', () => {
   const nameColumnWidth = 0.25;
   const props = {
     nameColumnWidth,
+    absoluteTime: false,
+    aggregateSiblings: false,
     duration: 1234,
     numTicks: 5,
+    onAbsoluteTimeChange: jest.fn(),
+    onAggregateSiblingsChange: jest.fn(),
     onCollapseAll: () => {},
     onCollapseOne: () => {},
     onColummWidthChange: () => {},
     onExpandAll: () => {},
     onExpandOne: () => {},
+    traceStartTime: 1000000,
     updateNextViewRangeTime: () => {},
     updateViewRangeTime: () => {},
     viewRangeTime: {
@@ -86,6 +91,34 @@ describe('<TimelineHeaderRow>', () => {
     expect(wrapper.containsMatchingElement(elm)).toBe(true);
   });
 
+  it('passes the trace start time to the Ticks when showing wall-clock times', () => {
+    expect(wrapper.find(Ticks).prop('traceStartTime')).toBe(null);
+    wrapper.setProps({ absoluteTime: true });
+    expect(wrapper.find(Ticks).prop('traceStartTime')).toBe(props.traceStartTime);
+  });
+
+  it('toggles between relative and wall-clock times', () => {
+    const toggle = () => wrapper.find('[data-testid="absolute-time-toggle"]');
+    expect(toggle().hasClass('is-active')).toBe(false);
+    toggle().simulate('click');
+    expect(props.onAbsoluteTimeChange).toHaveBeenLastCalledWith(true);
+    wrapper.setProps({ absoluteTime: true });
+    expect(toggle().hasClass('is-active')).toBe(true);
+    toggle().simulate('click');
+    expect(props.onAbsoluteTimeChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('toggles the aggregation of repeated siblings', () => {
+    const toggle = () => wrapper.find('[data-testid="aggregate-siblings-toggle"]');
+    expect(toggle().prop('aria-pressed')).toBe(false);
+    toggle().simulate('click');
+    expect(props.onAggregateSiblingsChange).toHaveBeenLastCalledWith(true);
+    wrapper.setProps({ aggregateSiblings: true });
+    expect(toggle().hasClass('is-active')).toBe(true);
+    toggle().simulate('click');
+    expect(props.onAggregateSiblingsChange).toHaveBeenLastCalledWith(false);
+  });
+
   it('renders the VerticalResizer', () => {
     const elm = (
       <VerticalResizer
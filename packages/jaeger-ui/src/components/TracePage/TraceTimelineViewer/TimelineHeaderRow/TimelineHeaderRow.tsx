@@ -13,6 +13,8 @@
 // limitations under the License.
 
 import * as React from 'react';
+import { Tooltip } from 'antd';
+import { IoLayersOutline, IoTimeOutline } from 'react-icons/io5';
 
 import VerticalResizer from '../../../common/VerticalResizer';
 import TimelineCollapser from './TimelineCollapser';
@@ -24,14 +26,19 @@ import { TUpdateViewRangeTimeFunction, IViewRangeTime, ViewRangeTimeUpdate } fro
 import './TimelineHeaderRow.css';
 
 type TimelineHeaderRowProps = {
+  absoluteTime: boolean;
+  aggregateSiblings: boolean;
   duration: number;
   nameColumnWidth: number;
   numTicks: number;
+  onAbsoluteTimeChange: (absoluteTime: boolean) => void;
+  onAggregateSiblingsChange: (aggregateSiblings: boolean) => void;
   onCollapseAll: () => void;
   onCollapseOne: () => void;
   onColummWidthChange: (width: number) => void;
   onExpandAll: () => void;
   onExpandOne: () => void;
+  traceStartTime: number;
   updateNextViewRangeTime: (update: ViewRangeTimeUpdate) => void;
   updateViewRangeTime: TUpdateViewRangeTimeFunction;
   viewRangeTime: IViewRangeTime;
@@ -39,14 +46,19 @@ type TimelineHeaderRowProps = {
 
 export default function TimelineHeaderRow(props: TimelineHeaderRowProps) {
   const {
+    absoluteTime,
+    aggregateSiblings,
     duration,
     nameColumnWidth,
     numTicks,
+    onAbsoluteTimeChange,
+    onAggregateSiblingsChange,
     onCollapseAll,
     onCollapseOne,
     onColummWidthChange,
     onExpandAll,
     onExpandOne,
+    traceStartTime,
     updateViewRangeTime,
     updateNextViewRangeTime,
     viewRangeTime,
@@ -62,6 +74,34 @@ export default function TimelineHeaderRow(props: TimelineHeaderRowProps) {
           onCollapseOne={onCollapseOne}
           onExpandOne={onExpandOne}
         />
+        <Tooltip title={absoluteTime ? 'Show times relative to the trace start' : 'Show wall-clock times'}>
+          <button
+            aria-pressed={absoluteTime}
+            className={`TimelineHeaderRow--timeToggle ${absoluteTime ? 'is-active' : ''}`}
+            data-testid="absolute-time-toggle"
+            onClick={() => onAbsoluteTimeChange(!absoluteTime)}
+            type="button"
+          >
+            <IoTimeOutline />
+          </button>
+        </Tooltip>
+        <Tooltip
+          title={
+            aggregateSiblings
+              ? 'Show repeated siblings as individual spans'
+              : 'Group consecutive siblings with the same service and operation'
+          }
+        >
+          <button
+            aria-pressed={aggregateSiblings}
+            className={`TimelineHeaderRow--timeToggle ${aggregateSiblings ? 'is-active' : ''}`}
+            data-testid="aggregate-siblings-toggle"
+            onClick={() => onAggregateSiblingsChange(!aggregateSiblings)}
+            type="button"
+          >
+            <IoLayersOutline />
+          </button>
+        </Tooltip>
       </TimelineRow.Cell>
       <TimelineRow.Cell width={1 - nameColumnWidth}>
         <TimelineViewingLayer
@@ -70,7 +110,13 @@ export default function TimelineHeaderRow(props: TimelineHeaderRowProps) {
           updateViewRangeTime={updateViewRangeTime}
           viewRangeTime={viewRangeTime}
         />
-        <Ticks numTicks={numTicks} startTime={viewStart * duration} endTime={viewEnd * duration} showLabels />
+        <Ticks
+          numTicks={numTicks}
+          startTime={viewStart * duration}
+          endTime={viewEnd * duration}
+          showLabels
+          traceStartTime={absoluteTime ? traceStartTime : null}
+        />
       </TimelineRow.Cell>
       <VerticalResizer position={nameColumnWidth} onChange={onColummWidthChange} min={0.15} max={0.85} />
     </TimelineRow>
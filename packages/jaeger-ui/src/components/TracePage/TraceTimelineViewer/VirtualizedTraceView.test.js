@@ -16,6 +16,7 @@ import { shallow, mount } from 'enzyme';
 import { render, screen } from '@testing-library/react';
 
 import ListView from './ListView';
+import SpanAggregateRow from './SpanAggregateRow';
 import SpanBarRow from './SpanBarRow';
 import DetailState from './SpanDetail/DetailState';
 import SpanDetailRow from './SpanDetailRow';
@@ -25,6 +26,8 @@ import transformTraceData from '../../../model/transform-trace-data';
 import updateUiFindSpy from '../../../utils/update-ui-find';
 import * as linkPatterns from '../../../model/link-patterns';
 import memoizedTraceCriticalPath from '../CriticalPath/index';
+import { ERROR_COLOR, NO_VALUE_COLOR } from '../span-colors';
+import { EColorBy } from '../types';
 
 import criticalPathTest from '../CriticalPath/testCases/test2';
 
@@ -40,9 +43,15 @@ describe('<VirtualizedTraceViewImpl>', () => {
   const criticalPath = memoizedTraceCriticalPath(trace);
 
   const props = {
+    addAnnotation: jest.fn(),
+    aggregateSiblings: false,
+    aggregateToggle: jest.fn(),
+    annotationsBySpan: new Map(),
     childrenHiddenIDs: new Set(),
     childrenToggle: jest.fn(),
     clearShouldScrollToFirstUiFindMatch: jest.fn(),
+    clearShouldScrollToSelectedSpan: jest.fn(),
+    colorBy: { mode: EColorBy.Service },
     currentViewRangeTime: [0.25, 0.75],
     detailLogItemToggle: jest.fn(),
     detailLogsToggle: jest.fn(),
@@ -50,16 +59,24 @@ describe('<VirtualizedTraceViewImpl>', () => {
     detailStates: new Map(),
     detailTagsToggle: jest.fn(),
     detailToggle: jest.fn(),
+    expandedAggregates: new Set(),
     findMatchesIDs: null,
+    linkedTraceAnchors: new Map(),
+    linkedTraceToggle: jest.fn(),
     registerAccessors: jest.fn(),
     scrollToFirstVisibleSpan: jest.fn(),
+    scrollToSpan: jest.fn(),
+    scrollSpanIntoView: jest.fn(),
+    selectedSpanID: null,
     setSpanNameColumnWidth: jest.fn(),
     focusUiFindMatches: focusUiFindMatchesMock,
     setTrace: jest.fn(),
     shouldScrollToFirstUiFindMatch: false,
+    shouldScrollToSelectedSpan: false,
     spanNameColumnWidth: 0.5,
     trace,
     criticalPath,
+    deleteAnnotation: jest.fn(),
     uiFind: 'uiFind',
     history: {
       replace: () => {},
@@ -329,6 +346,25 @@ describe('<VirtualizedTraceViewImpl>', () => {
       ).toBe(true);
     });
 
+    it('colors the SpanBarRow by the selected mode', () => {
+      const errorSpan = {
+        ...trace.spans[1],
+        tags: [...trace.spans[1].tags, { key: 'error', value: true }],
+      };
+      const errorTrace = { ...trace, spans: [trace.spans[0], errorSpan, ...trace.spans.slice(2)] };
+      wrapper.setProps({ colorBy: { mode: EColorBy.Error }, trace: errorTrace });
+      expect(
+        shallow(instance.renderRow('some-key', {}, 0, {}))
+          .find(SpanBarRow)
+          .prop('color')
+      ).toBe(NO_VALUE_COLOR);
+      expect(
+        shallow(instance.renderRow('some-key', {}, 1, {}))
+          .find(SpanBarRow)
+          .prop('color')
+      ).toBe(ERROR_COLOR);
+    });
+
     it('renders Critical Path segments when row is not collapsed', () => {
       wrapper.setProps({
         trace: criticalPathTest.trace,
@@ -384,6 +420,32 @@ describe('<VirtualizedTraceViewImpl>', () => {
       ).toBe(true);
     });
 
+    it('distinguishes the rows of the traces shown inline', () => {
+      expect(instance.getRowClassName(trace.spans[0])).toBe('VirtualizedTraceView--row');
+      expect(instance.getRowClassName({ ...trace.spans[0], traceID: 'linked' })).toBe(
+        'VirtualizedTraceView--row is-linked'
+      );
+    });
+
+    it('passes the notes on a span to its rows', () => {
+      const span = trace.spans[1];
+      const annotations = [{ id: 'note', traceID: trace.traceID, spanID: span.spanID, text: 'slow' }];
+      wrapper.setProps({ annotationsBySpan: new Map([[span.spanID, annotations]]) });
+      expandRow(1);
+      const barRow = shallow(instance.renderRow('some-key', {}, 1, {}));
+      expect(barRow.find(SpanBarRow).prop('annotationCount')).toBe(1);
+      const detailRow = shallow(instance.renderRow('some-key', {}, 2, {})).find(SpanDetailRow);
+      expect(detailRow.prop('annotations')).toBe(annotations);
+      expect(detailRow.prop('deleteAnnotation')).toBe(props.deleteAnnotation);
+    });
+
+    it('adds notes on a span of the trace', () => {
+      instance.addSpanAnnotation('span-id', 'Ada', 'slow');
+      expect(props.addAnnotation).toHaveBeenCalledWith(
+        expect.objectContaining({ author: 'Ada', spanID: 'span-id', text: 'slow', traceID: trace.traceID })
+      );
+    });
+
     it('renders a SpanBarRow with a client or producer span and no instrumented server span', () => {
       const externServiceName = 'externalServiceTest';
       const leafSpan = trace.spans.find(span => !span.hasChildren);
@@ -414,6 +476,72 @@ describe('<VirtualizedTraceViewImpl>', () => {
     });
   });
 
+  describe('sibling aggregates', () => {
+    const { startTime, traceID } = trace;
+    const span = (spanID, depth, operationName, offset) => ({
+      depth,
+      duration: 10,
+      hasChildren: false,
+      logs: [],
+      operationName,
+      process: { serviceName: 'svc' },
+      references: [],
+      spanID,
+      startTime: startTime + offset,
+      tags: [],
+      traceID,
+    });
+    // root, then three queries and a render
+    const spans = [
+      span('root', 0, 'root', 0),
+      span('q1', 1, 'query', 0),
+      span('q2', 1, 'query', 20),
+      span('q3', 1, 'query', 40),
+      span('render', 1, 'render', 60),
+    ];
+
+    beforeEach(() => {
+      wrapper.setProps({ aggregateSiblings: true, trace: { ...trace, spans } });
+    });
+
+    it('shows consecutive siblings as one row', () => {
+      expect(instance.getRowStates().map(({ spanIndex }) => spanIndex)).toEqual([0, 1, 4]);
+      expect(instance.getKeyFromIndex(1)).toBe('q1--aggregate');
+      expect(instance.getIndexFromKey('q1--aggregate')).toBe(1);
+      expect(instance.getRowHeight(1)).toBe(DEFAULT_HEIGHTS.bar);
+    });
+
+    it('follows an expanded aggregate with the rows of its spans', () => {
+      wrapper.setProps({ expandedAggregates: new Set(['q1']) });
+      expect(instance.getKeyFromIndex(1)).toBe('q1--aggregate');
+      expect(instance.getKeyFromIndex(2)).toBe('q1--bar');
+      expect(instance.getRowStates().length).toBe(6);
+      expect(instance.mapSpanIndexToRowIndex(1)).toBe(2);
+    });
+
+    it('maps the spans of a collapsed aggregate to its row', () => {
+      expect(instance.mapSpanIndexToRowIndex(1)).toBe(1);
+      expect(instance.mapSpanIndexToRowIndex(3)).toBe(1);
+      expect(instance.mapSpanIndexToRowIndex(4)).toBe(2);
+    });
+
+    it('renders a SpanAggregateRow', () => {
+      wrapper.setProps({ findMatchesIDs: new Set(['q3']), selectedSpanID: 'q1' });
+      const row = shallow(instance.renderRow('key', {}, 1, {})).find(SpanAggregateRow);
+      expect(row.prop('aggregate').siblings.map(s => s.spanID)).toEqual(['q1', 'q2', 'q3']);
+      expect(row.prop('isExpanded')).toBe(false);
+      expect(row.prop('isMatchingFilter')).toBe(true);
+      expect(row.prop('isSelected')).toBe(true);
+      row.prop('onToggled')('q1');
+      expect(props.aggregateToggle).toHaveBeenCalledWith('q1');
+    });
+
+    it('does not aggregate siblings unless enabled', () => {
+      wrapper.setProps({ aggregateSiblings: false });
+      expect(instance.getRowStates().length).toBe(spans.length);
+    });
+  });
+
   describe('shouldScrollToFirstUiFindMatch', () => {
     const propsWithTrueShouldScrollToFirstUiFindMatch = { ...props, shouldScrollToFirstUiFindMatch: true };
 
@@ -458,6 +586,44 @@ describe('<VirtualizedTraceViewImpl>', () => {
     });
   });
 
+  describe('shouldScrollToSelectedSpan', () => {
+    beforeEach(() => {
+      props.scrollToSpan.mockReset();
+      props.scrollSpanIntoView.mockReset();
+      props.clearShouldScrollToSelectedSpan.mockReset();
+    });
+
+    it('scrolls to the selected span if shouldScrollToSelectedSpan is true', () => {
+      const selectedSpanID = trace.spans[2].spanID;
+      wrapper.setProps({ ...props, selectedSpanID, shouldScrollToSelectedSpan: true });
+      expect(props.scrollToSpan).toHaveBeenCalledWith(selectedSpanID);
+      expect(props.clearShouldScrollToSelectedSpan).toHaveBeenCalledTimes(1);
+      expect(props.scrollSpanIntoView).not.toHaveBeenCalled();
+    });
+
+    it('scrolls a newly selected span into view', () => {
+      const selectedSpanID = trace.spans[2].spanID;
+      wrapper.setProps({ ...props, selectedSpanID });
+      expect(props.scrollSpanIntoView).toHaveBeenCalledWith(selectedSpanID);
+      expect(props.scrollToSpan).not.toHaveBeenCalled();
+      wrapper.setProps({ ...props, selectedSpanID, spanNameColumnWidth: 0.4 });
+      expect(props.scrollSpanIntoView).toHaveBeenCalledTimes(1);
+    });
+
+    it('highlights the row of the selected span', () => {
+      const selectedSpanID = trace.spans[1].spanID;
+      wrapper.setProps({ ...props, selectedSpanID });
+      const barRow = index => shallow(wrapper.instance().renderRow('key', {}, index, {})).find(SpanBarRow);
+      expect(barRow(1).prop('isSelected')).toBe(true);
+      expect(barRow(0).prop('isSelected')).toBe(false);
+    });
+
+    it('returns false from shouldComponentUpdate if only shouldScrollToSelectedSpan changes to false', () => {
+      wrapper.setProps({ ...props, shouldScrollToSelectedSpan: true });
+      expect(wrapper.instance().shouldComponentUpdate(props)).toBe(false);
+    });
+  });
+
   describe('focusSpan', () => {
     it('calls updateUiFind and focusUiFindMatches', () => {
       const spanName = 'span1';
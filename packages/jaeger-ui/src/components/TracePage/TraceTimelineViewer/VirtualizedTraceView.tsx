@@ -25,32 +25,37 @@ import memoizeOne from 'memoize-one';
 import { Location, History } from 'history';
 import { actions } from './duck';
 import ListView from './ListView';
+import SpanAggregateRow from './SpanAggregateRow';
 import SpanBarRow from './SpanBarRow';
 import DetailState from './SpanDetail/DetailState';
 import SpanDetailRow from './SpanDetailRow';
 import {
   createViewedBoundsFunc,
   findServerChildSpan,
+  getUninstrumentedPeerService,
   isErrorSpan,
-  isKindClient,
-  isKindProducer,
   spanContainsErredSpan,
   ViewedBoundsFunctionType,
 } from './utils';
 import { Accessors } from '../ScrollManager';
+import getSpanColors from '../span-colors';
 import { extractUiFindFromState, TExtractUiFindFromStateReturn } from '../../common/UiFindInput';
+import { addAnnotation, deleteAnnotation } from '../../../actions/annotations';
+import { createAnnotation, groupAnnotationsBySpan } from '../../../model/annotations';
 import getLinks from '../../../model/link-patterns';
+import { getSiblingAggregates, TSiblingAggregate } from '../../../model/sibling-aggregates';
 import colorGenerator from '../../../utils/color-generator';
 import { TNil, ReduxState } from '../../../types';
-import { Log, Span, Trace, KeyValuePair, criticalPathSection } from '../../../types/trace';
-import TTraceTimeline from '../../../types/TTraceTimeline';
+import { Log, Span, Trace, TraceAnnotation, KeyValuePair, criticalPathSection } from '../../../types/trace';
+import TTraceTimeline, { TSpanComparison } from '../../../types/TTraceTimeline';
 
 import './VirtualizedTraceView.css';
 import updateUiFind from '../../../utils/update-ui-find';
-import { PEER_SERVICE } from '../../../constants/tag-keys';
 import withRouteProps from '../../../utils/withRouteProps';
 
 type RowState = {
+  // the siblings aggregated by the row, which starts with `span`
+  aggregate?: TSiblingAggregate;
   isDetail: boolean;
   span: Span;
   spanIndex: number;
@@ -60,14 +65,26 @@ type TVirtualizedTraceViewOwnProps = {
   currentViewRangeTime: [number, number];
   findMatchesIDs: Set<string> | TNil;
   scrollToFirstVisibleSpan: () => void;
+  scrollToSpan: (spanID: string) => void;
+  scrollSpanIntoView: (spanID: string) => void;
   registerAccessors: (accesors: Accessors) => void;
   trace: Trace;
   criticalPath: criticalPathSection[];
 };
 
+type TAnnotationsProps = {
+  // the notes on the spans of the trace, by span ID
+  annotationsBySpan: Map<string, TraceAnnotation[]>;
+};
+
 type TDispatchProps = {
+  addAnnotation: (annotation: TraceAnnotation) => void;
+  aggregateToggle: (spanID: string) => void;
+  deleteAnnotation: (annotation: TraceAnnotation) => void;
   childrenToggle: (spanID: string) => void;
+  compareSpan: (traceID: string, spanID: string) => void;
   clearShouldScrollToFirstUiFindMatch: () => void;
+  clearShouldScrollToSelectedSpan: () => void;
   detailLogItemToggle: (spanID: string, log: Log) => void;
   detailLogsToggle: (spanID: string) => void;
   detailWarningsToggle: (spanID: string) => void;
@@ -78,6 +95,7 @@ type TDispatchProps = {
   setSpanNameColumnWidth: (width: number) => void;
   setTrace: (trace: Trace | TNil, uiFind: string | TNil) => void;
   focusUiFindMatches: (trace: Trace, uiFind: string | TNil, allowHide?: boolean) => void;
+  linkedTraceToggle: (spanID: string, traceID: string) => void;
 };
 
 type RouteProps = {
@@ -86,6 +104,7 @@ type RouteProps = {
 };
 
 type VirtualizedTraceViewProps = TVirtualizedTraceViewOwnProps &
+  TAnnotationsProps &
   TDispatchProps &
   TExtractUiFindFromStateReturn &
   TTraceTimeline &
@@ -99,17 +118,36 @@ export const DEFAULT_HEIGHTS = {
 };
 
 const NUM_TICKS = 5;
+const NO_ANNOTATIONS: TraceAnnotation[] = [];
+
+function isSpanCompared(spanComparison: TSpanComparison | TNil, { spanID, traceID }: Span) {
+  return Boolean(
+    spanComparison &&
+      [spanComparison.a, spanComparison.b].some(
+        ref => ref && ref.spanID === spanID && ref.traceID === traceID
+      )
+  );
+}
+
+function getRowKind({ aggregate, isDetail }: RowState) {
+  if (aggregate) {
+    return 'aggregate';
+  }
+  return isDetail ? 'detail' : 'bar';
+}
 
 function generateRowStates(
   spans: Span[] | TNil,
   childrenHiddenIDs: Set<string>,
-  detailStates: Map<string, DetailState | TNil>
+  detailStates: Map<string, DetailState | TNil>,
+  aggregates: Map<number, TSiblingAggregate> | TNil = null,
+  expandedAggregates: Set<string> = new Set()
 ): RowState[] {
   if (!spans) {
     return [];
   }
   let collapseDepth = null;
-  const rowStates = [];
+  const rowStates: RowState[] = [];
   for (let i = 0; i < spans.length; i++) {
     const span = spans[i];
     const { spanID, depth } = span;
@@ -124,6 +162,20 @@ function generateRowStates(
     if (hidden) {
       continue;
     }
+    const aggregate = aggregates && aggregates.get(i);
+    if (aggregate) {
+      rowStates.push({
+        aggregate,
+        span,
+        isDetail: false,
+        spanIndex: i,
+      });
+      // an expanded aggregate is followed by the rows of its spans
+      if (!expandedAggregates.has(aggregate.key)) {
+        i = aggregate.endIndex - 1;
+        continue;
+      }
+    }
     if (childrenHiddenIDs.has(spanID)) {
       collapseDepth = depth + 1;
     }
@@ -146,9 +198,15 @@ function generateRowStates(
 function generateRowStatesFromTrace(
   trace: Trace | TNil,
   childrenHiddenIDs: Set<string>,
-  detailStates: Map<string, DetailState | TNil>
+  detailStates: Map<string, DetailState | TNil>,
+  aggregateSiblings: boolean,
+  expandedAggregates: Set<string>
 ): RowState[] {
-  return trace ? generateRowStates(trace.spans, childrenHiddenIDs, detailStates) : [];
+  if (!trace) {
+    return [];
+  }
+  const aggregates = aggregateSiblings ? getSiblingAggregates(trace.spans) : null;
+  return generateRowStates(trace.spans, childrenHiddenIDs, detailStates, aggregates, expandedAggregates);
 }
 
 function getCssClasses(currentViewRange: [number, number]) {
@@ -220,8 +278,12 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     const nextPropKeys = Object.keys(nextProps) as (keyof VirtualizedTraceViewProps)[];
     for (let i = 0; i < nextPropKeys.length; i += 1) {
       if (nextProps[nextPropKeys[i]] !== this.props[nextPropKeys[i]]) {
-        // Unless the only change was props.shouldScrollToFirstUiFindMatch changing to false.
-        if (nextPropKeys[i] === 'shouldScrollToFirstUiFindMatch') {
+        // Unless the only change was props.shouldScrollToFirstUiFindMatch or
+        // props.shouldScrollToSelectedSpan changing to false.
+        if (
+          nextPropKeys[i] === 'shouldScrollToFirstUiFindMatch' ||
+          nextPropKeys[i] === 'shouldScrollToSelectedSpan'
+        ) {
           if (nextProps[nextPropKeys[i]]) return true;
         } else {
           return true;
@@ -232,11 +294,16 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
   }
 
   componentDidUpdate(prevProps: Readonly<VirtualizedTraceViewProps>) {
-    const { registerAccessors, trace } = prevProps;
+    const { registerAccessors, selectedSpanID: prevSelectedSpanID, trace } = prevProps;
     const {
       shouldScrollToFirstUiFindMatch,
+      shouldScrollToSelectedSpan,
       clearShouldScrollToFirstUiFindMatch,
+      clearShouldScrollToSelectedSpan,
       scrollToFirstVisibleSpan,
+      scrollToSpan,
+      scrollSpanIntoView,
+      selectedSpanID,
       registerAccessors: nextRegisterAccessors,
       setTrace,
       trace: nextTrace,
@@ -255,11 +322,24 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
       scrollToFirstVisibleSpan();
       clearShouldScrollToFirstUiFindMatch();
     }
+
+    if (shouldScrollToSelectedSpan) {
+      if (selectedSpanID) scrollToSpan(selectedSpanID);
+      clearShouldScrollToSelectedSpan();
+    } else if (selectedSpanID && selectedSpanID !== prevSelectedSpanID) {
+      scrollSpanIntoView(selectedSpanID);
+    }
   }
 
   getRowStates(): RowState[] {
-    const { childrenHiddenIDs, detailStates, trace } = this.props;
-    return memoizedGenerateRowStates(trace, childrenHiddenIDs, detailStates);
+    const { aggregateSiblings, childrenHiddenIDs, detailStates, expandedAggregates, trace } = this.props;
+    return memoizedGenerateRowStates(
+      trace,
+      childrenHiddenIDs,
+      detailStates,
+      aggregateSiblings,
+      expandedAggregates
+    );
   }
 
   getClippingCssClasses(): string {
@@ -267,6 +347,11 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     return memoizedGetCssClasses(currentViewRangeTime);
   }
 
+  // the spans of the traces shown inline under a reference stand out
+  getRowClassName(span: Span) {
+    return cx('VirtualizedTraceView--row', { 'is-linked': span.traceID !== this.props.trace.traceID });
+  }
+
   getViewedBounds(): ViewedBoundsFunctionType {
     const { currentViewRangeTime, trace } = this.props;
     const [zoomStart, zoomEnd] = currentViewRangeTime;
@@ -317,11 +402,17 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
 
   mapRowIndexToSpanIndex = (index: number) => this.getRowStates()[index].spanIndex;
 
+  // the spans of a collapsed aggregate are mapped to the row of the aggregate
   mapSpanIndexToRowIndex = (index: number) => {
+    const { expandedAggregates } = this.props;
     const max = this.getRowStates().length;
     for (let i = 0; i < max; i++) {
-      const { spanIndex } = this.getRowStates()[i];
-      if (spanIndex === index) {
+      const { aggregate, spanIndex } = this.getRowStates()[i];
+      if (aggregate) {
+        if (!expandedAggregates.has(aggregate.key) && index >= spanIndex && index < aggregate.endIndex) {
+          return i;
+        }
+      } else if (spanIndex === index) {
         return i;
       }
     }
@@ -339,18 +430,18 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
   // use long form syntax to avert flow error
   // https://github.com/facebook/flow/issues/3076#issuecomment-290944051
   getKeyFromIndex = (index: number) => {
-    const { isDetail, span } = this.getRowStates()[index];
-    return `${span.spanID}--${isDetail ? 'detail' : 'bar'}`;
+    const rowState = this.getRowStates()[index];
+    return `${rowState.span.spanID}--${getRowKind(rowState)}`;
   };
 
   getIndexFromKey = (key: string) => {
     const parts = key.split('--');
     const _spanID = parts[0];
-    const _isDetail = parts[1] === 'detail';
+    const _kind = parts[1];
     const max = this.getRowStates().length;
     for (let i = 0; i < max; i++) {
-      const { span, isDetail } = this.getRowStates()[i];
-      if (span.spanID === _spanID && isDetail === _isDetail) {
+      const rowState = this.getRowStates()[i];
+      if (rowState.span.spanID === _spanID && getRowKind(rowState) === _kind) {
         return i;
       }
     }
@@ -368,13 +459,29 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     return DEFAULT_HEIGHTS.detail;
   };
 
+  getSpanColor(span: Span) {
+    const { colorBy, trace } = this.props;
+    return (
+      getSpanColors(trace, colorBy).colors.get(span.spanID) ||
+      colorGenerator.getColorByKey(span.process.serviceName)
+    );
+  }
+
   linksGetter = (span: Span, items: KeyValuePair[], itemIndex: number) => {
     const { trace } = this.props;
     return getLinks(span, items, itemIndex, trace);
   };
 
+  addSpanAnnotation = (spanID: string, author: string, text: string) => {
+    const { addAnnotation: add, trace } = this.props;
+    add(createAnnotation({ author, spanID, text, traceID: trace.traceID }));
+  };
+
   renderRow = (key: string, style: React.CSSProperties, index: number, attrs: object) => {
-    const { isDetail, span, spanIndex } = this.getRowStates()[index];
+    const { aggregate, isDetail, span, spanIndex } = this.getRowStates()[index];
+    if (aggregate) {
+      return this.renderSpanAggregateRow(aggregate, key, style, attrs);
+    }
     return isDetail
       ? this.renderSpanDetailRow(span, key, style, attrs)
       : this.renderSpanBarRow(span, spanIndex, key, style, attrs);
@@ -396,13 +503,16 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
 
   renderSpanBarRow(span: Span, spanIndex: number, key: string, style: React.CSSProperties, attrs: object) {
     const { spanID } = span;
-    const { serviceName } = span.process;
     const {
+      annotationsBySpan,
       childrenHiddenIDs,
       childrenToggle,
+      compareSpan,
       detailStates,
       detailToggle,
       findMatchesIDs,
+      selectedSpanID,
+      spanComparison,
       spanNameColumnWidth,
       trace,
       criticalPath,
@@ -411,7 +521,7 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     if (!trace) {
       return null;
     }
-    const color = colorGenerator.getColorByKey(serviceName);
+    const color = this.getSpanColor(span);
     const isCollapsed = childrenHiddenIDs.has(spanID);
     const isDetailExpanded = detailStates.has(spanID);
     const isMatchingFilter = findMatchesIDs ? findMatchesIDs.has(spanID) : false;
@@ -424,7 +534,7 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
       if (rpcSpan) {
         const rpcViewBounds = this.getViewedBounds()(rpcSpan.startTime, rpcSpan.startTime + rpcSpan.duration);
         rpc = {
-          color: colorGenerator.getColorByKey(rpcSpan.process.serviceName),
+          color: this.getSpanColor(rpcSpan),
           operationName: rpcSpan.operationName,
           serviceName: rpcSpan.process.serviceName,
           viewEnd: rpcViewBounds.end,
@@ -432,30 +542,28 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
         };
       }
     }
-    const peerServiceKV = span.tags.find(kv => kv.key === PEER_SERVICE);
-    // Leaf, kind == client and has peer.service tag, is likely a client span that does a request
-    // to an uninstrumented/external service
-    let noInstrumentedServer = null;
-    if (!span.hasChildren && peerServiceKV && (isKindClient(span) || isKindProducer(span))) {
-      noInstrumentedServer = {
-        serviceName: peerServiceKV.value,
-        color: colorGenerator.getColorByKey(peerServiceKV.value),
-      };
-    }
+    const peerService = getUninstrumentedPeerService(span);
+    const noInstrumentedServer = peerService
+      ? { serviceName: peerService, color: colorGenerator.getColorByKey(peerService) }
+      : null;
 
     return (
-      <div className="VirtualizedTraceView--row" key={key} style={style} {...attrs}>
+      <div className={this.getRowClassName(span)} key={key} style={style} {...attrs}>
         <SpanBarRow
+          annotationCount={(annotationsBySpan.get(spanID) || []).length}
           className={this.getClippingCssClasses()}
           color={color}
           criticalPath={criticalPathSections}
           columnDivision={spanNameColumnWidth}
           isChildrenExpanded={!isCollapsed}
+          isCompared={isSpanCompared(spanComparison, span)}
           isDetailExpanded={isDetailExpanded}
           isMatchingFilter={isMatchingFilter}
+          isSelected={spanID === selectedSpanID}
           numTicks={NUM_TICKS}
           onDetailToggled={detailToggle}
           onChildrenToggled={childrenToggle}
+          onCompareToggled={compareSpan}
           rpc={rpc}
           noInstrumentedServer={noInstrumentedServer}
           showErrorIcon={showErrorIcon}
@@ -469,10 +577,53 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     );
   }
 
+  renderSpanAggregateRow(
+    aggregate: TSiblingAggregate,
+    key: string,
+    style: React.CSSProperties,
+    attrs: object
+  ) {
+    const {
+      aggregateToggle,
+      expandedAggregates,
+      findMatchesIDs,
+      selectedSpanID,
+      spanNameColumnWidth,
+      trace,
+    } = this.props;
+    const span = aggregate.siblings[0];
+    const isExpanded = expandedAggregates.has(aggregate.key);
+    // the rows of the spans stand for them once the aggregate is expanded
+    let isMatchingFilter = false;
+    if (findMatchesIDs && !isExpanded) {
+      for (let i = aggregate.startIndex; i < aggregate.endIndex && !isMatchingFilter; i++) {
+        isMatchingFilter = findMatchesIDs.has(trace.spans[i].spanID);
+      }
+    }
+    return (
+      <div className={this.getRowClassName(span)} key={key} style={style} {...attrs}>
+        <SpanAggregateRow
+          aggregate={aggregate}
+          className={this.getClippingCssClasses()}
+          color={this.getSpanColor(span)}
+          columnDivision={spanNameColumnWidth}
+          isExpanded={isExpanded}
+          isMatchingFilter={isMatchingFilter}
+          isSelected={!isExpanded && aggregate.key === selectedSpanID}
+          numTicks={NUM_TICKS}
+          onToggled={aggregateToggle}
+          getViewedBounds={this.getViewedBounds()}
+        />
+      </div>
+    );
+  }
+
   renderSpanDetailRow(span: Span, key: string, style: React.CSSProperties, attrs: object) {
     const { spanID } = span;
-    const { serviceName } = span.process;
     const {
+      absoluteTime,
+      annotationsBySpan,
+      deleteAnnotation: deleteSpanAnnotation,
       detailLogItemToggle,
       detailLogsToggle,
       detailProcessToggle,
@@ -481,6 +632,8 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
       detailStates,
       detailTagsToggle,
       detailToggle,
+      linkedTraceAnchors,
+      linkedTraceToggle,
       spanNameColumnWidth,
       trace,
       currentViewRangeTime,
@@ -489,10 +642,14 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
     if (!trace || !detailState) {
       return null;
     }
-    const color = colorGenerator.getColorByKey(serviceName);
+    const color = this.getSpanColor(span);
     return (
-      <div className="VirtualizedTraceView--row" key={key} style={{ ...style, zIndex: 1 }} {...attrs}>
+      <div className={this.getRowClassName(span)} key={key} style={{ ...style, zIndex: 1 }} {...attrs}>
         <SpanDetailRow
+          absoluteTime={absoluteTime}
+          addAnnotation={this.addSpanAnnotation}
+          annotations={annotationsBySpan.get(spanID) || NO_ANNOTATIONS}
+          deleteAnnotation={deleteSpanAnnotation}
           color={color}
           columnDivision={spanNameColumnWidth}
           onDetailToggled={detailToggle}
@@ -507,6 +664,8 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
           tagsToggle={detailTagsToggle}
           traceStartTime={trace.startTime}
           focusSpan={this.focusSpan}
+          linkedTraceAnchors={linkedTraceAnchors}
+          linkedTraceToggle={linkedTraceToggle}
           currentViewRangeTime={currentViewRangeTime}
           traceDuration={trace.duration}
         />
@@ -535,20 +694,27 @@ export class VirtualizedTraceViewImpl extends React.Component<VirtualizedTraceVi
 }
 
 /* istanbul ignore next */
-function mapStateToProps(state: ReduxState): TTraceTimeline & TExtractUiFindFromStateReturn {
+function mapStateToProps(
+  state: ReduxState,
+  ownProps: TVirtualizedTraceViewOwnProps
+): TTraceTimeline & TExtractUiFindFromStateReturn & TAnnotationsProps {
   return {
     ...extractUiFindFromState(state),
     ...state.traceTimeline,
+    annotationsBySpan: groupAnnotationsBySpan(state.annotations[ownProps.trace.traceID]),
   };
 }
 
 /* istanbul ignore next */
 function mapDispatchToProps(dispatch: Dispatch<ReduxState>): TDispatchProps {
-  return bindActionCreators(actions, dispatch) as any as TDispatchProps;
+  return bindActionCreators(
+    { ...actions, addAnnotation, deleteAnnotation },
+    dispatch
+  ) as any as TDispatchProps;
 }
 
 export default connect<
-  TTraceTimeline & TExtractUiFindFromStateReturn,
+  TTraceTimeline & TExtractUiFindFromStateReturn & TAnnotationsProps,
   TDispatchProps,
   TVirtualizedTraceViewOwnProps,
   ReduxState
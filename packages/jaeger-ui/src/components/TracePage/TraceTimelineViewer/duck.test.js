@@ -15,8 +15,21 @@
 import { createStore } from 'redux';
 import _reduce from 'lodash/reduce';
 
-import reducer, { actions, newInitialState, collapseAll, collapseOne, expandAll, expandOne } from './duck';
+import reducer, {
+  actions,
+  newInitialState,
+  collapseAll,
+  collapseOne,
+  expandAll,
+  expandOne,
+  selectAdjacentSpan,
+  selectedSpanChildrenToggle,
+  ABSOLUTE_TIME_STORAGE_KEY,
+  AGGREGATE_SIBLINGS_STORAGE_KEY,
+  COLOR_BY_STORAGE_KEY,
+} from './duck';
 import DetailState from './SpanDetail/DetailState';
+import { EColorBy } from '../types';
 import transformTraceData from '../../../model/transform-trace-data';
 import traceGenerator from '../../../demo/trace-generators';
 import filterSpansSpy from '../../../utils/filter-spans';
@@ -51,6 +64,136 @@ describe('TraceTimelineViewer/duck', () => {
     expect(width).toBe(n);
   });
 
+  describe('colorBy', () => {
+    afterEach(() => {
+      localStorage.removeItem(COLOR_BY_STORAGE_KEY);
+    });
+
+    it('colors by service by default', () => {
+      expect(store.getState().colorBy).toEqual({ mode: EColorBy.Service });
+    });
+
+    it('sets and persists the colorBy', () => {
+      const colorBy = { mode: EColorBy.Tag, tagKey: 'db.system' };
+      store.dispatch(actions.setColorBy(colorBy));
+      expect(store.getState().colorBy).toEqual(colorBy);
+      expect(newInitialState().colorBy).toEqual(colorBy);
+    });
+
+    it('ignores a malformed persisted colorBy', () => {
+      localStorage.setItem(COLOR_BY_STORAGE_KEY, '{');
+      expect(newInitialState().colorBy).toEqual({ mode: EColorBy.Service });
+      localStorage.setItem(COLOR_BY_STORAGE_KEY, JSON.stringify({ mode: 'rainbow' }));
+      expect(newInitialState().colorBy).toEqual({ mode: EColorBy.Service });
+    });
+  });
+
+  describe('absoluteTime', () => {
+    afterEach(() => {
+      localStorage.removeItem(ABSOLUTE_TIME_STORAGE_KEY);
+    });
+
+    it('shows relative times by default', () => {
+      expect(store.getState().absoluteTime).toBe(false);
+    });
+
+    it('sets and persists absoluteTime', () => {
+      store.dispatch(actions.setAbsoluteTime(true));
+      expect(store.getState().absoluteTime).toBe(true);
+      expect(newInitialState().absoluteTime).toBe(true);
+      store.dispatch(actions.setAbsoluteTime(false));
+      expect(store.getState().absoluteTime).toBe(false);
+      expect(newInitialState().absoluteTime).toBe(false);
+    });
+  });
+
+  describe('sibling aggregates', () => {
+    // 0
+    // - 1 query
+    // --- 2
+    // - 3 query
+    // - 4 query
+    // - 5
+    const span = (spanID, depth, operationName, hasChildren = false) => ({
+      depth,
+      hasChildren,
+      operationName,
+      process: { serviceName: 'svc' },
+      spanID,
+    });
+    const spans = [
+      span('0', 0, 'root', true),
+      span('1', 1, 'query', true),
+      span('2', 2, 'read'),
+      span('3', 1, 'query'),
+      span('4', 1, 'query'),
+      span('5', 1, 'render'),
+    ];
+    const aggregatedState = (
+      selectedSpanID,
+      expandedAggregates = new Set(),
+      childrenHiddenIDs = new Set()
+    ) => ({
+      ...newInitialState(),
+      aggregateSiblings: true,
+      childrenHiddenIDs,
+      expandedAggregates,
+      selectedSpanID,
+    });
+
+    afterEach(() => {
+      localStorage.removeItem(AGGREGATE_SIBLINGS_STORAGE_KEY);
+    });
+
+    it('sets and persists aggregateSiblings', () => {
+      expect(store.getState().aggregateSiblings).toBe(false);
+      store.dispatch(actions.setAggregateSiblings(true));
+      expect(store.getState().aggregateSiblings).toBe(true);
+      expect(newInitialState().aggregateSiblings).toBe(true);
+      store.dispatch(actions.setAggregateSiblings(false));
+      expect(newInitialState().aggregateSiblings).toBe(false);
+    });
+
+    it('expands and collapses an aggregate', () => {
+      store.dispatch(actions.aggregateToggle('1'));
+      expect(store.getState().expandedAggregates).toEqual(new Set(['1']));
+      store.dispatch(actions.aggregateToggle('1'));
+      expect(store.getState().expandedAggregates).toEqual(new Set());
+    });
+
+    it('keeps the mode but not the expanded aggregates when changing traceIDs', () => {
+      store.dispatch(actions.setAggregateSiblings(true));
+      store.dispatch(actions.aggregateToggle('1'));
+      store.dispatch(actions.setTrace(trace));
+      expect(store.getState().aggregateSiblings).toBe(true);
+      expect(store.getState().expandedAggregates).toEqual(new Set());
+    });
+
+    it('selects a collapsed aggregate by its first span', () => {
+      const select = (selectedSpanID, direction, expandedAggregates) =>
+        selectAdjacentSpan(aggregatedState(selectedSpanID, expandedAggregates), { spans, direction })
+          .selectedSpanID;
+      expect(select('1', 1)).toBe('5');
+      expect(select('5', -1)).toBe('1');
+      expect(select('1', 1, new Set(['1']))).toBe('2');
+    });
+
+    it('expands and collapses the aggregate of the selected span', () => {
+      const toggle = (selectedSpanID, direction, expandedAggregates, childrenHiddenIDs) =>
+        selectedSpanChildrenToggle(aggregatedState(selectedSpanID, expandedAggregates, childrenHiddenIDs), {
+          spans,
+          direction,
+        });
+      expect(toggle('1', 1).expandedAggregates).toEqual(new Set(['1']));
+      expect(toggle('1', -1).expandedAggregates).toEqual(new Set());
+      // the children of the first span are collapsed before the aggregate
+      const expanded = new Set(['1']);
+      expect(toggle('1', -1, expanded).childrenHiddenIDs).toEqual(new Set(['1']));
+      expect(toggle('1', -1, expanded, new Set(['1'])).expandedAggregates).toEqual(new Set());
+      expect(toggle('1', 1, expanded, new Set(['1'])).childrenHiddenIDs).toEqual(new Set());
+    });
+  });
+
   describe('focusUiFindMatches', () => {
     const uiFind = 'uiFind';
     const action = actions.focusUiFindMatches(trace, uiFind);
@@ -149,9 +292,17 @@ describe('TraceTimelineViewer/duck', () => {
       expect(store.getState()).toBe(state);
     });
 
-    it('retains only the spanNameColumnWidth when changing traceIDs', () => {
+    it('retains the span comparison when changing traceIDs', () => {
+      store.dispatch(actions.compareSpan('other-trace', 'span'));
+      const { spanComparison } = store.getState();
+      store.dispatch(setTraceAction);
+      expect(store.getState().spanComparison).toBe(spanComparison);
+    });
+
+    it('retains only the spanNameColumnWidth, colorBy and absoluteTime when changing traceIDs', () => {
       let action;
       const width = 0.5;
+      const colorBy = { mode: EColorBy.Error };
       const id = 'some-id';
 
       action = actions.childrenToggle(id);
@@ -160,6 +311,10 @@ describe('TraceTimelineViewer/duck', () => {
       store.dispatch(action);
       action = actions.setSpanNameColumnWidth(width);
       store.dispatch(action);
+      store.dispatch(actions.setColorBy(colorBy));
+      localStorage.removeItem(COLOR_BY_STORAGE_KEY);
+      store.dispatch(actions.setAbsoluteTime(true));
+      localStorage.removeItem(ABSOLUTE_TIME_STORAGE_KEY);
 
       let state = store.getState();
       expect(state.traceID).toBe(null);
@@ -173,6 +328,8 @@ describe('TraceTimelineViewer/duck', () => {
       expect(state.childrenHiddenIDs).toEqual(new Set());
       expect(state.detailStates).toEqual(new Map());
       expect(state.spanNameColumnWidth).toBe(width);
+      expect(state.colorBy).toBe(colorBy);
+      expect(state.absoluteTime).toBe(true);
     });
 
     it('calls calculateHiddenIdsAndDetailStates iff a truthy uiFind is provided', () => {
@@ -190,6 +347,47 @@ describe('TraceTimelineViewer/duck', () => {
       );
       expect(filterSpansSpy).toHaveBeenCalledTimes(1);
     });
+
+    it('restores the view state of a permalink, even for the same traceID', () => {
+      const spanID = trace.spans[1].spanID;
+      const viewState = {
+        childrenHiddenIDs: new Set([trace.spans[0].spanID]),
+        detailStates: new Map([[spanID, new DetailState().toggleTags()]]),
+        selectedSpanID: spanID,
+        spanNameColumnWidth: 0.4,
+      };
+      store.dispatch(setTraceAction);
+      store.dispatch(actions.setTrace(trace, null, viewState));
+      const state = store.getState();
+      expect(state.traceID).toBe(trace.traceID);
+      expect(state.childrenHiddenIDs).toBe(viewState.childrenHiddenIDs);
+      expect(state.detailStates).toBe(viewState.detailStates);
+      expect(state.selectedSpanID).toBe(spanID);
+      expect(state.shouldScrollToSelectedSpan).toBe(true);
+      expect(state.spanNameColumnWidth).toBe(0.4);
+    });
+
+    it('prefers the view state over the uiFind matches', () => {
+      const childrenHiddenIDs = new Set();
+      store.dispatch(actions.setTrace(trace, 'truthy uiFind string', { childrenHiddenIDs }));
+      const state = store.getState();
+      expect(filterSpansSpy).toHaveBeenCalledTimes(1);
+      expect(state.childrenHiddenIDs).toBe(childrenHiddenIDs);
+      expect(state.shouldScrollToSelectedSpan).toBe(false);
+    });
+  });
+
+  describe('clearShouldScrollToSelectedSpan', () => {
+    it('sets state.shouldScrollToSelectedSpan to false if it is currently true', () => {
+      const state = store.getState();
+      store.dispatch(actions.clearShouldScrollToSelectedSpan());
+      expect(store.getState()).toBe(state);
+
+      store.dispatch(actions.setTrace(trace, null, { selectedSpanID: trace.spans[0].spanID }));
+      expect(store.getState().shouldScrollToSelectedSpan).toBe(true);
+      store.dispatch(actions.clearShouldScrollToSelectedSpan());
+      expect(store.getState().shouldScrollToSelectedSpan).toBe(false);
+    });
   });
 
   describe('clearShouldScrollToFirstUiFindMatch', () => {
@@ -353,6 +551,52 @@ describe('TraceTimelineViewer/duck', () => {
         expect(st1.childrenHiddenIDs).toEqual(resultant);
       });
     });
+
+    describe('keyboard selection', () => {
+      const select = (selectedSpanID, direction, childrenHiddenIDs = new Set()) =>
+        selectAdjacentSpan({ childrenHiddenIDs, selectedSpanID }, { spans, direction }).selectedSpanID;
+
+      it('selects the first or last visible span when no span is selected', () => {
+        expect(select(null, 1)).toBe(0);
+        expect(select(null, -1)).toBe(5);
+        expect(select(null, -1, new Set([0]))).toBe(0);
+      });
+
+      it('moves the selection to the next or previous visible span', () => {
+        expect(select(0, 1)).toBe(1);
+        expect(select(3, -1)).toBe(2);
+        expect(select(1, 1, oneSpanCollapsed)).toBe(3);
+        expect(select(3, -1, oneSpanCollapsed)).toBe(1);
+      });
+
+      it('keeps the selection at the first and last visible spans', () => {
+        const state = { childrenHiddenIDs: new Set(), selectedSpanID: 5 };
+        expect(selectAdjacentSpan(state, { spans, direction: 1 })).toBe(state);
+        expect(select(0, -1)).toBe(0);
+      });
+
+      it('collapses and expands the children of the selected span', () => {
+        const toggle = (selectedSpanID, direction, childrenHiddenIDs = new Set()) =>
+          selectedSpanChildrenToggle({ childrenHiddenIDs, selectedSpanID }, { spans, direction })
+            .childrenHiddenIDs;
+        expect(toggle(1, -1)).toEqual(oneSpanCollapsed);
+        expect(toggle(1, -1, oneSpanCollapsed)).toEqual(oneSpanCollapsed);
+        expect(toggle(1, 1, oneSpanCollapsed)).toEqual(new Set());
+        expect(toggle(1, 1)).toEqual(new Set());
+        expect(toggle(2, -1)).toEqual(new Set());
+        expect(toggle(null, -1)).toEqual(new Set());
+      });
+
+      it('dispatches the selection actions', () => {
+        store.dispatch(actions.selectAdjacentSpan(spans, 1));
+        store.dispatch(actions.selectAdjacentSpan(spans, 1));
+        expect(store.getState().selectedSpanID).toBe(1);
+        store.dispatch(actions.selectedSpanChildrenToggle(spans, -1));
+        expect(store.getState().childrenHiddenIDs).toEqual(oneSpanCollapsed);
+        store.dispatch(actions.selectedSpanChildrenToggle(spans, 1));
+        expect(store.getState().childrenHiddenIDs).toEqual(new Set());
+      });
+    });
   });
 
   describe("toggles a detail's sub-sections", () => {
@@ -420,6 +664,20 @@ describe('TraceTimelineViewer/duck', () => {
     });
   });
 
+  it('selects the span with the last opened detail and keeps it selected when closed', () => {
+    const id = trace.spans[0].spanID;
+    const secondID = trace.spans[1].spanID;
+
+    store.dispatch(actions.detailToggle(id));
+    expect(store.getState().selectedSpanID).toBe(id);
+    store.dispatch(actions.detailToggle(secondID));
+    expect(store.getState().selectedSpanID).toBe(secondID);
+    store.dispatch(actions.detailToggle(id));
+    expect(store.getState().selectedSpanID).toBe(secondID);
+    store.dispatch(actions.detailToggle(secondID));
+    expect(store.getState().selectedSpanID).toBe(secondID);
+  });
+
   it('toggles a log item', () => {
     const logItem = 'hello-log-item';
     const id = trace.spans[0].spanID;
@@ -437,6 +695,51 @@ describe('TraceTimelineViewer/duck', () => {
     expect(store.getState().detailStates.get(secondID)).toBe(secondDetail);
   });
 
+  it('toggles the referenced traces shown inline', () => {
+    store.dispatch(actions.linkedTraceToggle('anchor', 'linked'));
+    expect(store.getState().linkedTraceAnchors).toEqual(new Map([['linked', 'anchor']]));
+    // a trace is moved when shown under another span
+    store.dispatch(actions.linkedTraceToggle('other-anchor', 'linked'));
+    expect(store.getState().linkedTraceAnchors).toEqual(new Map([['linked', 'other-anchor']]));
+    store.dispatch(actions.linkedTraceToggle('other-anchor', 'linked'));
+    expect(store.getState().linkedTraceAnchors).toEqual(new Map());
+  });
+
+  describe('span comparison', () => {
+    const a = { spanID: 'a', traceID: 'trace-a' };
+    const b = { spanID: 'b', traceID: 'trace-b' };
+    const compare = ({ spanID, traceID }) => store.dispatch(actions.compareSpan(traceID, spanID));
+
+    it('compares the first span with the spans compared after it', () => {
+      compare(a);
+      expect(store.getState().spanComparison).toEqual({ a, b: null });
+      compare(b);
+      expect(store.getState().spanComparison).toEqual({ a, b });
+      const c = { spanID: 'c', traceID: 'trace-a' };
+      compare(c);
+      expect(store.getState().spanComparison).toEqual({ a, b: c });
+    });
+
+    it('removes the spans that are compared again', () => {
+      compare(a);
+      compare(b);
+      compare(b);
+      expect(store.getState().spanComparison).toEqual({ a, b: null });
+      compare(b);
+      compare(a);
+      expect(store.getState().spanComparison).toEqual({ a: b, b: null });
+      compare(b);
+      expect(store.getState().spanComparison).toBe(null);
+    });
+
+    it('sets and ends the comparison', () => {
+      store.dispatch(actions.setSpanComparison({ a: b, b: a }));
+      expect(store.getState().spanComparison).toEqual({ a: b, b: a });
+      store.dispatch(actions.setSpanComparison(null));
+      expect(store.getState().spanComparison).toBe(null);
+    });
+  });
+
   describe('hoverIndentGuideIds', () => {
     const existingSpanId = 'existingSpanId';
     const newSpanId = 'newSpanId';
@@ -15,25 +15,44 @@
 import { Action, ActionFunctionAny, createActions, handleActions } from 'redux-actions';
 
 import DetailState from './SpanDetail/DetailState';
+import { DEFAULT_COLOR_BY } from '../span-colors';
+import { EColorBy, TColorBy, TTimelineViewState } from '../types';
 import { TNil } from '../../../types';
+import { getSiblingAggregates, TSiblingAggregate } from '../../../model/sibling-aggregates';
 import { Log, Span, Trace } from '../../../types/trace';
-import TTraceTimeline from '../../../types/TTraceTimeline';
+import TTraceTimeline, { TSpanComparison, TSpanRef } from '../../../types/TTraceTimeline';
 import filterSpans from '../../../utils/filter-spans';
 import generateActionTypes from '../../../utils/generate-action-types';
 import guardReducer from '../../../utils/guardReducer';
 import spanAncestorIds from '../../../utils/span-ancestor-ids';
+import { getSpanIndex } from '../../../utils/span-index';
 
 // payloads
 export type TSpanIdLogValue = { logItem: Log; spanID: string };
 export type TSpanIdValue = { spanID: string };
+type TLinkedTraceValue = { spanID: string; traceID: string };
+type TSpanComparisonValue = { spanComparison: TSpanComparison | TNil };
 type TSpansValue = { spans: Span[] };
+type TSpansDirectionValue = { spans: Span[]; direction: 1 | -1 };
 type TTraceUiFindValue = { trace: Trace; uiFind: string | TNil; allowHide?: boolean };
+type TTraceViewStateValue = { trace: Trace; uiFind: string | TNil; viewState?: TTimelineViewState | TNil };
 export type TWidthValue = { width: number };
+export type TColorByValue = { colorBy: TColorBy };
+export type TAbsoluteTimeValue = { absoluteTime: boolean };
+export type TAggregateSiblingsValue = { aggregateSiblings: boolean };
 export type TActionTypes =
+  | TAbsoluteTimeValue
+  | TAggregateSiblingsValue
+  | TColorByValue
+  | TLinkedTraceValue
   | TSpanIdLogValue
+  | TSpanComparisonValue
   | TSpanIdValue
+  | TSpanRef
+  | TSpansDirectionValue
   | TSpansValue
   | TTraceUiFindValue
+  | TTraceViewStateValue
   | TWidthValue
   | object;
 
@@ -46,12 +65,69 @@ function shouldDisableCollapse(allSpans: Span[], hiddenSpansIds: Set<string>) {
   return allParentSpans.length === hiddenSpansIds.size;
 }
 
+// the aggregates of siblings in the timeline, when siblings are aggregated
+function getShownAggregates(state: TTraceTimeline, spans: Span[]) {
+  return state.aggregateSiblings ? getSiblingAggregates(spans) : null;
+}
+
+// the spans that are not under a collapsed span, in the order of the rows,
+// a collapsed aggregate of siblings is represented by its first span
+function getVisibleSpans(
+  spans: Span[],
+  childrenHiddenIDs: Set<string>,
+  aggregates: Map<number, TSiblingAggregate> | null = null,
+  expandedAggregates: Set<string> = new Set()
+) {
+  const visible: Span[] = [];
+  let collapsedDepth: number | null = null;
+  for (let i = 0; i < spans.length; i++) {
+    const span = spans[i];
+    if (collapsedDepth != null && span.depth > collapsedDepth) {
+      continue;
+    }
+    collapsedDepth = childrenHiddenIDs.has(span.spanID) ? span.depth : null;
+    visible.push(span);
+    const aggregate = aggregates && aggregates.get(i);
+    if (aggregate && !expandedAggregates.has(aggregate.key)) {
+      collapsedDepth = null;
+      i = aggregate.endIndex - 1;
+    }
+  }
+  return visible;
+}
+
+// exported for tests
+export const COLOR_BY_STORAGE_KEY = 'colorBy';
+
+function getStoredColorBy(): TColorBy {
+  try {
+    const colorBy = JSON.parse(localStorage.getItem(COLOR_BY_STORAGE_KEY) || 'null');
+    if (colorBy && Object.values(EColorBy).includes(colorBy.mode)) {
+      return colorBy;
+    }
+  } catch (_) {
+    // ignore a malformed value, it is overwritten on the next change
+  }
+  return DEFAULT_COLOR_BY;
+}
+
+export const ABSOLUTE_TIME_STORAGE_KEY = 'absoluteTime';
+export const AGGREGATE_SIBLINGS_STORAGE_KEY = 'aggregateSiblings';
+
 export function newInitialState(): TTraceTimeline {
   return {
+    absoluteTime: localStorage.getItem(ABSOLUTE_TIME_STORAGE_KEY) === 'true',
+    aggregateSiblings: localStorage.getItem(AGGREGATE_SIBLINGS_STORAGE_KEY) === 'true',
     childrenHiddenIDs: new Set(),
+    colorBy: getStoredColorBy(),
     detailStates: new Map(),
+    expandedAggregates: new Set(),
     hoverIndentGuideIds: new Set(),
+    linkedTraceAnchors: new Map(),
+    selectedSpanID: null,
     shouldScrollToFirstUiFindMatch: false,
+    shouldScrollToSelectedSpan: false,
+    spanComparison: null,
     spanNameColumnWidth: parseFloat(localStorage.getItem('spanNameColumnWidth') || '0.25'),
     traceID: null,
   };
@@ -59,10 +135,13 @@ export function newInitialState(): TTraceTimeline {
 
 export const actionTypes = generateActionTypes('@jaeger-ui/trace-timeline-viewer', [
   'ADD_HOVER_INDENT_GUIDE_ID',
+  'AGGREGATE_TOGGLE',
   'CHILDREN_TOGGLE',
   'CLEAR_SHOULD_SCROLL_TO_FIRST_UI_FIND_MATCH',
+  'CLEAR_SHOULD_SCROLL_TO_SELECTED_SPAN',
   'COLLAPSE_ALL',
   'COLLAPSE_ONE',
+  'COMPARE_SPAN',
   'DETAIL_TOGGLE',
   'DETAIL_TAGS_TOGGLE',
   'DETAIL_PROCESS_TOGGLE',
@@ -73,17 +152,27 @@ export const actionTypes = generateActionTypes('@jaeger-ui/trace-timeline-viewer
   'EXPAND_ALL',
   'EXPAND_ONE',
   'FOCUS_UI_FIND_MATCHES',
+  'LINKED_TRACE_TOGGLE',
   'REMOVE_HOVER_INDENT_GUIDE_ID',
+  'SELECT_ADJACENT_SPAN',
+  'SELECTED_SPAN_CHILDREN_TOGGLE',
+  'SET_ABSOLUTE_TIME',
+  'SET_AGGREGATE_SIBLINGS',
+  'SET_COLOR_BY',
+  'SET_SPAN_COMPARISON',
   'SET_SPAN_NAME_COLUMN_WIDTH',
   'SET_TRACE',
 ]);
 
 const fullActions = createActions<TActionTypes>({
   [actionTypes.ADD_HOVER_INDENT_GUIDE_ID]: (spanID: string) => ({ spanID }),
+  [actionTypes.AGGREGATE_TOGGLE]: (spanID: string) => ({ spanID }),
   [actionTypes.CHILDREN_TOGGLE]: (spanID: string) => ({ spanID }),
   [actionTypes.CLEAR_SHOULD_SCROLL_TO_FIRST_UI_FIND_MATCH]: () => ({}),
+  [actionTypes.CLEAR_SHOULD_SCROLL_TO_SELECTED_SPAN]: () => ({}),
   [actionTypes.COLLAPSE_ALL]: (spans: Span[]) => ({ spans }),
   [actionTypes.COLLAPSE_ONE]: (spans: Span[]) => ({ spans }),
+  [actionTypes.COMPARE_SPAN]: (traceID: string, spanID: string) => ({ spanID, traceID }),
   [actionTypes.DETAIL_LOG_ITEM_TOGGLE]: (spanID: string, logItem: Log) => ({ logItem, spanID }),
   [actionTypes.DETAIL_LOGS_TOGGLE]: (spanID: string) => ({ spanID }),
   [actionTypes.EXPAND_ALL]: () => ({}),
@@ -98,29 +187,35 @@ const fullActions = createActions<TActionTypes>({
     uiFind,
     allowHide,
   }),
+  [actionTypes.LINKED_TRACE_TOGGLE]: (spanID: string, traceID: string) => ({ spanID, traceID }),
   [actionTypes.REMOVE_HOVER_INDENT_GUIDE_ID]: (spanID: string) => ({ spanID }),
+  [actionTypes.SELECT_ADJACENT_SPAN]: (spans: Span[], direction: 1 | -1) => ({ spans, direction }),
+  [actionTypes.SELECTED_SPAN_CHILDREN_TOGGLE]: (spans: Span[], direction: 1 | -1) => ({ spans, direction }),
+  [actionTypes.SET_ABSOLUTE_TIME]: (absoluteTime: boolean) => ({ absoluteTime }),
+  [actionTypes.SET_AGGREGATE_SIBLINGS]: (aggregateSiblings: boolean) => ({ aggregateSiblings }),
+  [actionTypes.SET_COLOR_BY]: (colorBy: TColorBy) => ({ colorBy }),
+  [actionTypes.SET_SPAN_COMPARISON]: (spanComparison: TSpanComparison | TNil) => ({ spanComparison }),
   [actionTypes.SET_SPAN_NAME_COLUMN_WIDTH]: (width: number) => ({ width }),
-  [actionTypes.SET_TRACE]: (trace: Trace, uiFind: string | TNil) => ({ trace, uiFind }),
+  [actionTypes.SET_TRACE]: (trace: Trace, uiFind: string | TNil, viewState?: TTimelineViewState | TNil) => ({
+    trace,
+    uiFind,
+    viewState,
+  }),
 });
 
 export const actions = (fullActions as any).jaegerUi.traceTimelineViewer as TTimelineViewerActions;
 
 function calculateFocusedFindRowStates(uiFind: string, spans: Span[], allowHide = true) {
-  const spansMap = new Map();
-  const childrenHiddenIDs: Set<string> = new Set();
+  // the index is shared with `filterSpans`
+  const { spansByID } = getSpanIndex(spans);
+  const childrenHiddenIDs: Set<string> = new Set(allowHide ? spansByID.keys() : []);
   const detailStates: Map<string, DetailState> = new Map();
   let shouldScrollToFirstUiFindMatch = false;
 
-  spans.forEach(span => {
-    spansMap.set(span.spanID, span);
-    if (allowHide) {
-      childrenHiddenIDs.add(span.spanID);
-    }
-  });
   const matchedSpanIds = filterSpans(uiFind, spans);
   if (matchedSpanIds && matchedSpanIds.size) {
     matchedSpanIds.forEach(spanID => {
-      const span = spansMap.get(spanID);
+      const span = spansByID.get(spanID)!;
       detailStates.set(spanID, new DetailState());
       spanAncestorIds(span).forEach(ancestorID => childrenHiddenIDs.delete(ancestorID));
     });
@@ -148,16 +243,35 @@ function clearShouldScrollToFirstUiFindMatch(state: TTraceTimeline) {
   return state;
 }
 
-function setTrace(state: TTraceTimeline, { uiFind, trace }: TTraceUiFindValue) {
+function clearShouldScrollToSelectedSpan(state: TTraceTimeline) {
+  if (state.shouldScrollToSelectedSpan) {
+    return { ...state, shouldScrollToSelectedSpan: false };
+  }
+  return state;
+}
+
+function setTrace(state: TTraceTimeline, { uiFind, trace, viewState }: TTraceViewStateValue) {
   const { traceID, spans } = trace;
-  if (traceID === state.traceID) {
+  // the view state of a permalink replaces the state of the same trace
+  if (traceID === state.traceID && !viewState) {
     return state;
   }
-  const { spanNameColumnWidth } = state;
+  // the compared spans can belong to any trace in the store
+  const { absoluteTime, aggregateSiblings, colorBy, spanComparison, spanNameColumnWidth } = state;
 
   return Object.assign(
-    { ...newInitialState(), spanNameColumnWidth, traceID },
-    uiFind ? calculateFocusedFindRowStates(uiFind, spans) : null
+    {
+      ...newInitialState(),
+      absoluteTime,
+      aggregateSiblings,
+      colorBy,
+      spanComparison,
+      spanNameColumnWidth,
+      traceID,
+    },
+    uiFind ? calculateFocusedFindRowStates(uiFind, spans) : null,
+    viewState,
+    viewState && viewState.selectedSpanID ? { shouldScrollToSelectedSpan: true } : null
   );
 }
 
@@ -166,6 +280,24 @@ function setColumnWidth(state: TTraceTimeline, { width }: TWidthValue): TTraceTi
   return { ...state, spanNameColumnWidth: width };
 }
 
+function setAbsoluteTime(state: TTraceTimeline, { absoluteTime }: TAbsoluteTimeValue): TTraceTimeline {
+  localStorage.setItem(ABSOLUTE_TIME_STORAGE_KEY, String(absoluteTime));
+  return { ...state, absoluteTime };
+}
+
+function setAggregateSiblings(
+  state: TTraceTimeline,
+  { aggregateSiblings }: TAggregateSiblingsValue
+): TTraceTimeline {
+  localStorage.setItem(AGGREGATE_SIBLINGS_STORAGE_KEY, String(aggregateSiblings));
+  return { ...state, aggregateSiblings };
+}
+
+function setColorBy(state: TTraceTimeline, { colorBy }: TColorByValue): TTraceTimeline {
+  localStorage.setItem(COLOR_BY_STORAGE_KEY, JSON.stringify(colorBy));
+  return { ...state, colorBy };
+}
+
 function childrenToggle(state: TTraceTimeline, { spanID }: TSpanIdValue): TTraceTimeline {
   const childrenHiddenIDs = new Set(state.childrenHiddenIDs);
   if (childrenHiddenIDs.has(spanID)) {
@@ -176,6 +308,70 @@ function childrenToggle(state: TTraceTimeline, { spanID }: TSpanIdValue): TTrace
   return { ...state, childrenHiddenIDs };
 }
 
+function aggregateToggle(state: TTraceTimeline, { spanID }: TSpanIdValue): TTraceTimeline {
+  const expandedAggregates = new Set(state.expandedAggregates);
+  if (expandedAggregates.has(spanID)) {
+    expandedAggregates.delete(spanID);
+  } else {
+    expandedAggregates.add(spanID);
+  }
+  return { ...state, expandedAggregates };
+}
+
+// moves the selection to the next (1) or previous (-1) visible span, or to
+// the first or last one when no visible span is selected
+export function selectAdjacentSpan(
+  state: TTraceTimeline,
+  { spans, direction }: TSpansDirectionValue
+): TTraceTimeline {
+  const visible = getVisibleSpans(
+    spans,
+    state.childrenHiddenIDs,
+    getShownAggregates(state, spans),
+    state.expandedAggregates
+  );
+  if (!visible.length) {
+    return state;
+  }
+  const index = visible.findIndex(span => span.spanID === state.selectedSpanID);
+  let next;
+  if (index === -1) {
+    next = direction > 0 ? visible[0] : visible[visible.length - 1];
+  } else {
+    next = visible[Math.min(Math.max(index + direction, 0), visible.length - 1)];
+  }
+  return next.spanID === state.selectedSpanID ? state : { ...state, selectedSpanID: next.spanID };
+}
+
+// collapses (-1) or expands (1) the children of the selected span, or the
+// aggregate of siblings it is the first span of
+export function selectedSpanChildrenToggle(
+  state: TTraceTimeline,
+  { spans, direction }: TSpansDirectionValue
+): TTraceTimeline {
+  const { childrenHiddenIDs, expandedAggregates, selectedSpanID } = state;
+  const spanIndex = selectedSpanID ? spans.findIndex(s => s.spanID === selectedSpanID) : -1;
+  if (spanIndex === -1) {
+    return state;
+  }
+  const span = spans[spanIndex];
+  const aggregates = getShownAggregates(state, spans);
+  const isAggregate = Boolean(aggregates && aggregates.has(spanIndex));
+  const isAggregateExpanded = isAggregate && expandedAggregates.has(span.spanID);
+  // the aggregate is expanded before the children, and collapsed after them
+  const isChildrenToggled =
+    span.hasChildren &&
+    childrenHiddenIDs.has(span.spanID) === direction > 0 &&
+    (!isAggregate || isAggregateExpanded);
+  if (isChildrenToggled) {
+    return childrenToggle(state, { spanID: span.spanID });
+  }
+  if (isAggregate && isAggregateExpanded === direction < 0) {
+    return aggregateToggle(state, { spanID: span.spanID });
+  }
+  return state;
+}
+
 export function expandAll(state: TTraceTimeline): TTraceTimeline {
   const childrenHiddenIDs = new Set<string>();
   return { ...state, childrenHiddenIDs };
@@ -239,12 +435,15 @@ export function expandOne(state: TTraceTimeline, { spans }: TSpansValue) {
 
 function detailToggle(state: TTraceTimeline, { spanID }: TSpanIdValue) {
   const detailStates = new Map(state.detailStates);
+  // opening the detail of a span selects it, closing it keeps the selection
+  let { selectedSpanID } = state;
   if (detailStates.has(spanID)) {
     detailStates.delete(spanID);
   } else {
     detailStates.set(spanID, new DetailState());
+    selectedSpanID = spanID;
   }
-  return { ...state, detailStates };
+  return { ...state, detailStates, selectedSpanID };
 }
 
 function detailSubsectionToggle(
@@ -290,6 +489,42 @@ function detailLogItemToggle(state: TTraceTimeline, { spanID, logItem }: TSpanId
   return { ...state, detailStates };
 }
 
+function linkedTraceToggle(state: TTraceTimeline, { spanID, traceID }: TLinkedTraceValue) {
+  const linkedTraceAnchors = new Map(state.linkedTraceAnchors);
+  if (linkedTraceAnchors.get(traceID) === spanID) {
+    linkedTraceAnchors.delete(traceID);
+  } else {
+    // a trace is shown under one span at a time
+    linkedTraceAnchors.set(traceID, spanID);
+  }
+  return { ...state, linkedTraceAnchors };
+}
+
+function isSameSpan(ref: TSpanRef | TNil, { spanID, traceID }: TSpanRef) {
+  return Boolean(ref && ref.spanID === spanID && ref.traceID === traceID);
+}
+
+// adds the span to the comparison, or removes it if it is compared already
+export function compareSpan(state: TTraceTimeline, spanRef: TSpanRef): TTraceTimeline {
+  const { spanComparison } = state;
+  const ref = { spanID: spanRef.spanID, traceID: spanRef.traceID };
+  let next: TSpanComparison | null;
+  if (!spanComparison) {
+    next = { a: ref, b: null };
+  } else if (isSameSpan(spanComparison.a, ref)) {
+    next = spanComparison.b ? { a: spanComparison.b, b: null } : null;
+  } else if (isSameSpan(spanComparison.b, ref)) {
+    next = { a: spanComparison.a, b: null };
+  } else {
+    next = { a: spanComparison.a, b: ref };
+  }
+  return { ...state, spanComparison: next };
+}
+
+function setSpanComparison(state: TTraceTimeline, { spanComparison }: TSpanComparisonValue) {
+  return { ...state, spanComparison };
+}
+
 function addHoverIndentGuideId(state: TTraceTimeline, { spanID }: TSpanIdValue) {
   const newHoverIndentGuideIds = new Set(state.hoverIndentGuideIds);
   newHoverIndentGuideIds.add(spanID);
@@ -307,12 +542,15 @@ function removeHoverIndentGuideId(state: TTraceTimeline, { spanID }: TSpanIdValu
 export default handleActions(
   {
     [actionTypes.ADD_HOVER_INDENT_GUIDE_ID]: guardReducer(addHoverIndentGuideId),
+    [actionTypes.AGGREGATE_TOGGLE]: guardReducer(aggregateToggle),
     [actionTypes.CHILDREN_TOGGLE]: guardReducer(childrenToggle),
     [actionTypes.CLEAR_SHOULD_SCROLL_TO_FIRST_UI_FIND_MATCH]: guardReducer(
       clearShouldScrollToFirstUiFindMatch
     ),
+    [actionTypes.CLEAR_SHOULD_SCROLL_TO_SELECTED_SPAN]: guardReducer(clearShouldScrollToSelectedSpan),
     [actionTypes.COLLAPSE_ALL]: guardReducer(collapseAll),
     [actionTypes.COLLAPSE_ONE]: guardReducer(collapseOne),
+    [actionTypes.COMPARE_SPAN]: guardReducer(compareSpan),
     [actionTypes.DETAIL_LOGS_TOGGLE]: guardReducer(detailLogsToggle),
     [actionTypes.DETAIL_LOG_ITEM_TOGGLE]: guardReducer(detailLogItemToggle),
     [actionTypes.DETAIL_PROCESS_TOGGLE]: guardReducer(detailProcessToggle),
@@ -323,7 +561,14 @@ export default handleActions(
     [actionTypes.EXPAND_ALL]: guardReducer(expandAll),
     [actionTypes.EXPAND_ONE]: guardReducer(expandOne),
     [actionTypes.FOCUS_UI_FIND_MATCHES]: guardReducer(focusUiFindMatches),
+    [actionTypes.LINKED_TRACE_TOGGLE]: guardReducer(linkedTraceToggle),
     [actionTypes.REMOVE_HOVER_INDENT_GUIDE_ID]: guardReducer(removeHoverIndentGuideId),
+    [actionTypes.SELECT_ADJACENT_SPAN]: guardReducer(selectAdjacentSpan),
+    [actionTypes.SELECTED_SPAN_CHILDREN_TOGGLE]: guardReducer(selectedSpanChildrenToggle),
+    [actionTypes.SET_ABSOLUTE_TIME]: guardReducer(setAbsoluteTime),
+    [actionTypes.SET_AGGREGATE_SIBLINGS]: guardReducer(setAggregateSiblings),
+    [actionTypes.SET_COLOR_BY]: guardReducer(setColorBy),
+    [actionTypes.SET_SPAN_COMPARISON]: guardReducer(setSpanComparison),
     [actionTypes.SET_SPAN_NAME_COLUMN_WIDTH]: guardReducer(setColumnWidth),
     [actionTypes.SET_TRACE]: guardReducer(setTrace),
   },
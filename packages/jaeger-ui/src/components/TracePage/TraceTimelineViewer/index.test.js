@@ -35,11 +35,32 @@ describe('<TraceTimelineViewer>', () => {
       },
     },
     spanNameColumnWidth: 0.5,
+    absoluteTime: false,
+    setAbsoluteTime: jest.fn(),
+    aggregateSiblings: false,
+    setAggregateSiblings: jest.fn(),
+    selectedSpanID: null,
+    detailToggle: jest.fn(),
+    selectAdjacentSpan: jest.fn(),
+    selectedSpanChildrenToggle: jest.fn(),
+    updateViewRangeTime: jest.fn(),
     expandAll: jest.fn(),
     collapseAll: jest.fn(),
     expandOne: jest.fn(),
     collapseOne: jest.fn(),
   };
+  const shortcutCallbacks = {
+    collapseAll: expect.any(Function),
+    expandAll: expect.any(Function),
+    collapseOne: expect.any(Function),
+    expandOne: expect.any(Function),
+    selectNextSpan: expect.any(Function),
+    selectPrevSpan: expect.any(Function),
+    collapseSelectedSpan: expect.any(Function),
+    expandSelectedSpan: expect.any(Function),
+    toggleSelectedSpanDetail: expect.any(Function),
+    zoomToSelectedSpan: expect.any(Function),
+  };
   const options = {
     context: {
       store: {
@@ -82,14 +103,95 @@ describe('<TraceTimelineViewer>', () => {
     expect(props.collapseOne.mock.calls.length).toBe(1);
   });
 
+  it('passes the trace start time and the absolute time toggle to the header row', () => {
+    const headerRow = wrapper.find(TimelineHeaderRow);
+    expect(headerRow.prop('absoluteTime')).toBe(false);
+    expect(headerRow.prop('traceStartTime')).toBe(trace.startTime);
+    headerRow.prop('onAbsoluteTimeChange')(true);
+    expect(props.setAbsoluteTime).toHaveBeenCalledWith(true);
+  });
+
+  it('passes the aggregation of siblings toggle to the header row', () => {
+    const headerRow = wrapper.find(TimelineHeaderRow);
+    expect(headerRow.prop('aggregateSiblings')).toBe(false);
+    headerRow.prop('onAggregateSiblingsChange')(true);
+    expect(props.setAggregateSiblings).toHaveBeenCalledWith(true);
+  });
+
+  it('does not pass the absolute time toggle on to the VirtualizedTraceView', () => {
+    expect(wrapper.find('[currentViewRangeTime]').prop('setAbsoluteTime')).toBeUndefined();
+  });
+
+  describe('span selection shortcuts', () => {
+    const span = trace.spans[1];
+    const getCallbacks = selectedSpanID => {
+      KeyboardShortcuts.merge.mockClear();
+      render(<TraceTimelineViewerImpl {...props} selectedSpanID={selectedSpanID} />);
+      return KeyboardShortcuts.merge.mock.calls[0][0];
+    };
+
+    beforeEach(() => {
+      props.detailToggle.mockClear();
+      props.selectAdjacentSpan.mockClear();
+      props.selectedSpanChildrenToggle.mockClear();
+      props.updateViewRangeTime.mockClear();
+    });
+
+    it('moves the selection and collapses or expands the selected span', () => {
+      const callbacks = getCallbacks(span.spanID);
+      callbacks.selectNextSpan();
+      callbacks.selectPrevSpan();
+      expect(props.selectAdjacentSpan.mock.calls).toEqual([
+        [trace.spans, 1],
+        [trace.spans, -1],
+      ]);
+      callbacks.collapseSelectedSpan();
+      callbacks.expandSelectedSpan();
+      expect(props.selectedSpanChildrenToggle.mock.calls).toEqual([
+        [trace.spans, -1],
+        [trace.spans, 1],
+      ]);
+    });
+
+    it('toggles the details of the selected span', () => {
+      getCallbacks(null).toggleSelectedSpanDetail();
+      expect(props.detailToggle).not.toHaveBeenCalled();
+      getCallbacks(span.spanID).toggleSelectedSpanDetail();
+      expect(props.detailToggle).toHaveBeenCalledWith(span.spanID);
+    });
+
+    it('zooms to the selected span', () => {
+      getCallbacks(null).zoomToSelectedSpan();
+      expect(props.updateViewRangeTime).not.toHaveBeenCalled();
+      getCallbacks(span.spanID).zoomToSelectedSpan();
+      const [start, end, trackSrc] = props.updateViewRangeTime.mock.calls[0];
+      expect(start).toBeCloseTo((span.startTime - trace.startTime) / trace.duration);
+      expect(end).toBeCloseTo(
+        Math.max((span.startTime + span.duration - trace.startTime) / trace.duration, start + 0.01)
+      );
+      expect(trackSrc).toBe('kbd');
+    });
+
+    it('zooms to at least a small portion of the trace', () => {
+      const instant = { ...trace.spans[0], duration: 0, spanID: 'instant', startTime: trace.endTime };
+      KeyboardShortcuts.merge.mockClear();
+      render(
+        <TraceTimelineViewerImpl
+          {...props}
+          selectedSpanID="instant"
+          trace={{ ...trace, spans: [...trace.spans, instant] }}
+        />
+      );
+      KeyboardShortcuts.merge.mock.calls[0][0].zoomToSelectedSpan();
+      const [start, end] = props.updateViewRangeTime.mock.calls[0];
+      expect(start).toBeCloseTo(0.99);
+      expect(end).toBeCloseTo(1);
+    });
+  });
+
   it('it should call mergeShortcuts with the correct callbacks on mount', () => {
     render(<TraceTimelineViewerImpl {...props} />);
-    expect(KeyboardShortcuts.merge).toHaveBeenCalledWith({
-      collapseAll: expect.any(Function),
-      expandAll: expect.any(Function),
-      collapseOne: expect.any(Function),
-      expandOne: expect.any(Function),
-    });
+    expect(KeyboardShortcuts.merge).toHaveBeenCalledWith(shortcutCallbacks);
   });
 
   it('it should call mergeShortcuts when callback props change', () => {
@@ -99,11 +201,6 @@ describe('<TraceTimelineViewer>', () => {
     const newCollapseAll = jest.fn();
     rerender(<TraceTimelineViewerImpl {...props} collapseAll={newCollapseAll} />);
 
-    expect(KeyboardShortcuts.merge).toHaveBeenCalledWith({
-      collapseAll: expect.any(Function),
-      expandAll: expect.any(Function),
-      collapseOne: expect.any(Function),
-      expandOne: expect.any(Function),
-    });
+    expect(KeyboardShortcuts.merge).toHaveBeenCalledWith(shortcutCallbacks);
   });
 });
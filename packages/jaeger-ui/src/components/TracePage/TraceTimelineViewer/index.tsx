@@ -28,6 +28,11 @@ import { criticalPathSection, Span, Trace } from '../../../types/trace';
 import './index.css';
 
 type TDispatchProps = {
+  detailToggle: (spanID: string) => void;
+  selectAdjacentSpan: (spans: Span[], direction: 1 | -1) => void;
+  selectedSpanChildrenToggle: (spans: Span[], direction: 1 | -1) => void;
+  setAbsoluteTime: (absoluteTime: boolean) => void;
+  setAggregateSiblings: (aggregateSiblings: boolean) => void;
   setSpanNameColumnWidth: (width: number) => void;
   collapseAll: (spans: Span[]) => void;
   collapseOne: (spans: Span[]) => void;
@@ -36,9 +41,14 @@ type TDispatchProps = {
 };
 
 type TProps = TDispatchProps & {
+  absoluteTime: boolean;
+  aggregateSiblings: boolean;
   registerAccessors: (accessors: Accessors) => void;
   findMatchesIDs: Set<string> | TNil;
   scrollToFirstVisibleSpan: () => void;
+  scrollToSpan: (spanID: string) => void;
+  scrollSpanIntoView: (spanID: string) => void;
+  selectedSpanID: string | TNil;
   spanNameColumnWidth: number;
   trace: Trace;
   criticalPath: criticalPathSection[];
@@ -48,6 +58,8 @@ type TProps = TDispatchProps & {
 };
 
 const NUM_TICKS = 5;
+// the smallest portion of the trace shown when zooming to a short span
+const MIN_ZOOM_RANGE = 0.01;
 
 /**
  * `TraceTimelineViewer` now renders the header row because it is sensitive to
@@ -73,29 +85,92 @@ export const TraceTimelineViewerImpl = (props: TProps) => {
     props.expandOne(props.trace.spans);
   }, [props.expandOne, props.trace.spans]);
 
+  const selectNextSpan = useCallback(() => {
+    props.selectAdjacentSpan(props.trace.spans, 1);
+  }, [props.selectAdjacentSpan, props.trace.spans]);
+
+  const selectPrevSpan = useCallback(() => {
+    props.selectAdjacentSpan(props.trace.spans, -1);
+  }, [props.selectAdjacentSpan, props.trace.spans]);
+
+  const collapseSelectedSpan = useCallback(() => {
+    props.selectedSpanChildrenToggle(props.trace.spans, -1);
+  }, [props.selectedSpanChildrenToggle, props.trace.spans]);
+
+  const expandSelectedSpan = useCallback(() => {
+    props.selectedSpanChildrenToggle(props.trace.spans, 1);
+  }, [props.selectedSpanChildrenToggle, props.trace.spans]);
+
+  const toggleSelectedSpanDetail = useCallback(() => {
+    if (props.selectedSpanID) props.detailToggle(props.selectedSpanID);
+  }, [props.detailToggle, props.selectedSpanID]);
+
+  const zoomToSelectedSpan = useCallback(() => {
+    const { selectedSpanID, trace } = props;
+    const span = selectedSpanID && trace.spans.find(s => s.spanID === selectedSpanID);
+    if (!span || !trace.duration) {
+      return;
+    }
+    const start = Math.min((span.startTime - trace.startTime) / trace.duration, 1 - MIN_ZOOM_RANGE);
+    const end = (span.startTime + span.duration - trace.startTime) / trace.duration;
+    props.updateViewRangeTime(start, Math.max(end, start + MIN_ZOOM_RANGE), 'kbd');
+  }, [props.updateViewRangeTime, props.selectedSpanID, props.trace]);
+
   useEffect(() => {
     mergeShortcuts({
       collapseAll,
       expandAll,
       collapseOne,
       expandOne,
+      selectNextSpan,
+      selectPrevSpan,
+      collapseSelectedSpan,
+      expandSelectedSpan,
+      toggleSelectedSpanDetail,
+      zoomToSelectedSpan,
     });
-  }, [collapseAll, expandAll, collapseOne, expandOne]);
-
-  const { setSpanNameColumnWidth, updateNextViewRangeTime, updateViewRangeTime, viewRange, ...rest } = props;
+  }, [
+    collapseAll,
+    expandAll,
+    collapseOne,
+    expandOne,
+    selectNextSpan,
+    selectPrevSpan,
+    collapseSelectedSpan,
+    expandSelectedSpan,
+    toggleSelectedSpanDetail,
+    zoomToSelectedSpan,
+  ]);
+
+  const {
+    absoluteTime,
+    aggregateSiblings,
+    setAbsoluteTime,
+    setAggregateSiblings,
+    setSpanNameColumnWidth,
+    updateNextViewRangeTime,
+    updateViewRangeTime,
+    viewRange,
+    ...rest
+  } = props;
   const { spanNameColumnWidth, trace } = rest;
 
   return (
     <div className="TraceTimelineViewer">
       <TimelineHeaderRow
+        absoluteTime={absoluteTime}
+        aggregateSiblings={aggregateSiblings}
         duration={trace.duration}
         nameColumnWidth={spanNameColumnWidth}
         numTicks={NUM_TICKS}
+        onAbsoluteTimeChange={setAbsoluteTime}
+        onAggregateSiblingsChange={setAggregateSiblings}
         onCollapseAll={collapseAll}
         onCollapseOne={collapseOne}
         onColummWidthChange={setSpanNameColumnWidth}
         onExpandAll={expandAll}
         onExpandOne={expandOne}
+        traceStartTime={trace.startTime}
         viewRangeTime={viewRange.time}
         updateNextViewRangeTime={updateNextViewRangeTime}
         updateViewRangeTime={updateViewRangeTime}
@@ -106,16 +181,35 @@ export const TraceTimelineViewerImpl = (props: TProps) => {
 };
 
 function mapStateToProps(state: ReduxState) {
-  const spanNameColumnWidth = state.traceTimeline.spanNameColumnWidth;
-  return { spanNameColumnWidth };
+  const { absoluteTime, aggregateSiblings, selectedSpanID, spanNameColumnWidth } = state.traceTimeline;
+  return { absoluteTime, aggregateSiblings, selectedSpanID, spanNameColumnWidth };
 }
 
 function mapDispatchToProps(dispatch: Dispatch<ReduxState>): TDispatchProps {
-  const { setSpanNameColumnWidth, expandAll, expandOne, collapseAll, collapseOne } = bindActionCreators(
-    actions,
-    dispatch
-  );
-  return { setSpanNameColumnWidth, expandAll, expandOne, collapseAll, collapseOne };
+  const {
+    detailToggle,
+    selectAdjacentSpan,
+    selectedSpanChildrenToggle,
+    setAbsoluteTime,
+    setAggregateSiblings,
+    setSpanNameColumnWidth,
+    expandAll,
+    expandOne,
+    collapseAll,
+    collapseOne,
+  } = bindActionCreators(actions, dispatch);
+  return {
+    detailToggle,
+    selectAdjacentSpan,
+    selectedSpanChildrenToggle,
+    setAbsoluteTime,
+    setAggregateSiblings,
+    setSpanNameColumnWidth,
+    expandAll,
+    expandOne,
+    collapseAll,
+    collapseOne,
+  };
 }
 
 export default connect(mapStateToProps, mapDispatchToProps)(TraceTimelineViewerImpl);
@@ -15,6 +15,7 @@
 import {
   findServerChildSpan,
   createViewedBoundsFunc,
+  getUninstrumentedPeerService,
   isClientSpan,
   isErrorSpan,
   isServerSpan,
@@ -154,4 +155,25 @@ describe('TraceTimelineViewer/utils', () => {
       expect(findServerChildSpan(spans)).toBeFalsy();
     });
   });
+
+  describe('getUninstrumentedPeerService()', () => {
+    const span = (kind, hasChildren = false) => ({
+      hasChildren,
+      tags: [
+        { key: 'span.kind', value: kind },
+        { key: 'peer.service', value: 'payments' },
+      ],
+    });
+
+    it('returns the peer service of leaf client and producer spans', () => {
+      expect(getUninstrumentedPeerService(span('client'))).toBe('payments');
+      expect(getUninstrumentedPeerService(span('producer'))).toBe('payments');
+    });
+
+    it('returns null for other spans', () => {
+      expect(getUninstrumentedPeerService(span('client', true))).toBe(null);
+      expect(getUninstrumentedPeerService(span('server'))).toBe(null);
+      expect(getUninstrumentedPeerService({ hasChildren: false, tags: [span('client').tags[0]] })).toBe(null);
+    });
+  });
 });
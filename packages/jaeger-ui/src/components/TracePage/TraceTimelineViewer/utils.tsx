@@ -12,6 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { PEER_SERVICE } from '../../../constants/tag-keys';
 import { Span } from '../../../types/trace';
 
 export type ViewedBoundsFunctionType = (start: number, end: number) => { start: number; end: number };
@@ -123,4 +124,16 @@ export const isKindClient = (span: Span): boolean =>
 export const isKindProducer = (span: Span): boolean =>
   span.tags.some(({ key, value }) => key === 'span.kind' && value === 'producer');
 
+/**
+ * Returns the `peer.service` of a leaf client or producer span, which likely
+ * does a request to an uninstrumented or external service, or `null`.
+ */
+export function getUninstrumentedPeerService(span: Span): string | null {
+  if (span.hasChildren || !(isKindClient(span) || isKindProducer(span))) {
+    return null;
+  }
+  const peerServiceKV = span.tags.find(kv => kv.key === PEER_SERVICE);
+  return peerServiceKV ? String(peerServiceKV.value) : null;
+}
+
 export { formatDuration } from '../../../utils/date';
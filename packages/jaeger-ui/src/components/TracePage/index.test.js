@@ -47,6 +47,10 @@ import * as calculateTraceDagEV from './TraceGraph/calculateTraceDagEV';
 import SpanGraph from './TracePageHeader/SpanGraph';
 import TracePageHeader from './TracePageHeader';
 import { trackSlimHeaderToggle } from './TracePageHeader/TracePageHeader.track';
+import TraceAnalyzer from './TraceAnalyzer';
+import TraceFlamegraph from './TraceFlamegraph/index';
+import TraceLogsView from './TraceLogsView';
+import TraceStatistics from './TraceStatistics/index';
 import TraceTimelineViewer from './TraceTimelineViewer';
 import ErrorMessage from '../common/ErrorMessage';
 import LoadingIndicator from '../common/LoadingIndicator';
@@ -56,7 +60,8 @@ import traceGenerator from '../../demo/trace-generators';
 import transformTraceData from '../../model/transform-trace-data';
 import filterSpansSpy from '../../utils/filter-spans';
 import updateUiFindSpy from '../../utils/update-ui-find';
-import { ETraceViewType } from './types';
+import { EColorBy, ETraceViewType } from './types';
+import memoizedTraceCriticalPath from './CriticalPath/index';
 
 describe('makeShortcutCallbacks()', () => {
   let adjRange;
@@ -85,15 +90,21 @@ describe('<TracePage>', () => {
   const trace = transformTraceData(traceGenerator.trace({}));
   const defaultProps = {
     acknowledgeArchive: () => {},
+    addAnnotation: jest.fn(),
+    annotations: [],
+    colorBy: { mode: EColorBy.Service },
+    deleteAnnotation: jest.fn(),
     fetchTrace() {},
     focusUiFindMatches: jest.fn(),
     id: trace.traceID,
+    loadAnnotations: jest.fn(),
     history: {
       replace: () => {},
     },
     location: {
       search: null,
     },
+    setTrace: jest.fn(),
     trace: { data: trace, state: fetchedState.DONE },
   };
   const notDefaultPropsId = `not ${defaultProps.id}`;
@@ -136,6 +147,208 @@ describe('<TracePage>', () => {
     });
   });
 
+  describe('critical path breakdown', () => {
+    it('shows a span of the critical path in the timeline', () => {
+      const { spanID } = trace.spans[1];
+      defaultProps.focusUiFindMatches.mockReset();
+      wrapper.setState({ viewType: ETraceViewType.TraceCriticalPath });
+      wrapper.instance().showSpanInTimeline(spanID);
+      expect(updateUiFindSpy).toHaveBeenCalledWith({
+        history: defaultProps.history,
+        location: defaultProps.location,
+        uiFind: spanID,
+      });
+      expect(defaultProps.focusUiFindMatches).toHaveBeenCalledWith(trace, spanID);
+      expect(wrapper.state('viewType')).toBe(ETraceViewType.TraceTimelineViewer);
+    });
+  });
+
+  describe('trace logs', () => {
+    it('shows the logs of the trace, and their spans in the timeline', () => {
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setState({ viewType: ETraceViewType.TraceLogs });
+      const logsView = wrapper.find(TraceLogsView);
+      expect(logsView.prop('trace')).toBe(trace);
+      logsView.prop('onSpanClick')(trace.spans[1].spanID);
+      expect(wrapper.state('viewType')).toBe(ETraceViewType.TraceTimelineViewer);
+    });
+  });
+
+  describe('trace anti-patterns', () => {
+    it('analyzes the trace, and shows the spans of the findings in the timeline', () => {
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setState({ viewType: ETraceViewType.TraceAnalyzer });
+      const analyzer = wrapper.find(TraceAnalyzer);
+      expect(analyzer.prop('trace')).toBe(trace);
+      analyzer.prop('onSpanClick')(trace.spans[1].spanID);
+      expect(wrapper.state('viewType')).toBe(ETraceViewType.TraceTimelineViewer);
+    });
+  });
+
+  describe('referenced traces shown inline', () => {
+    const linked = transformTraceData(traceGenerator.trace({ numberOfSpans: 3 }));
+    const linkedTraceAnchors = new Map([[linked.traceID, trace.spans[0].spanID]]);
+
+    it('fetches the referenced traces to show inline', () => {
+      const fetchTrace = jest.fn();
+      wrapper.setProps({ fetchTrace, linkedTraceAnchors, traces: {} });
+      expect(fetchTrace).toHaveBeenCalledWith(linked.traceID);
+      fetchTrace.mockClear();
+      wrapper.setProps({ traces: { [linked.traceID]: { id: linked.traceID, state: fetchedState.LOADING } } });
+      expect(fetchTrace).not.toHaveBeenCalled();
+    });
+
+    it('shows the fetched traces in the timeline', () => {
+      // use the method directly because it is a `ref` prop
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({
+        linkedTraceAnchors,
+        traces: { [linked.traceID]: { data: linked, id: linked.traceID, state: fetchedState.DONE } },
+      });
+      const timelineTrace = wrapper.find(TraceTimelineViewer).prop('trace');
+      expect(timelineTrace.spans.length).toBe(trace.spans.length + linked.spans.length);
+      expect(timelineTrace.spans.map(span => span.traceID)).toContain(linked.traceID);
+      expect(wrapper.find(TracePageHeader).prop('trace')).toBe(timelineTrace);
+    });
+  });
+
+  describe('clock skew', () => {
+    const { processID } = trace.spans[trace.spans.length - 1];
+    const skewed = { ...trace, clockSkewOffsets: { [processID]: 1000 } };
+    // the adjusted spans are sorted again, so the times are compared by span
+    const getStartTimes = spans => Object.fromEntries(spans.map(span => [span.spanID, span.startTime]));
+
+    it('shows the adjusted timing by default, and the raw timing when toggled', () => {
+      // use the method directly because it is a `ref` prop
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({ trace: { data: skewed, state: fetchedState.DONE } });
+      const adjustedTimes = getStartTimes(
+        trace.spans.map(span =>
+          span.processID === processID ? { ...span, startTime: span.startTime + 1000 } : span
+        )
+      );
+      expect(wrapper.find(TracePageHeader).prop('adjustClockSkew')).toBe(true);
+      expect(getStartTimes(wrapper.find(TraceTimelineViewer).prop('trace').spans)).toEqual(adjustedTimes);
+
+      wrapper.find(TracePageHeader).prop('onAdjustClockSkewChange')(false);
+      expect(wrapper.find(TracePageHeader).prop('adjustClockSkew')).toBe(false);
+      expect(wrapper.find(TraceTimelineViewer).prop('trace')).toBe(skewed);
+    });
+
+    it('exports the trace as received, with the raw timing', () => {
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({ trace: { data: skewed, state: fetchedState.DONE } });
+      expect(wrapper.find(TraceTimelineViewer).prop('trace')).not.toBe(skewed);
+      expect(wrapper.find(TracePageHeader).prop('exportedTrace')).toBe(skewed);
+    });
+
+    it('computes the critical path and the statistics with the same timing', () => {
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({ criticalPathEnabled: true, trace: { data: skewed, state: fetchedState.DONE } });
+      const timelineTrace = wrapper.find(TraceTimelineViewer).prop('trace');
+      expect(wrapper.find(TraceTimelineViewer).prop('criticalPath')).toEqual(
+        memoizedTraceCriticalPath(timelineTrace)
+      );
+      wrapper.setState({ viewType: ETraceViewType.TraceStatistics });
+      expect(wrapper.find(TraceStatistics).prop('trace')).toBe(timelineTrace);
+    });
+
+    it('shows the flamegraph and the trace graph with the same timing', () => {
+      const calculateTraceDagEVSpy = jest.spyOn(calculateTraceDagEV, 'default');
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({ trace: { data: skewed, state: fetchedState.DONE } });
+      const timelineTrace = wrapper.find(TraceTimelineViewer).prop('trace');
+      wrapper.setState({ viewType: ETraceViewType.TraceFlamegraph });
+      expect(wrapper.find(TraceFlamegraph).prop('trace').data).toBe(timelineTrace);
+
+      wrapper.find(TracePageHeader).prop('onTraceViewChange')(ETraceViewType.TraceGraph);
+      expect(calculateTraceDagEVSpy).toHaveBeenLastCalledWith(timelineTrace);
+      wrapper.find(TracePageHeader).prop('onAdjustClockSkewChange')(false);
+      expect(calculateTraceDagEVSpy).toHaveBeenLastCalledWith(skewed);
+      calculateTraceDagEVSpy.mockRestore();
+    });
+  });
+
+  describe('missing parents', () => {
+    it('shows placeholders for the missing parents by default, and the received structure when toggled', () => {
+      const raw = traceGenerator.trace({ numberOfSpans: 5 });
+      // without its root span
+      const orphaned = transformTraceData({
+        ...raw,
+        spans: raw.spans.filter(span => span.references.length),
+      });
+      wrapper.instance().setHeaderHeight({ clientHeight: 1 });
+      wrapper.setProps({ trace: { data: orphaned, state: fetchedState.DONE } });
+      expect(wrapper.find(TracePageHeader).prop('reconstructMissingParents')).toBe(true);
+      expect(
+        wrapper
+          .find(TraceTimelineViewer)
+          .prop('trace')
+          .spans.some(span => span.isPlaceholder)
+      ).toBe(true);
+
+      wrapper.find(TracePageHeader).prop('onReconstructMissingParentsChange')(false);
+      expect(wrapper.find(TracePageHeader).prop('reconstructMissingParents')).toBe(false);
+      const received = wrapper.find(TraceTimelineViewer).prop('trace');
+      expect(received.spans.length).toBe(orphaned.spans.length - orphaned.missingParentIDs.length);
+      expect(received.spans.some(span => span.isPlaceholder)).toBe(false);
+    });
+  });
+
+  describe('permalinks', () => {
+    it('restores the view type and range from the URL', () => {
+      const location = { search: '?range=0.25_0.5&view=TraceStatistics' };
+      wrapper = shallow(<TracePage {...defaultProps} location={location} />);
+      expect(wrapper.state('viewType')).toBe(ETraceViewType.TraceStatistics);
+      expect(wrapper.state('viewRange').time.current).toEqual([0.25, 0.5]);
+    });
+
+    it('restores the state of the timeline once the trace is loaded', () => {
+      const { spanID } = trace.spans[1];
+      const setTrace = jest.fn();
+      const location = { search: `?span=${spanID}` };
+      wrapper = shallow(<TracePage {...defaultProps} location={location} setTrace={setTrace} trace={null} />);
+      expect(setTrace).not.toHaveBeenCalled();
+      wrapper.setProps({ trace: defaultProps.trace, uiFind: 'ui-find' });
+      expect(setTrace).toHaveBeenCalledWith(trace, 'ui-find', { selectedSpanID: spanID });
+    });
+
+    it('calculates the graph of a restored graph view', () => {
+      const calculateTraceDagEVSpy = jest.spyOn(calculateTraceDagEV, 'default');
+      const location = { search: '?view=TraceGraph' };
+      calculateTraceDagEVSpy.mockClear();
+      wrapper = shallow(<TracePage {...defaultProps} location={location} />);
+      expect(calculateTraceDagEVSpy).toHaveBeenCalledWith(trace);
+      calculateTraceDagEVSpy.mockRestore();
+    });
+
+    it('keeps the view state in the URL once the timeline has the state of the trace', () => {
+      const history = { replace: jest.fn() };
+      const location = { pathname: '/trace/id', search: '?uiFind=a' };
+      wrapper = shallow(<TracePage {...defaultProps} history={history} location={location} />);
+      wrapper.setState({ viewType: ETraceViewType.TraceSpansView });
+      expect(history.replace).not.toHaveBeenCalled();
+
+      wrapper.setProps({ selectedSpanID: trace.spans[0].spanID, timelineTraceID: trace.traceID });
+      expect(history.replace).toHaveBeenCalledWith({
+        ...location,
+        search: `?span=${trace.spans[0].spanID}&uiFind=a&view=TraceSpansView`,
+      });
+
+      history.replace.mockClear();
+      wrapper.setProps({
+        location: { ...location, search: `?span=${trace.spans[0].spanID}&uiFind=a&view=TraceSpansView` },
+      });
+      expect(history.replace).not.toHaveBeenCalled();
+    });
+  });
+
+  it('follows async spans on the critical path when configured', () => {
+    memoizedTraceCriticalPath.mockClear();
+    wrapper.setProps({ criticalPathEnabled: true, criticalPathFollowsAsync: true });
+    expect(memoizedTraceCriticalPath).toHaveBeenCalledWith(trace, true);
+  });
+
   describe('viewing uiFind matches', () => {
     describe('focusUiFindMatches', () => {
       let trackFocusSpy;
@@ -562,6 +775,35 @@ describe('<TracePage>', () => {
     });
   });
 
+  describe('Annotations', () => {
+    it('loads the annotations of the trace', () => {
+      const loadAnnotations = jest.fn();
+      wrapper = shallow(<TracePage {...defaultProps} loadAnnotations={loadAnnotations} />);
+      expect(loadAnnotations).toHaveBeenCalledWith(defaultProps.id);
+      wrapper.setProps({ id: notDefaultPropsId });
+      expect(loadAnnotations).toHaveBeenLastCalledWith(notDefaultPropsId);
+    });
+
+    it('adds notes on the trace from TracePageHeader', () => {
+      const addAnnotation = jest.fn();
+      wrapper.setProps({ addAnnotation });
+      wrapper.find(TracePageHeader).prop('onAddAnnotation')('Ada', ' slow ');
+      expect(addAnnotation).toHaveBeenCalledWith(
+        expect.objectContaining({ author: 'Ada', text: 'slow', traceID: trace.traceID })
+      );
+      expect(addAnnotation.mock.calls[0][0].spanID).toBeUndefined();
+    });
+
+    it('passes the annotations and their deletion to TracePageHeader', () => {
+      const annotations = [{ id: 'note', traceID: trace.traceID, author: '', text: 'slow', createdAt: 1 }];
+      const deleteAnnotation = jest.fn();
+      wrapper.setProps({ annotations, deleteAnnotation });
+      const header = wrapper.find(TracePageHeader);
+      expect(header.prop('annotations')).toBe(annotations);
+      expect(header.prop('onDeleteAnnotation')).toBe(deleteAnnotation);
+    });
+  });
+
   describe('manages various UI state', () => {
     let header;
     let spanGraph;
@@ -718,9 +960,15 @@ describe('mapDispatchToProps()', () => {
   it('creates the actions correctly', () => {
     expect(mapDispatchToProps(() => {})).toEqual({
       acknowledgeArchive: expect.any(Function),
+      addAnnotation: expect.any(Function),
       archiveTrace: expect.any(Function),
+      deleteAnnotation: expect.any(Function),
       fetchTrace: expect.any(Function),
       focusUiFindMatches: expect.any(Function),
+      loadAnnotations: expect.any(Function),
+      setColorBy: expect.any(Function),
+      setSpanComparison: expect.any(Function),
+      setTrace: expect.any(Function),
     });
   });
 });
@@ -729,12 +977,14 @@ describe('mapStateToProps()', () => {
   const traceID = 'trace-id';
   const trace = {};
   const embedded = 'a-faux-embedded-config';
+  const colorBy = { mode: EColorBy.Operation };
   const ownProps = {
     params: { id: traceID },
   };
   let state;
   beforeEach(() => {
     state = {
+      annotations: {},
       embedded,
       trace: {
         traces: {
@@ -746,6 +996,9 @@ describe('mapStateToProps()', () => {
           search: '',
         },
       },
+      traceTimeline: {
+        colorBy,
+      },
       config: {
         archiveEnabled: false,
       },
@@ -755,15 +1008,24 @@ describe('mapStateToProps()', () => {
   it('maps state to props correctly', () => {
     const props = mapStateToProps(state, ownProps);
     expect(props).toEqual({
+      annotations: [],
       id: traceID,
       embedded,
       archiveEnabled: false,
       archiveTraceState: undefined,
+      colorBy,
       searchUrl: null,
       trace: { data: {}, state: fetchedState.DONE },
+      traces: state.trace.traces,
     });
   });
 
+  it('maps the annotations of the trace', () => {
+    const annotations = [{ id: 'note', traceID, author: '', text: 'slow', createdAt: 1 }];
+    state.annotations = { [traceID]: annotations };
+    expect(mapStateToProps(state, ownProps).annotations).toBe(annotations);
+  });
+
   it('handles falsy ownProps.match.params.id', () => {
     const props = mapStateToProps(state, {
       params: {
@@ -784,12 +1046,15 @@ describe('mapStateToProps()', () => {
     state.router.location.state = { fromSearch: fakeUrl };
     const props = mapStateToProps(state, ownProps);
     expect(props).toEqual({
+      annotations: [],
       id: traceID,
       embedded,
       archiveEnabled: false,
       archiveTraceState: undefined,
+      colorBy,
       searchUrl: fakeUrl,
       trace: { data: {}, state: fetchedState.DONE },
+      traces: state.trace.traces,
     });
   });
 
@@ -798,13 +1063,16 @@ describe('mapStateToProps()', () => {
     state.config.traceGraph = { layoutManagerMemory: fakeMemory };
     const props = mapStateToProps(state, ownProps);
     expect(props).toEqual({
+      annotations: [],
       id: traceID,
       embedded,
       archiveEnabled: false,
       archiveTraceState: undefined,
+      colorBy,
       searchUrl: null,
       uiFind: undefined,
       trace: { data: {}, state: fetchedState.DONE },
+      traces: state.trace.traces,
       traceGraphConfig: { layoutManagerMemory: fakeMemory },
     });
   });
@@ -19,6 +19,7 @@ import _clamp from 'lodash/clamp';
 import _get from 'lodash/get';
 import _mapValues from 'lodash/mapValues';
 import _memoize from 'lodash/memoize';
+import memoizeOne from 'memoize-one';
 import { connect } from 'react-redux';
 import { bindActionCreators, Dispatch } from 'redux';
 
@@ -33,6 +34,7 @@ import {
 } from './keyboard-shortcuts';
 import { cancel as cancelScroll, scrollBy, scrollTo } from './scroll-page';
 import ScrollManager from './ScrollManager';
+import SpanComparison from './SpanComparison';
 import calculateTraceDagEV from './TraceGraph/calculateTraceDagEV';
 import TraceGraph from './TraceGraph/TraceGraph';
 import { TEv } from './TraceGraph/types';
@@ -40,20 +42,45 @@ import { trackSlimHeaderToggle } from './TracePageHeader/TracePageHeader.track';
 import TracePageHeader from './TracePageHeader';
 import TraceTimelineViewer from './TraceTimelineViewer';
 import { actions as timelineActions } from './TraceTimelineViewer/duck';
-import { TUpdateViewRangeTimeFunction, IViewRange, ViewRangeTimeUpdate, ETraceViewType } from './types';
+import {
+  TColorBy,
+  TTimelineViewState,
+  TUpdateViewRangeTimeFunction,
+  IViewRange,
+  ViewRangeTimeUpdate,
+  ETraceViewType,
+} from './types';
 import { getLocation, getUrl } from './url';
+import {
+  decodeTimelineViewState,
+  decodeViewRange,
+  decodeViewType,
+  encodeViewState,
+  getSearchWithViewState,
+} from './url/view-state-codec';
 import ErrorMessage from '../common/ErrorMessage';
 import LoadingIndicator from '../common/LoadingIndicator';
+import TraceLoadingProgress from '../common/TraceLoadingProgress';
 import { extractUiFindFromState } from '../common/UiFindInput';
+import * as annotationsActions from '../../actions/annotations';
 import * as jaegerApiActions from '../../actions/jaeger-api';
 import { getUiFindVertexKeys } from '../TraceDiff/TraceDiffGraph/traceDiffGraphUtils';
 import { fetchedState } from '../../constants';
 import { FetchedTrace, LocationState, ReduxState, TNil } from '../../types';
-import { Trace } from '../../types/trace';
+import { createAnnotation } from '../../model/annotations';
+import spliceLinkedTraces, { TLinkedTrace } from '../../model/linked-traces';
+import { adjustClockSkew } from '../../model/clock-skew';
+import { removePlaceholders } from '../../model/missing-parents';
+import { Trace, TraceAnnotation } from '../../types/trace';
+import TTraceTimeline from '../../types/TTraceTimeline';
 import { TraceArchive } from '../../types/archive';
 import { EmbeddedState } from '../../types/embedded';
 import filterSpans from '../../utils/filter-spans';
 import updateUiFind from '../../utils/update-ui-find';
+import { getTraceJobKey } from '../../utils/trace-pipeline';
+import { getPrecomputedTraceDagEV } from '../../utils/trace-pipeline/precomputed';
+import TraceAnalyzer from './TraceAnalyzer';
+import TraceLogsView from './TraceLogsView';
 import TraceStatistics from './TraceStatistics/index';
 import TraceSpanView from './TraceSpanView/index';
 import TraceFlamegraph from './TraceFlamegraph/index';
@@ -61,13 +88,20 @@ import { StorageCapabilities, TraceGraphConfig } from '../../types/config';
 
 import './index.css';
 import memoizedTraceCriticalPath from './CriticalPath/index';
+import CriticalPathBreakdown from './CriticalPathBreakdown';
 import withRouteProps from '../../utils/withRouteProps';
 
 type TDispatchProps = {
   acknowledgeArchive: (id: string) => void;
+  addAnnotation: (annotation: TraceAnnotation) => void;
   archiveTrace: (id: string) => void;
+  deleteAnnotation: (annotation: TraceAnnotation) => void;
   fetchTrace: (id: string) => void;
   focusUiFindMatches: (trace: Trace, uiFind: string | TNil) => void;
+  loadAnnotations: (traceID: string) => void;
+  setColorBy: (colorBy: TColorBy) => void;
+  setSpanComparison: (spanComparison: TTraceTimeline['spanComparison']) => void;
+  setTrace: (trace: Trace, uiFind: string | TNil, viewState?: TTimelineViewState | TNil) => void;
 };
 
 type TOwnProps = {
@@ -77,15 +111,27 @@ type TOwnProps = {
 };
 
 type TReduxProps = {
+  annotations: TraceAnnotation[];
   archiveEnabled: boolean;
   storageCapabilities: StorageCapabilities | TNil;
   archiveTraceState: TraceArchive | TNil;
+  childrenHiddenIDs?: TTraceTimeline['childrenHiddenIDs'];
+  colorBy: TColorBy;
   criticalPathEnabled: boolean;
+  criticalPathFollowsAsync?: boolean;
+  detailStates?: TTraceTimeline['detailStates'];
   embedded: null | EmbeddedState;
   id: string;
+  linkedTraceAnchors?: TTraceTimeline['linkedTraceAnchors'];
   searchUrl: null | string;
+  selectedSpanID?: TTraceTimeline['selectedSpanID'];
+  spanComparison?: TTraceTimeline['spanComparison'];
   disableJsonView: boolean;
+  spanNameColumnWidth?: number;
+  // the trace the state of the timeline belongs to
+  timelineTraceID?: TTraceTimeline['traceID'];
   trace: FetchedTrace | TNil;
+  traces?: Record<string, FetchedTrace>;
   uiFind: string | TNil;
   traceGraphConfig?: TraceGraphConfig;
 };
@@ -93,17 +139,46 @@ type TReduxProps = {
 type TProps = TDispatchProps & TOwnProps & TReduxProps;
 
 type TState = {
+  // whether the times of the processes with a skewed clock are adjusted
+  adjustClockSkew: boolean;
   headerHeight: number | TNil;
+  // whether the parents missing from the trace are shown as placeholders
+  reconstructMissingParents: boolean;
   slimView: boolean;
   viewType: ETraceViewType;
   viewRange: IViewRange;
 };
 
+// the options of how the trace is shown, which all the views follow
+type TTraceOptions = Pick<TState, 'adjustClockSkew' | 'reconstructMissingParents'>;
+
 // export for tests
 export const VIEW_MIN_RANGE = 0.01;
 const VIEW_CHANGE_BASE = 0.005;
 const VIEW_CHANGE_FAST = 0.05;
 
+// the referenced traces shown inline that are fetched
+const getLinkedTraces = memoizeOne(
+  (
+    linkedTraceAnchors: TTraceTimeline['linkedTraceAnchors'] | undefined,
+    traces: Record<string, FetchedTrace> | undefined,
+    adjusted: boolean,
+    reconstructed: boolean
+  ) => {
+    const linkedTraces: TLinkedTrace[] = [];
+    if (linkedTraceAnchors) {
+      linkedTraceAnchors.forEach((anchorSpanID, traceID) => {
+        const linked = traces && traces[traceID];
+        if (linked && linked.data) {
+          const structured = reconstructed ? linked.data : removePlaceholders(linked.data);
+          linkedTraces.push({ anchorSpanID, trace: adjusted ? adjustClockSkew(structured) : structured });
+        }
+      });
+    }
+    return linkedTraces;
+  }
+);
+
 // export for tests
 export const shortcutConfig: { [name: string]: [number, number] } = {
   panLeft: [-VIEW_CHANGE_BASE, -VIEW_CHANGE_BASE],
@@ -116,6 +191,11 @@ export const shortcutConfig: { [name: string]: [number, number] } = {
   zoomOutFast: [-VIEW_CHANGE_FAST, VIEW_CHANGE_FAST],
 };
 
+// computed while the trace was loaded, see `processTraces`
+function getTraceDagEV(trace: Trace) {
+  return getPrecomputedTraceDagEV(trace) || calculateTraceDagEV(trace);
+}
+
 // export for tests
 export function makeShortcutCallbacks(adjRange: (start: number, end: number) => void): ShortcutCallbacks {
   function getHandler([startChange, endChange]: [number, number]): CombokeysHandler {
@@ -139,14 +219,16 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
 
   constructor(props: TProps) {
     super(props);
-    const { embedded, trace } = props;
+    const { embedded, location, trace } = props;
     this.state = {
+      adjustClockSkew: true,
       headerHeight: null,
+      reconstructMissingParents: true,
       slimView: Boolean(embedded && embedded.timeline.collapseTitle),
-      viewType: ETraceViewType.TraceTimelineViewer,
+      viewType: decodeViewType(location.search),
       viewRange: {
         time: {
-          current: [0, 1],
+          current: decodeViewRange(location.search),
         },
       },
     };
@@ -156,7 +238,7 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
       // Do not use the memo if the filter text or trace has changed.
       // trace.data.spans is populated after the initial render via mutation.
       textFilter =>
-        `${textFilter} ${_get(this.props.trace, 'traceID')} ${_get(this.props.trace, 'data.spans.length')}`
+        `${textFilter} ${_get(this.props.trace, 'traceID')} ${_get(this.getTraceData(), 'spans.length')}`
     );
     this._scrollManager = new ScrollManager(trace && trace.data, {
       scrollBy,
@@ -168,7 +250,9 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
 
   componentDidMount() {
     this.ensureTraceFetched();
-    this.updateViewRangeTime(0, 1);
+    this.props.loadAnnotations(this.props.id);
+    this.updateViewRangeTime(...decodeViewRange(this.props.location.search));
+    this.restoreViewState();
     /* istanbul ignore if */
     if (!this._scrollManager) {
       throw new Error('Invalid state - scrollManager is unset');
@@ -186,10 +270,14 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     mergeShortcuts(shortcutCallbacks);
   }
 
-  componentDidUpdate({ id: prevID }: TProps) {
-    const { id, trace } = this.props;
+  componentDidUpdate({ id: prevID, trace: prevTrace }: TProps) {
+    const { id, loadAnnotations, trace } = this.props;
 
-    this._scrollManager.setTrace(trace && trace.data);
+    if (prevID !== id) {
+      loadAnnotations(id);
+    }
+    this.fetchLinkedTraces();
+    this._scrollManager.setTrace(this.getTraceData());
 
     this.setHeaderHeight(this._headerElm);
     if (!trace) {
@@ -199,7 +287,10 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     if (prevID !== id) {
       this.updateViewRangeTime(0, 1);
       this.clearSearch();
+    } else if (prevTrace !== trace) {
+      this.restoreViewState();
     }
+    this.updateUrlViewState();
   }
 
   componentWillUnmount() {
@@ -277,9 +368,18 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     this.setState({ slimView: !slimView });
   };
 
+  setAdjustClockSkew = (adjust: boolean) => {
+    this.setTraceOptions({ adjustClockSkew: adjust });
+  };
+
+  setReconstructMissingParents = (reconstruct: boolean) => {
+    this.setTraceOptions({ reconstructMissingParents: reconstruct });
+  };
+
   setTraceView = (viewType: ETraceViewType) => {
-    if (this.props.trace && this.props.trace.data && viewType === ETraceViewType.TraceGraph) {
-      this.traceDagEV = calculateTraceDagEV(this.props.trace.data);
+    const ownData = this.getOwnData();
+    if (ownData && viewType === ETraceViewType.TraceGraph) {
+      this.traceDagEV = getTraceDagEV(ownData);
     }
     this.setState({ viewType });
   };
@@ -289,11 +389,64 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     archiveTrace(id);
   };
 
+  addTraceAnnotation = (author: string, text: string) => {
+    const { addAnnotation, trace } = this.props;
+    if (trace && trace.data) {
+      addAnnotation(createAnnotation({ author, text, traceID: trace.data.traceID }));
+    }
+  };
+
   acknowledgeArchive = () => {
     const { id, acknowledgeArchive } = this.props;
     acknowledgeArchive(id);
   };
 
+  // the trace, with the reconstructed or the received structure, and the adjusted or the raw timing
+  getOwnData(options: TTraceOptions = this.state) {
+    const { trace } = this.props;
+    if (!trace || !trace.data) {
+      return null;
+    }
+    const structured = options.reconstructMissingParents ? trace.data : removePlaceholders(trace.data);
+    return options.adjustClockSkew ? adjustClockSkew(structured) : structured;
+  }
+
+  // the trace graph is computed from the trace as shown, so it changes with the timing and the structure
+  setTraceOptions(options: Partial<TTraceOptions>) {
+    if (this.traceDagEV) {
+      const ownData = this.getOwnData({ ...this.state, ...options });
+      this.traceDagEV = ownData ? getTraceDagEV(ownData) : null;
+    }
+    this.setState(options as Pick<TState, keyof TTraceOptions>);
+  }
+
+  // the trace, with the traces referenced by its spans that are shown inline
+  getTraceData() {
+    const { linkedTraceAnchors, traces } = this.props;
+    const ownData = this.getOwnData();
+    if (!ownData) {
+      return null;
+    }
+    return spliceLinkedTraces(
+      ownData,
+      getLinkedTraces(
+        linkedTraceAnchors,
+        traces,
+        this.state.adjustClockSkew,
+        this.state.reconstructMissingParents
+      )
+    );
+  }
+
+  fetchLinkedTraces() {
+    const { fetchTrace, linkedTraceAnchors, traces } = this.props;
+    if (linkedTraceAnchors) {
+      linkedTraceAnchors.forEach((_spanID, traceID) => {
+        if (!traces || !traces[traceID]) fetchTrace(traceID);
+      });
+    }
+  }
+
   ensureTraceFetched() {
     const { fetchTrace, location, trace, id } = this.props;
     if (!trace) {
@@ -306,14 +459,69 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     }
   }
 
+  // restores the state of the timeline from the URL, so a shared link shows what the sender saw
+  restoreViewState() {
+    const { location, setTrace, trace, uiFind } = this.props;
+    if (!trace || !trace.data) {
+      return;
+    }
+    setTrace(trace.data, uiFind, decodeTimelineViewState(trace.data, location.search));
+    const ownData = this.getOwnData();
+    if (ownData && this.state.viewType === ETraceViewType.TraceGraph && !this.traceDagEV) {
+      this.traceDagEV = getTraceDagEV(ownData);
+    }
+  }
+
+  // keeps the state of the page in its URL, once the timeline has the state of this trace
+  updateUrlViewState() {
+    const {
+      childrenHiddenIDs,
+      detailStates,
+      history,
+      location,
+      selectedSpanID,
+      spanNameColumnWidth,
+      timelineTraceID,
+      trace,
+    } = this.props;
+    if (!trace || !trace.data || trace.data.traceID !== timelineTraceID) {
+      return;
+    }
+    const { viewRange, viewType } = this.state;
+    const params = encodeViewState(trace.data, {
+      childrenHiddenIDs,
+      detailStates,
+      selectedSpanID,
+      spanNameColumnWidth,
+      viewRange: viewRange.time.current,
+      viewType,
+    });
+    const search = getSearchWithViewState(location.search, params);
+    if (search !== (location.search || '').replace(/^\?/, '')) {
+      history.replace({ ...location, search: search && `?${search}` });
+    }
+  }
+
   focusUiFindMatches = () => {
-    const { trace, focusUiFindMatches, uiFind } = this.props;
-    if (trace && trace.data) {
+    const { focusUiFindMatches, uiFind } = this.props;
+    const data = this.getTraceData();
+    if (data) {
       trackFocusMatches();
-      focusUiFindMatches(trace.data, uiFind);
+      focusUiFindMatches(data, uiFind);
     }
   };
 
+  // shows the span in the timeline, as a search for its ID
+  showSpanInTimeline = (spanID: string) => {
+    const { focusUiFindMatches, history, location } = this.props;
+    const data = this.getTraceData();
+    updateUiFind({ history, location, uiFind: spanID });
+    if (data) {
+      focusUiFindMatches(data, spanID);
+    }
+    this.setState({ viewType: ETraceViewType.TraceTimelineViewer });
+  };
+
   nextResult = () => {
     trackNextMatch();
     this._scrollManager.scrollToNextVisibleSpan();
@@ -326,24 +534,46 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
 
   render() {
     const {
+      annotations,
       archiveEnabled,
       storageCapabilities,
       archiveTraceState,
+      colorBy,
       criticalPathEnabled,
+      criticalPathFollowsAsync,
+      deleteAnnotation,
       embedded,
       id,
       uiFind,
       trace,
       disableJsonView,
+      setColorBy,
+      setSpanComparison,
+      spanComparison,
       traceGraphConfig,
+      traces,
       location: { state: locationState },
     } = this.props;
-    const { slimView, viewType, headerHeight, viewRange } = this.state;
+    const {
+      adjustClockSkew: isClockSkewAdjusted,
+      reconstructMissingParents,
+      slimView,
+      viewType,
+      headerHeight,
+      viewRange,
+    } = this.state;
     if (!trace || trace.state === fetchedState.LOADING) {
-      return <LoadingIndicator className="u-mt-vast" centered />;
+      return (
+        <div className="u-mt-vast">
+          <LoadingIndicator centered />
+          <TraceLoadingProgress jobKeyPrefix={getTraceJobKey(id)} />
+        </div>
+      );
     }
-    const { data } = trace;
-    if (trace.state === fetchedState.ERROR || !data) {
+    // the trace, without the traces shown inline
+    const ownData = this.getOwnData();
+    const data = this.getTraceData();
+    if (trace.state === fetchedState.ERROR || !trace.data || !ownData || !data) {
       return <ErrorMessage className="ub-m3" error={trace.error || 'Unknown error'} />;
     }
 
@@ -355,7 +585,7 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
         graphFindMatches = getUiFindVertexKeys(uiFind, _get(this.traceDagEV, 'vertices', []));
         findCount = graphFindMatches ? graphFindMatches.size : 0;
       } else {
-        spanFindMatches = this._filterSpans(uiFind, _get(trace, 'data.spans'));
+        spanFindMatches = this._filterSpans(uiFind, data.spans);
         findCount = spanFindMatches ? spanFindMatches.size : 0;
       }
     }
@@ -363,6 +593,10 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     const isEmbedded = Boolean(embedded);
     const hasArchiveStorage = Boolean(storageCapabilities?.archiveStorage);
     const headerProps = {
+      adjustClockSkew: isClockSkewAdjusted,
+      annotations,
+      colorBy,
+      exportedTrace: trace.data,
       focusUiFindMatches: this.focusUiFindMatches,
       slimView,
       textFilter: uiFind,
@@ -376,10 +610,16 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
       hideSummary: Boolean(embedded && embedded.timeline.hideSummary),
       linkToStandalone: getUrl(id),
       nextResult: this.nextResult,
+      onAddAnnotation: this.addTraceAnnotation,
+      onAdjustClockSkewChange: this.setAdjustClockSkew,
       onArchiveClicked: this.archiveTrace,
+      onColorByChange: setColorBy,
+      onDeleteAnnotation: deleteAnnotation,
+      onReconstructMissingParentsChange: this.setReconstructMissingParents,
       onSlimViewClicked: this.toggleSlimView,
       onTraceViewChange: this.setTraceView,
       prevResult: this.prevResult,
+      reconstructMissingParents,
       ref: this._searchBar,
       resultCount: findCount,
       disableJsonView,
@@ -394,12 +634,16 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     };
 
     let view;
-    const criticalPath = criticalPathEnabled ? memoizedTraceCriticalPath(data) : [];
+    const criticalPath = criticalPathEnabled
+      ? memoizedTraceCriticalPath(ownData, criticalPathFollowsAsync)
+      : [];
     if (ETraceViewType.TraceTimelineViewer === viewType && headerHeight) {
       view = (
         <TraceTimelineViewer
           registerAccessors={this._scrollManager.setAccessors}
           scrollToFirstVisibleSpan={this._scrollManager.scrollToFirstVisibleSpan}
+          scrollToSpan={this._scrollManager.scrollToSpan}
+          scrollSpanIntoView={this._scrollManager.scrollSpanIntoView}
           findMatchesIDs={spanFindMatches}
           trace={data}
           criticalPath={criticalPath}
@@ -408,6 +652,14 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
           viewRange={viewRange}
         />
       );
+      if (spanComparison && traces) {
+        view = (
+          <>
+            {view}
+            <SpanComparison onChange={setSpanComparison} spanComparison={spanComparison} traces={traces} />
+          </>
+        );
+      }
     } else if (ETraceViewType.TraceGraph === viewType && headerHeight) {
       view = (
         <TraceGraph
@@ -423,7 +675,19 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
     } else if (ETraceViewType.TraceSpansView === viewType && headerHeight) {
       view = <TraceSpanView trace={data} uiFindVertexKeys={spanFindMatches} uiFind={uiFind} />;
     } else if (ETraceViewType.TraceFlamegraph === viewType && headerHeight) {
-      view = <TraceFlamegraph trace={trace} />;
+      view = <TraceFlamegraph trace={{ ...trace, data: ownData }} />;
+    } else if (ETraceViewType.TraceCriticalPath === viewType && headerHeight) {
+      view = (
+        <CriticalPathBreakdown
+          criticalPath={memoizedTraceCriticalPath(ownData, criticalPathFollowsAsync)}
+          onSpanClick={this.showSpanInTimeline}
+          trace={ownData}
+        />
+      );
+    } else if (ETraceViewType.TraceLogs === viewType && headerHeight) {
+      view = <TraceLogsView onSpanClick={this.showSpanInTimeline} trace={data} />;
+    } else if (ETraceViewType.TraceAnalyzer === viewType && headerHeight) {
+      view = <TraceAnalyzer onSpanClick={this.showSpanInTimeline} trace={ownData} />;
     }
 
     return (
@@ -440,6 +704,8 @@ export class TracePageImpl extends React.PureComponent<TProps, TState> {
   }
 }
 
+const NO_ANNOTATIONS: TraceAnnotation[] = [];
+
 // export for tests
 export function mapStateToProps(state: ReduxState, ownProps: TOwnProps): TReduxProps {
   const { id } = ownProps.params;
@@ -449,23 +715,35 @@ export function mapStateToProps(state: ReduxState, ownProps: TOwnProps): TReduxP
   const archiveTraceState = id ? archive[id] : null;
   const archiveEnabled = Boolean(config.archiveEnabled);
   const storageCapabilities = config.storageCapabilities;
-  const { disableJsonView, criticalPathEnabled } = config;
+  const { disableJsonView, criticalPathEnabled, criticalPathFollowsAsync } = config;
   const { state: locationState } = router.location;
+  const { childrenHiddenIDs, detailStates, selectedSpanID, spanNameColumnWidth } = state.traceTimeline;
   const searchUrl = (locationState && locationState.fromSearch) || null;
   const { traceGraph: traceGraphConfig } = config;
 
   return {
     ...extractUiFindFromState(state),
+    annotations: (id && state.annotations[id]) || NO_ANNOTATIONS,
     archiveEnabled,
     storageCapabilities,
     archiveTraceState,
+    childrenHiddenIDs,
+    colorBy: state.traceTimeline.colorBy,
     criticalPathEnabled,
+    criticalPathFollowsAsync,
+    detailStates,
     embedded,
     id,
+    linkedTraceAnchors: state.traceTimeline.linkedTraceAnchors,
     searchUrl,
+    selectedSpanID,
+    spanComparison: state.traceTimeline.spanComparison,
     disableJsonView,
+    spanNameColumnWidth,
+    timelineTraceID: state.traceTimeline.traceID,
     trace,
     traceGraphConfig,
+    traces,
   };
 }
 
@@ -473,8 +751,26 @@ export function mapStateToProps(state: ReduxState, ownProps: TOwnProps): TReduxP
 export function mapDispatchToProps(dispatch: Dispatch<ReduxState>): TDispatchProps {
   const { fetchTrace } = bindActionCreators(jaegerApiActions, dispatch);
   const { archiveTrace, acknowledge: acknowledgeArchive } = bindActionCreators(archiveActions, dispatch);
-  const { focusUiFindMatches } = bindActionCreators(timelineActions, dispatch);
-  return { acknowledgeArchive, archiveTrace, fetchTrace, focusUiFindMatches };
+  const { focusUiFindMatches, setColorBy, setSpanComparison, setTrace } = bindActionCreators(
+    timelineActions,
+    dispatch
+  );
+  const { addAnnotation, deleteAnnotation, loadAnnotations } = bindActionCreators(
+    annotationsActions,
+    dispatch
+  );
+  return {
+    acknowledgeArchive,
+    addAnnotation,
+    archiveTrace,
+    deleteAnnotation,
+    fetchTrace,
+    focusUiFindMatches,
+    loadAnnotations,
+    setColorBy,
+    setSpanComparison,
+    setTrace,
+  };
 }
 
 export default withRouteProps(connect(mapStateToProps, mapDispatchToProps)(TracePageImpl));
@@ -12,11 +12,19 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-const keyboardMappings: Record<string, { binding: string | string[]; label: string }> = {
+export type TKeyboardMapping = { binding: string | string[]; label: string };
+
+const keyboardMappings: Record<string, TKeyboardMapping> = {
   scrollPageDown: { binding: 's', label: 'Scroll down' },
   scrollPageUp: { binding: 'w', label: 'Scroll up' },
   scrollToNextVisibleSpan: { binding: 'f', label: 'Scroll to the next visible span' },
   scrollToPrevVisibleSpan: { binding: 'b', label: 'Scroll to the previous visible span' },
+  selectNextSpan: { binding: 'j', label: 'Select the next span' },
+  selectPrevSpan: { binding: 'k', label: 'Select the previous span' },
+  collapseSelectedSpan: { binding: 'h', label: 'Collapse the selected span' },
+  expandSelectedSpan: { binding: 'l', label: 'Expand the selected span' },
+  toggleSelectedSpanDetail: { binding: 'enter', label: 'Toggle the details of the selected span' },
+  zoomToSelectedSpan: { binding: 'z', label: 'Zoom to the selected span' },
   panLeft: { binding: ['a', 'left'], label: 'Pan left' },
   panLeftFast: { binding: ['shift+a', 'shift+left'], label: 'Pan left — Large' },
   panRight: { binding: ['d', 'right'], label: 'Pan right' },
@@ -33,4 +41,52 @@ const keyboardMappings: Record<string, { binding: string | string[]; label: stri
   clearSearch: { binding: 'escape', label: 'Clear Search' },
 };
 
+// exported for tests
+export const KEYBOARD_MAPPINGS_STORAGE_KEY = 'keyboardMappings';
+
+function getStoredBindings(): Record<string, string[]> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYBOARD_MAPPINGS_STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return stored;
+    }
+  } catch (_) {
+    // ignore a malformed value, it is overwritten on the next change
+  }
+  return {};
+}
+
+/**
+ * Returns the keyboard mappings with the bindings changed by the user in place
+ * of the defaults.
+ */
+export function getKeyboardMappings(): Record<string, TKeyboardMapping> {
+  const stored = getStoredBindings();
+  const mappings: Record<string, TKeyboardMapping> = {};
+  Object.keys(keyboardMappings).forEach(name => {
+    const binding = stored[name];
+    const isValid = Array.isArray(binding) && binding.length && binding.every(b => typeof b === 'string');
+    mappings[name] = isValid ? { ...keyboardMappings[name], binding } : keyboardMappings[name];
+  });
+  return mappings;
+}
+
+/**
+ * Persists the binding of a keyboard shortcut, or restores its default when
+ * the binding is `null`.
+ */
+export function setKeyboardBinding(name: string, binding: string[] | null) {
+  const stored = getStoredBindings();
+  if (binding) {
+    stored[name] = binding;
+  } else {
+    delete stored[name];
+  }
+  localStorage.setItem(KEYBOARD_MAPPINGS_STORAGE_KEY, JSON.stringify(stored));
+}
+
+export function resetKeyboardBindings() {
+  localStorage.removeItem(KEYBOARD_MAPPINGS_STORAGE_KEY);
+}
+
 export default keyboardMappings;
@@ -0,0 +1,93 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Combokeys from 'combokeys';
+
+import { merge, remap, reset, restoreDefaults } from './keyboard-shortcuts';
+import { KEYBOARD_MAPPINGS_STORAGE_KEY } from './keyboard-mappings';
+
+jest.mock('combokeys');
+
+describe('keyboard-shortcuts', () => {
+  const selectNextSpan = () => {};
+  const zoomIn = () => {};
+  let combokeys;
+
+  beforeEach(() => {
+    reset();
+    [combokeys] = Combokeys.mock.instances;
+    combokeys.bind.mockClear();
+    combokeys.reset.mockClear();
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(KEYBOARD_MAPPINGS_STORAGE_KEY);
+  });
+
+  it('binds the handlers to the default keys', () => {
+    merge({ selectNextSpan, zoomIn });
+    expect(combokeys.bind.mock.calls).toEqual([
+      ['j', selectNextSpan],
+      ['up', zoomIn],
+    ]);
+  });
+
+  it('binds the handlers to the keys changed by the user', () => {
+    remap('selectNextSpan', ['n', 'shift+n']);
+    merge({ selectNextSpan });
+    expect(combokeys.bind).toHaveBeenLastCalledWith(['n', 'shift+n'], selectNextSpan);
+  });
+
+  it('binds the merged handlers again when a binding is changed', () => {
+    merge({ selectNextSpan, zoomIn });
+    combokeys.bind.mockClear();
+    remap('zoomIn', ['i']);
+    expect(combokeys.reset).toHaveBeenCalledTimes(1);
+    expect(combokeys.bind.mock.calls).toEqual([
+      ['j', selectNextSpan],
+      [['i'], zoomIn],
+    ]);
+
+    combokeys.bind.mockClear();
+    restoreDefaults();
+    expect(combokeys.bind).toHaveBeenLastCalledWith('up', zoomIn);
+    expect(localStorage.getItem(KEYBOARD_MAPPINGS_STORAGE_KEY)).toBe(null);
+  });
+
+  it('forgets the handlers when reset', () => {
+    merge({ selectNextSpan });
+    reset();
+    combokeys.bind.mockClear();
+    remap('selectNextSpan', ['n']);
+    expect(combokeys.bind).not.toHaveBeenCalled();
+  });
+
+  it('restores the default keys of a shortcut', () => {
+    remap('selectNextSpan', ['n']);
+    remap('selectNextSpan', null);
+    merge({ selectNextSpan });
+    expect(combokeys.bind).toHaveBeenLastCalledWith('j', selectNextSpan);
+  });
+
+  it('ignores malformed stored bindings', () => {
+    localStorage.setItem(KEYBOARD_MAPPINGS_STORAGE_KEY, '{');
+    merge({ selectNextSpan });
+    localStorage.setItem(KEYBOARD_MAPPINGS_STORAGE_KEY, JSON.stringify({ zoomIn: [1] }));
+    merge({ zoomIn });
+    expect(combokeys.bind.mock.calls).toEqual([
+      ['j', selectNextSpan],
+      ['up', zoomIn],
+    ]);
+  });
+});
@@ -15,7 +15,7 @@
 import * as React from 'react';
 import Combokeys from 'combokeys';
 
-import keyboardMappings from './keyboard-mappings';
+import { getKeyboardMappings, resetKeyboardBindings, setKeyboardBinding } from './keyboard-mappings';
 
 export type CombokeysHandler =
   | (() => void)
@@ -27,6 +27,8 @@ export type ShortcutCallbacks = {
 };
 
 let instance: Combokeys | undefined;
+// the handlers are kept so they can be bound again when a binding is changed
+let handlers: ShortcutCallbacks = {};
 
 function getInstance(): Combokeys {
   if (instance) {
@@ -37,17 +39,43 @@ function getInstance(): Combokeys {
   return local;
 }
 
-export function merge(callbacks: ShortcutCallbacks) {
+function bind(callbacks: ShortcutCallbacks) {
   const inst = getInstance();
+  const mappings = getKeyboardMappings();
   Object.keys(callbacks).forEach(name => {
     const keysHandler = callbacks[name];
     if (keysHandler) {
-      inst.bind(keyboardMappings[name].binding, keysHandler);
+      inst.bind(mappings[name].binding, keysHandler);
     }
   });
 }
 
+export function merge(callbacks: ShortcutCallbacks) {
+  handlers = { ...handlers, ...callbacks };
+  bind(callbacks);
+}
+
 export function reset() {
+  handlers = {};
   const combokeys = getInstance();
   combokeys.reset();
 }
+
+function rebind() {
+  getInstance().reset();
+  bind(handlers);
+}
+
+/**
+ * Changes the keys of a shortcut, or restores its default keys when the
+ * binding is `null`, and applies the change to the bound handlers.
+ */
+export function remap(name: string, binding: string[] | null) {
+  setKeyboardBinding(name, binding);
+  rebind();
+}
+
+export function restoreDefaults() {
+  resetKeyboardBindings();
+  rebind();
+}
@@ -0,0 +1,119 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getHeatColor, getSpanColors, ERROR_COLOR, HEAT_COLORS, NO_VALUE_COLOR } from './span-colors';
+import { EColorBy } from './types';
+import transformTraceData from '../../model/transform-trace-data';
+import colorGenerator from '../../utils/color-generator';
+
+describe('span-colors', () => {
+  const trace = transformTraceData({
+    traceID: 'trace-id',
+    spans: [
+      {
+        spanID: 'root',
+        operationName: 'GET /',
+        startTime: 1000,
+        duration: 1000,
+        references: [],
+        tags: [{ key: 'http.status_code', value: 200 }],
+        processID: 'p1',
+      },
+      {
+        spanID: 'query',
+        operationName: 'SELECT',
+        startTime: 1100,
+        duration: 10,
+        references: [{ refType: 'CHILD_OF', spanID: 'root' }],
+        tags: [
+          { key: 'db.system', value: 'mysql' },
+          { key: 'error', value: true },
+        ],
+        processID: 'p2',
+      },
+      {
+        spanID: 'other-query',
+        operationName: 'SELECT',
+        startTime: 1200,
+        duration: 100,
+        references: [{ refType: 'CHILD_OF', spanID: 'root' }],
+        tags: [{ key: 'db.system', value: 'mysql' }],
+        processID: 'p2',
+      },
+    ],
+    processes: {
+      p1: { serviceName: 'frontend' },
+      p2: { serviceName: 'db' },
+    },
+  });
+
+  it('colors by service like the other views', () => {
+    const { colors, legend, isScale } = getSpanColors(trace, { mode: EColorBy.Service });
+    expect(colors.get('root')).toBe(colorGenerator.getColorByKey('frontend'));
+    expect(colors.get('query')).toBe(colorGenerator.getColorByKey('db'));
+    expect(legend.map(({ label }) => label).sort()).toEqual(['db', 'frontend']);
+    expect(isScale).toBe(false);
+  });
+
+  it('colors by operation', () => {
+    const { colors, legend } = getSpanColors(trace, { mode: EColorBy.Operation });
+    expect(colors.get('query')).toBe(colors.get('other-query'));
+    expect(colors.get('query')).not.toBe(colors.get('root'));
+    expect(legend.map(({ label }) => label)).toEqual(['frontend: GET /', 'db: SELECT']);
+  });
+
+  it('colors by the value of a tag', () => {
+    const { colors, legend } = getSpanColors(trace, { mode: EColorBy.Tag, tagKey: 'db.system' });
+    expect(colors.get('root')).toBe(NO_VALUE_COLOR);
+    expect(colors.get('query')).toBe(colors.get('other-query'));
+    expect(legend).toEqual([
+      { color: colors.get('query'), label: 'mysql' },
+      { color: NO_VALUE_COLOR, label: 'No db.system' },
+    ]);
+  });
+
+  it('colors every span as without value when no tag is chosen', () => {
+    const { colors } = getSpanColors(trace, { mode: EColorBy.Tag });
+    expect(new Set(colors.values())).toEqual(new Set([NO_VALUE_COLOR]));
+  });
+
+  it('colors by error', () => {
+    const { colors } = getSpanColors(trace, { mode: EColorBy.Error });
+    expect(colors.get('query')).toBe(ERROR_COLOR);
+    expect(colors.get('other-query')).toBe(NO_VALUE_COLOR);
+  });
+
+  it('colors by duration on a heat scale', () => {
+    const { colors, legend, isScale } = getSpanColors(trace, { mode: EColorBy.Duration });
+    expect(colors.get('query')).toBe(HEAT_COLORS[0]);
+    expect(colors.get('root')).toBe(HEAT_COLORS[2]);
+    expect(legend.map(({ label }) => label)).toEqual(['10μs', '1ms']);
+    expect(isScale).toBe(true);
+  });
+
+  it('colors by self time on a heat scale', () => {
+    const { colors, legend } = getSpanColors(trace, { mode: EColorBy.SelfTime });
+    // the root spends 890μs on its own, more than its children
+    expect(colors.get('root')).toBe(HEAT_COLORS[2]);
+    expect(legend.map(({ label }) => label)).toEqual(['10μs', '890μs']);
+  });
+
+  it('interpolates the heat colors', () => {
+    expect(getHeatColor(0)).toBe(HEAT_COLORS[0]);
+    expect(getHeatColor(0.5)).toBe(HEAT_COLORS[1]);
+    expect(getHeatColor(1)).toBe(HEAT_COLORS[2]);
+    expect(getHeatColor(2)).toBe(HEAT_COLORS[2]);
+    expect(getHeatColor(0.25)).toBe('#fcc974');
+  });
+});
@@ -0,0 +1,165 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { isErrorSpan } from './TraceTimelineViewer/utils';
+import { EColorBy, TColorBy } from './types';
+import getTraceSelfTimes from '../../model/self-time';
+import { Span, Trace } from '../../types/trace';
+import colorGenerator, { ColorGenerator, strToRgb } from '../../utils/color-generator';
+import { formatDuration } from '../../utils/date';
+
+export type TColorLegendItem = {
+  color: string;
+  label: string;
+};
+
+export type TSpanColors = {
+  // the hex color of each span, by span ID
+  colors: Map<string, string>;
+  // the colors of the categories, or the two ends of the scale
+  legend: TColorLegendItem[];
+  isScale: boolean;
+};
+
+export const DEFAULT_COLOR_BY: TColorBy = { mode: EColorBy.Service };
+
+export const COLOR_BY_OPTIONS = [
+  { label: 'Service', value: EColorBy.Service },
+  { label: 'Operation', value: EColorBy.Operation },
+  { label: 'Tag', value: EColorBy.Tag },
+  { label: 'Error', value: EColorBy.Error },
+  { label: 'Duration', value: EColorBy.Duration },
+  { label: 'Self time', value: EColorBy.SelfTime },
+];
+
+// exported for tests
+export const NO_VALUE_COLOR = '#c9c9c9';
+export const ERROR_COLOR = '#db2828';
+export const HEAT_COLORS = ['#fff1a8', '#f9a03f', '#c4161c'];
+
+function toHex(rgb: number[]) {
+  return `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// exported for tests
+export function getHeatColor(ratio: number) {
+  const position = Math.min(Math.max(ratio, 0), 1) * (HEAT_COLORS.length - 1);
+  const i = Math.min(Math.floor(position), HEAT_COLORS.length - 2);
+  const from = strToRgb(HEAT_COLORS[i]);
+  const to = strToRgb(HEAT_COLORS[i + 1]);
+  const weight = position - i;
+  return toHex(from.map((value, j) => value + (to[j] - value) * weight));
+}
+
+function getCategoryColors(spans: Span[], getCategory: (span: Span) => string | null, noValueLabel = 'None') {
+  // categories get the same colors for the same trace, whatever was colored before
+  const generator = new ColorGenerator();
+  const colors = new Map<string, string>();
+  const legend = new Map<string, string>();
+  let hasNoValue = false;
+  spans.forEach(span => {
+    const category = getCategory(span);
+    if (category == null) {
+      hasNoValue = true;
+      colors.set(span.spanID, NO_VALUE_COLOR);
+      return;
+    }
+    const color = generator.getColorByKey(category);
+    colors.set(span.spanID, color);
+    legend.set(category, color);
+  });
+  const items = Array.from(legend, ([label, color]) => ({ color, label }));
+  if (hasNoValue) items.push({ color: NO_VALUE_COLOR, label: noValueLabel });
+  return { colors, legend: items, isScale: false };
+}
+
+/**
+ * Durations span orders of magnitude, so the heat scale is logarithmic.
+ */
+function getScaleColors(spans: Span[], getValue: (span: Span) => number) {
+  const values = new Map(spans.map(span => [span.spanID, getValue(span)]));
+  const all = Array.from(values.values());
+  const min = all.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = all.reduce((a, b) => Math.max(a, b), -Infinity);
+  const range = Math.log1p(max) - Math.log1p(min);
+  const colors = new Map<string, string>();
+  values.forEach((value, spanID) => {
+    colors.set(spanID, getHeatColor(range ? (Math.log1p(value) - Math.log1p(min)) / range : 0));
+  });
+  return {
+    colors,
+    legend: [
+      { color: HEAT_COLORS[0], label: formatDuration(min) },
+      { color: HEAT_COLORS[HEAT_COLORS.length - 1], label: formatDuration(max) },
+    ],
+    isScale: true,
+  };
+}
+
+function getTagValue(span: Span, tagKey: string | undefined) {
+  const tag = tagKey ? span.tags.find(({ key }) => key === tagKey) : undefined;
+  return tag ? String(tag.value) : null;
+}
+
+/**
+ * Colors the spans of a trace by service, operation, a tag, the error state,
+ * or on a heat scale of their duration or self time.
+ */
+export function getSpanColors(trace: Trace, colorBy: TColorBy): TSpanColors {
+  const { spans } = trace;
+  switch (colorBy.mode) {
+    case EColorBy.Operation:
+      return getCategoryColors(spans, span => `${span.process.serviceName}: ${span.operationName}`);
+    case EColorBy.Tag:
+      return getCategoryColors(
+        spans,
+        span => getTagValue(span, colorBy.tagKey),
+        `No ${colorBy.tagKey || 'tag'}`
+      );
+    case EColorBy.Error: {
+      const colors = new Map(
+        spans.map(span => [span.spanID, isErrorSpan(span) ? ERROR_COLOR : NO_VALUE_COLOR])
+      );
+      return {
+        colors,
+        legend: [
+          { color: ERROR_COLOR, label: 'Error' },
+          { color: NO_VALUE_COLOR, label: 'No error' },
+        ],
+        isScale: false,
+      };
+    }
+    case EColorBy.Duration:
+      return getScaleColors(spans, span => span.duration);
+    case EColorBy.SelfTime: {
+      const selfTimes = getTraceSelfTimes(trace);
+      return getScaleColors(spans, span => selfTimes.get(span.spanID) || 0);
+    }
+    default: {
+      // the same colors as in the other views
+      const colors = new Map(
+        spans.map(span => [span.spanID, colorGenerator.getColorByKey(span.process.serviceName)])
+      );
+      const legend = trace.services.map(({ name }) => ({
+        color: colorGenerator.getColorByKey(name),
+        label: name,
+      }));
+      return { colors, legend, isScale: false };
+    }
+  }
+}
+
+export default memoizeOne(getSpanColors);
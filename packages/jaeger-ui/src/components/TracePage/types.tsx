@@ -12,6 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import DetailState from './TraceTimelineViewer/SpanDetail/DetailState';
 import { TNil } from '../../types';
 
 interface ITimeCursorUpdate {
@@ -62,4 +63,42 @@ export enum ETraceViewType {
   TraceStatistics = 'TraceStatistics',
   TraceSpansView = 'TraceSpansView',
   TraceFlamegraph = 'TraceFlamegraph',
+  TraceCriticalPath = 'TraceCriticalPath',
+  TraceLogs = 'TraceLogs',
+  TraceAnalyzer = 'TraceAnalyzer',
 }
+
+export enum EColorBy {
+  Service = 'service',
+  Operation = 'operation',
+  Tag = 'tag',
+  Error = 'error',
+  Duration = 'duration',
+  SelfTime = 'selfTime',
+}
+
+export enum ELogsGroupBy {
+  None = 'none',
+  Span = 'span',
+  Service = 'service',
+}
+
+export type TColorBy = {
+  mode: EColorBy;
+  // the key of the tag the spans are colored by, in the tag mode
+  tagKey?: string;
+};
+
+// the state of the timeline that is restored from a permalink, if present
+export type TTimelineViewState = {
+  childrenHiddenIDs?: Set<string>;
+  detailStates?: Map<string, DetailState>;
+  selectedSpanID?: string | TNil;
+  spanNameColumnWidth?: number;
+};
+
+// the state of the trace page that is kept in its URL, next to `uiFind`
+export type TTraceViewState = TTimelineViewState & {
+  viewType: ETraceViewType;
+  viewRange: [number, number];
+};
@@ -0,0 +1,165 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  decodeTimelineViewState,
+  decodeViewRange,
+  decodeViewType,
+  encodeViewState,
+  getSearchWithViewState,
+  VIEW_STATE_PARAMS,
+} from './view-state-codec';
+import DetailState from '../TraceTimelineViewer/SpanDetail/DetailState';
+import { ETraceViewType } from '../types';
+import transformTraceData from '../../../model/transform-trace-data';
+
+describe('TracePage/url/view-state-codec', () => {
+  const process = { serviceName: 'service', tags: [] };
+  const trace = transformTraceData({
+    traceID: 'trace-id',
+    processes: { p1: process },
+    spans: ['a', 'b', 'c', 'd'].map((spanID, i) => ({
+      traceID: 'trace-id',
+      spanID,
+      processID: 'p1',
+      operationName: `op-${spanID}`,
+      startTime: 1000 + i,
+      duration: 100 - i,
+      references: i ? [{ refType: 'CHILD_OF', traceID: 'trace-id', spanID: 'a' }] : [],
+      tags: [],
+      logs: [
+        { timestamp: 1000 + i, fields: [{ key: 'event', value: 'first' }] },
+        { timestamp: 1001 + i, fields: [{ key: 'event', value: 'second' }] },
+      ],
+    })),
+  });
+  const [a, b, c] = trace.spans;
+  const defaultState = { viewRange: [0, 1], viewType: ETraceViewType.TraceTimelineViewer };
+
+  describe('encodeViewState', () => {
+    it('omits the parts of the state that are in their default state', () => {
+      expect(encodeViewState(trace, defaultState)).toEqual({});
+      expect(
+        encodeViewState(trace, {
+          ...defaultState,
+          childrenHiddenIDs: new Set(),
+          detailStates: new Map(),
+          selectedSpanID: null,
+          spanNameColumnWidth: 0.25,
+        })
+      ).toEqual({});
+    });
+
+    it('encodes the view type, range and span name column width', () => {
+      expect(
+        encodeViewState(trace, {
+          viewRange: [0.123456, 0.5],
+          viewType: ETraceViewType.TraceGraph,
+          spanNameColumnWidth: 0.33333,
+        })
+      ).toEqual({ range: '0.1235_0.5', view: ETraceViewType.TraceGraph, width: '0.333' });
+    });
+
+    it('encodes the spans by their index in the trace', () => {
+      const detailStates = new Map([
+        [c.spanID, new DetailState().toggleLogs().toggleLogItem(c.logs[1]).toggleReferences()],
+        [a.spanID, new DetailState()],
+        [b.spanID, new DetailState().toggleLogItem(b.logs[0])],
+      ]);
+      expect(
+        encodeViewState(trace, {
+          ...defaultState,
+          childrenHiddenIDs: new Set([a.spanID, 'unknown']),
+          detailStates,
+          selectedSpanID: b.spanID,
+        })
+      ).toEqual({ collapsed: '1', details: '0.1--0.2-k-1', span: b.spanID });
+    });
+
+    it('ignores spans that are not in the trace', () => {
+      expect(
+        encodeViewState(trace, {
+          ...defaultState,
+          childrenHiddenIDs: new Set(['unknown']),
+          detailStates: new Map([['unknown', new DetailState()]]),
+          selectedSpanID: 'unknown',
+        })
+      ).toEqual({});
+    });
+  });
+
+  describe('decodeViewType', () => {
+    it('decodes a known view type', () => {
+      expect(decodeViewType('?view=TraceStatistics')).toBe(ETraceViewType.TraceStatistics);
+    });
+
+    it('defaults to the timeline', () => {
+      expect(decodeViewType('')).toBe(ETraceViewType.TraceTimelineViewer);
+      expect(decodeViewType('?view=unknown')).toBe(ETraceViewType.TraceTimelineViewer);
+    });
+  });
+
+  describe('decodeViewRange', () => {
+    it('decodes a valid range', () => {
+      expect(decodeViewRange('?range=0.25_0.5')).toEqual([0.25, 0.5]);
+    });
+
+    it('defaults to the whole trace', () => {
+      ['', '?range=0.5', '?range=0.5_0.25', '?range=-1_0.5', '?range=0_2', '?range=a_b'].forEach(search => {
+        expect(decodeViewRange(search)).toEqual([0, 1]);
+      });
+    });
+  });
+
+  describe('decodeTimelineViewState', () => {
+    it('returns null without view state', () => {
+      expect(decodeTimelineViewState(trace, '?uiFind=a')).toBe(null);
+    });
+
+    it('restores the encoded state', () => {
+      const state = {
+        childrenHiddenIDs: new Set([a.spanID]),
+        detailStates: new Map([
+          [a.spanID, new DetailState()],
+          [b.spanID, new DetailState().toggleTags().toggleProcess().toggleWarnings()],
+          [c.spanID, new DetailState().toggleLogs().toggleLogItem(c.logs[0]).toggleLogItem(c.logs[1])],
+        ]),
+        selectedSpanID: c.spanID,
+        spanNameColumnWidth: 0.4,
+      };
+      const search = getSearchWithViewState('', encodeViewState(trace, { ...defaultState, ...state }));
+      expect(decodeTimelineViewState(trace, search)).toEqual(state);
+    });
+
+    it('ignores what does not match the trace', () => {
+      expect(decodeTimelineViewState(trace, '?collapsed=g&details=5.z-1-3&span=unknown&width=2')).toEqual({
+        childrenHiddenIDs: new Set(),
+        detailStates: new Map(),
+      });
+    });
+  });
+
+  describe('getSearchWithViewState', () => {
+    it('replaces the view state and keeps the other parameters', () => {
+      expect(getSearchWithViewState('?uiFind=a&view=TraceGraph&range=0_0.5', { span: 'b' })).toBe(
+        'span=b&uiFind=a'
+      );
+    });
+
+    it('removes all view state parameters', () => {
+      const search = VIEW_STATE_PARAMS.map(param => `${param}=x`).join('&');
+      expect(getSearchWithViewState(search, {})).toBe('');
+    });
+  });
+});
@@ -0,0 +1,209 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+import queryString from 'query-string';
+
+import DetailState from '../TraceTimelineViewer/SpanDetail/DetailState';
+import { ETraceViewType, TTimelineViewState, TTraceViewState } from '../types';
+import { decode, encode } from '../../../model/ddg/visibility-codec';
+import { Trace } from '../../../types/trace';
+import parseQuery from '../../../utils/parseQuery';
+
+// The spans are referred to by their index in the trace, which is shorter than their ID. The collapsed spans
+// use the visibility encoding of the DDG, the expanded details are a list of `index[-sections[-logs]]`, all
+// numbers in base36, where sections is a bit mask of the open sections and logs are the indices of the open
+// log items.
+const DETAIL_DELIMITER = '.';
+const DETAIL_PART_DELIMITER = '-';
+const LIST_DELIMITER = '_';
+const RANGE_PRECISION = 4;
+const WIDTH_PRECISION = 3;
+const DEFAULT_SPAN_NAME_COLUMN_WIDTH = 0.25;
+
+// exported for tests
+export const VIEW_STATE_PARAMS = ['collapsed', 'details', 'range', 'span', 'view', 'width'];
+
+// the order of the sections is the order of the bits of the mask
+const DETAIL_SECTIONS: {
+  isOpen: (detailState: DetailState) => boolean;
+  toggle: (detailState: DetailState) => DetailState;
+}[] = [
+  { isOpen: ({ isTagsOpen }) => isTagsOpen, toggle: detailState => detailState.toggleTags() },
+  { isOpen: ({ isProcessOpen }) => isProcessOpen, toggle: detailState => detailState.toggleProcess() },
+  { isOpen: ({ logs }) => logs.isOpen, toggle: detailState => detailState.toggleLogs() },
+  { isOpen: ({ isWarningsOpen }) => isWarningsOpen, toggle: detailState => detailState.toggleWarnings() },
+  {
+    isOpen: ({ isReferencesOpen }) => isReferencesOpen,
+    toggle: detailState => detailState.toggleReferences(),
+  },
+];
+
+function firstParam(arg: string | string[] | undefined): string | undefined {
+  return Array.isArray(arg) ? arg[0] : arg;
+}
+
+function round(value: number, precision: number) {
+  return String(Number(value.toFixed(precision)));
+}
+
+function parseFraction(value: string | undefined) {
+  const fraction = value ? Number(value) : NaN;
+  return fraction >= 0 && fraction <= 1 ? fraction : undefined;
+}
+
+const getSpanIndices = memoizeOne(
+  (trace: Trace) => new Map(trace.spans.map(({ spanID }, i) => [spanID, i] as [string, number]))
+);
+
+function encodeDetails(trace: Trace, detailStates: Map<string, DetailState>) {
+  const spanIndices = getSpanIndices(trace);
+  const details: [number, string][] = [];
+  detailStates.forEach((detailState, spanID) => {
+    const i = spanIndices.get(spanID);
+    if (i === undefined) return;
+    const { logs } = trace.spans[i];
+    const sections = DETAIL_SECTIONS.reduce(
+      // eslint-disable-next-line no-bitwise
+      (mask, { isOpen }, bit) => (isOpen(detailState) ? mask | (1 << bit) : mask),
+      0
+    );
+    const logIndices = Array.from(detailState.logs.openedItems, log => logs.indexOf(log))
+      .filter(logIndex => logIndex >= 0)
+      .sort((a, b) => a - b);
+    const parts = [i.toString(36)];
+    if (sections || logIndices.length) parts.push(sections ? sections.toString(36) : '');
+    if (logIndices.length) parts.push(logIndices.map(logIndex => logIndex.toString(36)).join(LIST_DELIMITER));
+    details.push([i, parts.join(DETAIL_PART_DELIMITER)]);
+  });
+  return details
+    .sort(([a], [b]) => a - b)
+    .map(([, detail]) => detail)
+    .join(DETAIL_DELIMITER);
+}
+
+function decodeDetails(trace: Trace, encoded: string) {
+  const detailStates = new Map<string, DetailState>();
+  encoded.split(DETAIL_DELIMITER).forEach(detail => {
+    const [i, sections = '', logIndices = ''] = detail.split(DETAIL_PART_DELIMITER);
+    const span = trace.spans[parseInt(i, 36)];
+    if (!span) return;
+    const mask = sections ? parseInt(sections, 36) : 0;
+    const detailState = DETAIL_SECTIONS.reduce(
+      // eslint-disable-next-line no-bitwise
+      (state, { toggle }, bit) => (mask & (1 << bit) ? toggle(state) : state),
+      new DetailState()
+    );
+    logIndices.split(LIST_DELIMITER).forEach(logIndex => {
+      const log = logIndex ? span.logs[parseInt(logIndex, 36)] : undefined;
+      if (log) detailState.logs.openedItems.add(log);
+    });
+    detailStates.set(span.spanID, detailState);
+  });
+  return detailStates;
+}
+
+const getViewStateParams = memoizeOne(function getViewStateParams(search: string): Record<string, string> {
+  const query = parseQuery(search);
+  const params: Record<string, string> = {};
+  VIEW_STATE_PARAMS.forEach(param => {
+    const value = firstParam(query[param]);
+    if (value) params[param] = value;
+  });
+  return params;
+});
+
+/**
+ * Encodes the state of the trace page into URL parameters, omitting the
+ * parts that are in their default state.
+ */
+export function encodeViewState(trace: Trace, state: TTraceViewState): Record<string, string> {
+  const { childrenHiddenIDs, detailStates, selectedSpanID, spanNameColumnWidth, viewRange, viewType } = state;
+  const params: Record<string, string> = {};
+  if (viewType !== ETraceViewType.TraceTimelineViewer) {
+    params.view = viewType;
+  }
+  const [start, end] = viewRange;
+  if (start !== 0 || end !== 1) {
+    params.range = [start, end].map(value => round(value, RANGE_PRECISION)).join(LIST_DELIMITER);
+  }
+  if (childrenHiddenIDs && childrenHiddenIDs.size) {
+    const spanIndices = getSpanIndices(trace);
+    const indices = Array.from(childrenHiddenIDs, spanID => spanIndices.get(spanID)).filter(
+      (i): i is number => i !== undefined
+    );
+    if (indices.length) params.collapsed = encode(indices);
+  }
+  if (detailStates && detailStates.size) {
+    const details = encodeDetails(trace, detailStates);
+    if (details) params.details = details;
+  }
+  if (selectedSpanID && getSpanIndices(trace).has(selectedSpanID)) {
+    params.span = selectedSpanID;
+  }
+  if (spanNameColumnWidth !== undefined && spanNameColumnWidth !== DEFAULT_SPAN_NAME_COLUMN_WIDTH) {
+    params.width = round(spanNameColumnWidth, WIDTH_PRECISION);
+  }
+  return params;
+}
+
+export function decodeViewType(search: string): ETraceViewType {
+  const { view } = getViewStateParams(search);
+  return (
+    Object.values(ETraceViewType).find(viewType => viewType === view) || ETraceViewType.TraceTimelineViewer
+  );
+}
+
+export function decodeViewRange(search: string): [number, number] {
+  const { range = '' } = getViewStateParams(search);
+  const [start, end] = range.split(LIST_DELIMITER).map(parseFraction);
+  return start !== undefined && end !== undefined && start < end ? [start, end] : [0, 1];
+}
+
+/**
+ * Decodes the state of the timeline of the given trace, omitting the parts
+ * that are absent from the URL.
+ */
+export function decodeTimelineViewState(trace: Trace, search: string): TTimelineViewState | null {
+  const { collapsed, details, span, width } = getViewStateParams(search);
+  const state: TTimelineViewState = {};
+  if (collapsed) {
+    state.childrenHiddenIDs = new Set(
+      decode(collapsed)
+        .filter(i => i < trace.spans.length)
+        .map(i => trace.spans[i].spanID)
+    );
+  }
+  if (details) {
+    state.detailStates = decodeDetails(trace, details);
+  }
+  if (span && getSpanIndices(trace).has(span)) {
+    state.selectedSpanID = span;
+  }
+  const spanNameColumnWidth = parseFraction(width);
+  if (spanNameColumnWidth) {
+    state.spanNameColumnWidth = spanNameColumnWidth;
+  }
+  return Object.keys(state).length ? state : null;
+}
+
+/**
+ * Replaces the view state parameters of a query string, leaving the other
+ * parameters, e.g. `uiFind`, as they are.
+ */
+export function getSearchWithViewState(search: string, params: Record<string, string>) {
+  const query = queryString.parse(search);
+  VIEW_STATE_PARAMS.forEach(param => delete query[param]);
+  return queryString.stringify({ ...query, ...params });
+}
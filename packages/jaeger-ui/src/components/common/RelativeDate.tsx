@@ -15,7 +15,7 @@
 import React from 'react';
 import dayjs from 'dayjs';
 
-import { formatRelativeDate } from '../../utils/date';
+import { formatRelativeDate, toTimeZone } from '../../utils/date';
 
 type Props = {
   fullMonthName: boolean | undefined | null;
@@ -27,7 +27,7 @@ type Props = {
 // https://github.com/Microsoft/TypeScript/issues/21699
 export default function RelativeDate(props: Props): JSX.Element {
   const { value, includeTime, fullMonthName } = props;
-  const m = dayjs.isDayjs(value) ? value : dayjs(value);
+  const m = dayjs.isDayjs(value) ? value : toTimeZone(value);
   const dateStr = formatRelativeDate(m, Boolean(fullMonthName));
   const timeStr = includeTime ? `, ${m.format('h:mm:ss a')}` : '';
   return <span>{`${dateStr}${timeStr}`}</span>;
@@ -0,0 +1,60 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import TraceLoadingProgress from './TraceLoadingProgress';
+import { cancelTraceProcessing, useTraceJobs } from '../../utils/trace-pipeline';
+
+jest.mock('../../utils/trace-pipeline', () => ({
+  cancelTraceProcessing: jest.fn(),
+  useTraceJobs: jest.fn(),
+}));
+
+describe('<TraceLoadingProgress>', () => {
+  beforeEach(() => {
+    cancelTraceProcessing.mockReset();
+    useTraceJobs.mockReturnValue([]);
+  });
+
+  it('renders nothing without jobs', () => {
+    const { container } = render(<TraceLoadingProgress jobKeyPrefix="trace:a" />);
+    expect(container).toBeEmptyDOMElement();
+    expect(useTraceJobs).toHaveBeenCalledWith('trace:a');
+  });
+
+  it('renders the stage and the progress of the jobs', () => {
+    useTraceJobs.mockReturnValue([
+      { key: 'file:a.json', stage: 'transform', done: 1, total: 2 },
+      { key: 'file:b.json', stage: 'parse', done: 0, total: 1 },
+    ]);
+    render(<TraceLoadingProgress jobKeyPrefix="file:" />);
+    expect(screen.getByText('a.json: Processing the spans (1 of 2 traces)')).toBeInTheDocument();
+    expect(screen.getByText('b.json: Parsing')).toBeInTheDocument();
+    expect(screen.getAllByRole('progressbar').map(bar => bar.getAttribute('aria-valuenow'))).toEqual([
+      '37',
+      '0',
+    ]);
+  });
+
+  it('cancels a job', () => {
+    useTraceJobs.mockReturnValue([{ key: 'trace:a', stage: 'graph', done: 0, total: 1 }]);
+    render(<TraceLoadingProgress jobKeyPrefix="trace:a" />);
+    expect(screen.getByText('Computing the trace graph')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(cancelTraceProcessing).toHaveBeenCalledWith('trace:a');
+  });
+});
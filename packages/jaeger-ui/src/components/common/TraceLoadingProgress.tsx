@@ -0,0 +1,71 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as React from 'react';
+import { Button, Progress } from 'antd';
+
+import { cancelTraceProcessing, TTraceJob, useTraceJobs } from '../../utils/trace-pipeline';
+import { STAGES, TTracePipelineStage } from '../../utils/trace-pipeline/run';
+
+import './TraceLoadingProgress.css';
+
+const STAGE_LABELS: Record<TTracePipelineStage, string> = {
+  parse: 'Parsing',
+  transform: 'Processing the spans',
+  criticalPath: 'Computing the critical path',
+  graph: 'Computing the trace graph',
+};
+
+type TProps = {
+  // the jobs shown are the ones with keys that start with the prefix
+  jobKeyPrefix: string;
+};
+
+function getPercent({ done, stage, total }: TTraceJob) {
+  const stageDone = total ? done / total : 0;
+  return Math.floor(((STAGES.indexOf(stage) + stageDone) / STAGES.length) * 100);
+}
+
+function getLabel(job: TTraceJob, jobKeyPrefix: string) {
+  // the rest of the key names the job, e.g. the file being loaded
+  const name = job.key.slice(jobKeyPrefix.length);
+  const count = job.total > 1 ? ` (${job.done} of ${job.total} traces)` : '';
+  return `${name ? `${name}: ` : ''}${STAGE_LABELS[job.stage]}${count}`;
+}
+
+/**
+ * The progress of the traces being processed, see `processTraces`, which can
+ * be cancelled.
+ */
+export default function TraceLoadingProgress({ jobKeyPrefix }: TProps) {
+  const jobs = useTraceJobs(jobKeyPrefix);
+  if (!jobs.length) {
+    return null;
+  }
+  return (
+    <div className="TraceLoadingProgress">
+      {jobs.map(job => (
+        <div className="TraceLoadingProgress--job" key={job.key}>
+          <div className="TraceLoadingProgress--status">
+            <div className="TraceLoadingProgress--label">{getLabel(job, jobKeyPrefix)}</div>
+            <Progress percent={getPercent(job)} size="small" status="active" />
+          </div>
+          <Button size="small" onClick={() => cancelTraceProcessing(job.key)}>
+            Cancel
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import { Config } from '../types/config';
 const defaultConfig: Config = {
   archiveEnabled: true,
   criticalPathEnabled: true,
+  criticalPathFollowsAsync: false,
   dependencies: {
     dagMaxNumServices: FALLBACK_DAG_MAX_NUM_SERVICES,
     menuEnabled: true,
@@ -87,6 +88,7 @@ const defaultConfig: Config = {
     customWebAnalytics: null,
   },
   linkPatterns: [],
+  tagValueRenderers: [],
   monitor: {
     menuEnabled: true,
     emptyState: {
@@ -0,0 +1,102 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { createAnnotation, groupAnnotationsBySpan, parseAnnotations } from './annotations';
+
+describe('annotations', () => {
+  describe('createAnnotation()', () => {
+    it('creates a note on a span', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+      const annotation = createAnnotation({
+        author: ' Ada ',
+        spanID: 'span',
+        text: ' slow db ',
+        traceID: 'trace',
+      });
+      expect(annotation).toEqual({
+        id: expect.stringMatching(/^[a-z0-9]+-[a-z0-9]+$/),
+        traceID: 'trace',
+        spanID: 'span',
+        author: 'Ada',
+        text: 'slow db',
+        createdAt: 1700000000000,
+      });
+      Date.now.mockRestore();
+    });
+
+    it('creates a note on the whole trace without spanID', () => {
+      const annotation = createAnnotation({ author: '', text: 'incident 42', traceID: 'trace' });
+      expect(annotation).not.toHaveProperty('spanID');
+    });
+
+    it('gives the notes different ids', () => {
+      const kwargs = { author: '', text: 'note', traceID: 'trace' };
+      expect(createAnnotation(kwargs).id).not.toBe(createAnnotation(kwargs).id);
+    });
+
+    it('throws when the text is empty', () => {
+      expect(() => createAnnotation({ author: 'Ada', text: '  ', traceID: 'trace' })).toThrow(
+        'An annotation needs a text'
+      );
+    });
+  });
+
+  describe('parseAnnotations()', () => {
+    it('keeps the known fields of valid annotations', () => {
+      expect(
+        parseAnnotations([
+          {
+            id: 'a',
+            traceID: 'trace',
+            spanID: 'span',
+            author: 'Ada',
+            text: 'slow',
+            createdAt: 5,
+            extra: true,
+          },
+          { id: 'b', traceID: 'trace', spanID: '', text: 'fine', createdAt: 'nope' },
+        ])
+      ).toEqual([
+        { id: 'a', traceID: 'trace', spanID: 'span', author: 'Ada', text: 'slow', createdAt: 5 },
+        { id: 'b', traceID: 'trace', author: '', text: 'fine', createdAt: 0 },
+      ]);
+    });
+
+    it('throws when the value is not a list', () => {
+      expect(() => parseAnnotations({})).toThrow('Invalid annotations: expected a list');
+    });
+
+    it('throws when an annotation misses a required field', () => {
+      expect(() => parseAnnotations([{ id: 'a', traceID: 'trace', text: 'ok' }, null])).toThrow(
+        'Invalid annotations: annotation #2 needs an id, a traceID and a text'
+      );
+    });
+  });
+
+  describe('groupAnnotationsBySpan()', () => {
+    it('groups the notes by span, oldest first, with the trace notes under the empty string', () => {
+      const late = { id: 'a', traceID: 't', spanID: 's', text: 'late', createdAt: 2 };
+      const early = { id: 'b', traceID: 't', spanID: 's', text: 'early', createdAt: 1 };
+      const onTrace = { id: 'c', traceID: 't', text: 'trace', createdAt: 3 };
+      const bySpan = groupAnnotationsBySpan([late, early, onTrace]);
+      expect(Array.from(bySpan.keys())).toEqual(['s', '']);
+      expect(bySpan.get('s')).toEqual([early, late]);
+      expect(bySpan.get('')).toEqual([onTrace]);
+    });
+
+    it('handles absent annotations', () => {
+      expect(groupAnnotationsBySpan(undefined).size).toBe(0);
+    });
+  });
+});
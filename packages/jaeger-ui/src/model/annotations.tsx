@@ -0,0 +1,80 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { TraceAnnotation } from '../types/trace';
+
+/**
+ * Creates a note on a span, or on the whole trace when `spanID` is absent.
+ */
+export function createAnnotation({
+  author,
+  spanID,
+  text,
+  traceID,
+}: Pick<TraceAnnotation, 'author' | 'spanID' | 'text' | 'traceID'>): TraceAnnotation {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('An annotation needs a text');
+  }
+  const createdAt = Date.now();
+  const annotation: TraceAnnotation = {
+    id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    traceID,
+    author: author.trim(),
+    text: trimmed,
+    createdAt,
+  };
+  if (spanID) annotation.spanID = spanID;
+  return annotation;
+}
+
+/**
+ * Validates the annotations of an imported file, see `traceToJaegerPayload`.
+ */
+export function parseAnnotations(value: unknown): TraceAnnotation[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Invalid annotations: expected a list');
+  }
+  return value.map((item: unknown, i: number) => {
+    const { id, traceID, spanID, author, text, createdAt } = (item || {}) as Partial<TraceAnnotation>;
+    if (typeof id !== 'string' || typeof traceID !== 'string' || typeof text !== 'string') {
+      throw new Error(`Invalid annotations: annotation #${i + 1} needs an id, a traceID and a text`);
+    }
+    const annotation: TraceAnnotation = {
+      id,
+      traceID,
+      author: typeof author === 'string' ? author : '',
+      text,
+      createdAt: Number(createdAt) || 0,
+    };
+    if (typeof spanID === 'string' && spanID) annotation.spanID = spanID;
+    return annotation;
+  });
+}
+
+/**
+ * The notes of the spans by span ID, oldest first. The notes on the whole
+ * trace are under the empty string.
+ */
+export const groupAnnotationsBySpan = memoizeOne((annotations: TraceAnnotation[] | undefined) => {
+  const bySpan = new Map<string, TraceAnnotation[]>();
+  (annotations || []).forEach(annotation => {
+    const key = annotation.spanID || '';
+    bySpan.set(key, (bySpan.get(key) || []).concat(annotation));
+  });
+  bySpan.forEach(list => list.sort((a, b) => a.createdAt - b.createdAt));
+  return bySpan;
+});
@@ -0,0 +1,166 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { adjustClockSkew, getClockSkewOffsets } from './clock-skew';
+import transformTraceData from './transform-trace-data';
+
+const makeSpan = (spanID, processID, kind, startTime, duration, parentID) => ({
+  traceID: 'trace-id',
+  spanID,
+  processID,
+  operationName: `op-${spanID}`,
+  startTime,
+  duration,
+  logs: [{ timestamp: startTime + 10, fields: [] }],
+  tags: kind ? [{ key: 'span.kind', type: 'string', value: kind }] : [],
+  references: parentID ? [{ refType: 'CHILD_OF', traceID: 'trace-id', spanID: parentID }] : [],
+});
+
+const makeTrace = (...spans) =>
+  transformTraceData({
+    traceID: 'trace-id',
+    processes: {
+      p1: { serviceName: 'frontend', tags: [] },
+      p2: { serviceName: 'backend', tags: [] },
+      p3: { serviceName: 'db', tags: [] },
+    },
+    spans,
+  });
+
+describe('getClockSkewOffsets()', () => {
+  const root = makeSpan('a', 'p1', 'server', 1000, 1000);
+  const client = makeSpan('b', 'p1', 'client', 1100, 400, 'a');
+
+  it('centers the server span in its client span', () => {
+    const trace = makeTrace(root, client, makeSpan('c', 'p2', 'server', 900, 200, 'b'));
+    expect(trace.clockSkewOffsets).toEqual({ p2: 300 });
+  });
+
+  it('aligns the start of a server span longer than its client span', () => {
+    const trace = makeTrace(root, client, makeSpan('c', 'p2', 'server', 2900, 500, 'b'));
+    expect(trace.clockSkewOffsets).toEqual({ p2: -1800 });
+  });
+
+  it('ignores the server spans within their client spans', () => {
+    const trace = makeTrace(root, client, makeSpan('c', 'p2', 'server', 1200, 200, 'b'));
+    expect(trace.clockSkewOffsets).toEqual({});
+  });
+
+  it('ignores the spans that are not RPCs between processes', () => {
+    const internal = makeSpan('b', 'p1', null, 1100, 400, 'a');
+    expect(makeTrace(root, internal, makeSpan('c', 'p2', 'server', 900, 200, 'b')).clockSkewOffsets).toEqual(
+      {}
+    );
+    expect(makeTrace(root, client, makeSpan('c', 'p1', 'server', 900, 200, 'b')).clockSkewOffsets).toEqual(
+      {}
+    );
+  });
+
+  it('checks the children against the adjusted times of their parents', () => {
+    const skewed = [root, client, makeSpan('c', 'p2', 'server', 900, 200, 'b')];
+    const downstream = makeSpan('d', 'p2', 'client', 950, 100, 'c');
+    // in sync with the first process
+    expect(
+      makeTrace(...skewed, downstream, makeSpan('e', 'p3', 'server', 1260, 50, 'd')).clockSkewOffsets
+    ).toEqual({ p2: 300 });
+    // off by the same amount as its caller
+    expect(
+      makeTrace(...skewed, downstream, makeSpan('e', 'p3', 'server', 960, 50, 'd')).clockSkewOffsets
+    ).toEqual({ p2: 300, p3: 300 });
+  });
+
+  it('only uses the first server span of a process', () => {
+    const trace = makeTrace(
+      root,
+      client,
+      makeSpan('c', 'p2', 'server', 900, 200, 'b'),
+      makeSpan('d', 'p1', 'client', 1600, 300, 'a'),
+      makeSpan('e', 'p2', 'server', 500, 100, 'd')
+    );
+    expect(getClockSkewOffsets(trace.spans)).toEqual({ p2: 300 });
+  });
+
+  it('warns on the spans of the skewed processes', () => {
+    const trace = makeTrace(root, client, makeSpan('c', 'p2', 'server', 900, 200, 'b'));
+    const [a, b, c] = trace.spans;
+    expect(a.warnings).toEqual([]);
+    expect(b.warnings).toEqual([]);
+    expect(c.warnings).toEqual([expect.stringContaining('moved 300μs later')]);
+  });
+});
+
+describe('adjustClockSkew()', () => {
+  const trace = makeTrace(
+    makeSpan('a', 'p1', 'server', 1000, 1000),
+    makeSpan('b', 'p1', 'client', 1100, 400, 'a'),
+    makeSpan('c', 'p2', 'server', 500, 200, 'b'),
+    makeSpan('d', 'p1', 'client', 1600, 200, 'a')
+  );
+
+  it('returns the trace without skew', () => {
+    const noSkew = makeTrace(makeSpan('a', 'p1', 'server', 1000, 1000));
+    expect(adjustClockSkew(noSkew)).toBe(noSkew);
+  });
+
+  it('moves the spans of the skewed processes, without changing the trace', () => {
+    const adjusted = adjustClockSkew(trace);
+    expect(adjusted.spans.map(({ spanID, startTime }) => [spanID, startTime])).toEqual([
+      ['a', 1000],
+      ['b', 1100],
+      ['c', 1200],
+      ['d', 1600],
+    ]);
+    expect(adjusted.spans[2].logs[0].timestamp).toBe(1210);
+    expect(trace.spans.find(({ spanID }) => spanID === 'c').startTime).toBe(500);
+  });
+
+  it('updates the times of the trace and the relative start times', () => {
+    const adjusted = adjustClockSkew(trace);
+    expect(trace.startTime).toBe(500);
+    expect(adjusted).toEqual(expect.objectContaining({ startTime: 1000, endTime: 2000, duration: 1000 }));
+    expect(adjusted.spans.map(({ relativeStartTime }) => relativeStartTime)).toEqual([0, 100, 200, 600]);
+  });
+
+  it('points the references at the adjusted spans', () => {
+    const adjusted = adjustClockSkew(trace);
+    const [a, b, c] = adjusted.spans;
+    expect(c.references[0].span).toBe(b);
+    expect(b.references[0].span).toBe(a);
+    expect(a.childSpanIds).toEqual(['d', 'b']);
+  });
+
+  it('sorts the siblings by their adjusted start', () => {
+    const adjusted = adjustClockSkew(
+      makeTrace(
+        makeSpan('a', 'p1', 'server', 1000, 1000),
+        makeSpan('b', 'p1', 'client', 1100, 400, 'a'),
+        makeSpan('c', 'p2', 'server', 500, 200, 'b'),
+        makeSpan('d', 'p1', 'client', 1600, 200, 'a'),
+        // starts before b as reported, after d once adjusted
+        makeSpan('e', 'p2', null, 950, 100, 'a')
+      )
+    );
+    expect(adjusted.spans.map(({ spanID, startTime }) => [spanID, startTime])).toEqual([
+      ['a', 1000],
+      ['b', 1100],
+      ['c', 1200],
+      ['d', 1600],
+      ['e', 1650],
+    ]);
+  });
+
+  it('caches the adjusted trace', () => {
+    expect(adjustClockSkew(trace)).toBe(adjustClockSkew(trace));
+  });
+});
@@ -0,0 +1,173 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getParent } from './span';
+import { Span, SpanReference, Trace } from '../types/trace';
+import { formatDuration } from '../utils/date';
+
+function hasSpanKind(span: Span, kind: string) {
+  return span.tags.some(tag => tag.key === 'span.kind' && tag.value === kind);
+}
+
+function isWithin(parent: Span, parentOffset: number, start: number, duration: number) {
+  const parentStart = parent.startTime + parentOffset;
+  return start >= parentStart && start + duration <= parentStart + parent.duration;
+}
+
+/**
+ * The offset that moves a server span within its client span. As the latency
+ * of the request and of the response are unknown, the server span is centered
+ * in the client span, or starts with it when it is longer.
+ */
+function getServerOffset(client: Span, clientOffset: number, server: Span) {
+  const { duration, startTime } = server;
+  if (isWithin(client, clientOffset, startTime, duration)) {
+    return 0;
+  }
+  // the clocks of both processes may be off by the same amount
+  if (isWithin(client, clientOffset, startTime + clientOffset, duration)) {
+    return clientOffset;
+  }
+  const clientStart = client.startTime + clientOffset;
+  if (duration > client.duration) {
+    return clientStart - startTime;
+  }
+  return Math.round(clientStart + (client.duration - duration) / 2 - startTime);
+}
+
+/**
+ * Detects the processes whose clock is skewed from the server spans of RPCs
+ * that are not within the client span they are a `CHILD_OF`. The process of
+ * the first span is the reference, and the offset of a process is given by the
+ * first of its server spans, in tree order.
+ * @param spans - The spans of a trace, parents before their children.
+ * @returns - The offsets to add to the times of the skewed processes, in
+ *            microseconds, by process ID.
+ */
+export function getClockSkewOffsets(spans: Span[]): Record<string, number> {
+  const offsets: Record<string, number> = {};
+  const checked = new Set<string>(spans.length ? [spans[0].processID] : []);
+  spans.forEach(span => {
+    const parent = getParent(span);
+    if (
+      !parent ||
+      checked.has(span.processID) ||
+      parent.processID === span.processID ||
+      !hasSpanKind(parent, 'client') ||
+      !hasSpanKind(span, 'server')
+    ) {
+      return;
+    }
+    checked.add(span.processID);
+    const offset = getServerOffset(parent, offsets[parent.processID] || 0, span);
+    if (offset) {
+      offsets[span.processID] = offset;
+    }
+  });
+  return offsets;
+}
+
+export function getClockSkewWarning(offset: number) {
+  const direction = offset > 0 ? 'later' : 'earlier';
+  return `Clock skew: the clock of this process seems off, its spans are moved ${formatDuration(
+    Math.abs(offset)
+  )} ${direction} in the adjusted timing`;
+}
+
+const adjustedTraces = new WeakMap<Trace, Trace>();
+
+type TSpanNode = { span: Span; children: TSpanNode[] };
+
+/**
+ * The spans in tree order, with the siblings in the order they start, as
+ * `transformTraceData` orders them. The tree is given by the depths.
+ */
+function sortSiblings(spans: Span[]): Span[] {
+  const roots: TSpanNode[] = [];
+  const path: TSpanNode[] = [];
+  spans.forEach(span => {
+    const node = { span, children: [] };
+    path.length = Math.min(path.length, span.depth);
+    const parent = path[path.length - 1];
+    (parent ? parent.children : roots).push(node);
+    path.push(node);
+  });
+  const sorted: Span[] = [];
+  const addNodes = (nodes: TSpanNode[]) => {
+    nodes.sort((a, b) => a.span.startTime - b.span.startTime);
+    nodes.forEach(node => {
+      sorted.push(node.span);
+      addNodes(node.children);
+    });
+  };
+  addNodes(roots);
+  return sorted;
+}
+
+/**
+ * The trace with the times of the spans of the skewed processes adjusted by
+ * their offsets, and the siblings sorted by their adjusted start. The spans
+ * and the trace are copied, so both timings can be shown, and the copy is
+ * cached for the trace.
+ */
+export function adjustClockSkew(trace: Trace): Trace {
+  const offsets = trace.clockSkewOffsets;
+  if (!offsets || !Object.keys(offsets).length) {
+    return trace;
+  }
+  const cached = adjustedTraces.get(trace);
+  if (cached) {
+    return cached;
+  }
+  const copies = new Map<string, Span>();
+  let startTime = Number.MAX_SAFE_INTEGER;
+  let endTime = 0;
+  trace.spans.forEach(span => {
+    const offset = offsets[span.processID] || 0;
+    const copy = offset
+      ? {
+          ...span,
+          logs: span.logs.map(log => ({ ...log, timestamp: log.timestamp + offset })),
+          startTime: span.startTime + offset,
+        }
+      : { ...span };
+    startTime = Math.min(startTime, copy.startTime);
+    endTime = Math.max(endTime, copy.startTime + copy.duration);
+    copies.set(span.spanID, copy);
+  });
+  const getEnd = (spanID: string) => {
+    const span = copies.get(spanID);
+    return span ? span.startTime + span.duration : 0;
+  };
+  const toCopy = (ref: SpanReference) =>
+    ref.span && copies.has(ref.spanID) ? { ...ref, span: copies.get(ref.spanID) } : ref;
+  trace.spans.forEach(({ spanID }) => {
+    const copy = copies.get(spanID) as Span;
+    copy.relativeStartTime = copy.startTime - startTime;
+    copy.references = copy.references.map(toCopy);
+    if (copy.subsidiarilyReferencedBy) {
+      copy.subsidiarilyReferencedBy = copy.subsidiarilyReferencedBy.map(toCopy);
+    }
+    copy.childSpanIds = copy.childSpanIds.slice().sort((a, b) => getEnd(b) - getEnd(a));
+  });
+  const adjusted = {
+    ...trace,
+    duration: endTime - startTime,
+    endTime,
+    spans: sortSiblings(Array.from(copies.values())),
+    startTime,
+  };
+  adjustedTraces.set(trace, adjusted);
+  return adjusted;
+}
@@ -0,0 +1,101 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { spliceLinkedTraces } from './linked-traces';
+import transformTraceData from './transform-trace-data';
+import spanAncestorIds from '../utils/span-ancestor-ids';
+
+const makeSpan = (traceID, spanID, startTime, duration, parentID, references = []) => ({
+  traceID,
+  spanID,
+  processID: 'p1',
+  operationName: `op-${spanID}`,
+  startTime,
+  duration,
+  logs: [],
+  tags: [],
+  references: parentID ? [{ refType: 'CHILD_OF', traceID, spanID: parentID }, ...references] : references,
+});
+
+describe('spliceLinkedTraces()', () => {
+  const trace = transformTraceData({
+    traceID: 'main',
+    processes: { p1: { serviceName: 'frontend', tags: [] } },
+    spans: [
+      makeSpan('main', 'a', 1000, 1000),
+      makeSpan('main', 'b', 1100, 300, 'a', [{ refType: 'FOLLOWS_FROM', traceID: 'batch', spanID: 'x' }]),
+      makeSpan('main', 'c', 1500, 100, 'a'),
+    ],
+  });
+  const batch = transformTraceData({
+    traceID: 'batch',
+    processes: { p1: { serviceName: 'worker', tags: [] } },
+    spans: [makeSpan('batch', 'x', 1800, 600), makeSpan('batch', 'y', 1900, 100, 'x')],
+  });
+  const report = transformTraceData({
+    traceID: 'report',
+    processes: { p1: { serviceName: 'reporter', tags: [] } },
+    spans: [makeSpan('report', 'z', 500, 100)],
+  });
+
+  it('returns the trace when there is nothing to splice', () => {
+    expect(spliceLinkedTraces(trace, [])).toBe(trace);
+    expect(spliceLinkedTraces(trace, [{ anchorSpanID: 'missing', trace: batch }])).toBe(trace);
+    expect(spliceLinkedTraces(trace, [{ anchorSpanID: 'a', trace }])).toBe(trace);
+  });
+
+  it('inserts the linked trace as a subtree of the anchor span', () => {
+    const spliced = spliceLinkedTraces(trace, [{ anchorSpanID: 'b', trace: batch }]);
+    expect(spliced.spans.map(({ spanID, depth }) => [spanID, depth])).toEqual([
+      ['a', 0],
+      ['b', 1],
+      ['x', 2],
+      ['y', 3],
+      ['c', 1],
+    ]);
+    const [, anchor, x, y] = spliced.spans;
+    expect(anchor.hasChildren).toBe(true);
+    expect(anchor.childSpanIds).toContain('x');
+    expect(x.references[0]).toMatchObject({ refType: 'FOLLOWS_FROM', spanID: 'b', traceID: 'main' });
+    expect(spanAncestorIds(y)).toEqual(['x', 'b', 'a']);
+    expect(x.processID).toBe('batch:p1');
+    expect(spliced.processes['batch:p1'].serviceName).toBe('worker');
+    expect(trace.spans.map(span => span.spanID)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('combines the time axes of the traces', () => {
+    const spliced = spliceLinkedTraces(trace, [{ anchorSpanID: 'c', trace: report }]);
+    expect(spliced).toMatchObject({ startTime: 500, endTime: 2000, duration: 1500 });
+    expect(spliced.spans.map(span => span.relativeStartTime)).toEqual([500, 600, 1000, 0]);
+    expect(spliced.services).toEqual([
+      { name: 'frontend', numberOfSpans: 3 },
+      { name: 'reporter', numberOfSpans: 1 },
+    ]);
+  });
+
+  it('anchors linked traces under the spans of other linked traces', () => {
+    const spliced = spliceLinkedTraces(trace, [
+      { anchorSpanID: 'y', trace: report },
+      { anchorSpanID: 'b', trace: batch },
+    ]);
+    expect(spliced.spans.map(({ spanID, depth }) => [spanID, depth])).toEqual([
+      ['a', 0],
+      ['b', 1],
+      ['x', 2],
+      ['y', 3],
+      ['z', 4],
+      ['c', 1],
+    ]);
+  });
+});
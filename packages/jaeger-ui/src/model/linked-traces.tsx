@@ -0,0 +1,130 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { Span, SpanReference, Trace } from '../types/trace';
+
+export type TLinkedTrace = {
+  // the span that references the linked trace, which it is shown under
+  anchorSpanID: string;
+  trace: Trace;
+};
+
+/**
+ * Copies the spans of a linked trace as a subtree of the anchor span. The
+ * references of the copies point at the copies, and the roots of the linked
+ * trace reference the anchor, so the ancestors of the spans include the anchor.
+ */
+function copyLinkedSpans(anchor: Span, linked: Trace): Span[] {
+  const copies = new Map<string, Span>();
+  linked.spans.forEach(span => {
+    copies.set(span.spanID, {
+      ...span,
+      depth: span.depth + anchor.depth + 1,
+      // the process IDs of different traces are not unique
+      processID: `${linked.traceID}:${span.processID}`,
+    });
+  });
+  linked.spans.forEach(({ depth, references, spanID }) => {
+    const copy = copies.get(spanID) as Span;
+    copy.references = references
+      .filter(ref => ref.spanID !== anchor.spanID)
+      .map(ref => (ref.span ? { ...ref, span: copies.get(ref.spanID) } : ref));
+    if (depth === 0) {
+      const anchorRef: SpanReference = {
+        refType: 'FOLLOWS_FROM',
+        span: anchor,
+        spanID: anchor.spanID,
+        traceID: anchor.traceID,
+      };
+      copy.references.unshift(anchorRef);
+    }
+  });
+  return Array.from(copies.values());
+}
+
+/**
+ * Inserts the linked traces whose anchor is among the spans, until none is
+ * left, as a linked trace can be anchored under a span of another one.
+ */
+function insertLinkedTraces(spans: Span[], linkedTraces: TLinkedTrace[]): Span[] {
+  const spanIDs = new Set(spans.map(span => span.spanID));
+  const i = linkedTraces.findIndex(({ anchorSpanID }) => spanIDs.has(anchorSpanID));
+  if (i === -1) {
+    return spans;
+  }
+  const { anchorSpanID, trace: linked } = linkedTraces[i];
+  const anchorIndex = spans.findIndex(span => span.spanID === anchorSpanID);
+  const anchor = {
+    ...spans[anchorIndex],
+    hasChildren: true,
+    childSpanIds: spans[anchorIndex].childSpanIds.concat(
+      linked.spans.filter(span => span.depth === 0).map(span => span.spanID)
+    ),
+  };
+  let end = anchorIndex + 1;
+  while (end < spans.length && spans[end].depth > anchor.depth) end++;
+  return insertLinkedTraces(
+    spans
+      .slice(0, anchorIndex)
+      .concat(anchor, spans.slice(anchorIndex + 1, end), copyLinkedSpans(anchor, linked), spans.slice(end)),
+    linkedTraces.filter((_, j) => j !== i)
+  );
+}
+
+/**
+ * Shows the traces referenced by the spans of a trace in its timeline: the
+ * spans of each linked trace are inserted as a subtree of the span referencing
+ * it, and the times of all the spans are relative to the earliest of the traces.
+ */
+export function spliceLinkedTraces(trace: Trace, linkedTraces: TLinkedTrace[]): Trace {
+  let spans = insertLinkedTraces(
+    trace.spans,
+    linkedTraces.filter(linked => linked.trace.traceID !== trace.traceID)
+  );
+  if (spans === trace.spans) {
+    return trace;
+  }
+
+  const processes = { ...trace.processes };
+  const splicedIDs = new Set(spans.map(span => span.traceID));
+  linkedTraces.forEach(({ trace: linked }) => {
+    if (!splicedIDs.has(linked.traceID)) return;
+    Object.keys(linked.processes).forEach(processID => {
+      processes[`${linked.traceID}:${processID}`] = linked.processes[processID];
+    });
+  });
+  const startTime = spans.reduce((min, span) => Math.min(min, span.startTime), Infinity);
+  const endTime = spans.reduce((max, span) => Math.max(max, span.startTime + span.duration), -Infinity);
+  const numberOfSpans = new Map<string, number>();
+  spans = spans.map(span => {
+    const { serviceName } = span.process;
+    numberOfSpans.set(serviceName, (numberOfSpans.get(serviceName) || 0) + 1);
+    return span.relativeStartTime === span.startTime - startTime
+      ? span
+      : { ...span, relativeStartTime: span.startTime - startTime };
+  });
+  return {
+    ...trace,
+    duration: endTime - startTime,
+    endTime,
+    processes,
+    services: Array.from(numberOfSpans, ([name, count]) => ({ name, numberOfSpans: count })),
+    spans,
+    startTime,
+  };
+}
+
+export default memoizeOne(spliceLinkedTraces);
@@ -0,0 +1,179 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  getMissingParentsWarning,
+  makePlaceholderSpans,
+  PLACEHOLDER_OPERATION_NAME,
+  PLACEHOLDER_WARNING,
+  removePlaceholders,
+} from './missing-parents';
+import transformTraceData from './transform-trace-data';
+
+const makeSpan = (spanID, startTime, duration, parentID) => ({
+  traceID: 'trace-id',
+  spanID,
+  processID: spanID === 'c' ? 'p2' : 'p1',
+  operationName: `op-${spanID}`,
+  startTime,
+  duration,
+  logs: [],
+  tags: [],
+  references: parentID ? [{ refType: 'CHILD_OF', traceID: 'trace-id', spanID: parentID }] : [],
+});
+
+const makeTrace = (...spans) =>
+  transformTraceData({
+    traceID: 'trace-id',
+    processes: {
+      p1: { serviceName: 'frontend', tags: [] },
+      p2: { serviceName: 'backend', tags: [] },
+    },
+    spans,
+  });
+
+// a root, two spans whose parent "x" is missing, and a child of one of them
+const makeSpans = () => [
+  makeSpan('a', 1000, 100),
+  makeSpan('b', 1300, 100, 'x'),
+  makeSpan('c', 1200, 400, 'x'),
+  makeSpan('d', 1350, 10, 'b'),
+];
+
+describe('makePlaceholderSpans()', () => {
+  it('synthesizes a placeholder per missing parent, spanning its children', () => {
+    const { orphanCount, placeholders } = makePlaceholderSpans(makeSpans(), 'trace-id');
+    expect(orphanCount).toBe(2);
+    expect(placeholders).toEqual([
+      {
+        spanID: 'x',
+        traceID: 'trace-id',
+        processID: 'p2',
+        operationName: PLACEHOLDER_OPERATION_NAME,
+        startTime: 1200,
+        duration: 400,
+        logs: [],
+        tags: [],
+        references: [],
+        warnings: [PLACEHOLDER_WARNING],
+        isPlaceholder: true,
+      },
+    ]);
+  });
+
+  it('returns no placeholders when no parent is missing', () => {
+    expect(
+      makePlaceholderSpans([makeSpan('a', 1000, 100), makeSpan('b', 1010, 10, 'a')], 'trace-id')
+    ).toEqual({
+      orphanCount: 0,
+      placeholders: [],
+    });
+  });
+});
+
+describe('getMissingParentsWarning()', () => {
+  it('counts the missing parents and their children', () => {
+    expect(getMissingParentsWarning(1, 1)).toBe('Missing spans: the parent of a span is not in the trace');
+    expect(getMissingParentsWarning(2, 3)).toBe('Missing spans: 2 parents of 3 spans are not in the trace');
+  });
+});
+
+describe('transformTraceData() with missing parents', () => {
+  it('groups the children of a missing parent under a placeholder', () => {
+    const trace = makeTrace(...makeSpans());
+    expect(trace.spans.map(({ spanID, depth }) => [spanID, depth])).toEqual([
+      ['a', 0],
+      ['x', 0],
+      ['c', 1],
+      ['b', 1],
+      ['d', 2],
+    ]);
+    const placeholder = trace.spans[1];
+    expect(placeholder.isPlaceholder).toBe(true);
+    expect(placeholder.process.serviceName).toBe('backend');
+    expect(trace.spans[2].references[0].span).toBe(placeholder);
+    expect(trace.missingParentIDs).toEqual(['x']);
+    expect(trace.warnings).toEqual([getMissingParentsWarning(1, 2)]);
+  });
+
+  it('leaves the placeholders out of the services and the name of the trace', () => {
+    // the parts of the name are memoized by the trace ID of the first span
+    const spans = [makeSpan('b', 1300, 100, 'x'), makeSpan('c', 1200, 400, 'x')].map(span => ({
+      ...span,
+      traceID: 'orphans-trace-id',
+    }));
+    const trace = makeTrace(...spans);
+    expect(trace.services).toEqual([
+      { name: 'backend', numberOfSpans: 1 },
+      { name: 'frontend', numberOfSpans: 1 },
+    ]);
+    expect(trace.traceName).toBe('backend: op-c');
+  });
+
+  it('keeps the placeholders out of the data as received', () => {
+    const data = {
+      traceID: 'trace-id',
+      processes: { p1: { serviceName: 'frontend', tags: [] }, p2: { serviceName: 'backend', tags: [] } },
+      spans: makeSpans(),
+    };
+    transformTraceData(data);
+    expect(data.spans.map(({ spanID }) => spanID)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('does not take the references to other traces for missing parents', () => {
+    const linked = makeSpan('b', 1010, 10);
+    linked.references = [{ refType: 'FOLLOWS_FROM', traceID: 'other-trace-id', spanID: 'x' }];
+    const trace = makeTrace(makeSpan('a', 1000, 100), linked);
+    expect(trace.spans.map(({ spanID, depth }) => [spanID, depth])).toEqual([
+      ['a', 0],
+      ['b', 0],
+    ]);
+    expect(trace.missingParentIDs).toEqual([]);
+    expect(trace.warnings).toEqual([]);
+  });
+
+  it('has no warnings when no parent is missing', () => {
+    const trace = makeTrace(makeSpan('a', 1000, 100), makeSpan('b', 1010, 10, 'a'));
+    expect(trace.missingParentIDs).toEqual([]);
+    expect(trace.warnings).toEqual([]);
+  });
+});
+
+describe('removePlaceholders()', () => {
+  it('returns the structure as received, with the spans copied', () => {
+    const trace = makeTrace(...makeSpans());
+    const received = removePlaceholders(trace);
+    expect(received.spans.map(({ spanID, depth }) => [spanID, depth])).toEqual([
+      ['a', 0],
+      ['c', 0],
+      ['b', 0],
+      ['d', 1],
+    ]);
+    expect(received.spans.map(span => trace.spans.includes(span))).toEqual([false, false, false, false]);
+    const [, c, b, d] = received.spans;
+    expect(c.references[0].span).toBeUndefined();
+    expect(d.references[0].span).toBe(b);
+    expect(trace.spans[2].depth).toBe(1);
+  });
+
+  it('caches the copy for the trace', () => {
+    const trace = makeTrace(...makeSpans());
+    expect(removePlaceholders(trace)).toBe(removePlaceholders(trace));
+  });
+
+  it('returns the trace without missing parents as is', () => {
+    const trace = makeTrace(makeSpan('a', 1000, 100), makeSpan('b', 1010, 10, 'a'));
+    expect(removePlaceholders(trace)).toBe(trace);
+  });
+});
@@ -0,0 +1,140 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Span, SpanData, SpanReference, Trace } from '../types/trace';
+
+export const PLACEHOLDER_OPERATION_NAME = '<missing span>';
+
+export const PLACEHOLDER_WARNING =
+  'Missing span: this span is not in the trace, it is a placeholder for the parent of the spans below it, with the times inferred from them';
+
+export function getMissingParentsWarning(missingCount: number, orphanCount: number) {
+  const parents = missingCount === 1 ? 'the parent' : `${missingCount} parents`;
+  const spans = orphanCount === 1 ? 'a span is' : `${orphanCount} spans are`;
+  return `Missing spans: ${parents} of ${spans} not in the trace`;
+}
+
+// the ID of the parent of the span, if it is missing from the trace, the
+// references to spans of other traces are links rather than missing parents
+function getMissingParentID(span: SpanData, traceID: string, spanIDs: Set<string>) {
+  const ref = span.references && span.references[0];
+  if (!ref || spanIDs.has(ref.spanID) || (ref.traceID && ref.traceID.toLowerCase() !== traceID)) {
+    return null;
+  }
+  return ref.spanID;
+}
+
+/**
+ * Synthesizes a placeholder for each parent that is missing from the trace,
+ * so the subtrees of its children stay grouped. A placeholder has the ID of
+ * the missing parent, the process of its first child, and spans the times of
+ * its children.
+ * @param spans - The spans of a trace.
+ * @param traceID - The ID of the trace, lower-cased.
+ * @returns - The placeholders, and the number of spans whose parent is missing.
+ */
+export function makePlaceholderSpans(spans: SpanData[], traceID: string) {
+  const spanIDs = new Set(spans.map(span => span.spanID));
+  const orphansByParent = new Map<string, SpanData[]>();
+  let orphanCount = 0;
+  spans.forEach(span => {
+    const parentID = getMissingParentID(span, traceID, spanIDs);
+    if (parentID) {
+      const orphans = orphansByParent.get(parentID);
+      if (orphans) {
+        orphans.push(span);
+      } else {
+        orphansByParent.set(parentID, [span]);
+      }
+      orphanCount++;
+    }
+  });
+  const placeholders: SpanData[] = [];
+  orphansByParent.forEach((orphans, spanID) => {
+    const first = orphans.reduce((a, b) => (b.startTime < a.startTime ? b : a));
+    const endTime = Math.max(...orphans.map(span => span.startTime + span.duration));
+    placeholders.push({
+      spanID,
+      traceID: first.traceID,
+      processID: first.processID,
+      operationName: PLACEHOLDER_OPERATION_NAME,
+      startTime: first.startTime,
+      duration: endTime - first.startTime,
+      logs: [],
+      tags: [],
+      references: [],
+      warnings: [PLACEHOLDER_WARNING],
+      isPlaceholder: true,
+    });
+  });
+  return { orphanCount, placeholders };
+}
+
+const receivedTraces = new WeakMap<Trace, Trace>();
+
+/**
+ * The trace with the structure as received, i.e. without the placeholders of
+ * the missing parents, and their children at the top level. The spans and the
+ * trace are copied, so both structures can be shown, and the copy is cached
+ * for the trace.
+ */
+export function removePlaceholders(trace: Trace): Trace {
+  if (!trace.missingParentIDs || !trace.missingParentIDs.length) {
+    return trace;
+  }
+  const cached = receivedTraces.get(trace);
+  if (cached) {
+    return cached;
+  }
+  const copies = new Map<string, Span>();
+  // the spans of each top-level subtree, the placeholders are always at the top level
+  const subtrees: Span[][] = [];
+  let inPlaceholder = false;
+  trace.spans.forEach(span => {
+    if (span.depth === 0) {
+      inPlaceholder = Boolean(span.isPlaceholder);
+    }
+    if (span.isPlaceholder) {
+      return;
+    }
+    const copy = inPlaceholder ? { ...span, depth: span.depth - 1 } : { ...span };
+    copies.set(span.spanID, copy);
+    if (copy.depth === 0) {
+      subtrees.push([copy]);
+    } else {
+      subtrees[subtrees.length - 1].push(copy);
+    }
+  });
+  const toCopy = (ref: SpanReference) => {
+    if (!ref.span) {
+      return ref;
+    }
+    return { ...ref, span: copies.get(ref.spanID) };
+  };
+  trace.spans.forEach(({ spanID }) => {
+    const copy = copies.get(spanID);
+    if (!copy) {
+      return;
+    }
+    copy.references = copy.references.map(toCopy);
+    if (copy.subsidiarilyReferencedBy) {
+      copy.subsidiarilyReferencedBy = copy.subsidiarilyReferencedBy.map(toCopy);
+    }
+  });
+  // as received, the top-level spans are in the order they start
+  subtrees.sort((a, b) => a[0].startTime - b[0].startTime);
+  const received = { ...trace, spans: ([] as Span[]).concat(...subtrees) };
+  receivedTraces.set(trace, received);
+  return received;
+}
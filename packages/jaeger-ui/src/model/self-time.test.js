@@ -0,0 +1,70 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import getSelfTimes, { computeSelfTime, getChildOfMap } from './self-time';
+
+function makeSpan(spanID, startTime, duration, parentID, refType = 'CHILD_OF') {
+  return {
+    spanID,
+    startTime,
+    duration,
+    hasChildren: false,
+    references: parentID ? [{ refType, spanID: parentID }] : [],
+  };
+}
+
+describe('getChildOfMap()', () => {
+  it('groups spans by CHILD_OF parent', () => {
+    const a = makeSpan('a', 0, 10);
+    const b = makeSpan('b', 1, 2, 'a');
+    const c = makeSpan('c', 3, 2, 'a', 'FOLLOWS_FROM');
+    expect(getChildOfMap([a, b, c])).toEqual({ a: [b] });
+  });
+});
+
+describe('computeSelfTime()', () => {
+  const parent = { ...makeSpan('p', 0, 100), hasChildren: true };
+
+  it('returns the duration of leaf spans', () => {
+    expect(computeSelfTime(makeSpan('leaf', 0, 42), [])).toBe(42);
+  });
+
+  it('subtracts children once when they overlap', () => {
+    const children = [makeSpan('b', 30, 40, 'p'), makeSpan('a', 10, 30, 'p'), makeSpan('c', 35, 5, 'p')];
+    expect(computeSelfTime(parent, children)).toBe(40);
+  });
+
+  it('ignores the parts of children outliving the parent', () => {
+    const children = [makeSpan('a', 90, 50, 'p'), makeSpan('b', 150, 10, 'p')];
+    expect(computeSelfTime(parent, children)).toBe(90);
+  });
+
+  it('does not reorder the given children', () => {
+    const children = [makeSpan('b', 50, 10, 'p'), makeSpan('a', 10, 10, 'p')];
+    computeSelfTime(parent, children);
+    expect(children.map(child => child.spanID)).toEqual(['b', 'a']);
+  });
+});
+
+describe('getSelfTimes()', () => {
+  it('computes the self time of every span', () => {
+    const root = { ...makeSpan('root', 0, 100), hasChildren: true };
+    const child = makeSpan('child', 10, 20, 'root');
+    const selfTimes = getSelfTimes({ spans: [root, child] });
+    expect(Array.from(selfTimes.entries())).toEqual([
+      ['root', 80],
+      ['child', 20],
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { Span, Trace } from '../types/trace';
+
+/**
+ * Groups spans by the spans they are a `CHILD_OF`. `FOLLOWS_FROM` references
+ * are ignored, consumers do not take time from their producers.
+ */
+export function getChildOfMap(spans: Span[]): Record<string, Span[]> {
+  const childOfMap: Record<string, Span[]> = {};
+  spans.forEach(s => {
+    if (s.references) {
+      const parentIDs = s.references.filter(r => r.refType === 'CHILD_OF').map(r => r.spanID);
+      parentIDs.forEach((pID: string) => {
+        childOfMap[pID] = childOfMap[pID] || [];
+        childOfMap[pID].push(s);
+      });
+    }
+  });
+  return childOfMap;
+}
+
+/**
+ * The time a span spends on its own, i.e. its duration minus the time covered
+ * by its `CHILD_OF` children. Overlapping children are only counted once, and
+ * the parts of children that outlive the parent are ignored.
+ */
+export function computeSelfTime(parentSpan: Span, childOfSpans: Span[]): number {
+  if (!parentSpan.hasChildren) return parentSpan.duration;
+
+  let parentSpanSelfTime = parentSpan.duration;
+  let previousChildEndTime = parentSpan.startTime;
+
+  const children = childOfSpans.slice().sort((a, b) => a.startTime - b.startTime);
+
+  const parentSpanEndTime = parentSpan.startTime + parentSpan.duration;
+
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+
+    const childEndTime = child.startTime + child.duration;
+    const childStartsAfterParentEnded = child.startTime > parentSpanEndTime;
+    const childEndsBeforePreviousChild = childEndTime < previousChildEndTime;
+
+    // parent |..................|
+    // child    |.......|                     - previousChild
+    // child     |.....|                      - childEndsBeforePreviousChild is true, skipped
+    // child                         |......| - childStartsAfterParentEnded is true, skipped
+    if (childStartsAfterParentEnded || childEndsBeforePreviousChild) {
+      continue;
+    }
+
+    // parent |.....................|
+    // child    |.......|                    - previousChild
+    // child        |.....|                  - nonOverlappingStartTime is previousChildEndTime
+    // child                |.....|          - nonOverlappingStartTime is child.startTime
+    const nonOverlappingStartTime = Math.max(previousChildEndTime, child.startTime);
+    const childEndTimeOrParentEndTime = Math.min(parentSpanEndTime, childEndTime);
+
+    const nonOverlappingDuration = childEndTimeOrParentEndTime - nonOverlappingStartTime;
+    parentSpanSelfTime -= nonOverlappingDuration;
+
+    // last span which can be included in self time calculation, because it ends after parent span ends
+    // parent |......................|
+    // child                      |.....|        - last span included in self time calculation
+    // child                       |.........|   - skipped
+    if (childEndTimeOrParentEndTime === parentSpanEndTime) {
+      break;
+    }
+
+    previousChildEndTime = childEndTime;
+  }
+
+  return parentSpanSelfTime;
+}
+
+/**
+ * Self time of every span of the trace, by span ID.
+ */
+function getTraceSelfTimes(trace: Trace): Map<string, number> {
+  const childOfMap = getChildOfMap(trace.spans);
+  const selfTimes = new Map<string, number>();
+  trace.spans.forEach(span => {
+    selfTimes.set(span.spanID, computeSelfTime(span, childOfMap[span.spanID] || []));
+  });
+  return selfTimes;
+}
+
+export default memoizeOne(getTraceSelfTimes);
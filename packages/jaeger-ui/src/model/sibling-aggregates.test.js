@@ -0,0 +1,97 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { findSiblingAggregates, getSiblingAggregates } from './sibling-aggregates';
+
+describe('findSiblingAggregates', () => {
+  const span = (spanID, depth, operationName, startTime = 0, duration = 10, serviceName = 'svc') => ({
+    depth,
+    duration,
+    operationName,
+    process: { serviceName },
+    spanID,
+    startTime,
+  });
+
+  // root
+  // - query 1
+  // --- read
+  // --- read
+  // - query 2
+  // - query 3
+  // - render
+  // - query 4
+  const spans = [
+    span('root', 0, 'root', 0, 100),
+    span('q1', 1, 'query', 0, 10),
+    span('r1', 2, 'read', 1, 2),
+    span('r2', 2, 'read', 4, 2),
+    span('q2', 1, 'query', 5, 20),
+    span('q3', 1, 'query', 30, 5),
+    span('render', 1, 'render', 40, 5),
+    span('q4', 1, 'query', 50, 5),
+  ];
+
+  it('aggregates consecutive siblings with the same service and operation', () => {
+    const aggregates = findSiblingAggregates(spans);
+    expect([...aggregates.keys()]).toEqual([1, 2]);
+    const queries = aggregates.get(1);
+    expect(queries).toEqual(
+      expect.objectContaining({
+        key: 'q1',
+        startIndex: 1,
+        endIndex: 6,
+        totalDuration: 35,
+        minDuration: 5,
+        maxDuration: 20,
+      })
+    );
+    expect(queries.siblings.map(s => s.spanID)).toEqual(['q1', 'q2', 'q3']);
+    expect(aggregates.get(2)).toEqual(expect.objectContaining({ key: 'r1', startIndex: 2, endIndex: 4 }));
+  });
+
+  it('merges the overlapping extents of the siblings', () => {
+    expect(findSiblingAggregates(spans).get(1).extents).toEqual([
+      [0, 25],
+      [30, 35],
+    ]);
+  });
+
+  it('does not aggregate siblings of other services or single spans', () => {
+    const other = [
+      span('root', 0, 'root'),
+      span('a', 1, 'query'),
+      span('b', 1, 'query', 0, 10, 'other'),
+      span('c', 1, 'query', 0, 10, 'other'),
+    ];
+    const aggregates = findSiblingAggregates(other);
+    expect([...aggregates.keys()]).toEqual([2]);
+    expect(aggregates.get(2).endIndex).toBe(4);
+  });
+
+  it('does not aggregate spans at the same depth under different parents', () => {
+    const cousins = [
+      span('root', 0, 'root'),
+      span('p1', 1, 'p'),
+      span('a', 2, 'query'),
+      span('p2', 1, 'p2'),
+      span('b', 2, 'query'),
+    ];
+    expect(findSiblingAggregates(cousins).size).toBe(0);
+  });
+
+  it('memoizes the aggregates of the spans', () => {
+    expect(getSiblingAggregates(spans)).toBe(getSiblingAggregates(spans));
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { Span } from '../types/trace';
+
+// the fewest consecutive siblings that are aggregated
+export const MIN_AGGREGATE_SIZE = 2;
+
+/**
+ * Consecutive siblings with the same service and operation, e.g. the queries
+ * made in a loop, which can be shown as one row.
+ */
+export type TSiblingAggregate = {
+  // the ID of the first sibling, which identifies the aggregate in the view state
+  key: string;
+  // the index of the first sibling, and the index after the subtree of the last one
+  startIndex: number;
+  endIndex: number;
+  siblings: Span[];
+  totalDuration: number;
+  minDuration: number;
+  maxDuration: number;
+  // the time ranges covered by the siblings, merged where they overlap
+  extents: [number, number][];
+};
+
+// the index after the subtree of each span, spans are in depth-first order
+function getSubtreeEnds(spans: Span[]) {
+  const ends = new Int32Array(spans.length);
+  const open: number[] = [];
+  spans.forEach((span, i) => {
+    while (open.length && spans[open[open.length - 1]].depth >= span.depth) {
+      ends[open.pop()!] = i;
+    }
+    open.push(i);
+  });
+  open.forEach(i => {
+    ends[i] = spans.length;
+  });
+  return ends;
+}
+
+function isSameOperation(a: Span, b: Span) {
+  return a.operationName === b.operationName && a.process.serviceName === b.process.serviceName;
+}
+
+function getExtents(siblings: Span[]) {
+  const sorted = siblings.slice().sort((a, b) => a.startTime - b.startTime);
+  const extents: [number, number][] = [];
+  sorted.forEach(({ startTime, duration }) => {
+    const last = extents[extents.length - 1];
+    if (last && startTime <= last[1]) {
+      last[1] = Math.max(last[1], startTime + duration);
+    } else {
+      extents.push([startTime, startTime + duration]);
+    }
+  });
+  return extents;
+}
+
+function createAggregate(spans: Span[], siblingIndices: number[], endIndex: number): TSiblingAggregate {
+  const siblings = siblingIndices.map(i => spans[i]);
+  let totalDuration = 0;
+  let minDuration = Infinity;
+  let maxDuration = -Infinity;
+  siblings.forEach(({ duration }) => {
+    totalDuration += duration;
+    minDuration = Math.min(minDuration, duration);
+    maxDuration = Math.max(maxDuration, duration);
+  });
+  return {
+    key: siblings[0].spanID,
+    startIndex: siblingIndices[0],
+    endIndex,
+    siblings,
+    totalDuration,
+    minDuration,
+    maxDuration,
+    extents: getExtents(siblings),
+  };
+}
+
+/**
+ * Finds the runs of at least `MIN_AGGREGATE_SIZE` consecutive siblings with
+ * the same service and operation, by the index of their first span. Runs
+ * nested in the subtree of another run are found as well.
+ */
+export function findSiblingAggregates(spans: Span[]): Map<number, TSiblingAggregate> {
+  const ends = getSubtreeEnds(spans);
+  // the siblings after the first one of a run
+  const isContinuation = new Uint8Array(spans.length);
+  const aggregates = new Map<number, TSiblingAggregate>();
+  for (let i = 0; i < spans.length; i++) {
+    if (isContinuation[i]) {
+      continue;
+    }
+    const siblingIndices = [i];
+    let next = ends[i];
+    while (
+      next < spans.length &&
+      spans[next].depth === spans[i].depth &&
+      isSameOperation(spans[i], spans[next])
+    ) {
+      isContinuation[next] = 1;
+      siblingIndices.push(next);
+      next = ends[next];
+    }
+    if (siblingIndices.length >= MIN_AGGREGATE_SIZE) {
+      aggregates.set(i, createAggregate(spans, siblingIndices, next));
+    }
+  }
+  return aggregates;
+}
+
+// the aggregates are shared by the rows of the timeline and the keyboard selection
+export const getSiblingAggregates = memoizeOne(findSiblingAggregates);
@@ -20,35 +20,46 @@ import { Trace } from '../../types/trace';
 
 export default class TraceDag<TData extends { [k: string]: unknown }> {
   static newFromTrace(trace: Trace, idFactory: TIdFactory = ancestralPathParentOrLeaf) {
+    return TraceDag.newFromTraces([trace], idFactory);
+  }
+
+  /**
+   * Merges the spans of many traces into one DAG, the spans of each node are
+   * the spans of all the traces having that node.
+   */
+  static newFromTraces(traces: Trace[], idFactory: TIdFactory = ancestralPathParentOrLeaf) {
     const dag: TraceDag<TDenseSpanMembers> = new TraceDag();
-    const { denseSpansMap, rootIDs } = new DenseTrace(trace);
 
-    function addDenseSpan(denseSpan: TDenseSpan | undefined, parentNodeID: NodeID | null) {
-      if (!denseSpan) {
-        // eslint-disable-next-line no-console
-        console.warn(`Missing dense span`);
-        return;
-      }
-      const { children, operation, service, skipToChild } = denseSpan;
-      let id: NodeID | null;
-
-      if (!skipToChild) {
-        id = idFactory(denseSpan, parentNodeID);
-        const node =
-          dag.getNode(id) ||
-          dag.addNode(id, parentNodeID, {
-            operation,
-            service,
-            members: [],
-          });
-        node.members.push(denseSpan);
-      } else {
-        id = parentNodeID;
+    traces.forEach(trace => {
+      const { denseSpansMap, rootIDs } = new DenseTrace(trace);
+
+      function addDenseSpan(denseSpan: TDenseSpan | undefined, parentNodeID: NodeID | null) {
+        if (!denseSpan) {
+          // eslint-disable-next-line no-console
+          console.warn(`Missing dense span`);
+          return;
+        }
+        const { children, operation, service, skipToChild } = denseSpan;
+        let id: NodeID | null;
+
+        if (!skipToChild) {
+          id = idFactory(denseSpan, parentNodeID);
+          const node =
+            dag.getNode(id) ||
+            dag.addNode(id, parentNodeID, {
+              operation,
+              service,
+              members: [],
+            });
+          node.members.push(denseSpan);
+        } else {
+          id = parentNodeID;
+        }
+        children.forEach(childId => addDenseSpan(denseSpansMap.get(childId), id));
       }
-      children.forEach(childId => addDenseSpan(denseSpansMap.get(childId), id));
-    }
 
-    rootIDs.forEach(rootId => addDenseSpan(denseSpansMap.get(rootId), null));
+      rootIDs.forEach(rootId => addDenseSpan(denseSpansMap.get(rootId), null));
+    });
     return dag;
   }
 
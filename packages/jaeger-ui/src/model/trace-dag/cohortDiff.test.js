@@ -0,0 +1,111 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import cohortDiff, { getCohortStats, percentile } from './cohortDiff';
+import TraceDag from './TraceDag';
+
+function makeSpan(spanID, operationName, duration, parentID, tags = []) {
+  return {
+    spanID,
+    operationName,
+    duration,
+    process: { serviceName: 'svc' },
+    references: parentID ? [{ refType: 'CHILD_OF', spanID: parentID }] : [],
+    tags,
+  };
+}
+
+// a root span with one child per given duration
+function makeTrace(childDurations, childTags = []) {
+  return {
+    spans: [
+      makeSpan('root', 'root', 100),
+      ...childDurations.map((duration, i) => makeSpan(`child-${i}`, 'child', duration, 'root', childTags)),
+    ],
+  };
+}
+
+const errorTag = { key: 'error', value: true };
+
+describe('percentile()', () => {
+  it('returns 0 without values', () => {
+    expect(percentile([], 95)).toBe(0);
+  });
+
+  it('returns the nearest-rank percentile', () => {
+    const values = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(percentile(values, 95)).toBe(19);
+    expect(percentile(values, 50)).toBe(10);
+    expect(percentile(values, 100)).toBe(20);
+    expect(percentile([7], 95)).toBe(7);
+  });
+});
+
+describe('TraceDag.newFromTraces()', () => {
+  it('merges the spans of the traces into the nodes', () => {
+    const dag = TraceDag.newFromTraces([makeTrace([10]), makeTrace([20, 30])]);
+    expect(dag.nodesMap.size).toBe(2);
+    const members = Array.from(dag.nodesMap.values()).map(node => node.members.length);
+    expect(members.sort()).toEqual([2, 3]);
+  });
+});
+
+describe('getCohortStats()', () => {
+  it('returns null without members', () => {
+    expect(getCohortStats(null, 3)).toBe(null);
+    expect(getCohortStats([], 3)).toBe(null);
+  });
+
+  it('computes the count, durations and error rate of the members', () => {
+    const members = [10, 40, 30, 20].map((duration, i) => ({
+      span: makeSpan(String(i), 'op', duration, null, i === 0 ? [errorTag] : []),
+    }));
+    expect(getCohortStats(members, 2)).toEqual({
+      count: 4,
+      countPerTrace: 2,
+      meanDuration: 25,
+      p95Duration: 40,
+      errorRate: 0.25,
+    });
+  });
+});
+
+describe('cohortDiff()', () => {
+  const getNode = (dag, operation) =>
+    Array.from(dag.nodesMap.values()).find(node => node.operation === operation);
+
+  it('has the statistics of both cohorts on shared nodes', () => {
+    const dag = cohortDiff([makeTrace([10]), makeTrace([30])], [makeTrace([50, 70], [errorTag])]);
+    const child = getNode(dag, 'child');
+    expect(child.a).toEqual({ count: 2, countPerTrace: 1, meanDuration: 20, p95Duration: 30, errorRate: 0 });
+    expect(child.b).toEqual({ count: 2, countPerTrace: 2, meanDuration: 60, p95Duration: 70, errorRate: 1 });
+    expect(child.members).toHaveLength(4);
+  });
+
+  it('has null statistics for the cohort without the node', () => {
+    const dag = cohortDiff([{ spans: [makeSpan('root', 'root', 100)] }], [makeTrace([10])]);
+    expect(getNode(dag, 'root').a).not.toBe(null);
+    expect(getNode(dag, 'child').a).toBe(null);
+    expect(getNode(dag, 'child').b.count).toBe(1);
+  });
+
+  it('keeps the structure of the DAG', () => {
+    const dag = cohortDiff([makeTrace([10])], [makeTrace([20])]);
+    const root = getNode(dag, 'root');
+    const child = getNode(dag, 'child');
+    expect(dag.rootIDs).toEqual(new Set([root.id]));
+    expect(child.parentID).toBe(root.id);
+    expect(root.children).toEqual(new Set([child.id]));
+  });
+});
@@ -0,0 +1,65 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import TraceDag from './TraceDag';
+import { TCohortDiffStats, TCohortStats, TDenseSpan } from './types';
+import { isErrorTag } from '../trace-facets';
+import { Trace } from '../../types/trace';
+
+/**
+ * The nearest-rank percentile of values sorted in ascending order.
+ */
+export function percentile(sorted: number[], p: number) {
+  if (!sorted.length) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank, 1) - 1];
+}
+
+export function getCohortStats(members: TDenseSpan[] | null, traceCount: number): TCohortStats | null {
+  if (!members || !members.length) {
+    return null;
+  }
+  const durations = members.map(({ span }) => span.duration).sort((x, y) => x - y);
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  const errors = members.filter(({ span }) => span.tags.some(isErrorTag)).length;
+  return {
+    count: members.length,
+    countPerTrace: traceCount ? members.length / traceCount : 0,
+    meanDuration: total / members.length,
+    p95Duration: percentile(durations, 95),
+    errorRate: errors / members.length,
+  };
+}
+
+/**
+ * Compares two cohorts of traces, e.g. the results of a search before and after
+ * a deploy. Each cohort is aggregated into a DAG and the nodes of the diff have
+ * the statistics of their spans in each cohort.
+ */
+export default function cohortDiff(a: Trace[], b: Trace[]) {
+  const diff = TraceDag.diff(TraceDag.newFromTraces(a), TraceDag.newFromTraces(b));
+  const dag = new TraceDag<TCohortDiffStats>();
+  diff.nodesMap.forEach(node => {
+    dag.addNode(node.id, node.parentID, {
+      members: node.members,
+      operation: node.operation,
+      service: node.service,
+      a: getCohortStats(node.a, a.length),
+      b: getCohortStats(node.b, b.length),
+    });
+  });
+  return dag;
+}
@@ -38,3 +38,19 @@ export type TDiffCounts = TDenseSpanMembers & {
   a: TDenseSpan[] | null;
   b: TDenseSpan[] | null;
 };
+
+export type TCohortStats = {
+  // the number of spans of the node in the cohort
+  count: number;
+  // the mean number of spans of the node per trace of the cohort
+  countPerTrace: number;
+  meanDuration: number;
+  p95Duration: number;
+  // the share of the spans of the node having an error, from 0 to 1
+  errorRate: number;
+};
+
+export type TCohortDiffStats = TDenseSpanMembers & {
+  a: TCohortStats | null;
+  b: TCohortStats | null;
+};
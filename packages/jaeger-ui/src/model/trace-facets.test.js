@@ -0,0 +1,134 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  EMPTY_FILTERS,
+  filterTraces,
+  getDurationBuckets,
+  getTraceFacets,
+  isFiltered,
+  DURATION_BUCKET_COUNT,
+} from './trace-facets';
+
+function makeTrace(traceID, duration, spans) {
+  return {
+    traceID,
+    duration,
+    traceName: `${spans[0][0]}: ${spans[0][1]}`,
+    spans: spans.map(([serviceName, operationName, tags = []]) => ({
+      operationName,
+      process: { serviceName },
+      tags,
+    })),
+  };
+}
+
+const a = makeTrace('a', 100, [
+  ['frontend', 'GET /'],
+  ['cart', 'add', [{ key: 'error', value: true }]],
+]);
+const b = makeTrace('b', 1000, [
+  ['frontend', 'GET /'],
+  ['db', 'select', [{ key: 'db.system', value: 'mysql' }]],
+  ['db', 'select', [{ key: 'db.system', value: 'mysql' }]],
+]);
+const c = makeTrace('c', 550, [['cart', 'checkout', [{ key: 'error', value: 'true' }]]]);
+const traces = [a, b, c];
+
+const ids = filtered => filtered.map(trace => trace.traceID);
+
+describe('getTraceFacets()', () => {
+  it('counts the traces having each value', () => {
+    const facets = getTraceFacets(traces);
+    expect(facets.services).toEqual([
+      { value: 'cart', count: 2 },
+      { value: 'frontend', count: 2 },
+      { value: 'db', count: 1 },
+    ]);
+    expect(facets.rootOperations).toEqual([
+      { value: 'frontend: GET /', count: 2 },
+      { value: 'cart: checkout', count: 1 },
+    ]);
+    expect(facets.errors).toEqual([
+      { value: true, count: 2 },
+      { value: false, count: 1 },
+    ]);
+    expect(facets.spanCount).toEqual({ min: 1, max: 3 });
+    expect(facets.tags).toEqual([
+      { value: 'error=true', count: 2 },
+      { value: 'db.system=mysql', count: 1 },
+    ]);
+  });
+
+  it('is not recomputed when the same traces are sorted differently', () => {
+    expect(getTraceFacets([c, b, a])).toBe(getTraceFacets(traces));
+    expect(getTraceFacets([a, b])).not.toBe(getTraceFacets(traces));
+  });
+});
+
+describe('getDurationBuckets()', () => {
+  it('splits the durations in buckets of the same width', () => {
+    const buckets = getDurationBuckets(traces);
+    expect(buckets.length).toBe(DURATION_BUCKET_COUNT);
+    expect(buckets[0]).toEqual({ value: { start: 100, end: 191 }, count: 1 });
+    expect(buckets[4]).toEqual({ value: { start: 464, end: 555 }, count: 1 });
+    expect(buckets[9]).toEqual({ value: { start: 919, end: 1001 }, count: 1 });
+  });
+
+  it('handles traces of the same duration', () => {
+    expect(getDurationBuckets([a, a])).toEqual([{ value: { start: 100, end: 101 }, count: 2 }]);
+    expect(getDurationBuckets([])).toEqual([]);
+  });
+});
+
+describe('filterTraces()', () => {
+  it('returns the traces as is without filters', () => {
+    expect(isFiltered(EMPTY_FILTERS)).toBe(false);
+    expect(filterTraces(traces, EMPTY_FILTERS)).toBe(traces);
+  });
+
+  it('keeps traces matching any value of a facet', () => {
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, services: ['db', 'cart'] }))).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, rootOperations: ['cart: checkout'] }))).toEqual([
+      'c',
+    ]);
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, errors: [false] }))).toEqual(['b']);
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, durations: [{ start: 500, end: 1000 }] }))).toEqual([
+      'c',
+    ]);
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, spanCount: [2, 3] }))).toEqual(['a', 'b']);
+    expect(ids(filterTraces(traces, { ...EMPTY_FILTERS, tags: ['db.system=mysql'] }))).toEqual(['b']);
+  });
+
+  it('keeps traces matching all facets', () => {
+    const filters = { ...EMPTY_FILTERS, services: ['cart'], errors: [true], spanCount: [1, 1] };
+    expect(isFiltered(filters)).toBe(true);
+    expect(ids(filterTraces(traces, filters))).toEqual(['c']);
+  });
+
+  it('does not count the placeholders of missing parents as spans', () => {
+    const orphans = makeTrace('d', 100, [
+      ['cart', '<missing span>'],
+      ['cart', 'add'],
+    ]);
+    orphans.spans[0].isPlaceholder = true;
+    orphans.missingParentIDs = ['x'];
+    expect(getTraceFacets([orphans]).spanCount).toEqual({ min: 1, max: 1 });
+    expect(ids(filterTraces([orphans], { ...EMPTY_FILTERS, spanCount: [1, 1] }))).toEqual(['d']);
+  });
+});
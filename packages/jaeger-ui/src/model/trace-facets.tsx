@@ -0,0 +1,200 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+import { KeyValuePair, Trace } from '../types/trace';
+
+export const DURATION_BUCKET_COUNT = 10;
+export const TOP_TAG_COUNT = 10;
+// separates the key and the value of a tag facet
+export const TAG_SEPARATOR = '=';
+
+export type TFacetValue<T = string> = {
+  value: T;
+  count: number;
+};
+
+export type TDurationBucket = {
+  // inclusive
+  start: number;
+  // exclusive
+  end: number;
+};
+
+export type TTraceFacets = {
+  services: TFacetValue[];
+  rootOperations: TFacetValue[];
+  errors: TFacetValue<boolean>[];
+  durations: TFacetValue<TDurationBucket>[];
+  spanCount: { min: number; max: number };
+  tags: TFacetValue[];
+};
+
+/**
+ * The values selected in each facet. A trace is kept when it matches every
+ * facet that has a selection, and a facet matches when any of its selected
+ * values does.
+ */
+export type TTraceFacetFilters = {
+  services: string[];
+  rootOperations: string[];
+  errors: boolean[];
+  durations: TDurationBucket[];
+  // inclusive range, `null` to keep any number of spans
+  spanCount: [number, number] | null;
+  tags: string[];
+};
+
+export const EMPTY_FILTERS: TTraceFacetFilters = {
+  services: [],
+  rootOperations: [],
+  errors: [],
+  durations: [],
+  spanCount: null,
+  tags: [],
+};
+
+export const isErrorTag = ({ key, value }: KeyValuePair<unknown>) =>
+  key === 'error' && (value === true || value === 'true');
+
+// the spans of the trace without the placeholders of missing parents
+function getSpans(trace: Trace) {
+  return trace.missingParentIDs && trace.missingParentIDs.length
+    ? trace.spans.filter(span => !span.isPlaceholder)
+    : trace.spans;
+}
+
+export function hasError(trace: Trace) {
+  return getSpans(trace).some(span => span.tags.some(isErrorTag));
+}
+
+function getServices(trace: Trace) {
+  return new Set(getSpans(trace).map(span => span.process.serviceName));
+}
+
+function getTags(trace: Trace) {
+  const tags = new Set<string>();
+  getSpans(trace).forEach(span =>
+    span.tags.forEach(({ key, value }) => tags.add(`${key}${TAG_SEPARATOR}${String(value)}`))
+  );
+  return tags;
+}
+
+function countValues<T>(traces: Trace[], getValues: (trace: Trace) => Iterable<T>): TFacetValue<T>[] {
+  const counts = new Map<T, number>();
+  traces.forEach(trace => {
+    Array.from(getValues(trace)).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+}
+
+// exported for tests
+export function getDurationBuckets(traces: Trace[]): TFacetValue<TDurationBucket>[] {
+  if (!traces.length) {
+    return [];
+  }
+  const durations = traces.map(trace => trace.duration);
+  const min = Math.min(...durations);
+  // the end of the last bucket is exclusive, leave room for the longest trace
+  const max = Math.max(...durations) + 1;
+  const width = Math.ceil((max - min) / DURATION_BUCKET_COUNT);
+  const buckets: TFacetValue<TDurationBucket>[] = [];
+  for (let start = min; start < max; start += width) {
+    buckets.push({ value: { start, end: Math.min(start + width, max) }, count: 0 });
+  }
+  durations.forEach(duration => {
+    buckets[Math.floor((duration - min) / width)].count++;
+  });
+  return buckets;
+}
+
+function computeTraceFacets(traces: Trace[]): TTraceFacets {
+  const spanCounts = traces.map(trace => getSpans(trace).length);
+  return {
+    services: countValues(traces, getServices),
+    rootOperations: countValues(traces, trace => [trace.traceName]),
+    errors: countValues(traces, trace => [hasError(trace)]),
+    durations: getDurationBuckets(traces),
+    spanCount: {
+      min: spanCounts.length ? Math.min(...spanCounts) : 0,
+      max: spanCounts.length ? Math.max(...spanCounts) : 0,
+    },
+    tags: countValues(traces, getTags).slice(0, TOP_TAG_COUNT),
+  };
+}
+
+// sorting the search results creates a new array of the same traces
+function isSameTraces([a]: Trace[][], [b]: Trace[][]) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  const traces = new Set(a);
+  return b.every(trace => traces.has(trace));
+}
+
+/**
+ * Counts the traces having each value of the facets shown next to the search
+ * results.
+ */
+export const getTraceFacets = memoizeOne(computeTraceFacets, isSameTraces);
+
+export function isFiltered(filters: TTraceFacetFilters) {
+  return Boolean(
+    filters.services.length ||
+      filters.rootOperations.length ||
+      filters.errors.length ||
+      filters.durations.length ||
+      filters.spanCount ||
+      filters.tags.length
+  );
+}
+
+/**
+ * Keeps the traces matching the selected facet values, in their original order.
+ */
+export function filterTraces(traces: Trace[], filters: TTraceFacetFilters): Trace[] {
+  if (!isFiltered(filters)) {
+    return traces;
+  }
+  const { services, rootOperations, errors, durations, spanCount, tags } = filters;
+  return traces.filter(trace => {
+    if (services.length) {
+      const traceServices = getServices(trace);
+      if (!services.some(service => traceServices.has(service))) return false;
+    }
+    if (rootOperations.length && !rootOperations.includes(trace.traceName)) {
+      return false;
+    }
+    if (errors.length && !errors.includes(hasError(trace))) {
+      return false;
+    }
+    if (
+      durations.length &&
+      !durations.some(({ start, end }) => trace.duration >= start && trace.duration < end)
+    ) {
+      return false;
+    }
+    if (spanCount) {
+      const count = getSpans(trace).length;
+      if (count < spanCount[0] || count > spanCount[1]) return false;
+    }
+    if (tags.length) {
+      const traceTags = getTags(trace);
+      if (!tags.some(tag => traceTags.has(tag))) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,144 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chromeTraceToJaeger, { isChromeTrace, MISSING_END_WARNING } from './chrome';
+import transformTraceData from '../transform-trace-data';
+
+const events = [
+  { ph: 'M', name: 'process_name', pid: 1, args: { name: 'tsc' } },
+  { ph: 'M', name: 'thread_name', pid: 1, tid: 7, args: { name: 'main' } },
+  {
+    ph: 'X',
+    name: 'build',
+    cat: 'program',
+    pid: 1,
+    tid: 7,
+    ts: 100,
+    dur: 1000,
+    args: { configFile: 'a.json' },
+  },
+  { ph: 'B', name: 'parse', pid: 1, tid: 7, ts: 200.4, args: { file: 'a.ts' } },
+  { ph: 'i', name: 'cache-miss', pid: 1, tid: 7, ts: 250, args: { key: 'a' } },
+  { ph: 'E', pid: 1, tid: 7, ts: 400, args: { bytes: 42 } },
+  { ph: 'X', name: 'check', pid: 1, tid: 7, ts: 400, dur: 500 },
+  { ph: 'X', name: 'worker', pid: 2, tid: 1, ts: 150, dur: 100 },
+  { ph: 'C', name: 'counter', pid: 1, ts: 300, args: { value: 1 } },
+];
+
+describe('isChromeTrace()', () => {
+  it('accepts the object and the array format', () => {
+    expect(isChromeTrace({ traceEvents: events })).toBe(true);
+    expect(isChromeTrace(events)).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isChromeTrace({ traceEvents: [] })).toBe(false);
+    expect(isChromeTrace([{ traceId: 'a', id: 'b' }])).toBe(false);
+    expect(isChromeTrace({ data: [] })).toBe(false);
+    expect(isChromeTrace(null)).toBe(false);
+  });
+});
+
+describe('chromeTraceToJaeger()', () => {
+  const { data } = chromeTraceToJaeger({ traceEvents: events, displayTimeUnit: 'ms' });
+  const [trace] = data;
+  const [build, parse, check, worker] = trace.spans;
+
+  it('creates one trace with a stable ID', () => {
+    expect(data.length).toBe(1);
+    expect(trace.traceID).toMatch(/^[0-9a-f]{32}$/);
+    expect(chromeTraceToJaeger(events).data[0].traceID).toBe(trace.traceID);
+    expect(chromeTraceToJaeger(events.slice(0, -1)).data[0].traceID).not.toBe(trace.traceID);
+    // profiles with the same first and last events, and as many events
+    const changed = events.map((event, i) => (i === 1 ? { ...event, name: 'other' } : event));
+    expect(chromeTraceToJaeger(changed).data[0].traceID).not.toBe(trace.traceID);
+  });
+
+  it('converts complete and duration events to spans', () => {
+    expect(trace.spans.map(span => span.operationName)).toEqual(['build', 'parse', 'check', 'worker']);
+    expect([build.startTime, build.duration]).toEqual([1, 1000]);
+    expect([parse.startTime, parse.duration]).toEqual([101, 200]);
+    expect([check.startTime, check.duration]).toEqual([301, 500]);
+  });
+
+  it('keeps epoch timestamps', () => {
+    const ts = 1700000000000000;
+    const [span] = chromeTraceToJaeger([{ ph: 'X', name: 'a', pid: 1, tid: 1, ts, dur: 5 }]).data[0].spans;
+    expect(span.startTime).toBe(ts);
+  });
+
+  it('nests events by time per thread', () => {
+    expect(build.references).toEqual([]);
+    expect(parse.references).toEqual([
+      { refType: 'CHILD_OF', traceID: trace.traceID, spanID: build.spanID, span: undefined },
+    ]);
+    expect(check.references[0].spanID).toBe(build.spanID);
+    expect(worker.references).toEqual([]);
+  });
+
+  it('maps pids to processes and names them', () => {
+    expect(trace.processes).toEqual({
+      p1: { serviceName: 'tsc', tags: [{ key: 'pid', type: 'float64', value: 1 }] },
+      p2: { serviceName: 'pid 2', tags: [{ key: 'pid', type: 'float64', value: 2 }] },
+    });
+    expect(worker.processID).toBe('p2');
+  });
+
+  it('converts categories, threads and args to tags', () => {
+    expect(build.tags).toEqual([
+      { key: 'category', type: 'string', value: 'program' },
+      { key: 'thread.id', type: 'float64', value: 7 },
+      { key: 'thread.name', type: 'string', value: 'main' },
+      { key: 'configFile', type: 'string', value: 'a.json' },
+    ]);
+    expect(parse.tags).toContainEqual({ key: 'file', type: 'string', value: 'a.ts' });
+    expect(parse.tags).toContainEqual({ key: 'bytes', type: 'float64', value: 42 });
+  });
+
+  it('converts instant events to logs of the enclosing span', () => {
+    expect(parse.logs).toEqual([
+      {
+        timestamp: 151,
+        fields: [
+          { key: 'event', type: 'string', value: 'cache-miss' },
+          { key: 'key', type: 'string', value: 'a' },
+        ],
+      },
+    ]);
+    expect(build.logs).toEqual([]);
+  });
+
+  it('closes unmatched "B" events at the end of the trace', () => {
+    const [span] = chromeTraceToJaeger([
+      { ph: 'B', name: 'open', pid: 1, tid: 1, ts: 10 },
+      { ph: 'X', name: 'done', pid: 1, tid: 1, ts: 20, dur: 30 },
+    ]).data[0].spans;
+    expect(span.duration).toBe(40);
+    expect(span.warnings).toEqual([MISSING_END_WARNING]);
+  });
+
+  it('produces traces transformTraceData can process', () => {
+    const transformed = transformTraceData(chromeTraceToJaeger(events).data[0]);
+    expect(transformed.spans.map(span => [span.operationName, span.depth])).toEqual([
+      ['build', 0],
+      ['parse', 1],
+      ['check', 1],
+      ['worker', 0],
+    ]);
+  });
+
+  it('throws when there are no spans', () => {
+    expect(() => chromeTraceToJaeger([{ ph: 'i', name: 'x', ts: 1 }])).toThrow('has no complete');
+  });
+});
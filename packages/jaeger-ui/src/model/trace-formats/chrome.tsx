@@ -0,0 +1,229 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import objectHash from 'object-hash';
+
+import { Log, Process, SpanData } from '../../types/trace';
+import { TChromeTrace, TChromeTraceEvent, TRawTrace, TTracesPayload, TTypedKeyValue } from './types';
+
+// Timestamps before this (2001-09-09) are assumed to be relative to an
+// arbitrary clock, e.g. the start of the profiled process.
+const MIN_EPOCH_MICROS = 1e15;
+export const MISSING_END_WARNING = 'Missing "E" event, the span was closed at the end of the trace';
+
+type TInterval = {
+  event: TChromeTraceEvent;
+  start: number;
+  end: number;
+  args: Record<string, unknown>;
+  order: number;
+  warning?: string;
+  logs: Log[];
+  parent?: TInterval;
+  spanID?: string;
+};
+
+function threadKey({ pid, tid }: TChromeTraceEvent) {
+  return `${pid}:${tid}`;
+}
+
+function toTag(key: string, value: unknown): TTypedKeyValue {
+  if (typeof value === 'boolean') return { key, type: 'bool', value };
+  if (typeof value === 'number') return { key, type: 'float64', value };
+  if (typeof value === 'string') return { key, type: 'string', value };
+  return { key, type: 'string', value: JSON.stringify(value) };
+}
+
+function getEvents(input: TChromeTrace) {
+  return Array.isArray(input) ? input : input.traceEvents;
+}
+
+// exported for tests
+export function isChromeTrace(obj: unknown): obj is TChromeTrace {
+  const events = obj && typeof obj === 'object' ? getEvents(obj as TChromeTrace) : null;
+  return (
+    Array.isArray(events) &&
+    events.length > 0 &&
+    events.every(event => event && typeof event === 'object' && typeof event.ph === 'string')
+  );
+}
+
+/**
+ * Converts a Chrome (or Perfetto) Trace Event Format file into the payload
+ * returned by the query service. Complete (`X`) and duration (`B`/`E`) events
+ * become spans, nested by time per thread. Instant events become logs of the
+ * span they occur in, and `process_name`/`thread_name` metadata name the
+ * processes and threads. Other phases are ignored.
+ */
+export default function chromeTraceToJaeger(input: TChromeTrace): TTracesPayload {
+  const events = getEvents(input);
+  const processNames = new Map<string, string>();
+  const threadNames = new Map<string, string>();
+  const open = new Map<string, TInterval[]>();
+  const intervals: TInterval[] = [];
+  const instants: TChromeTraceEvent[] = [];
+  let maxTs = 0;
+
+  events.forEach(event => {
+    const ts = event.ts || 0;
+    // copied because the args of "E" events are merged into the ones of "B" events
+    const args = { ...event.args };
+    const key = threadKey(event);
+    maxTs = Math.max(maxTs, ts + (event.dur || 0));
+    switch (event.ph) {
+      case 'M':
+        if (event.name === 'process_name') processNames.set(String(event.pid), String(args.name));
+        if (event.name === 'thread_name') threadNames.set(key, String(args.name));
+        break;
+      case 'X':
+        intervals.push({
+          event,
+          args,
+          start: ts,
+          end: ts + (event.dur || 0),
+          order: intervals.length,
+          logs: [],
+        });
+        break;
+      case 'B': {
+        const stack = open.get(key) || [];
+        stack.push({ event, args, start: ts, end: ts, order: intervals.length, logs: [] });
+        intervals.push(stack[stack.length - 1]);
+        open.set(key, stack);
+        break;
+      }
+      case 'E': {
+        const begin = (open.get(key) || []).pop();
+        if (begin) {
+          begin.end = ts;
+          Object.assign(begin.args, args);
+        }
+        break;
+      }
+      case 'i':
+      case 'I':
+        instants.push(event);
+        break;
+      default:
+        break;
+    }
+  });
+  open.forEach(stack =>
+    stack.forEach(interval => {
+      /* eslint-disable no-param-reassign */
+      interval.end = maxTs;
+      interval.warning = MISSING_END_WARNING;
+      /* eslint-enable no-param-reassign */
+    })
+  );
+  if (!intervals.length) {
+    throw new Error('The Chrome trace has no complete ("X") or duration ("B"/"E") events');
+  }
+
+  const minTs = intervals.reduce((min, { start }) => Math.min(min, start), Number.MAX_VALUE);
+  // spans without a start time are discarded by transformTraceData, so relative
+  // timestamps are shifted to start right after the epoch
+  const shift = minTs >= MIN_EPOCH_MICROS ? 0 : 1 - minTs;
+
+  // events on the same thread are nested by time
+  const byThread = new Map<string, TInterval[]>();
+  intervals.forEach(interval => {
+    const key = threadKey(interval.event);
+    const threadIntervals = byThread.get(key);
+    if (threadIntervals) {
+      threadIntervals.push(interval);
+    } else {
+      byThread.set(key, [interval]);
+    }
+  });
+  byThread.forEach(threadIntervals => {
+    threadIntervals.sort((a, b) => a.start - b.start || b.end - a.end || a.order - b.order);
+    const stack: TInterval[] = [];
+    threadIntervals.forEach(interval => {
+      while (stack.length && stack[stack.length - 1].end <= interval.start) {
+        stack.pop();
+      }
+      if (stack.length) {
+        // eslint-disable-next-line no-param-reassign
+        interval.parent = stack[stack.length - 1];
+      }
+      stack.push(interval);
+    });
+  });
+
+  instants.forEach(event => {
+    const ts = event.ts || 0;
+    const owner = (byThread.get(threadKey(event)) || [])
+      .filter(({ start, end }) => start <= ts && ts <= end)
+      .pop();
+    const log = {
+      timestamp: Math.round(ts + shift),
+      fields: [toTag('event', event.name || '')].concat(
+        Object.keys(event.args || {}).map(key => toTag(key, (event.args || {})[key]))
+      ),
+    };
+    // instants outside of any span have nothing to be attached to
+    if (owner) {
+      owner.logs.push(log);
+    }
+  });
+
+  // the whole content, hashing the events as objects is slow for large profiles
+  const traceID = objectHash(JSON.stringify(events), { algorithm: 'md5' });
+  const trace: TRawTrace = { traceID, spans: [], processes: {}, warnings: null };
+  const processIDs = new Map<string, string>();
+  intervals.forEach((interval, i) => {
+    // eslint-disable-next-line no-param-reassign
+    interval.spanID = (i + 1).toString(16).padStart(16, '0');
+  });
+  trace.spans = intervals.map(interval => {
+    const { event, args, parent } = interval;
+    const pid = String(event.pid);
+    let processID = processIDs.get(pid);
+    if (!processID) {
+      processID = `p${processIDs.size + 1}`;
+      processIDs.set(pid, processID);
+      const process: Process = {
+        serviceName: processNames.get(pid) || `pid ${pid}`,
+        tags: [toTag('pid', event.pid)],
+      };
+      trace.processes[processID] = process;
+    }
+    const tags: TTypedKeyValue[] = [];
+    if (event.cat) tags.push(toTag('category', event.cat));
+    if (event.tid != null) tags.push(toTag('thread.id', event.tid));
+    const threadName = threadNames.get(threadKey(event));
+    if (threadName) tags.push(toTag('thread.name', threadName));
+    Object.keys(args).forEach(key => tags.push(toTag(key, args[key])));
+
+    const startTime = Math.round(interval.start + shift);
+    const span: SpanData = {
+      traceID,
+      spanID: interval.spanID as string,
+      operationName: event.name || '',
+      references: parent
+        ? [{ refType: 'CHILD_OF', traceID, spanID: parent.spanID as string, span: undefined }]
+        : [],
+      startTime,
+      duration: Math.round(interval.end + shift) - startTime,
+      tags,
+      logs: interval.logs,
+      processID,
+      warnings: interval.warning ? [interval.warning] : null,
+    };
+    return span;
+  });
+
+  return { data: [trace], total: 0, limit: 0, offset: 0, errors: null };
+}
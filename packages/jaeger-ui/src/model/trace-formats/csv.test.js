@@ -0,0 +1,94 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { escapeCsvValue, SPAN_COLUMNS, traceToCsv } from './csv';
+import transformTraceData from '../transform-trace-data';
+
+const traceID = 'abc123';
+const startTime = 1700000000000000;
+
+const trace = transformTraceData({
+  traceID,
+  processes: { p1: { serviceName: 'frontend', tags: [] } },
+  spans: [
+    {
+      traceID,
+      spanID: 'root',
+      processID: 'p1',
+      operationName: 'GET /',
+      startTime,
+      duration: 1000,
+      references: [],
+      tags: [
+        { key: 'http.status_code', value: 500 },
+        { key: 'note', value: 'said "hi", twice' },
+      ],
+      logs: [],
+    },
+    {
+      traceID,
+      spanID: 'child',
+      processID: 'p1',
+      operationName: 'db',
+      startTime: startTime + 100,
+      duration: 400,
+      references: [{ refType: 'CHILD_OF', traceID, spanID: 'root' }],
+      tags: [
+        { key: 'db.system', value: 'sql' },
+        { key: 'db.system', value: 'mysql' },
+      ],
+      logs: [],
+    },
+  ],
+});
+
+describe('escapeCsvValue()', () => {
+  it('quotes values with separators, quotes and line breaks', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('a\nb')).toBe('"a\nb"');
+    expect(escapeCsvValue(undefined)).toBe('');
+    expect(escapeCsvValue(42)).toBe('42');
+  });
+
+  it('neutralizes values that spreadsheets read as formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(escapeCsvValue('+1+cmd')).toBe("'+1+cmd");
+    expect(escapeCsvValue('-2+3')).toBe("'-2+3");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('\t=1')).toBe("'\t=1");
+    expect(escapeCsvValue('\r=1')).toBe('"\'\r=1"');
+    expect(escapeCsvValue('-1.5')).toBe('-1.5');
+    expect(escapeCsvValue(-42)).toBe('-42');
+    expect(escapeCsvValue('a=b')).toBe('a=b');
+  });
+});
+
+describe('traceToCsv()', () => {
+  const [header, root, child] = traceToCsv(trace).split('\r\n');
+
+  it('has a column per span field and tag key', () => {
+    expect(header).toBe(SPAN_COLUMNS.concat(['tag.db.system', 'tag.http.status_code', 'tag.note']).join(','));
+  });
+
+  it('has a row per span', () => {
+    expect(root).toBe(
+      `${traceID},root,,frontend,GET /,2023-11-14T22:13:20.000Z,${startTime},0,1000,600,,500,"said ""hi"", twice"`
+    );
+    expect(child).toBe(
+      `${traceID},child,root,frontend,db,2023-11-14T22:13:20.000Z,${startTime + 100},100,400,400,sql mysql,,`
+    );
+  });
+});
@@ -0,0 +1,79 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import getSelfTimes from '../self-time';
+import { Trace } from '../../types/trace';
+
+export const SPAN_COLUMNS = [
+  'trace_id',
+  'span_id',
+  'parent_span_id',
+  'service_name',
+  'operation_name',
+  'start_time',
+  'start_time_us',
+  'relative_start_time_us',
+  'duration_us',
+  'self_time_us',
+];
+
+// Prefix of the columns holding the span tags, one column per tag key.
+export const TAG_COLUMN_PREFIX = 'tag.';
+
+// the starts of the values spreadsheets read as formulas, numbers aside
+const FORMULA_START_REGEX = /^[=+\-@\t\r]/;
+const NUMBER_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// exported for tests
+export function escapeCsvValue(value: unknown): string {
+  let str = value == null ? '' : String(value);
+  // tag and log values may come from user input, see CSV injection
+  if (FORMULA_START_REGEX.test(str) && !NUMBER_REGEX.test(str)) {
+    str = `'${str}`;
+  }
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Serializes the spans of a trace as CSV (RFC 4180), one row per span in
+ * timeline order. Tags are flattened into one column per distinct tag key,
+ * repeated keys on the same span are joined with a space.
+ */
+export function traceToCsv(trace: Trace): string {
+  const selfTimes = getSelfTimes(trace);
+  const tagKeys = new Set<string>();
+  trace.spans.forEach(span => span.tags.forEach(tag => tagKeys.add(tag.key)));
+  const sortedTagKeys = Array.from(tagKeys).sort();
+  const header = SPAN_COLUMNS.concat(sortedTagKeys.map(key => `${TAG_COLUMN_PREFIX}${key}`));
+  const rows = trace.spans.map(span => {
+    const parentRef = span.references.find(ref => ref.refType === 'CHILD_OF');
+    const tagValues = new Map<string, string[]>();
+    span.tags.forEach(({ key, value }) => {
+      tagValues.set(key, (tagValues.get(key) || []).concat(String(value)));
+    });
+    return [
+      span.traceID,
+      span.spanID,
+      parentRef ? parentRef.spanID : '',
+      span.process.serviceName,
+      span.operationName,
+      new Date(span.startTime / 1000).toISOString(),
+      span.startTime,
+      span.relativeStartTime,
+      span.duration,
+      selfTimes.get(span.spanID),
+    ].concat(sortedTagKeys.map(key => (tagValues.get(key) || []).join(' ')));
+  });
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
@@ -0,0 +1,39 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import detectTraceFormat, { ETraceFormat } from './detect-format';
+
+describe('detectTraceFormat()', () => {
+  it('detects OTLP', () => {
+    expect(detectTraceFormat({ resourceSpans: [] })).toBe(ETraceFormat.Otlp);
+    expect(detectTraceFormat([{ resourceSpans: [] }, { resourceSpans: [] }])).toBe(ETraceFormat.Otlp);
+  });
+
+  it('detects Chrome traces', () => {
+    expect(detectTraceFormat({ traceEvents: [{ ph: 'X' }] })).toBe(ETraceFormat.ChromeTrace);
+    expect(detectTraceFormat([{ ph: 'B' }, { ph: 'E' }])).toBe(ETraceFormat.ChromeTrace);
+  });
+
+  it('detects Zipkin', () => {
+    expect(detectTraceFormat([{ traceId: 'a', id: 'b' }])).toBe(ETraceFormat.Zipkin);
+    expect(detectTraceFormat([[{ traceId: 'a', id: 'b' }]])).toBe(ETraceFormat.Zipkin);
+  });
+
+  it('defaults to Jaeger', () => {
+    expect(detectTraceFormat({ data: [] })).toBe(ETraceFormat.Jaeger);
+    expect(detectTraceFormat([])).toBe(ETraceFormat.Jaeger);
+    expect(detectTraceFormat(null)).toBe(ETraceFormat.Jaeger);
+    expect(detectTraceFormat(42)).toBe(ETraceFormat.Jaeger);
+  });
+});
@@ -0,0 +1,47 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { isChromeTrace } from './chrome';
+import { isZipkin } from './zipkin';
+
+export enum ETraceFormat {
+  ChromeTrace = 'chrome',
+  Jaeger = 'jaeger',
+  Otlp = 'otlp',
+  Zipkin = 'zipkin',
+}
+
+function isOtlp(obj: unknown) {
+  const hasResourceSpans = (item: unknown) =>
+    Boolean(item) && typeof item === 'object' && 'resourceSpans' in item!;
+  // JSON-per-line files are parsed into an array of OTLP payloads
+  return Array.isArray(obj) ? obj.length > 0 && obj.every(hasResourceSpans) : hasResourceSpans(obj);
+}
+
+/**
+ * Guesses the format of parsed JSON trace data. Anything that is not
+ * recognized as another format is assumed to be Jaeger JSON.
+ */
+export default function detectTraceFormat(obj: unknown): ETraceFormat {
+  if (isOtlp(obj)) {
+    return ETraceFormat.Otlp;
+  }
+  if (isChromeTrace(obj)) {
+    return ETraceFormat.ChromeTrace;
+  }
+  if (isZipkin(obj)) {
+    return ETraceFormat.Zipkin;
+  }
+  return ETraceFormat.Jaeger;
+}
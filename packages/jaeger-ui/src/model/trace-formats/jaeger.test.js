@@ -0,0 +1,70 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { traceToJaeger, traceToJaegerPayload } from './jaeger';
+import traceGenerator from '../../demo/trace-generators';
+import transformTraceData from '../transform-trace-data';
+
+describe('jaeger format', () => {
+  const rawTrace = traceGenerator.trace({ numberOfSpans: 5 });
+  const trace = transformTraceData(rawTrace);
+
+  it('converts a trace back to the JSON it was loaded from', () => {
+    const jaeger = traceToJaeger(trace);
+    expect(jaeger.traceID).toBe(trace.traceID);
+    expect(jaeger.processes).toBe(trace.processes);
+    expect(jaeger.spans.length).toBe(trace.spans.length);
+    jaeger.spans.forEach(span => {
+      expect(Object.keys(span)).not.toContain('depth');
+      expect(Object.keys(span)).not.toContain('process');
+      span.references.forEach(reference => {
+        expect(Object.keys(reference).sort()).toEqual(['refType', 'spanID', 'traceID']);
+      });
+    });
+  });
+
+  it('round-trips through transformTraceData', () => {
+    const roundTripped = transformTraceData(traceToJaeger(trace));
+    expect(roundTripped.spans.map(span => [span.spanID, span.depth, span.startTime])).toEqual(
+      trace.spans.map(span => [span.spanID, span.depth, span.startTime])
+    );
+  });
+
+  it('leaves the placeholders of missing parents out', () => {
+    const orphan = {
+      ...rawTrace.spans[1],
+      traceID: 'orphans-trace-id',
+      references: [{ refType: 'CHILD_OF', traceID: 'orphans-trace-id', spanID: 'missing' }],
+    };
+    const withOrphan = transformTraceData({
+      traceID: 'orphans-trace-id',
+      processes: rawTrace.processes,
+      spans: [orphan],
+    });
+    expect(withOrphan.spans.map(span => span.spanID)).toEqual(['missing', orphan.spanID]);
+    const roundTripped = transformTraceData(traceToJaeger(withOrphan));
+    expect(roundTripped.spans.map(span => [span.spanID, Boolean(span.isPlaceholder)])).toEqual([
+      ['missing', true],
+      [orphan.spanID, false],
+    ]);
+  });
+
+  it('wraps the trace and its annotations like a query service response', () => {
+    const annotations = [{ id: 'a', traceID: trace.traceID, author: '', text: 'slow', createdAt: 1 }];
+    const payload = traceToJaegerPayload(trace, annotations);
+    expect(payload.data).toEqual([traceToJaeger(trace)]);
+    expect(payload.annotations).toBe(annotations);
+    expect(traceToJaegerPayload(trace)).not.toHaveProperty('annotations');
+  });
+});
@@ -0,0 +1,60 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { TRawTrace, TTracesPayload } from './types';
+import { Trace, TraceAnnotation } from '../../types/trace';
+
+/**
+ * Converts a trace back to the JSON of the query service, which `FileLoader`
+ * reads without conversion. The references are reduced to their IDs, as
+ * `transformTraceData` links them to the spans. The placeholders of missing
+ * parents are left out, they would be taken for the parents when loaded.
+ */
+export function traceToJaeger(trace: Trace): TRawTrace {
+  const { processes, traceID } = trace;
+  const spans = trace.spans
+    .filter(span => !span.isPlaceholder)
+    .map(span => ({
+      traceID: span.traceID,
+      spanID: span.spanID,
+      operationName: span.operationName,
+      references: span.references.map(({ refType, spanID, traceID: refTraceID }) => ({
+        refType,
+        spanID,
+        traceID: refTraceID,
+      })),
+      startTime: span.startTime,
+      duration: span.duration,
+      tags: span.tags,
+      logs: span.logs,
+      processID: span.processID,
+      warnings: span.warnings.length ? span.warnings : null,
+    }));
+  return { processes, spans, traceID } as TRawTrace;
+}
+
+/**
+ * Wraps a trace and its annotations like the response of `/api/traces`, so the
+ * annotations are loaded with the trace.
+ */
+export function traceToJaegerPayload(trace: Trace, annotations: TraceAnnotation[] = []): TTracesPayload {
+  return {
+    data: [traceToJaeger(trace)],
+    total: 0,
+    limit: 0,
+    offset: 0,
+    errors: null,
+    ...(annotations.length ? { annotations } : null),
+  };
+}
@@ -0,0 +1,306 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs';
+
+import otlpToJaeger, {
+  convertKeyValue,
+  nanosToMicros,
+  normalizeId,
+  NO_SERVICE_NAME,
+  toOtlpKeyValue,
+  traceToOtlp,
+} from './otlp';
+import transformTraceData from '../transform-trace-data';
+
+const traceId = '83a9efd15c1c98a977e0711cc93ee28b';
+const parentId = '909541b92cf05311';
+const spanId = 'e127af99e3b3e074';
+
+function makeOtlp(span, resourceAttributes = [{ key: 'service.name', value: { stringValue: 'svc' } }]) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: resourceAttributes },
+        scopeSpans: [
+          {
+            scope: { name: 'lib', version: '1.0.0' },
+            spans: [
+              {
+                traceId,
+                spanId,
+                name: 'op',
+                startTimeUnixNano: '1706678909209712000',
+                endTimeUnixNano: '1706678909209835000',
+                ...span,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('normalizeId()', () => {
+  it('lowercases hex IDs', () => {
+    expect(normalizeId('E127AF99E3B3E074', 8, 'span ID')).toBe(spanId);
+  });
+
+  it('decodes base64 IDs', () => {
+    expect(normalizeId('4SevmeOz4HQ=', 8, 'span ID')).toBe(spanId);
+    expect(normalizeId('g6nv0VwcmKl34HEcyT7iiw==', 16, 'trace ID')).toBe(traceId);
+  });
+
+  it('pads short hex IDs', () => {
+    expect(normalizeId('abc', 8, 'span ID')).toBe('0000000000000abc');
+  });
+
+  it('returns null for empty or all-zero IDs', () => {
+    expect(normalizeId('', 8, 'span ID')).toBe(null);
+    expect(normalizeId(undefined, 8, 'span ID')).toBe(null);
+    expect(normalizeId('0000000000000000', 8, 'span ID')).toBe(null);
+    expect(normalizeId('AAAAAAAAAAA=', 8, 'span ID')).toBe(null);
+  });
+
+  it('throws on invalid IDs', () => {
+    expect(() => normalizeId('not-an-id', 8, 'span ID')).toThrow('Invalid span ID "not-an-id"');
+  });
+});
+
+describe('nanosToMicros()', () => {
+  it('converts strings without losing precision', () => {
+    expect(nanosToMicros('1706678909209712999', 'time')).toBe(1706678909209712);
+    expect(nanosToMicros('999', 'time')).toBe(0);
+  });
+
+  it('converts numbers', () => {
+    expect(nanosToMicros(123456, 'time')).toBe(123);
+  });
+
+  it('throws on invalid timestamps', () => {
+    expect(() => nanosToMicros('yesterday', 'start time')).toThrow('Invalid start time "yesterday"');
+    expect(() => nanosToMicros(undefined, 'start time')).toThrow();
+  });
+});
+
+describe('convertKeyValue()', () => {
+  it('converts scalar values', () => {
+    expect(convertKeyValue({ key: 'a', value: { stringValue: 'x' } })).toEqual({
+      key: 'a',
+      type: 'string',
+      value: 'x',
+    });
+    expect(convertKeyValue({ key: 'b', value: { boolValue: false } })).toEqual({
+      key: 'b',
+      type: 'bool',
+      value: false,
+    });
+    expect(convertKeyValue({ key: 'c', value: { intValue: '42' } })).toEqual({
+      key: 'c',
+      type: 'int64',
+      value: 42,
+    });
+    expect(convertKeyValue({ key: 'd', value: { doubleValue: 0.5 } })).toEqual({
+      key: 'd',
+      type: 'float64',
+      value: 0.5,
+    });
+    expect(convertKeyValue({ key: 'e', value: { bytesValue: 'AQI=' } })).toEqual({
+      key: 'e',
+      type: 'binary',
+      value: 'AQI=',
+    });
+  });
+
+  it('serializes arrays and maps as JSON', () => {
+    const value = {
+      kvlistValue: {
+        values: [
+          { key: 'list', value: { arrayValue: { values: [{ intValue: 1 }, { stringValue: 'two' }] } } },
+        ],
+      },
+    };
+    expect(convertKeyValue({ key: 'f', value })).toEqual({
+      key: 'f',
+      type: 'string',
+      value: '{"list":[1,"two"]}',
+    });
+  });
+
+  it('treats missing values as empty strings', () => {
+    expect(convertKeyValue({ key: 'g' })).toEqual({ key: 'g', type: 'string', value: '' });
+  });
+});
+
+describe('otlpToJaeger()', () => {
+  it('matches the output of the query service', () => {
+    const otlp = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-in.json', 'utf-8'));
+    const expected = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-out.json', 'utf-8'));
+    expect(otlpToJaeger(otlp)).toEqual(expected);
+  });
+
+  it('converts traces that go through transformTraceData', () => {
+    const otlp = JSON.parse(
+      fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in-combined.json', 'utf-8')
+    );
+    const { data } = otlpToJaeger(otlp);
+    expect(data.length).toBe(1);
+    const trace = transformTraceData(data[0]);
+    expect(trace.spans.map(span => [span.operationName, span.depth])).toEqual([
+      ['main', 0],
+      ['info', 1],
+      ['ohboy.do', 2],
+      ['ohboy.do', 2],
+    ]);
+  });
+
+  it('maps resources to processes and reuses identical ones', () => {
+    const otlp = makeOtlp({}, [
+      { key: 'service.name', value: { stringValue: 'svc' } },
+      { key: 'host.name', value: { stringValue: 'host-a' } },
+    ]);
+    otlp.resourceSpans.push(JSON.parse(JSON.stringify(otlp.resourceSpans[0])));
+    otlp.resourceSpans[1].scopeSpans[0].spans[0].spanId = parentId;
+    otlp.resourceSpans.push(makeOtlp({ spanId: 'aaaaaaaaaaaaaaaa' }).resourceSpans[0]);
+    const [trace] = otlpToJaeger(otlp).data;
+    expect(trace.processes).toEqual({
+      p1: { serviceName: 'svc', tags: [{ key: 'host.name', type: 'string', value: 'host-a' }] },
+      p2: { serviceName: 'svc', tags: [] },
+    });
+    expect(trace.spans.map(span => span.processID)).toEqual(['p1', 'p1', 'p2']);
+  });
+
+  it('uses a placeholder service name when the resource has none', () => {
+    const [trace] = otlpToJaeger(makeOtlp({}, [])).data;
+    expect(trace.processes.p1.serviceName).toBe(NO_SERVICE_NAME);
+  });
+
+  it('groups spans by trace ID', () => {
+    const otlp = makeOtlp({});
+    otlp.resourceSpans[0].scopeSpans[0].spans.push({
+      ...otlp.resourceSpans[0].scopeSpans[0].spans[0],
+      traceId: 'ffffffffffffffffffffffffffffffff',
+    });
+    const { data } = otlpToJaeger(otlp);
+    expect(data.map(trace => trace.traceID)).toEqual([traceId, 'ffffffffffffffffffffffffffffffff']);
+    expect(data[1].processes).toEqual(data[0].processes);
+  });
+
+  it('converts kind, status and trace state to tags', () => {
+    const otlp = makeOtlp({
+      kind: 'SPAN_KIND_CLIENT',
+      status: { code: 2, message: 'boom' },
+      traceState: 'vendor=value',
+    });
+    const [span] = otlpToJaeger(otlp).data[0].spans;
+    expect(span.tags).toEqual([
+      { key: 'otel.library.name', type: 'string', value: 'lib' },
+      { key: 'otel.library.version', type: 'string', value: '1.0.0' },
+      { key: 'span.kind', type: 'string', value: 'client' },
+      { key: 'otel.status_code', type: 'string', value: 'ERROR' },
+      { key: 'error', type: 'bool', value: true },
+      { key: 'otel.status_description', type: 'string', value: 'boom' },
+      { key: 'w3c.tracestate', type: 'string', value: 'vendor=value' },
+    ]);
+  });
+
+  it('converts OK status and omits unspecified kinds', () => {
+    const [span] = otlpToJaeger(makeOtlp({ kind: 0, status: { code: 'STATUS_CODE_OK' } })).data[0].spans;
+    expect(span.tags.slice(2)).toEqual([{ key: 'otel.status_code', type: 'string', value: 'OK' }]);
+  });
+
+  it('converts events to logs', () => {
+    const otlp = makeOtlp({
+      events: [
+        {
+          timeUnixNano: '1706678909209800000',
+          name: 'exception',
+          attributes: [{ key: 'exception.message', value: { stringValue: 'oops' } }],
+        },
+      ],
+    });
+    const [span] = otlpToJaeger(otlp).data[0].spans;
+    expect(span.logs).toEqual([
+      {
+        timestamp: 1706678909209800,
+        fields: [
+          { key: 'event', type: 'string', value: 'exception' },
+          { key: 'exception.message', type: 'string', value: 'oops' },
+        ],
+      },
+    ]);
+  });
+
+  it('converts the parent and links to references', () => {
+    const linkedTraceId = 'ffffffffffffffffffffffffffffffff';
+    const otlp = makeOtlp({
+      parentSpanId: parentId,
+      links: [
+        { traceId: linkedTraceId, spanId: 'aaaaaaaaaaaaaaaa' },
+        { traceId: '', spanId: '' },
+      ],
+    });
+    const [span] = otlpToJaeger(otlp).data[0].spans;
+    expect(span.references).toEqual([
+      { refType: 'CHILD_OF', traceID: traceId, spanID: parentId, span: undefined },
+      { refType: 'FOLLOWS_FROM', traceID: linkedTraceId, spanID: 'aaaaaaaaaaaaaaaa', span: undefined },
+    ]);
+  });
+
+  it('throws when the data can not be converted', () => {
+    expect(() => otlpToJaeger({})).toThrow('Invalid OTLP data');
+    expect(() => otlpToJaeger(makeOtlp({ spanId: '' }))).toThrow('has no span ID');
+    expect(() => otlpToJaeger(makeOtlp({ traceId: undefined }))).toThrow('has no trace ID');
+    expect(() => otlpToJaeger(makeOtlp({ startTimeUnixNano: undefined }))).toThrow('Invalid start time');
+  });
+});
+
+describe('toOtlpKeyValue()', () => {
+  it('converts tags to OTLP attributes', () => {
+    expect(toOtlpKeyValue({ key: 'b', value: true })).toEqual({ key: 'b', value: { boolValue: true } });
+    expect(toOtlpKeyValue({ key: 'i', type: 'int64', value: 3 })).toEqual({
+      key: 'i',
+      value: { intValue: '3' },
+    });
+    expect(toOtlpKeyValue({ key: 'd', value: 1.5 })).toEqual({ key: 'd', value: { doubleValue: 1.5 } });
+    expect(toOtlpKeyValue({ key: 's', value: 'x' })).toEqual({ key: 's', value: { stringValue: 'x' } });
+  });
+});
+
+describe('traceToOtlp()', () => {
+  it('converts traces back to the data they were imported from', () => {
+    const otlp = makeOtlp({
+      parentSpanId: parentId,
+      kind: 2,
+      traceState: 'k=v',
+      status: { code: 2, message: 'failed' },
+      attributes: [{ key: 'http.method', value: { stringValue: 'GET' } }],
+      events: [
+        {
+          timeUnixNano: '1706678909209800000',
+          name: 'exception',
+          attributes: [{ key: 'exception.message', value: { stringValue: 'oops' } }],
+        },
+      ],
+    });
+    const trace = transformTraceData(otlpToJaeger(otlp).data[0]);
+    const roundTrip = transformTraceData(otlpToJaeger(traceToOtlp(trace)).data[0]);
+    expect(roundTrip.spans[0].tags).toEqual(trace.spans[0].tags);
+    expect(roundTrip.spans[0].logs).toEqual(trace.spans[0].logs);
+    expect(roundTrip.spans[0].references).toEqual(trace.spans[0].references);
+    expect(roundTrip.processes).toEqual(trace.processes);
+    expect(roundTrip.duration).toBe(trace.duration);
+  });
+});
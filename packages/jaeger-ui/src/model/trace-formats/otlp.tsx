@@ -0,0 +1,422 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { KeyValuePair, Log, Process, Span, SpanData, SpanReference, Trace } from '../../types/trace';
+import {
+  EOtlpSpanKind,
+  EOtlpStatusCode,
+  TOtlpAnyValue,
+  TOtlpKeyValue,
+  TOtlpResourceSpans,
+  TOtlpScopeSpans,
+  TOtlpSpan,
+  TOtlpTracesData,
+  TRawTrace,
+  TTypedKeyValue,
+  TTracesPayload,
+} from './types';
+
+// The tag keys and defaults below mirror the OTLP translator of the query
+// service so a trace looks the same whichever side converted it.
+export const NO_SERVICE_NAME = 'OTLPResourceNoServiceName';
+export const SERVICE_NAME_KEY = 'service.name';
+export const LIBRARY_NAME_KEY = 'otel.library.name';
+export const LIBRARY_VERSION_KEY = 'otel.library.version';
+export const STATUS_CODE_KEY = 'otel.status_code';
+export const STATUS_DESCRIPTION_KEY = 'otel.status_description';
+export const TRACE_STATE_KEY = 'w3c.tracestate';
+export const EVENT_NAME_KEY = 'event';
+
+const TRACE_ID_BYTES = 16;
+const SPAN_ID_BYTES = 8;
+
+const SPAN_KINDS: Record<number, string> = {
+  [EOtlpSpanKind.Internal]: 'internal',
+  [EOtlpSpanKind.Server]: 'server',
+  [EOtlpSpanKind.Client]: 'client',
+  [EOtlpSpanKind.Producer]: 'producer',
+  [EOtlpSpanKind.Consumer]: 'consumer',
+};
+
+const SPAN_KIND_NAMES: Record<string, EOtlpSpanKind> = {
+  SPAN_KIND_INTERNAL: EOtlpSpanKind.Internal,
+  SPAN_KIND_SERVER: EOtlpSpanKind.Server,
+  SPAN_KIND_CLIENT: EOtlpSpanKind.Client,
+  SPAN_KIND_PRODUCER: EOtlpSpanKind.Producer,
+  SPAN_KIND_CONSUMER: EOtlpSpanKind.Consumer,
+};
+
+const STATUS_CODE_NAMES: Record<string, EOtlpStatusCode> = {
+  STATUS_CODE_UNSET: EOtlpStatusCode.Unset,
+  STATUS_CODE_OK: EOtlpStatusCode.Ok,
+  STATUS_CODE_ERROR: EOtlpStatusCode.Error,
+};
+
+const HEX_RE = /^[0-9a-f]+$/i;
+const BASE64_RE = /^[A-Za-z0-9+/]+={0,2}$/;
+const ZERO_ID_RE = /^0*$/;
+
+function base64ToHex(value: string) {
+  const bytes = atob(value);
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes.charCodeAt(i).toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * The OTLP/JSON spec encodes IDs as hex, but the generic protobuf JSON mapping
+ * (used by some exporters) encodes bytes as base64. Both are accepted.
+ *
+ * exported for tests
+ */
+export function normalizeId(value: string | undefined, numBytes: number, name: string): string | null {
+  if (!value || ZERO_ID_RE.test(value)) {
+    return null;
+  }
+  if (HEX_RE.test(value) && value.length === numBytes * 2) {
+    return value.toLowerCase();
+  }
+  if (BASE64_RE.test(value) && value.length % 4 === 0) {
+    const hex = base64ToHex(value);
+    if (hex.length === numBytes * 2) {
+      return ZERO_ID_RE.test(hex) ? null : hex;
+    }
+  }
+  // some SDKs drop leading zeros
+  if (HEX_RE.test(value) && value.length < numBytes * 2) {
+    return value.toLowerCase().padStart(numBytes * 2, '0');
+  }
+  throw new Error(`Invalid ${name} "${value}"`);
+}
+
+/**
+ * Converts a nanosecond timestamp to microseconds. Nanoseconds since the epoch
+ * exceed `Number.MAX_SAFE_INTEGER`, so strings are truncated instead of divided.
+ *
+ * exported for tests
+ */
+export function nanosToMicros(value: string | number | undefined, name: string): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.floor(value / 1000);
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return value.length <= 3 ? 0 : Number(value.slice(0, -3));
+  }
+  throw new Error(`Invalid ${name} "${String(value)}"`);
+}
+
+function toPlainValue(value: TOtlpAnyValue | undefined): unknown {
+  if (!value) {
+    return null;
+  }
+  if (value.stringValue != null) return value.stringValue;
+  if (value.boolValue != null) return value.boolValue;
+  if (value.intValue != null) return Number(value.intValue);
+  if (value.doubleValue != null) return value.doubleValue;
+  if (value.bytesValue != null) return value.bytesValue;
+  if (value.arrayValue) return (value.arrayValue.values || []).map(toPlainValue);
+  if (value.kvlistValue) {
+    const obj: Record<string, unknown> = {};
+    (value.kvlistValue.values || []).forEach(kv => {
+      obj[kv.key] = toPlainValue(kv.value);
+    });
+    return obj;
+  }
+  return null;
+}
+
+// exported for tests
+export function convertKeyValue({ key, value = {} }: TOtlpKeyValue): TTypedKeyValue {
+  if (value.boolValue != null) return { key, type: 'bool', value: value.boolValue };
+  if (value.intValue != null) return { key, type: 'int64', value: Number(value.intValue) };
+  if (value.doubleValue != null) return { key, type: 'float64', value: value.doubleValue };
+  if (value.bytesValue != null) return { key, type: 'binary', value: value.bytesValue };
+  if (value.arrayValue || value.kvlistValue) {
+    return { key, type: 'string', value: JSON.stringify(toPlainValue(value)) };
+  }
+  return { key, type: 'string', value: value.stringValue == null ? '' : value.stringValue };
+}
+
+function stringTag(key: string, value: string): TTypedKeyValue {
+  return { key, type: 'string', value };
+}
+
+function toEnum<T extends number>(value: T | string | undefined, names: Record<string, T>): T | undefined {
+  return typeof value === 'string' ? names[value] : value;
+}
+
+function convertSpan(
+  otlpSpan: TOtlpSpan,
+  traceID: string,
+  processID: string,
+  scopeTags: TTypedKeyValue[]
+): SpanData {
+  const spanID = normalizeId(otlpSpan.spanId, SPAN_ID_BYTES, 'span ID');
+  if (!spanID) {
+    throw new Error(`Span "${otlpSpan.name}" has no span ID`);
+  }
+  const startTime = nanosToMicros(otlpSpan.startTimeUnixNano, 'start time');
+  const endTime = nanosToMicros(otlpSpan.endTimeUnixNano, 'end time');
+
+  const references: SpanReference[] = [];
+  const parentID = normalizeId(otlpSpan.parentSpanId, SPAN_ID_BYTES, 'parent span ID');
+  if (parentID) {
+    references.push({ refType: 'CHILD_OF', traceID, spanID: parentID, span: undefined });
+  }
+  (otlpSpan.links || []).forEach(link => {
+    const linkSpanID = normalizeId(link.spanId, SPAN_ID_BYTES, 'link span ID');
+    const linkTraceID = normalizeId(link.traceId, TRACE_ID_BYTES, 'link trace ID');
+    if (linkSpanID && linkTraceID) {
+      references.push({ refType: 'FOLLOWS_FROM', traceID: linkTraceID, spanID: linkSpanID, span: undefined });
+    }
+  });
+
+  const tags: TTypedKeyValue[] = scopeTags.concat((otlpSpan.attributes || []).map(convertKeyValue));
+  const kind = toEnum(otlpSpan.kind, SPAN_KIND_NAMES);
+  if (kind != null && SPAN_KINDS[kind]) {
+    tags.push(stringTag('span.kind', SPAN_KINDS[kind]));
+  }
+  const status = otlpSpan.status || {};
+  const statusCode = toEnum(status.code, STATUS_CODE_NAMES);
+  if (statusCode === EOtlpStatusCode.Ok) {
+    tags.push(stringTag(STATUS_CODE_KEY, 'OK'));
+  } else if (statusCode === EOtlpStatusCode.Error) {
+    tags.push(stringTag(STATUS_CODE_KEY, 'ERROR'));
+    tags.push({ key: 'error', type: 'bool', value: true });
+  }
+  if (status.message) {
+    tags.push(stringTag(STATUS_DESCRIPTION_KEY, status.message));
+  }
+  if (otlpSpan.traceState) {
+    tags.push(stringTag(TRACE_STATE_KEY, otlpSpan.traceState));
+  }
+
+  const logs: Log[] = (otlpSpan.events || []).map(event => {
+    const fields: TTypedKeyValue[] = (event.attributes || []).map(convertKeyValue);
+    if (event.name) {
+      fields.unshift(stringTag(EVENT_NAME_KEY, event.name));
+    }
+    return { timestamp: nanosToMicros(event.timeUnixNano, 'event time'), fields };
+  });
+
+  return {
+    traceID,
+    spanID,
+    operationName: otlpSpan.name || '',
+    references,
+    startTime,
+    duration: Math.max(0, endTime - startTime),
+    tags,
+    logs,
+    processID,
+    warnings: null,
+  };
+}
+
+/**
+ * Converts OTLP/JSON trace data into the payload the query service returns
+ * from `/api/transform`. Spans are grouped into one trace per trace ID, and
+ * every distinct resource becomes a process of that trace.
+ *
+ * Throws if the data can not be converted, e.g. when IDs or timestamps are
+ * malformed.
+ */
+export default function otlpToJaeger(otlp: TOtlpTracesData): TTracesPayload {
+  if (!otlp || !Array.isArray(otlp.resourceSpans)) {
+    throw new Error('Invalid OTLP data, expected "resourceSpans"');
+  }
+  const traces = new Map<string, TRawTrace>();
+  // per trace: serialized process -> processID
+  const processKeys = new Map<string, Map<string, string>>();
+
+  otlp.resourceSpans.forEach(({ resource, scopeSpans }) => {
+    const attributes = (resource && resource.attributes) || [];
+    const serviceAttr = attributes.find(kv => kv.key === SERVICE_NAME_KEY);
+    const serviceValue = serviceAttr && serviceAttr.value && serviceAttr.value.stringValue;
+    const process: Process = {
+      serviceName: serviceValue || NO_SERVICE_NAME,
+      tags: attributes.filter(kv => kv.key !== SERVICE_NAME_KEY).map(convertKeyValue),
+    };
+    const processKey = JSON.stringify(process);
+
+    (scopeSpans || []).forEach(({ scope, spans }) => {
+      const scopeTags: TTypedKeyValue[] = [];
+      if (scope && scope.name) {
+        scopeTags.push(stringTag(LIBRARY_NAME_KEY, scope.name));
+      }
+      if (scope && scope.version) {
+        scopeTags.push(stringTag(LIBRARY_VERSION_KEY, scope.version));
+      }
+
+      (spans || []).forEach(otlpSpan => {
+        const traceID = normalizeId(otlpSpan.traceId, TRACE_ID_BYTES, 'trace ID');
+        if (!traceID) {
+          throw new Error(`Span "${otlpSpan.name}" has no trace ID`);
+        }
+        let trace = traces.get(traceID);
+        let traceProcesses = processKeys.get(traceID);
+        if (!trace || !traceProcesses) {
+          trace = { traceID, spans: [], processes: {}, warnings: null };
+          traceProcesses = new Map();
+          traces.set(traceID, trace);
+          processKeys.set(traceID, traceProcesses);
+        }
+        let processID = traceProcesses.get(processKey);
+        if (!processID) {
+          processID = `p${traceProcesses.size + 1}`;
+          traceProcesses.set(processKey, processID);
+          trace.processes[processID] = process;
+        }
+        trace.spans.push(convertSpan(otlpSpan, traceID, processID, scopeTags));
+      });
+    });
+  });
+
+  return { data: Array.from(traces.values()), total: 0, limit: 0, offset: 0, errors: null };
+}
+
+const SPAN_KIND_VALUES: Record<string, EOtlpSpanKind> = {
+  internal: EOtlpSpanKind.Internal,
+  server: EOtlpSpanKind.Server,
+  client: EOtlpSpanKind.Client,
+  producer: EOtlpSpanKind.Producer,
+  consumer: EOtlpSpanKind.Consumer,
+};
+
+// tags that are represented by dedicated OTLP fields
+const CONSUMED_TAGS = new Set([
+  LIBRARY_NAME_KEY,
+  LIBRARY_VERSION_KEY,
+  STATUS_CODE_KEY,
+  STATUS_DESCRIPTION_KEY,
+  TRACE_STATE_KEY,
+  'error',
+  'span.kind',
+]);
+
+function microsToNanos(micros: number) {
+  return `${Math.round(micros)}000`;
+}
+
+// exported for tests
+export function toOtlpKeyValue({
+  key,
+  value,
+  type,
+}: KeyValuePair<unknown> & { type?: string }): TOtlpKeyValue {
+  if (type === 'bool' || typeof value === 'boolean') {
+    return { key, value: { boolValue: value === true || value === 'true' } };
+  }
+  if (type === 'int64' || (type == null && Number.isInteger(value))) {
+    return { key, value: { intValue: String(value) } };
+  }
+  if (type === 'float64' || typeof value === 'number') {
+    return { key, value: { doubleValue: Number(value) } };
+  }
+  if (type === 'binary') {
+    return { key, value: { bytesValue: String(value) } };
+  }
+  return { key, value: { stringValue: typeof value === 'string' ? value : JSON.stringify(value) } };
+}
+
+function exportSpan(span: Span): TOtlpSpan {
+  const tagValue = (key: string) => {
+    const tag = span.tags.find(t => t.key === key);
+    return tag ? String(tag.value) : undefined;
+  };
+  const parent = span.references.find(ref => ref.refType === 'CHILD_OF');
+  const statusCode = tagValue(STATUS_CODE_KEY);
+  const isError = statusCode === 'ERROR' || (statusCode == null && tagValue('error') === 'true');
+  const status: TOtlpSpan['status'] = {};
+  if (isError) {
+    status.code = EOtlpStatusCode.Error;
+  } else if (statusCode === 'OK') {
+    status.code = EOtlpStatusCode.Ok;
+  }
+  const statusMessage = tagValue(STATUS_DESCRIPTION_KEY);
+  if (statusMessage) {
+    status.message = statusMessage;
+  }
+  const otlpSpan: TOtlpSpan = {
+    traceId: span.traceID,
+    spanId: span.spanID,
+    parentSpanId: parent ? parent.spanID : '',
+    name: span.operationName,
+    kind: SPAN_KIND_VALUES[tagValue('span.kind') || ''] || EOtlpSpanKind.Unspecified,
+    startTimeUnixNano: microsToNanos(span.startTime),
+    endTimeUnixNano: microsToNanos(span.startTime + span.duration),
+    attributes: span.tags.filter(tag => !CONSUMED_TAGS.has(tag.key)).map(toOtlpKeyValue),
+    events: span.logs.map(log => {
+      const nameField = log.fields.find(field => field.key === EVENT_NAME_KEY);
+      return {
+        timeUnixNano: microsToNanos(log.timestamp),
+        name: nameField ? String(nameField.value) : '',
+        attributes: log.fields.filter(field => field !== nameField).map(toOtlpKeyValue),
+      };
+    }),
+    links: span.references
+      .filter(ref => ref !== parent)
+      .map(ref => ({ traceId: ref.traceID, spanId: ref.spanID })),
+    status,
+  };
+  const traceState = tagValue(TRACE_STATE_KEY);
+  if (traceState) {
+    otlpSpan.traceState = traceState;
+  }
+  return otlpSpan;
+}
+
+/**
+ * Serializes a trace as OTLP/JSON. Every process becomes a resource, and the
+ * instrumentation library tags of the spans become scopes.
+ */
+export function traceToOtlp(trace: Trace): TOtlpTracesData {
+  const scopesByProcess = new Map<string, Map<string, TOtlpScopeSpans>>();
+  trace.spans.forEach(span => {
+    const libraryName = span.tags.find(tag => tag.key === LIBRARY_NAME_KEY);
+    const libraryVersion = span.tags.find(tag => tag.key === LIBRARY_VERSION_KEY);
+    const scope = {
+      name: libraryName ? String(libraryName.value) : '',
+      version: libraryVersion ? String(libraryVersion.value) : undefined,
+    };
+    const scopeKey = `${scope.name}@${scope.version}`;
+    let scopes = scopesByProcess.get(span.processID);
+    if (!scopes) {
+      scopes = new Map();
+      scopesByProcess.set(span.processID, scopes);
+    }
+    let scopeSpans = scopes.get(scopeKey);
+    if (!scopeSpans) {
+      scopeSpans = { scope, spans: [] };
+      scopes.set(scopeKey, scopeSpans);
+    }
+    (scopeSpans.spans as TOtlpSpan[]).push(exportSpan(span));
+  });
+
+  const resourceSpans: TOtlpResourceSpans[] = [];
+  scopesByProcess.forEach((scopes, processID) => {
+    const process = trace.processes[processID];
+    resourceSpans.push({
+      resource: {
+        attributes: [toOtlpKeyValue({ key: SERVICE_NAME_KEY, value: process.serviceName })].concat(
+          process.tags.map(toOtlpKeyValue)
+        ),
+      },
+      scopeSpans: Array.from(scopes.values()),
+    });
+  });
+  return { resourceSpans };
+}
@@ -0,0 +1,104 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs';
+import lodash from 'lodash';
+
+import parseTraceFile from './parse';
+import transformTraceData from '../transform-trace-data';
+
+let OTLPTrace;
+let jaegerTrace;
+let jaegerTraceMulti;
+
+beforeAll(() => {
+  OTLPTrace = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-in.json', 'utf-8'));
+  jaegerTrace = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-out.json', 'utf-8'));
+  jaegerTraceMulti = JSON.parse(fs.readFileSync('src/utils/fixtures/oltp2jaeger-multi-out.json', 'utf-8'));
+});
+
+describe('parseTraceFile', () => {
+  it('parses JSON data', () => {
+    const obj = { ok: true };
+    expect(parseTraceFile(JSON.stringify(obj))).toEqual({ payload: obj });
+  });
+
+  it('converts OTLP data without the query service', () => {
+    expect(parseTraceFile(JSON.stringify(OTLPTrace)).payload).toMatchObject(jaegerTrace);
+  });
+
+  it('converts an OTLP trace without a service name', () => {
+    const text = fs.readFileSync('src/utils/fixtures/otlp2jaeger-in-error.json', 'utf-8');
+    const { payload } = parseTraceFile(text);
+    expect(payload.data[0].processes.p1.serviceName).toBe('OTLPResourceNoServiceName');
+  });
+
+  it('returns the OTLP data that can not be converted', () => {
+    const otlp = lodash.cloneDeep(OTLPTrace);
+    otlp.resourceSpans[0].scopeSpans[0].spans[0].spanId = 'not-a-span-id';
+    expect(parseTraceFile(JSON.stringify(otlp))).toEqual({ otlp });
+  });
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseTraceFile('not-json')).toThrow('Error parsing JSON at line 1');
+  });
+
+  it('parses the annotations exported with a trace', () => {
+    const annotations = [
+      { id: 'a', traceID: 'trace', spanID: 'span', author: 'Ada', text: 'slow', createdAt: 1 },
+    ];
+    expect(parseTraceFile(JSON.stringify({ data: [], annotations }))).toEqual({
+      payload: { data: [], annotations },
+    });
+  });
+
+  it('throws on invalid annotations', () => {
+    const text = JSON.stringify({ data: [], annotations: [{ text: 'slow' }] });
+    expect(() => parseTraceFile(text)).toThrow('Invalid annotations');
+  });
+
+  it('converts Zipkin data', () => {
+    const spans = [{ traceId: '5af7183fb1d4cf5f', id: '6b221d5bc9e6496c', timestamp: 1, duration: 2 }];
+    const { payload } = parseTraceFile(JSON.stringify(spans));
+    expect(payload.data[0]).toMatchObject({
+      traceID: '5af7183fb1d4cf5f',
+      spans: [{ spanID: '6b221d5bc9e6496c' }],
+    });
+  });
+
+  it('converts Chrome trace data', () => {
+    const chromeTrace = { traceEvents: [{ ph: 'X', name: 'build', pid: 1, tid: 1, ts: 0, dur: 10 }] };
+    const { payload } = parseTraceFile(JSON.stringify(chromeTrace));
+    expect(payload.data[0].spans[0]).toMatchObject({ operationName: 'build', duration: 10 });
+  });
+
+  it('throws on data that can not be converted', () => {
+    const text = JSON.stringify([{ traceId: 'not-an-id', id: 'a' }]);
+    expect(() => parseTraceFile(text)).toThrow('Error converting zipkin traces: Invalid Zipkin trace ID');
+  });
+
+  it('parses JSON-per-line data', () => {
+    const text = fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in.json.txt', 'utf-8');
+    const { payload } = parseTraceFile(text);
+    // the fixture holds the output of the query service after it went through the reducer
+    payload.data.forEach(transformTraceData);
+    expect(payload).toMatchObject(jaegerTraceMulti);
+  });
+
+  it('merges the resource spans of JSON-per-line OTLP data', () => {
+    const text = fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in.json.txt', 'utf-8');
+    const combined = fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in-combined.json', 'utf-8');
+    expect(parseTraceFile(text)).toEqual(parseTraceFile(combined));
+  });
+});
@@ -0,0 +1,86 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { parseAnnotations } from '../annotations';
+import chromeTraceToJaeger from './chrome';
+import detectTraceFormat, { ETraceFormat } from './detect-format';
+import otlpToJaeger from './otlp';
+import { TOtlpTracesData, TTracesPayload } from './types';
+import zipkinToJaeger from './zipkin';
+
+/**
+ * The result of parsing a trace file. OTLP that can not be converted in the
+ * browser is returned as is, so it can be converted by the query service.
+ */
+export type TParsedTraceFile = { payload: TTracesPayload } | { otlp: TOtlpTracesData };
+
+function tryParseMultiLineInput(input: string): any[] {
+  const jsonStrings = input.split('\n').filter((line: string) => line.trim() !== '');
+  const parsedObjects: any[] = [];
+
+  jsonStrings.forEach((jsonString: string, index: number) => {
+    try {
+      const traceObj = JSON.parse(jsonString.trim());
+      parsedObjects.push(traceObj);
+    } catch (error) {
+      throw new Error(`Error parsing JSON at line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+  return parsedObjects;
+}
+
+/**
+ * Parses the content of a trace file in any of the supported formats, see
+ * `detectTraceFormat`, into the payload of the query service.
+ */
+export default function parseTraceFile(text: string): TParsedTraceFile {
+  let traceObj;
+  try {
+    traceObj = JSON.parse(text);
+  } catch (_) {
+    traceObj = tryParseMultiLineInput(text);
+  }
+  const format = detectTraceFormat(traceObj);
+  if (format === ETraceFormat.Otlp) {
+    if (Array.isArray(traceObj)) {
+      const mergedResourceSpans = traceObj.reduce((acc, obj) => {
+        acc.push(...obj.resourceSpans);
+        return acc;
+      }, []);
+
+      traceObj = { resourceSpans: mergedResourceSpans };
+    }
+    try {
+      return { payload: otlpToJaeger(traceObj) };
+    } catch (_) {
+      return { otlp: traceObj };
+    }
+  }
+  try {
+    if (format === ETraceFormat.Zipkin) {
+      return { payload: zipkinToJaeger(traceObj) };
+    }
+    if (format === ETraceFormat.ChromeTrace) {
+      return { payload: chromeTraceToJaeger(traceObj) };
+    }
+    if (traceObj && traceObj.annotations) {
+      // a trace exported with its annotations, see `traceToJaegerPayload`
+      return { payload: { ...traceObj, annotations: parseAnnotations(traceObj.annotations) } };
+    }
+  } catch (error) {
+    throw new Error(`Error converting ${format} traces: ${(error as Error).message}`);
+  }
+  return { payload: traceObj };
+}
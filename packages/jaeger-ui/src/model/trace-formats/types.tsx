@@ -0,0 +1,167 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { SpanData, TraceAnnotation, TraceData } from '../../types/trace';
+
+/**
+ * The shape of a trace as returned by the query service, i.e. the input of
+ * `transformTraceData`.
+ */
+export type TRawTrace = TraceData & {
+  spans: SpanData[];
+  warnings?: string[] | null;
+};
+
+/**
+ * A tag as serialized by the query service, which includes the value type.
+ */
+export type TTypedKeyValue = {
+  key: string;
+  type: string;
+  value: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+};
+
+/**
+ * The envelope the query service wraps traces in, see `/api/traces`.
+ */
+export type TTracesPayload = {
+  data: TRawTrace[];
+  total: number;
+  limit: number;
+  offset: number;
+  errors: { code?: number; msg: string; traceID?: string }[] | null;
+  // the notes exported with the traces, see `traceToJaegerPayload`
+  annotations?: TraceAnnotation[];
+};
+
+// OTLP/JSON, see https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+
+export type TOtlpAnyValue = {
+  stringValue?: string;
+  boolValue?: boolean;
+  // 64 bit integers are encoded as strings
+  intValue?: string | number;
+  doubleValue?: number;
+  // base64 encoded
+  bytesValue?: string;
+  arrayValue?: { values?: TOtlpAnyValue[] };
+  kvlistValue?: { values?: TOtlpKeyValue[] };
+};
+
+export type TOtlpKeyValue = {
+  key: string;
+  value?: TOtlpAnyValue;
+};
+
+export enum EOtlpSpanKind {
+  Unspecified = 0,
+  Internal = 1,
+  Server = 2,
+  Client = 3,
+  Producer = 4,
+  Consumer = 5,
+}
+
+export enum EOtlpStatusCode {
+  Unset = 0,
+  Ok = 1,
+  Error = 2,
+}
+
+export type TOtlpEvent = {
+  timeUnixNano?: string | number;
+  name?: string;
+  attributes?: TOtlpKeyValue[];
+};
+
+export type TOtlpLink = {
+  traceId?: string;
+  spanId?: string;
+  traceState?: string;
+  attributes?: TOtlpKeyValue[];
+};
+
+export type TOtlpSpan = {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name?: string;
+  kind?: EOtlpSpanKind | string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: TOtlpKeyValue[];
+  events?: TOtlpEvent[];
+  links?: TOtlpLink[];
+  status?: { code?: EOtlpStatusCode | string; message?: string };
+};
+
+export type TOtlpScopeSpans = {
+  scope?: { name?: string; version?: string; attributes?: TOtlpKeyValue[] };
+  spans?: TOtlpSpan[];
+  schemaUrl?: string;
+};
+
+export type TOtlpResourceSpans = {
+  resource?: { attributes?: TOtlpKeyValue[] };
+  scopeSpans?: TOtlpScopeSpans[];
+  schemaUrl?: string;
+};
+
+export type TOtlpTracesData = {
+  resourceSpans: TOtlpResourceSpans[];
+};
+
+// Zipkin v2, see https://zipkin.io/zipkin-api/#/default/post_spans
+
+export type TZipkinEndpoint = {
+  serviceName?: string;
+  ipv4?: string;
+  ipv6?: string;
+  port?: number;
+};
+
+export type TZipkinSpan = {
+  traceId: string;
+  id: string;
+  parentId?: string;
+  name?: string;
+  kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER';
+  // epoch microseconds
+  timestamp?: number;
+  duration?: number;
+  debug?: boolean;
+  shared?: boolean;
+  localEndpoint?: TZipkinEndpoint;
+  remoteEndpoint?: TZipkinEndpoint;
+  annotations?: { timestamp: number; value: string }[];
+  tags?: Record<string, string>;
+};
+
+// Chrome Trace Event Format, see
+// https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+
+export type TChromeTraceEvent = {
+  name?: string;
+  cat?: string;
+  ph: string;
+  // microseconds, may be fractional
+  ts?: number;
+  dur?: number;
+  pid?: number | string;
+  tid?: number | string;
+  args?: Record<string, unknown>;
+};
+
+export type TChromeTrace = { traceEvents: TChromeTraceEvent[] } | TChromeTraceEvent[];
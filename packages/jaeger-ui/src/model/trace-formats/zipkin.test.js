@@ -0,0 +1,223 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import zipkinToJaeger, {
+  isZipkin,
+  MISSING_TIMESTAMP_WARNING,
+  traceToZipkin,
+  UNKNOWN_SERVICE_NAME,
+} from './zipkin';
+import transformTraceData from '../transform-trace-data';
+
+const traceId = '5af7183fb1d4cf5f';
+
+const frontend = {
+  traceId,
+  id: '6b221d5bc9e6496c',
+  name: 'get /api',
+  kind: 'SERVER',
+  timestamp: 1556604172355737,
+  duration: 1431,
+  localEndpoint: { serviceName: 'frontend', ipv4: '192.168.99.1', port: 8081 },
+  remoteEndpoint: { ipv4: '110.170.201.178', port: 63678 },
+  annotations: [{ timestamp: 1556604172355800, value: 'wr' }],
+  tags: { 'http.method': 'GET', 'http.path': '/api' },
+};
+
+const clientCall = {
+  traceId,
+  parentId: '6b221d5bc9e6496c',
+  id: '352bff9a74ca9ad2',
+  name: 'get',
+  kind: 'CLIENT',
+  timestamp: 1556604172355900,
+  duration: 1000,
+  localEndpoint: { serviceName: 'frontend', ipv4: '192.168.99.1', port: 8081 },
+  remoteEndpoint: { serviceName: 'backend', ipv4: '192.168.99.2', port: 9000 },
+};
+
+const sharedServer = {
+  traceId,
+  parentId: '6b221d5bc9e6496c',
+  id: '352bff9a74ca9ad2',
+  name: 'get /api',
+  kind: 'SERVER',
+  shared: true,
+  timestamp: 1556604172356000,
+  duration: 800,
+  localEndpoint: { serviceName: 'backend', ipv4: '192.168.99.2', port: 9000 },
+};
+
+const backendChild = {
+  traceId,
+  parentId: '352bff9a74ca9ad2',
+  id: '1234567890abcdef',
+  name: 'select',
+  kind: 'CLIENT',
+  timestamp: 1556604172356100,
+  duration: 500,
+  localEndpoint: { serviceName: 'backend' },
+};
+
+describe('isZipkin()', () => {
+  it('accepts lists of spans and lists of traces', () => {
+    expect(isZipkin([frontend, clientCall])).toBe(true);
+    expect(isZipkin([[frontend], [clientCall]])).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isZipkin([])).toBe(false);
+    expect(isZipkin({ data: [] })).toBe(false);
+    expect(isZipkin([{ traceID: traceId, spanID: 'a' }])).toBe(false);
+  });
+});
+
+describe('zipkinToJaeger()', () => {
+  it('converts spans', () => {
+    const { data } = zipkinToJaeger([frontend]);
+    expect(data).toEqual([
+      {
+        traceID: traceId,
+        processes: {
+          p1: {
+            serviceName: 'frontend',
+            tags: [
+              { key: 'ipv4', type: 'string', value: '192.168.99.1' },
+              { key: 'port', type: 'int64', value: 8081 },
+            ],
+          },
+        },
+        spans: [
+          {
+            traceID: traceId,
+            spanID: '6b221d5bc9e6496c',
+            operationName: 'get /api',
+            references: [],
+            startTime: 1556604172355737,
+            duration: 1431,
+            tags: [
+              { key: 'http.method', type: 'string', value: 'GET' },
+              { key: 'http.path', type: 'string', value: '/api' },
+              { key: 'span.kind', type: 'string', value: 'server' },
+              { key: 'peer.ipv4', type: 'string', value: '110.170.201.178' },
+              { key: 'peer.port', type: 'int64', value: 63678 },
+            ],
+            logs: [{ timestamp: 1556604172355800, fields: [{ key: 'event', type: 'string', value: 'wr' }] }],
+            processID: 'p1',
+            warnings: null,
+          },
+        ],
+        warnings: null,
+      },
+    ]);
+  });
+
+  it('converts parents to references and remote services to peer.service', () => {
+    const [, span] = zipkinToJaeger([frontend, clientCall]).data[0].spans;
+    expect(span.references).toEqual([
+      { refType: 'CHILD_OF', traceID: traceId, spanID: frontend.id, span: undefined },
+    ]);
+    expect(span.tags).toContainEqual({ key: 'peer.service', type: 'string', value: 'backend' });
+  });
+
+  it('splits spans shared by client and server', () => {
+    const { data } = zipkinToJaeger([[frontend, clientCall, sharedServer, backendChild]]);
+    const [, client, server, child] = data[0].spans;
+    expect(server.spanID).toBe(`${client.spanID}_server`);
+    expect(server.references[0].spanID).toBe(client.spanID);
+    expect(child.references[0].spanID).toBe(server.spanID);
+
+    const trace = transformTraceData(data[0]);
+    expect(trace.spans.map(span => [span.process.serviceName, span.operationName, span.depth])).toEqual([
+      ['frontend', 'get /api', 0],
+      ['frontend', 'get', 1],
+      ['backend', 'get /api', 2],
+      ['backend', 'select', 3],
+    ]);
+  });
+
+  it('keeps shared spans without a client counterpart', () => {
+    const [span] = zipkinToJaeger([sharedServer]).data[0].spans;
+    expect(span.spanID).toBe(sharedServer.id);
+  });
+
+  it('groups spans by trace and pads IDs', () => {
+    const { data } = zipkinToJaeger([frontend, { ...frontend, traceId: 'ABC', id: 'def' }]);
+    expect(data.map(trace => trace.traceID)).toEqual([traceId, '0000000000000abc']);
+    expect(data[1].spans[0].spanID).toBe('0000000000000def');
+  });
+
+  it('defaults missing fields', () => {
+    const [trace] = zipkinToJaeger([{ traceId, id: frontend.id, timestamp: frontend.timestamp }]).data;
+    expect(trace.processes.p1).toEqual({ serviceName: UNKNOWN_SERVICE_NAME, tags: [] });
+    expect(trace.spans[0]).toMatchObject({
+      operationName: '',
+      duration: 0,
+      tags: [],
+      logs: [],
+    });
+  });
+
+  it('infers missing timestamps from the annotations, the parent or the trace', () => {
+    const { timestamp } = frontend;
+    const [trace] = zipkinToJaeger([
+      {
+        ...frontend,
+        timestamp: undefined,
+        annotations: [{ timestamp: timestamp + 10, value: 'ws' }, ...frontend.annotations],
+      },
+      clientCall,
+      { ...sharedServer, timestamp: undefined },
+      { ...backendChild, timestamp: undefined },
+      { traceId, id: 'abc', parentId: 'def' },
+    ]).data;
+    expect(trace.spans.map(span => [span.startTime, span.warnings])).toEqual([
+      [timestamp + 10, [MISSING_TIMESTAMP_WARNING]],
+      [clientCall.timestamp, null],
+      [clientCall.timestamp, [MISSING_TIMESTAMP_WARNING]],
+      [clientCall.timestamp, [MISSING_TIMESTAMP_WARNING]],
+      [timestamp + 10, [MISSING_TIMESTAMP_WARNING]],
+    ]);
+    expect(transformTraceData(trace).spans.filter(span => !span.isPlaceholder)).toHaveLength(5);
+  });
+
+  it('throws on traces without timestamps', () => {
+    expect(() => zipkinToJaeger([{ traceId, id: frontend.id }])).toThrow('has no timestamps');
+  });
+
+  it('throws on invalid IDs', () => {
+    expect(() => zipkinToJaeger([{ traceId: 'xyz', id: frontend.id }])).toThrow('Invalid Zipkin trace ID');
+  });
+});
+
+describe('traceToZipkin()', () => {
+  it('converts traces back to the spans they were imported from', () => {
+    const spans = [frontend, clientCall, sharedServer, backendChild];
+    const trace = transformTraceData(zipkinToJaeger(spans).data[0]);
+    expect(traceToZipkin(trace)).toEqual([
+      frontend,
+      { ...clientCall, annotations: [], tags: {} },
+      { ...sharedServer, annotations: [], tags: {} },
+      { ...backendChild, annotations: [], tags: {} },
+    ]);
+  });
+
+  it('serializes log fields as JSON annotations', () => {
+    const trace = transformTraceData(zipkinToJaeger([frontend]).data[0]);
+    trace.spans[0].logs[0].fields.push({ key: 'size', value: 3 });
+    expect(traceToZipkin(trace)[0].annotations).toEqual([
+      { timestamp: 1556604172355800, value: '{"event":"wr","size":3}' },
+    ]);
+  });
+});
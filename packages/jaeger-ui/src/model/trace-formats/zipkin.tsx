@@ -0,0 +1,281 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import _fromPairs from 'lodash/fromPairs';
+
+import { getParent } from '../span';
+import { KeyValuePair, Process, SpanData, SpanReference, Trace } from '../../types/trace';
+import { TRawTrace, TTracesPayload, TTypedKeyValue, TZipkinEndpoint, TZipkinSpan } from './types';
+
+export const UNKNOWN_SERVICE_NAME = 'unknown-service';
+// suffix of the span ID given to the server half of a span shared by client and server
+export const SHARED_SERVER_SUFFIX = '_server';
+export const MISSING_TIMESTAMP_WARNING =
+  'Missing timestamp, the start time was taken from the annotations or the parent span';
+
+const ID_RE = /^[0-9a-f]{1,32}$/i;
+
+function normalizeId(value: string | undefined, name: string) {
+  if (!value || !ID_RE.test(value)) {
+    throw new Error(`Invalid Zipkin ${name} "${String(value)}"`);
+  }
+  return value.toLowerCase().padStart(value.length > 16 ? 32 : 16, '0');
+}
+
+function stringTag(key: string, value: string): TTypedKeyValue {
+  return { key, type: 'string', value };
+}
+
+function endpointTags(endpoint: TZipkinEndpoint | undefined, prefix: string) {
+  const tags: TTypedKeyValue[] = [];
+  if (!endpoint) {
+    return tags;
+  }
+  if (endpoint.ipv4) tags.push(stringTag(`${prefix}ipv4`, endpoint.ipv4));
+  if (endpoint.ipv6) tags.push(stringTag(`${prefix}ipv6`, endpoint.ipv6));
+  if (endpoint.port != null) tags.push({ key: `${prefix}port`, type: 'int64', value: endpoint.port });
+  return tags;
+}
+
+// the first annotation, else 0
+function getAnnotationsStart(zSpan: TZipkinSpan) {
+  const timestamps = (zSpan.annotations || []).map(({ timestamp }) => timestamp).filter(Boolean);
+  return timestamps.length ? Math.min(...timestamps) : 0;
+}
+
+/**
+ * Spans without a start time are dropped by `transformTraceData`, so spans
+ * without a timestamp start at their first annotation, else at the start of
+ * the closest ancestor that has one, else at the start of the trace.
+ */
+function inferStartTimes(spans: SpanData[]) {
+  const spansByID = new Map(spans.map(span => [`${span.traceID}:${span.spanID}`, span]));
+  const getStartTime = (span: SpanData, visited: Set<SpanData>): number => {
+    if (span.startTime || visited.has(span)) {
+      return span.startTime;
+    }
+    visited.add(span);
+    const [parentRef] = span.references || [];
+    const parent = parentRef && spansByID.get(`${span.traceID}:${parentRef.spanID}`);
+    return parent ? getStartTime(parent, visited) : 0;
+  };
+  const traceStartTimes = new Map<string, number>();
+  spans.forEach(({ traceID, startTime }) => {
+    const traceStartTime = traceStartTimes.get(traceID);
+    if (startTime && (!traceStartTime || startTime < traceStartTime)) {
+      traceStartTimes.set(traceID, startTime);
+    }
+  });
+  spans
+    .filter(span => !span.startTime)
+    .forEach(span => {
+      const startTime = getStartTime(span, new Set()) || traceStartTimes.get(span.traceID);
+      if (!startTime) {
+        throw new Error(`Zipkin trace "${span.traceID}" has no timestamps`);
+      }
+      // eslint-disable-next-line no-param-reassign
+      span.startTime = startTime;
+    });
+}
+
+/**
+ * Zipkin v2 spans are either a flat list of spans, or a list of traces which
+ * are lists of spans, as returned by `/api/v2/traces`.
+ *
+ * exported for tests
+ */
+export function isZipkin(obj: unknown): obj is (TZipkinSpan | TZipkinSpan[])[] {
+  if (!Array.isArray(obj) || !obj.length) {
+    return false;
+  }
+  return obj.every(item => {
+    const spans = Array.isArray(item) ? item : [item];
+    return spans.every(span => span && typeof span === 'object' && 'traceId' in span && 'id' in span);
+  });
+}
+
+/**
+ * Converts Zipkin v2 JSON spans into the payload returned by the query
+ * service. RPC spans shared by client and server (B3 propagation) are split
+ * into a client span and a server child span, so both halves are shown.
+ */
+export default function zipkinToJaeger(input: (TZipkinSpan | TZipkinSpan[])[]): TTracesPayload {
+  const zipkinSpans = input.reduce<TZipkinSpan[]>((all, item) => all.concat(item), []);
+  const traces = new Map<string, TRawTrace>();
+  const processKeys = new Map<string, Map<string, string>>();
+
+  // span IDs used by a client or unshared span, keyed by trace
+  const ownedIds = new Set<string>();
+  zipkinSpans.forEach(span => {
+    if (!span.shared) {
+      ownedIds.add(`${normalizeId(span.traceId, 'trace ID')}:${normalizeId(span.id, 'span ID')}`);
+    }
+  });
+  const serverIds = new Map<string, string>();
+
+  const spans = zipkinSpans.map(zSpan => {
+    const traceID = normalizeId(zSpan.traceId, 'trace ID');
+    let spanID = normalizeId(zSpan.id, 'span ID');
+    const serviceName = (zSpan.localEndpoint && zSpan.localEndpoint.serviceName) || UNKNOWN_SERVICE_NAME;
+    const references: SpanReference[] = [];
+    let parentID = zSpan.parentId ? normalizeId(zSpan.parentId, 'parent ID') : null;
+    if (zSpan.shared && ownedIds.has(`${traceID}:${spanID}`)) {
+      parentID = spanID;
+      spanID = `${spanID}${SHARED_SERVER_SUFFIX}`;
+      serverIds.set(`${traceID}:${parentID}:${serviceName}`, spanID);
+    }
+    if (parentID) {
+      references.push({ refType: 'CHILD_OF', traceID, spanID: parentID, span: undefined });
+    }
+
+    let trace = traces.get(traceID);
+    let traceProcesses = processKeys.get(traceID);
+    if (!trace || !traceProcesses) {
+      trace = { traceID, spans: [], processes: {}, warnings: null };
+      traceProcesses = new Map();
+      traces.set(traceID, trace);
+      processKeys.set(traceID, traceProcesses);
+    }
+    const process: Process = { serviceName, tags: endpointTags(zSpan.localEndpoint, '') };
+    const processKey = JSON.stringify(process);
+    let processID = traceProcesses.get(processKey);
+    if (!processID) {
+      processID = `p${traceProcesses.size + 1}`;
+      traceProcesses.set(processKey, processID);
+      trace.processes[processID] = process;
+    }
+
+    const tags: TTypedKeyValue[] = Object.keys(zSpan.tags || {}).map(key =>
+      stringTag(key, String((zSpan.tags || {})[key]))
+    );
+    if (zSpan.kind) {
+      tags.push(stringTag('span.kind', zSpan.kind.toLowerCase()));
+    }
+    const { remoteEndpoint } = zSpan;
+    if (remoteEndpoint && remoteEndpoint.serviceName) {
+      tags.push(stringTag('peer.service', remoteEndpoint.serviceName));
+    }
+    tags.push(...endpointTags(remoteEndpoint, 'peer.'));
+
+    const span: SpanData = {
+      traceID,
+      spanID,
+      operationName: zSpan.name || '',
+      references,
+      startTime: zSpan.timestamp || getAnnotationsStart(zSpan),
+      duration: zSpan.duration || 0,
+      tags,
+      logs: (zSpan.annotations || []).map(({ timestamp, value }) => ({
+        timestamp,
+        fields: [stringTag('event', value)],
+      })),
+      processID,
+      warnings: zSpan.timestamp ? null : [MISSING_TIMESTAMP_WARNING],
+    };
+    trace.spans.push(span);
+    return { span, serviceName };
+  });
+
+  // children of a shared span that were emitted by the server belong under the server half
+  spans.forEach(({ span, serviceName }) => {
+    const [parentRef] = span.references || [];
+    if (parentRef) {
+      const serverID = serverIds.get(`${span.traceID}:${parentRef.spanID}:${serviceName}`);
+      if (serverID && serverID !== span.spanID) {
+        parentRef.spanID = serverID;
+      }
+    }
+  });
+  inferStartTimes(spans.map(({ span }) => span));
+
+  return { data: Array.from(traces.values()), total: 0, limit: 0, offset: 0, errors: null };
+}
+
+const ZIPKIN_KINDS = new Set(['CLIENT', 'SERVER', 'PRODUCER', 'CONSUMER']);
+const REMOTE_ENDPOINT_TAGS = new Set(['peer.service', 'peer.ipv4', 'peer.ipv6', 'peer.port']);
+
+function stripSharedSuffix(spanID: string) {
+  return spanID.endsWith(SHARED_SERVER_SUFFIX) ? spanID.slice(0, -SHARED_SERVER_SUFFIX.length) : spanID;
+}
+
+function toEndpoint(tags: KeyValuePair<unknown>[], prefix: string, serviceName?: string) {
+  const endpoint: TZipkinEndpoint = {};
+  const get = (key: string) => {
+    const tag = tags.find(t => t.key === `${prefix}${key}`);
+    return tag ? tag.value : undefined;
+  };
+  const name = serviceName || get('service');
+  const ipv4 = get('ipv4') || get('ip');
+  const ipv6 = get('ipv6');
+  const port = get('port');
+  if (name) endpoint.serviceName = String(name);
+  if (ipv4) endpoint.ipv4 = String(ipv4);
+  if (ipv6) endpoint.ipv6 = String(ipv6);
+  if (port != null && port !== '') endpoint.port = Number(port);
+  return endpoint;
+}
+
+/**
+ * Serializes a trace as a list of Zipkin v2 spans. Server spans split off from
+ * a shared client span on import are merged back into a shared span.
+ */
+export function traceToZipkin(trace: Trace): TZipkinSpan[] {
+  return trace.spans.map(span => {
+    const id = stripSharedSuffix(span.spanID);
+    const parent = getParent(span);
+    const parentRef = span.references.find(ref => ref.refType === 'CHILD_OF');
+    let parentId = parentRef ? stripSharedSuffix(parentRef.spanID) : undefined;
+    const shared = id !== span.spanID && parentId === id;
+    if (shared) {
+      const clientParent = parent && getParent(parent);
+      parentId = clientParent ? stripSharedSuffix(clientParent.spanID) : undefined;
+    }
+
+    const tags: Record<string, string> = {};
+    let kind: TZipkinSpan['kind'];
+    span.tags.forEach(({ key, value }) => {
+      const upper = String(value).toUpperCase();
+      if (key === 'span.kind') {
+        if (ZIPKIN_KINDS.has(upper)) {
+          kind = upper as TZipkinSpan['kind'];
+        }
+      } else if (!REMOTE_ENDPOINT_TAGS.has(key)) {
+        tags[key] = String(value);
+      }
+    });
+
+    const zSpan: TZipkinSpan = {
+      traceId: span.traceID,
+      id,
+      name: span.operationName,
+      timestamp: span.startTime,
+      duration: span.duration,
+      localEndpoint: toEndpoint(span.process.tags, '', span.process.serviceName),
+      annotations: span.logs.map(({ timestamp, fields }) => ({
+        timestamp,
+        value:
+          fields.length === 1 && fields[0].key === 'event'
+            ? String(fields[0].value)
+            : JSON.stringify(_fromPairs(fields.map(({ key, value }) => [key, value]))),
+      })),
+      tags,
+    };
+    if (parentId) zSpan.parentId = parentId;
+    if (kind) zSpan.kind = kind;
+    if (shared) zSpan.shared = true;
+    const remoteEndpoint = toEndpoint(span.tags, 'peer.');
+    if (Object.keys(remoteEndpoint).length) zSpan.remoteEndpoint = remoteEndpoint;
+    return zSpan;
+  });
+}
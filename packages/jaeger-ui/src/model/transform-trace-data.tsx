@@ -14,6 +14,8 @@
 
 import _isEqual from 'lodash/isEqual';
 
+import { getClockSkewOffsets, getClockSkewWarning } from './clock-skew';
+import { getMissingParentsWarning, makePlaceholderSpans } from './missing-parents';
 import { getTraceSpanIdsAsTree, TREE_ROOT_ID } from '../selectors/trace';
 import { getConfigValue } from '../utils/config/get-config';
 import { getTraceEmoji, getTraceName, getTracePageTitle } from './trace-viewer';
@@ -84,10 +86,14 @@ export default function transformTraceData(data: TraceData & { spans: SpanData[]
   // filter out spans with empty start times
   // eslint-disable-next-line no-param-reassign
   data.spans = data.spans.filter(span => Boolean(span.startTime));
+  // keep the subtrees of the spans whose parent is missing grouped
+  const { orphanCount, placeholders } = makePlaceholderSpans(data.spans, traceID);
+  // the placeholders are not added to `data`, which is kept as received, e.g. to download it
+  const rawSpans = placeholders.length ? data.spans.concat(placeholders) : data.spans;
 
-  const numSpans = data.spans.length;
+  const numSpans = rawSpans.length;
   for (let i = 0; i < numSpans; i++) {
-    const span: Span = data.spans[i] as Span;
+    const span: Span = rawSpans[i] as Span;
     const { startTime, duration, processID } = span;
     // update trace's start / end time
     if (startTime < traceStartTime) {
@@ -117,7 +123,7 @@ export default function transformTraceData(data: TraceData & { spans: SpanData[]
   }
   // tree is necessary to sort the spans, so children follow parents, and
   // siblings are sorted by start time
-  const tree = getTraceSpanIdsAsTree(data, spanMap);
+  const tree = getTraceSpanIdsAsTree({ spans: rawSpans }, spanMap);
   const spans: Span[] = [];
   const svcCounts: Record<string, number> = {};
 
@@ -129,8 +135,10 @@ export default function transformTraceData(data: TraceData & { spans: SpanData[]
     if (!span) {
       return;
     }
-    const { serviceName } = span.process;
-    svcCounts[serviceName] = (svcCounts[serviceName] || 0) + 1;
+    if (!span.isPlaceholder) {
+      const { serviceName } = span.process;
+      svcCounts[serviceName] = (svcCounts[serviceName] || 0) + 1;
+    }
     span.relativeStartTime = span.startTime - traceStartTime;
     span.depth = depth - 1;
     span.hasChildren = node.children.length > 0;
@@ -169,9 +177,18 @@ export default function transformTraceData(data: TraceData & { spans: SpanData[]
     });
     spans.push(span);
   });
-  const traceName = getTraceName(spans);
-  const tracePageTitle = getTracePageTitle(spans);
-  const traceEmoji = getTraceEmoji(spans);
+  // the times are kept as reported, the adjusted timing is derived when shown
+  const clockSkewOffsets = getClockSkewOffsets(spans);
+  spans.forEach(span => {
+    const offset = clockSkewOffsets[span.processID];
+    if (offset) {
+      span.warnings.push(getClockSkewWarning(offset));
+    }
+  });
+  const namedSpans = placeholders.length ? spans.filter(span => !span.isPlaceholder) : spans;
+  const traceName = getTraceName(namedSpans);
+  const tracePageTitle = getTracePageTitle(namedSpans);
+  const traceEmoji = getTraceEmoji(namedSpans);
   const services = Object.keys(svcCounts).map(name => ({ name, numberOfSpans: svcCounts[name] }));
   return {
     services,
@@ -189,5 +206,8 @@ export default function transformTraceData(data: TraceData & { spans: SpanData[]
     duration: traceEndTime - traceStartTime,
     startTime: traceStartTime,
     endTime: traceEndTime,
+    clockSkewOffsets,
+    missingParentIDs: placeholders.map(({ spanID }) => spanID),
+    warnings: placeholders.length ? [getMissingParentsWarning(placeholders.length, orphanCount)] : [],
   };
 }
@@ -0,0 +1,72 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import reducer from './annotations';
+import { addAnnotation, deleteAnnotation, loadAnnotations } from '../actions/annotations';
+import { loadJsonTraces } from '../actions/file-reader-api';
+
+jest.mock('../utils/annotations-db');
+
+describe('annotations reducer', () => {
+  const first = { id: 'a', traceID: 'trace', spanID: 'span', author: 'Ada', text: 'slow', createdAt: 1 };
+  const second = { id: 'b', traceID: 'trace', author: '', text: 'incident', createdAt: 2 };
+  const other = { id: 'c', traceID: 'other', author: '', text: 'fine', createdAt: 3 };
+
+  it('has an empty initial state', () => {
+    expect(reducer(undefined, { type: 'unknown' })).toEqual({});
+  });
+
+  it('merges the loaded annotations by id', () => {
+    const state = reducer(
+      { trace: [first] },
+      { type: `${loadAnnotations}_FULFILLED`, payload: [{ ...first, text: 'slower' }, second] }
+    );
+    expect(state).toEqual({ trace: [{ ...first, text: 'slower' }, second] });
+  });
+
+  it('keeps the state when no annotations are loaded', () => {
+    const state = { trace: [first] };
+    expect(reducer(state, { type: `${loadAnnotations}_FULFILLED`, payload: [] })).toBe(state);
+  });
+
+  it('adds an annotation before it is stored', () => {
+    const state = reducer(
+      { trace: [first] },
+      { type: `${addAnnotation}_PENDING`, meta: { annotation: other } }
+    );
+    expect(state).toEqual({ trace: [first], other: [other] });
+  });
+
+  it('deletes an annotation before it is deleted from the storage', () => {
+    const state = reducer(
+      { trace: [first, second] },
+      { type: `${deleteAnnotation}_PENDING`, meta: { annotation: first } }
+    );
+    expect(state).toEqual({ trace: [second] });
+  });
+
+  it('ignores the deletion of an annotation of an unknown trace', () => {
+    const state = { trace: [first] };
+    expect(reducer(state, { type: `${deleteAnnotation}_PENDING`, meta: { annotation: other } })).toBe(state);
+  });
+
+  it('adds the annotations of loaded JSON files', () => {
+    const state = reducer(
+      {},
+      { type: `${loadJsonTraces}_FULFILLED`, payload: { data: [], annotations: [other] } }
+    );
+    expect(state).toEqual({ other: [other] });
+    expect(reducer(state, { type: `${loadJsonTraces}_FULFILLED`, payload: { data: [] } })).toBe(state);
+  });
+});
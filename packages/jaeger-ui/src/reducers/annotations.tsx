@@ -0,0 +1,72 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Action, ActionMeta, handleActions } from 'redux-actions';
+
+import { addAnnotation, deleteAnnotation, loadAnnotations } from '../actions/annotations';
+import { loadJsonTraces } from '../actions/file-reader-api';
+import { TTracesPayload } from '../model/trace-formats/types';
+import { TAnnotationsState } from '../types';
+import { TraceAnnotation } from '../types/trace';
+
+const initialState: TAnnotationsState = {};
+
+function mergeAnnotations(state: TAnnotationsState, annotations: TraceAnnotation[]) {
+  if (!annotations.length) {
+    return state;
+  }
+  const next = { ...state };
+  annotations.forEach(annotation => {
+    const others = (next[annotation.traceID] || []).filter(({ id }) => id !== annotation.id);
+    next[annotation.traceID] = [...others, annotation];
+  });
+  return next;
+}
+
+function loadDone(state: TAnnotationsState, { payload }: Action<TraceAnnotation[]>) {
+  return mergeAnnotations(state, payload || []);
+}
+
+function addStarted(
+  state: TAnnotationsState,
+  { meta }: ActionMeta<unknown, { annotation: TraceAnnotation }>
+) {
+  return mergeAnnotations(state, [meta.annotation]);
+}
+
+function deleteStarted(
+  state: TAnnotationsState,
+  { meta }: ActionMeta<unknown, { annotation: TraceAnnotation }>
+) {
+  const { id, traceID } = meta.annotation;
+  const annotations = state[traceID];
+  if (!annotations) {
+    return state;
+  }
+  return { ...state, [traceID]: annotations.filter(annotation => annotation.id !== id) };
+}
+
+function loadJsonDone(state: TAnnotationsState, { payload }: Action<TTracesPayload>) {
+  return mergeAnnotations(state, (payload && payload.annotations) || []);
+}
+
+export default handleActions(
+  {
+    [`${loadAnnotations}_FULFILLED`]: loadDone,
+    [`${addAnnotation}_PENDING`]: addStarted,
+    [`${deleteAnnotation}_PENDING`]: deleteStarted,
+    [`${loadJsonTraces}_FULFILLED`]: loadJsonDone,
+  },
+  initialState
+);
@@ -12,6 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import annotations from './annotations';
 import config from './config';
 import dependencies from './dependencies';
 import ddg from './ddg';
@@ -19,9 +20,11 @@ import pathAgnosticDecorations from './path-agnostic-decorations';
 import embedded from './embedded';
 import services from './services';
 import metrics from './metrics';
+import timeZone from './time-zone';
 import trace from './trace';
 
 export default {
+  annotations,
   config,
   dependencies,
   ddg,
@@ -29,5 +32,6 @@ export default {
   pathAgnosticDecorations,
   services,
   metrics,
+  timeZone,
   trace,
 };
@@ -0,0 +1,36 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import reducer from './time-zone';
+import { setTimeZone } from '../actions/time-zone';
+import { getTimeZone, LOCAL_TIME_ZONE, setTimeZone as setDateTimeZone } from '../utils/date';
+
+describe('time zone reducer', () => {
+  afterEach(() => {
+    setDateTimeZone(LOCAL_TIME_ZONE);
+  });
+
+  it('starts with the time zone preference', () => {
+    expect(reducer(undefined, { type: 'unknown' })).toBe(getTimeZone());
+  });
+
+  it('sets the time zone of the date utils', () => {
+    expect(reducer(LOCAL_TIME_ZONE, setTimeZone('Asia/Tokyo'))).toBe('Asia/Tokyo');
+    expect(getTimeZone()).toBe('Asia/Tokyo');
+  });
+
+  it('falls back to the local time zone for an unknown one', () => {
+    expect(reducer('UTC', setTimeZone('Mars/Olympus_Mons'))).toBe(LOCAL_TIME_ZONE);
+  });
+});
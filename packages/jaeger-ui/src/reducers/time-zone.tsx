@@ -0,0 +1,26 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Action, handleActions } from 'redux-actions';
+
+import { setTimeZone } from '../actions/time-zone';
+import * as date from '../utils/date';
+
+function setDone(_state: string, { payload }: Action<string>) {
+  // the date utils format the absolute times in the time zone
+  date.setTimeZone(payload || date.LOCAL_TIME_ZONE);
+  return date.getTimeZone();
+}
+
+export default handleActions({ [`${setTimeZone}`]: setDone }, date.getTimeZone());
@@ -36,7 +36,8 @@ function fetchTraceStarted(state, { meta }) {
 
 function fetchTraceDone(state, { meta, payload }) {
   const { id } = meta;
-  const data = transformTraceData(payload.data[0]);
+  // transformed by `processTraces`
+  const data = payload.data[0];
   let trace;
   if (!data) {
     trace = { id, state: fetchedState.ERROR, error: new Error('Invalid trace data recieved.') };
@@ -133,7 +134,8 @@ function loadJsonStarted(state) {
 
 function loadJsonDone(state, { payload }) {
   try {
-    const processed = payload.data.map(transformTraceData);
+    // transformed by `processTraces`
+    const processed = payload.data;
     const resultTraces = {};
     const results = new Set(state.search.results);
     for (let i = 0; i < processed.length; i++) {
@@ -37,12 +37,23 @@ describe('fetch a trace', () => {
   });
 
   it('handles a successful FETCH_TRACE', () => {
+    // the trace is transformed by `processTraces`
+    const data = transformTraceData(trace);
     const state = traceReducer(undefined, {
       type: `${jaegerApiActions.fetchTrace}${ACTION_POSTFIX_FULFILLED}`,
-      payload: { data: [trace] },
+      payload: { data: [data] },
       meta: { id },
     });
-    expect(state.traces).toEqual({ [id]: { id, data: transformTraceData(trace), state: fetchedState.DONE } });
+    expect(state.traces).toEqual({ [id]: { id, data, state: fetchedState.DONE } });
+  });
+
+  it('handles an invalid trace', () => {
+    const state = traceReducer(undefined, {
+      type: `${jaegerApiActions.fetchTrace}${ACTION_POSTFIX_FULFILLED}`,
+      payload: { data: [null] },
+      meta: { id },
+    });
+    expect(state.traces[id]).toEqual({ id, error: expect.any(Error), state: fetchedState.ERROR });
   });
 
   it('handles a failed FETCH_TRACE', () => {
@@ -260,15 +271,16 @@ describe('load json traces', () => {
   });
 
   it('handles a successful load json request', () => {
+    const data = transformTraceData(trace);
     const state = traceReducer(undefined, {
       type: `${fileReaderActions.loadJsonTraces}${ACTION_POSTFIX_FULFILLED}`,
-      payload: { data: [trace] },
+      payload: { data: [data] },
     });
     const outcome = {
       traces: {
         [id]: {
           id,
-          data: transformTraceData(trace),
+          data,
           state: fetchedState.DONE,
         },
       },
@@ -303,14 +315,10 @@ describe('load json traces', () => {
         state: fetchedState.LOADING,
       },
     };
-    const corruptedTrace = {
-      ...trace,
-      spans: null,
-    };
-
     const state = traceReducer(initialState, {
       type: `${fileReaderActions.loadJsonTraces}${ACTION_POSTFIX_FULFILLED}`,
-      payload: { data: [corruptedTrace] },
+      // `processTraces` gives `null` for the traces that are not valid
+      payload: { data: [null] },
     });
 
     expect(state.search).toEqual({
@@ -13,13 +13,39 @@
 // limitations under the License.
 
 import DetailState from '../components/TracePage/TraceTimelineViewer/SpanDetail/DetailState';
+import { TColorBy } from '../components/TracePage/types';
 import TNil from './TNil';
 
+// a span of a trace in the store, which may be another trace than the one shown
+export type TSpanRef = {
+  spanID: string;
+  traceID: string;
+};
+
+// the spans compared side by side, the second one is picked after the first one
+export type TSpanComparison = {
+  a: TSpanRef;
+  b: TSpanRef | TNil;
+};
+
 type TTraceTimeline = {
+  // whether times are shown as wall-clock times instead of offsets from the trace start
+  absoluteTime: boolean;
+  // whether consecutive siblings with the same service and operation are shown as one row
+  aggregateSiblings: boolean;
   childrenHiddenIDs: Set<string>;
+  colorBy: TColorBy;
   detailStates: Map<string, DetailState>;
+  // the aggregates of siblings shown as individual spans, by the ID of their first span
+  expandedAggregates: Set<string>;
   hoverIndentGuideIds: Set<string>;
+  // the referenced traces shown inline, by trace ID, with the span they are shown under
+  linkedTraceAnchors: Map<string, string>;
+  // the span selected with the keyboard or by opening its detail, kept in the permalink of the trace
+  selectedSpanID: string | TNil;
   shouldScrollToFirstUiFindMatch: boolean;
+  shouldScrollToSelectedSpan: boolean;
+  spanComparison: TSpanComparison | TNil;
   spanNameColumnWidth: number;
   traceID: string | TNil;
 };
@@ -52,6 +52,17 @@ export type LinkPatternsConfig = {
   text: string;
 };
 
+export type TagValueRendererConfig = {
+  // key is a regular expression matched against the keys of the tags and log fields, e.g.
+  //   "tagValueRenderers": [{ "key": "^payload$", "type": "base64" }]
+  key: string;
+  // type of the renderer: 'json', 'sql', 'stacktrace', 'url', 'base64', 'duration', 'bytes',
+  // 'list' or 'text', or a renderer added with registerValueRenderer().
+  type: string;
+  // unit of the values of 'duration' renderers, microseconds by default.
+  unit?: 'ns' | 'us' | 'ms' | 's';
+};
+
 export type MonitorEmptyStateConfig = {
   mainTitle?: string;
   subTitle?: string;
@@ -97,6 +108,11 @@ export type Config = {
   // criticalPath enables to show the criticalPath of each span in a trace view.
   criticalPathEnabled: boolean;
 
+  // criticalPathFollowsAsync continues the critical path through FOLLOWS_FROM spans and
+  // children that finish after their parent, e.g. from the producer to the consumers of a
+  // message queue, instead of ending it with the span that started them.
+  criticalPathFollowsAsync?: boolean;
+
   // dependencies controls the behavior of System Architecture tab.
   dependencies?: {
     // menuEnabled enables or disables the System Architecture tab.
@@ -175,6 +191,11 @@ export type Config = {
   // A tag-level link converts the tag value into a hyperlink.
   linkPatterns?: readonly LinkPatternsConfig[];
 
+  // tagValueRenderers select how the values of the tags and log fields are shown in the
+  // span details, by key. They take precedence over the built-in renderers, which format
+  // e.g. "db.statement" as SQL and "exception.stacktrace" as a stack trace.
+  tagValueRenderers?: readonly TagValueRendererConfig[];
+
   // monitor section controls Service Performance Monitoring tab.
   monitor?: MonitorConfig;
 
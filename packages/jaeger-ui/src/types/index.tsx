@@ -23,7 +23,7 @@ import { SearchQuery } from './search';
 import TDdgState from './TDdgState';
 import tNil from './TNil';
 import iWebAnalytics from './tracking';
-import { Trace } from './trace';
+import { Trace, TraceAnnotation } from './trace';
 import TTraceDiffState from './TTraceDiffState';
 import TTraceTimeline from './TTraceTimeline';
 import { MetricsReduxState } from './metrics';
@@ -40,11 +40,15 @@ export type FetchedTrace = {
   state?: FetchedState;
 };
 
+// the annotations of the traces, by trace ID
+export type TAnnotationsState = Record<string, TraceAnnotation[]>;
+
 export type LocationState = {
   fromSearch?: string;
 };
 
 export type ReduxState = {
+  annotations: TAnnotationsState;
   archive: TracesArchive;
   type: string;
   config: Config;
@@ -77,4 +81,6 @@ export type ReduxState = {
   traceDiff: TTraceDiffState;
   traceTimeline: TTraceTimeline;
   metrics: MetricsReduxState;
+  // the time zone of the absolute times, see utils/date
+  timeZone: string;
 };
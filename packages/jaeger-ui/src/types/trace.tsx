@@ -56,6 +56,8 @@ export type SpanData = {
   references?: Array<SpanReference>;
   warnings?: Array<string> | null;
   childSpanIds?: Array<string>;
+  // synthesized for a parent that is missing from the trace, see `makePlaceholderSpans`
+  isPlaceholder?: boolean;
 };
 
 export type Span = SpanData & {
@@ -84,6 +86,12 @@ export type Trace = TraceData & {
   tracePageTitle: string;
   traceEmoji: string;
   services: { name: string; numberOfSpans: number }[];
+  // the offsets of the processes with a skewed clock, in microseconds, by process ID
+  clockSkewOffsets?: Record<string, number>;
+  // the IDs of the parents missing from the trace, for which placeholders are synthesized
+  missingParentIDs?: string[];
+  // the warnings about the whole trace, shown in its header
+  warnings?: string[];
 };
 
 // It is a section of span that lies on critical path
@@ -92,3 +100,15 @@ export type criticalPathSection = {
   section_start: number;
   section_end: number;
 };
+
+// A note on a span, or on the whole trace, e.g. from an incident review.
+export type TraceAnnotation = {
+  id: string;
+  traceID: string;
+  // absent for the notes on the whole trace
+  spanID?: string;
+  author: string;
+  text: string;
+  // in milliseconds, like Date.now()
+  createdAt: number;
+};
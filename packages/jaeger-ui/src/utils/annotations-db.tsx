@@ -0,0 +1,80 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { TraceAnnotation } from '../types/trace';
+
+// exported for tests
+export const DB_NAME = 'jaeger-ui';
+export const STORE_NAME = 'annotations';
+const DB_VERSION = 1;
+const TRACE_ID_INDEX = 'traceID';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex(TRACE_ID_INDEX, 'traceID');
+    };
+    dbPromise = toPromise(request).catch(error => {
+      // allow to retry, e.g. after the user allowed the storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function getStore(mode: IDBTransactionMode) {
+  return openDb().then(db => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+}
+
+/**
+ * The annotations of a trace, as stored in the browser.
+ */
+export function getAnnotations(traceID: string): Promise<TraceAnnotation[]> {
+  return getStore('readonly').then(store =>
+    toPromise(store.index(TRACE_ID_INDEX).getAll(traceID) as IDBRequest<TraceAnnotation[]>)
+  );
+}
+
+/**
+ * Adds or replaces annotations, by ID.
+ */
+export function putAnnotations(annotations: TraceAnnotation[]): Promise<TraceAnnotation[]> {
+  return getStore('readwrite')
+    .then(store => Promise.all(annotations.map(annotation => toPromise(store.put(annotation)))))
+    .then(() => annotations);
+}
+
+export function deleteAnnotation(id: string): Promise<void> {
+  return getStore('readwrite').then(store => toPromise(store.delete(id)));
+}
+
+// exported for tests
+export function resetDb() {
+  dbPromise = null;
+}
@@ -25,6 +25,14 @@ import {
   formatDatetime,
   formatMillisecondTime,
   formatSecondTime,
+  formatTimeOfDay,
+  getTimeZone,
+  getTimeZoneLabel,
+  getTimeZones,
+  LOCAL_TIME_ZONE,
+  parseInTimeZone,
+  setTimeZone,
+  TIME_ZONE_STORAGE_KEY,
 } from './date.tsx';
 
 const ONE_SECOND = 1000 * ONE_MILLISECOND;
@@ -257,3 +265,61 @@ describe('format microseconds', () => {
     expect(formatSecondTime(durationInMicroseconds)).toBe('1s');
   });
 });
+
+describe('time zone', () => {
+  afterEach(() => {
+    setTimeZone(LOCAL_TIME_ZONE);
+  });
+
+  it('formats the absolute times in the time zone preference', () => {
+    setTimeZone('UTC');
+    expect(formatDatetime(0)).toBe('January 1 1970, 00:00:00.000');
+    setTimeZone('Asia/Tokyo');
+    expect(formatDate(0)).toBe('1970-01-01');
+    expect(formatTime(0)).toBe('09:00');
+  });
+
+  it('persists the time zone, and ignores unknown ones', () => {
+    setTimeZone('Europe/Paris');
+    expect(getTimeZone()).toBe('Europe/Paris');
+    expect(localStorage.getItem(TIME_ZONE_STORAGE_KEY)).toBe('Europe/Paris');
+    setTimeZone('Mars/Olympus_Mons');
+    expect(getTimeZone()).toBe(LOCAL_TIME_ZONE);
+  });
+
+  it('reads the stored time zone on first use, not on import', async () => {
+    localStorage.setItem(TIME_ZONE_STORAGE_KEY, 'Asia/Tokyo');
+    const getItem = jest.spyOn(Storage.prototype, 'getItem');
+    jest.resetModules();
+    try {
+      const date = await import('./date');
+      expect(getItem).not.toHaveBeenCalled();
+      expect(date.getTimeZone()).toBe('Asia/Tokyo');
+    } finally {
+      getItem.mockRestore();
+      localStorage.removeItem(TIME_ZONE_STORAGE_KEY);
+    }
+  });
+
+  it('reads the dates entered in the time zone preference', () => {
+    setTimeZone('Asia/Tokyo');
+    expect(parseInTimeZone('1970-01-01 09:00', 'YYYY-MM-DD HH:mm').valueOf()).toBe(0);
+  });
+
+  it('labels the time zones with their offset', () => {
+    expect(getTimeZoneLabel('UTC')).toBe('UTC');
+    expect(getTimeZoneLabel('Asia/Tokyo')).toBe('UTC+09:00 (Asia/Tokyo)');
+  });
+
+  it('lists the local time zone and UTC first', () => {
+    const zones = getTimeZones();
+    expect(zones.slice(0, 2)).toEqual([LOCAL_TIME_ZONE, 'UTC']);
+    expect(zones.filter(zone => zone === 'UTC')).toHaveLength(1);
+  });
+
+  it('formats the time of day, with the microseconds when asked', () => {
+    setTimeZone('UTC');
+    expect(formatTimeOfDay(3723004005)).toBe('01:02:03.004');
+    expect(formatTimeOfDay(3723004005, true)).toBe('01:02:03.004005');
+  });
+});
@@ -12,14 +12,20 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import dayjs, { ConfigType } from 'dayjs';
+import dayjs, { ConfigType, Dayjs } from 'dayjs';
 import _dropWhile from 'lodash/dropWhile';
 import _round from 'lodash/round';
+import _customParseFormat from 'dayjs/plugin/customParseFormat';
 import _duration, { DurationUnitType } from 'dayjs/plugin/duration';
+import _timezone from 'dayjs/plugin/timezone';
+import _utc from 'dayjs/plugin/utc';
 
 import { toFloatPrecision } from './number';
 
+dayjs.extend(_customParseFormat);
 dayjs.extend(_duration);
+dayjs.extend(_utc);
+dayjs.extend(_timezone);
 
 const TODAY = 'Today';
 const YESTERDAY = 'Yesterday';
@@ -28,6 +34,91 @@ export const STANDARD_DATE_FORMAT = 'YYYY-MM-DD';
 export const STANDARD_TIME_FORMAT = 'HH:mm';
 export const STANDARD_DATETIME_FORMAT = 'MMMM D YYYY, HH:mm:ss.SSS';
 
+// the time zone of the browser, the other time zones are IANA names, e.g. UTC or Europe/Paris
+export const LOCAL_TIME_ZONE = 'local';
+export const UTC_TIME_ZONE = 'UTC';
+// exported for tests
+export const TIME_ZONE_STORAGE_KEY = 'timeZone';
+
+export function isValidTimeZone(timeZone: string) {
+  if (timeZone === LOCAL_TIME_ZONE) {
+    return true;
+  }
+  try {
+    // throws a RangeError for an unknown time zone
+    Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// web workers, which import this module through `transformTraceData`, have no `localStorage`
+function getStoredTimeZone() {
+  const timeZone = typeof localStorage !== 'undefined' ? localStorage.getItem(TIME_ZONE_STORAGE_KEY) : null;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : LOCAL_TIME_ZONE;
+}
+
+// read from the storage on first use
+let timeZone: string | null = null;
+
+/**
+ * The time zone the absolute times are shown and entered in, across the app.
+ */
+export function getTimeZone(): string {
+  if (timeZone === null) {
+    timeZone = getStoredTimeZone();
+  }
+  return timeZone;
+}
+
+export function setTimeZone(value: string) {
+  timeZone = isValidTimeZone(value) ? value : LOCAL_TIME_ZONE;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(TIME_ZONE_STORAGE_KEY, timeZone);
+  }
+}
+
+/**
+ * The time zones that can be chosen, the browser's first.
+ */
+export function getTimeZones(): string[] {
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: string) => string[] };
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return [LOCAL_TIME_ZONE, UTC_TIME_ZONE, ...zones.filter(zone => zone !== UTC_TIME_ZONE)];
+}
+
+/**
+ * @param {ConfigType} value - A date, or Unix time in milliseconds
+ * @return {Dayjs} the date in the time zone preference
+ */
+export function toTimeZone(value?: ConfigType): Dayjs {
+  const zone = getTimeZone();
+  return zone === LOCAL_TIME_ZONE ? dayjs(value) : dayjs(value).tz(zone);
+}
+
+/**
+ * @param {string} text - A date and time without offset, e.g. from a form
+ * @param {string} format - The format of the text
+ * @return {Dayjs} the date, read in the time zone preference
+ */
+export function parseInTimeZone(text: string, format: string): Dayjs {
+  const zone = getTimeZone();
+  return zone === LOCAL_TIME_ZONE ? dayjs(text, format) : dayjs.tz(text, format, zone);
+}
+
+/**
+ * @example
+ * ```
+ * getTimeZoneLabel() // => UTC+02:00 (Europe/Paris)
+ * ```
+ */
+export function getTimeZoneLabel(value: string = getTimeZone()): string {
+  const name = value === LOCAL_TIME_ZONE ? dayjs.tz.guess() : value;
+  const offset = dayjs().tz(name).format('Z');
+  return name === UTC_TIME_ZONE ? UTC_TIME_ZONE : `UTC${offset} (${name})`;
+}
+
 /** @constant 1ms as the number of microseconds, which is the precision of Jaeger timestamps */
 export const ONE_MILLISECOND = 1000 * 1;
 
@@ -84,7 +175,7 @@ const quantizeDuration = (duration: number, floatPrecision: number, conversionFa
  * ```
  */
 export function formatDate(duration: number): string {
-  return dayjs(duration / ONE_MILLISECOND).format(STANDARD_DATE_FORMAT);
+  return toTimeZone(duration / ONE_MILLISECOND).format(STANDARD_DATE_FORMAT);
 }
 
 /**
@@ -97,7 +188,7 @@ export function formatDate(duration: number): string {
  * ```
  */
 export function formatTime(duration: number): string {
-  return dayjs(duration / ONE_MILLISECOND).format(STANDARD_TIME_FORMAT);
+  return toTimeZone(duration / ONE_MILLISECOND).format(STANDARD_TIME_FORMAT);
 }
 
 /**
@@ -110,7 +201,28 @@ export function formatTime(duration: number): string {
  * ```
  */
 export function formatDatetime(duration: number): string {
-  return dayjs(duration / ONE_MILLISECOND).format(STANDARD_DATETIME_FORMAT);
+  return toTimeZone(duration / ONE_MILLISECOND).format(STANDARD_DATETIME_FORMAT);
+}
+
+/**
+ * @param {number} timestamp - Unix Time in microseconds
+ * @param {boolean} withMicroseconds - Whether the microseconds are shown, for
+ *                    times that are close together
+ * @return {string} the time of day
+ *
+ * @example
+ * ```
+ * formatTimeOfDay(1_500) // => 00:00:00.001
+ * formatTimeOfDay(1_500, true) // => 00:00:00.001500
+ * ```
+ */
+export function formatTimeOfDay(timestamp: number, withMicroseconds = false): string {
+  const milliseconds = Math.floor(timestamp / ONE_MILLISECOND);
+  const time = toTimeZone(milliseconds).format('HH:mm:ss.SSS');
+  if (!withMicroseconds) {
+    return time;
+  }
+  return `${time}${String(Math.round(timestamp - milliseconds * ONE_MILLISECOND)).padStart(3, '0')}`;
 }
 
 /**
@@ -174,21 +286,20 @@ export function formatDuration(duration: number): string {
 }
 
 export function formatRelativeDate(value: ConfigType, fullMonthName = false): string {
-  const m = dayjs.isDayjs(value) ? value : dayjs(value);
+  const m = dayjs.isDayjs(value) ? value : toTimeZone(value);
 
   const monthFormat = fullMonthName ? 'MMMM' : 'MMM';
-  const dt = new Date();
-  if (dt.getFullYear() !== m.year()) {
+  const now = toTimeZone(Date.now());
+  if (now.year() !== m.year()) {
     return m.format(`${monthFormat} D, YYYY`);
   }
   const mMonth = m.month();
   const mDate = m.date();
-  const date = dt.getDate();
-  if (mMonth === dt.getMonth() && mDate === date) {
+  if (mMonth === now.month() && mDate === now.date()) {
     return TODAY;
   }
-  dt.setDate(date - 1);
-  if (mMonth === dt.getMonth() && mDate === dt.getDate()) {
+  const yesterday = now.subtract(1, 'day');
+  if (mMonth === yesterday.month() && mDate === yesterday.date()) {
     return YESTERDAY;
   }
   return m.format(`${monthFormat} D`);
@@ -260,4 +260,138 @@ describe('filterSpans', () => {
   it('should return an empty set if no spans match the filter', () => {
     expect(filterSpans('-processTagKey1', spans)).toEqual(new Set());
   });
+
+  describe('structured queries', () => {
+    const root = {
+      spanID: 'root',
+      operationName: 'GET /cart',
+      startTime: 0,
+      duration: 100000,
+      hasChildren: true,
+      references: [],
+      process: { serviceName: 'frontend', tags: [{ key: 'hostname', value: 'web-1' }] },
+      tags: [
+        { key: 'http.status_code', value: 500 },
+        { key: 'error', value: true },
+      ],
+      logs: [{ fields: [{ key: 'event', value: 'retry' }] }],
+    };
+    const child = {
+      spanID: 'child',
+      operationName: 'SELECT',
+      startTime: 10000,
+      duration: 60000,
+      hasChildren: false,
+      references: [{ refType: 'CHILD_OF', spanID: 'root' }],
+      process: { serviceName: 'cart', tags: [] },
+      tags: [{ key: 'http.status_code', value: '200' }],
+      logs: [],
+    };
+    const trace = [root, child];
+    const ids = query => Array.from(filterSpans(query, trace));
+
+    it('compares durations and self times', () => {
+      expect(ids('duration > 50ms')).toEqual(['root', 'child']);
+      expect(ids('duration >= 100ms')).toEqual(['root']);
+      expect(ids('duration = 60000us')).toEqual(['child']);
+      expect(ids('self_time < 50ms')).toEqual(['root']);
+    });
+
+    it('compares services and operations', () => {
+      expect(ids('service = cart')).toEqual(['child']);
+      expect(ids('service != cart')).toEqual(['root']);
+      expect(ids('operation =~ ^GET')).toEqual(['root']);
+      expect(ids('operation !~ ^GET')).toEqual(['child']);
+    });
+
+    it('compares tags, process tags and logs', () => {
+      expect(ids('http.status_code >= 500')).toEqual(['root']);
+      expect(ids('http.status_code < 500')).toEqual(['child']);
+      expect(ids('tag.http.status_code = 200')).toEqual(['child']);
+      expect(ids('error = true')).toEqual(['root']);
+      expect(ids('error != true')).toEqual([]);
+      expect(ids('error > 0')).toEqual([]);
+      expect(ids('hostname =~ web')).toEqual(['root']);
+      expect(ids('log.event = retry')).toEqual(['root']);
+      expect(ids('log.http.status_code = 200')).toEqual([]);
+    });
+
+    it('combines conditions', () => {
+      expect(ids('duration > 50ms AND http.status_code >= 500 AND service = frontend')).toEqual(['root']);
+      expect(ids('service = cart OR error = true')).toEqual(['root', 'child']);
+      expect(ids('NOT service = cart')).toEqual(['root']);
+      expect(ids('select AND NOT (retry OR service = frontend)')).toEqual(['child']);
+      expect(ids('retry select')).toEqual(['root', 'child']);
+    });
+
+    it('searches the text of invalid queries as free text', () => {
+      // "50" is in the status code of the root span
+      expect(ids('duration > 50')).toEqual(['root']);
+      expect(ids('cart=')).toEqual([]);
+      expect(ids('-error')).toEqual([]);
+    });
+
+    describe('queries written for the original free-text search', () => {
+      // the free-text search before the query syntax
+      const originalFilterSpans = (textFilter, traceSpans) => {
+        const includeFilters = [];
+        const excludeKeys = [];
+        (textFilter.match(/[^\s"]+|"([^"]*)"/g) || [])
+          .map(e => e.replace(/"(.*)"/, '$1'))
+          .filter(Boolean)
+          .forEach(w => {
+            if (w[0] === '-') {
+              excludeKeys.push(w.substr(1).toLowerCase());
+            } else {
+              includeFilters.push(w.toLowerCase());
+            }
+          });
+        const isTextInFilters = (filters, text) =>
+          filters.some(filter => text.toLowerCase().includes(filter));
+        const isTextInKeyValues = kvs =>
+          kvs.some(
+            kv =>
+              !isTextInFilters(excludeKeys, kv.key) &&
+              (isTextInFilters(includeFilters, kv.key) ||
+                isTextInFilters(includeFilters, kv.value.toString()) ||
+                isTextInFilters(includeFilters, `${kv.key}=${kv.value.toString()}`))
+          );
+        return traceSpans
+          .filter(
+            span =>
+              isTextInFilters(includeFilters, span.operationName) ||
+              isTextInFilters(includeFilters, span.process.serviceName) ||
+              isTextInKeyValues(span.tags) ||
+              span.logs.some(log => isTextInKeyValues(log.fields)) ||
+              isTextInKeyValues(span.process.tags) ||
+              includeFilters.includes(span.spanID)
+          )
+          .map(span => span.spanID);
+      };
+      const urlSpans = [
+        { ...root, tags: [...root.tags, { key: 'http.url', value: '/cart?q=1' }] },
+        { ...child, tags: [...child.tags, { key: 'http.method', value: 'GET' }] },
+      ];
+
+      it.each([
+        'http.method=get',
+        'http.method=GET',
+        'code=50',
+        'http.status_code=500',
+        'error=true',
+        'error=true -error',
+        '/cart?q=1',
+        'http.url=/cart?q',
+        'http.url=/cart?q=1',
+        'cart=',
+        'a=b=c',
+        'x<y',
+        'web-1',
+        '"GET /cart"',
+        'hostname=web retry',
+      ])('matches the same spans for %s', query => {
+        expect(Array.from(filterSpans(query, urlSpans))).toEqual(originalFilterSpans(query, urlSpans));
+      });
+    });
+  });
 });
@@ -12,59 +12,149 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { getChildOfMap, computeSelfTime } from '../model/self-time';
+import {
+  ESpanQueryField,
+  ESpanQueryOperator,
+  parseFreeText,
+  parseSpanQuery,
+  TSpanQuery,
+  TSpanQueryNode,
+} from './span-query';
+import { findTextInSpans, getSpanIndex } from './span-index';
 import { KeyValuePair, Span } from '../types/trace';
 import { TNil } from '../types';
 
-export default function filterSpans(textFilter: string, spans: Span[] | TNil) {
-  if (!spans) {
-    return null;
+function compare(operator: ESpanQueryOperator, actual: unknown, expected: number | string | RegExp) {
+  if (expected instanceof RegExp) {
+    return expected.test(String(actual));
+  }
+  if (typeof expected === 'number') {
+    // tag values may be numbers or numeric strings
+    const value = typeof actual === 'number' ? actual : Number(actual);
+    if (typeof actual === 'boolean' || actual === '' || Number.isNaN(value)) {
+      return false;
+    }
+    switch (operator) {
+      case ESpanQueryOperator.Gt:
+        return value > expected;
+      case ESpanQueryOperator.Gte:
+        return value >= expected;
+      case ESpanQueryOperator.Lt:
+        return value < expected;
+      case ESpanQueryOperator.Lte:
+        return value <= expected;
+      default:
+        return value === expected;
+    }
+  }
+  return String(actual) === expected;
+}
+
+/**
+ * Whether any of the values satisfies the comparison. Negated operators are
+ * satisfied when there are values and none of them match, so `http.method != GET`
+ * does not match spans without an `http.method` tag.
+ */
+function compareAny(operator: ESpanQueryOperator, values: unknown[], expected: number | string | RegExp) {
+  if (operator === ESpanQueryOperator.Neq || operator === ESpanQueryOperator.NotMatch) {
+    return values.length > 0 && !values.some(value => compare(ESpanQueryOperator.Eq, value, expected));
+  }
+  return values.some(value => compare(operator, value, expected));
+}
+
+function getKeyValues(kvs: KeyValuePair[] | TNil, key: string): unknown[] {
+  return kvs ? kvs.filter(kv => kv.key === key).map(kv => kv.value) : [];
+}
+
+function getLogValues(span: Span, key: string) {
+  const values: unknown[] = [];
+  if (Array.isArray(span.logs)) {
+    span.logs.forEach(log => values.push(...getKeyValues(log.fields, key)));
   }
+  return values;
+}
 
-  // if a span field includes at least one filter in includeFilters, the span is a match
-  const includeFilters: string[] = [];
+function createMatcher(query: TSpanQuery, spans: Span[]) {
+  const { excludeKeys } = query;
+  let childOfMap: Record<string, Span[]> | null = null;
+  // the spans matching each free-text term, by the position of the spans
+  const textMatches = new Map<string, Uint8Array>();
 
-  // values with keys that include text in any one of the excludeKeys will be ignored
-  const excludeKeys: string[] = [];
+  const isTextMatch = (filter: string, spanIndex: number) => {
+    let matches = textMatches.get(filter);
+    if (!matches) {
+      matches = findTextInSpans(getSpanIndex(spans), filter, excludeKeys);
+      textMatches.set(filter, matches);
+    }
+    return matches[spanIndex] === 1;
+  };
 
-  // split textFilter by whitespace, but not that in double quotes, remove empty strings, and extract includeFilters and excludeKeys
-  const regex = /[^\s"]+|"([^"]*)"/g;
-  const match = textFilter.match(regex);
-  const results = match ? match.map(e => e.replace(/"(.*)"/, '$1')) : [];
+  const getValues = (node: TSpanQueryNode & { type: 'comparison' }, span: Span): unknown[] => {
+    const { field, key } = node;
+    switch (field) {
+      case ESpanQueryField.Duration:
+        return [span.duration];
+      case ESpanQueryField.SelfTime:
+        // only computed when the query needs it
+        childOfMap = childOfMap || getChildOfMap(spans);
+        return [computeSelfTime(span, childOfMap[span.spanID] || [])];
+      case ESpanQueryField.Operation:
+        return [span.operationName];
+      case ESpanQueryField.Service:
+        return [span.process.serviceName];
+      case ESpanQueryField.Log:
+        return getLogValues(span, key as string);
+      default:
+        return getKeyValues(span.tags, key as string).concat(
+          getKeyValues(span.process.tags, key as string),
+          getLogValues(span, key as string)
+        );
+    }
+  };
 
-  results.filter(Boolean).forEach(w => {
-    if (w[0] === '-') {
-      excludeKeys.push(w.substr(1).toLowerCase());
-    } else {
-      includeFilters.push(w.toLowerCase());
+  const isMatch = (node: TSpanQueryNode, span: Span, spanIndex: number): boolean => {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => isMatch(child, span, spanIndex));
+      case 'or':
+        return node.children.some(child => isMatch(child, span, spanIndex));
+      case 'not':
+        return !isMatch(node.child, span, spanIndex);
+      case 'text':
+        return isTextMatch(node.text, spanIndex);
+      default:
+        return compareAny(node.operator, getValues(node, span), node.value);
     }
-  });
+  };
 
-  const isTextInFilters = (filters: Array<string>, text: string) =>
-    filters.some(filter => text.toLowerCase().includes(filter));
+  return isMatch;
+}
 
-  const isTextInKeyValues = (kvs: Array<KeyValuePair>) =>
-    kvs
-      ? kvs.some(kv => {
-          // ignore checking key and value for a match if key is in excludeKeys
-          if (isTextInFilters(excludeKeys, kv.key)) return false;
-          // match if key, value or key=value string matches an item in includeFilters
-          return (
-            isTextInFilters(includeFilters, kv.key) ||
-            isTextInFilters(includeFilters, kv.value.toString()) ||
-            isTextInFilters(includeFilters, `${kv.key}=${kv.value.toString()}`)
-          );
-        })
-      : false;
+/**
+ * Returns the IDs of the spans matching the search text, see `span-query` for
+ * the syntax. The text of invalid queries is searched as free text.
+ */
+export default function filterSpans(textFilter: string, spans: Span[] | TNil) {
+  if (!spans) {
+    return null;
+  }
 
-  const isSpanAMatch = (span: Span) =>
-    isTextInFilters(includeFilters, span.operationName) ||
-    isTextInFilters(includeFilters, span.process.serviceName) ||
-    isTextInKeyValues(span.tags) ||
-    (Array.isArray(span.logs) && span.logs.some(log => isTextInKeyValues(log.fields))) ||
-    isTextInKeyValues(span.process.tags) ||
-    includeFilters.some(filter => filter.replace(/^0*/, '') === span.spanID.replace(/^0*/, ''));
+  let query: TSpanQuery;
+  try {
+    query = parseSpanQuery(textFilter);
+  } catch (_) {
+    query = parseFreeText(textFilter);
+  }
+  const { root } = query;
+  if (!root) {
+    return new Set<string>();
+  }
+  const isMatch = createMatcher(query, spans);
 
   // declare as const because need to disambiguate the type
-  const rv: Set<string> = new Set(spans.filter(isSpanAMatch).map((span: Span) => span.spanID));
+  const rv: Set<string> = new Set(
+    spans.filter((span, i) => isMatch(root, span, i)).map((span: Span) => span.spanID)
+  );
   return rv;
 }
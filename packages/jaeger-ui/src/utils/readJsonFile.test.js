@@ -12,37 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import fs from 'fs';
-import lodash from 'lodash';
 import readJsonFile from './readJsonFile';
-import JaegerAPI from '../api/jaeger';
-
-let OTLPTrace;
-let jaegerTrace;
-let OTLPTraceMulti;
-let jaegerTraceMulti;
-
-beforeAll(() => {
-  OTLPTrace = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-in.json', 'utf-8'));
-  jaegerTrace = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-out.json', 'utf-8'));
-  OTLPTraceMulti = JSON.parse(
-    fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in-combined.json', 'utf-8')
-  );
-  jaegerTraceMulti = JSON.parse(fs.readFileSync('src/utils/fixtures/oltp2jaeger-multi-out.json', 'utf-8'));
-});
-
-jest.spyOn(JaegerAPI, 'transformOTLP').mockImplementation(APICallRequest => {
-  if (lodash.isEqual(APICallRequest, OTLPTrace)) {
-    return Promise.resolve(jaegerTrace);
-  }
-
-  if (lodash.isEqual(APICallRequest, OTLPTraceMulti)) {
-    return Promise.resolve(jaegerTraceMulti);
-  }
-
-  // This defines case where API call errors out even after detecting a `resourceSpan` in the request
-  return Promise.reject();
-});
 
 describe('fileReader.readJsonFile', () => {
   it('rejects when given an invalid file', () => {
@@ -62,39 +32,9 @@ describe('fileReader.readJsonFile', () => {
     return expect(threw).toBe(false);
   });
 
-  it('loads JSON data, successfully', () => {
-    const obj = { ok: true };
-    const file = new File([JSON.stringify(obj)], 'foo.json');
-    const p = readJsonFile({ file });
-    return expect(p).resolves.toMatchObject(obj);
-  });
-
-  it('loads JSON data (OTLP), successfully', () => {
-    const inObj = OTLPTrace;
-    const outObj = jaegerTrace;
-    const file = new File([JSON.stringify(inObj)], 'foo.json');
-    const p = readJsonFile({ file });
-    return expect(p).resolves.toMatchObject(outObj);
-  });
-
-  it('rejects an OTLP trace', () => {
-    const inObj = JSON.parse(fs.readFileSync('src/utils/fixtures/otlp2jaeger-in-error.json', 'utf-8'));
-    const file = new File([JSON.stringify(inObj)], 'foo.json');
-    const p = readJsonFile({ file });
-    return expect(p).rejects.toMatchObject(expect.any(Error));
-  });
-
-  it('rejects malformed JSON', () => {
-    const file = new File(['not-json'], 'foo.json');
-    const p = readJsonFile({ file });
-    return expect(p).rejects.toMatchObject(expect.any(Error));
-  });
-
-  it('loads JSON-per-line data', () => {
-    const expectedOutput = jaegerTraceMulti;
-    const fileContent = fs.readFileSync('src/utils/fixtures/otlp2jaeger-multi-in.json.txt', 'utf-8');
-    const file = new File([fileContent], 'multi.json', { type: 'application/json' });
-    const p = readJsonFile({ file });
-    return expect(p).resolves.toMatchObject(expectedOutput);
+  it('reads the file as text', () => {
+    const text = JSON.stringify({ ok: true });
+    const file = new File([text], 'foo.json');
+    return expect(readJsonFile({ file })).resolves.toBe(text);
   });
 });
@@ -12,24 +12,10 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import JaegerAPI from '../api/jaeger';
-
-function tryParseMultiLineInput(input: string): any[] {
-  const jsonStrings = input.split('\n').filter((line: string) => line.trim() !== '');
-  const parsedObjects: any[] = [];
-
-  jsonStrings.forEach((jsonString: string, index: number) => {
-    try {
-      const traceObj = JSON.parse(jsonString.trim());
-      parsedObjects.push(traceObj);
-    } catch (error) {
-      throw new Error(`Error parsing JSON at line ${index + 1}: ${(error as Error).message}`);
-    }
-  });
-
-  return parsedObjects;
-}
-
+/**
+ * Reads a trace file as text. The parsing is done along with the processing
+ * of the traces, see `processTraces`.
+ */
 export default function readJsonFile(fileList: { file: File }): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -38,37 +24,7 @@ export default function readJsonFile(fileList: { file: File }): Promise<string>
         reject(new Error('Invalid result type'));
         return;
       }
-      let traceObj;
-      try {
-        traceObj = JSON.parse(reader.result);
-      } catch (error) {
-        try {
-          traceObj = tryParseMultiLineInput(reader.result);
-        } catch (error) {
-          reject(error);
-          return;
-        }
-      }
-      if (Array.isArray(traceObj) && traceObj.every(obj => 'resourceSpans' in obj)) {
-        const mergedResourceSpans = traceObj.reduce((acc, obj) => {
-          acc.push(...obj.resourceSpans);
-          return acc;
-        }, []);
-
-        traceObj = { resourceSpans: mergedResourceSpans };
-      }
-
-      if ('resourceSpans' in traceObj) {
-        JaegerAPI.transformOTLP(traceObj)
-          .then((result: string) => {
-            resolve(result);
-          })
-          .catch(() => {
-            reject(new Error('Error converting traces to OTLP'));
-          });
-      } else {
-        resolve(traceObj);
-      }
+      resolve(reader.result);
     };
     reader.onerror = () => {
       const errMessage = reader.error ? `: ${String(reader.error)}` : '';
@@ -0,0 +1,166 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { findTextInSpans, getSpanIndex } from './span-index';
+
+// the free-text matching of `filterSpans` before the index, as the reference
+function isTextMatchLinear(filter, excludeKeys, span) {
+  const isTextInKeyValues = kvs =>
+    kvs
+      ? kvs.some(kv => {
+          if (excludeKeys.some(key => kv.key.toLowerCase().includes(key))) return false;
+          return (
+            kv.key.toLowerCase().includes(filter) ||
+            kv.value.toString().toLowerCase().includes(filter) ||
+            `${kv.key}=${kv.value.toString()}`.toLowerCase().includes(filter)
+          );
+        })
+      : false;
+  return (
+    span.operationName.toLowerCase().includes(filter) ||
+    span.process.serviceName.toLowerCase().includes(filter) ||
+    isTextInKeyValues(span.tags) ||
+    (Array.isArray(span.logs) && span.logs.some(log => isTextInKeyValues(log.fields))) ||
+    isTextInKeyValues(span.process.tags) ||
+    filter.replace(/^0*/, '') === span.spanID.replace(/^0*/, '')
+  );
+}
+
+function findLinear(spans, filter, excludeKeys) {
+  return spans.map(span => (isTextMatchLinear(filter, excludeKeys, span) ? 1 : 0));
+}
+
+// spans like the ones of a large trace, where most strings repeat
+function generateSpans(count) {
+  const processes = ['frontend', 'checkout', 'payment', 'inventory', 'mysql'].map((serviceName, i) => ({
+    serviceName,
+    tags: [
+      { key: 'hostname', value: `host-${i}` },
+      { key: 'ip', value: `10.0.0.${i}` },
+      { key: 'jaeger.version', value: 'Go-2.30.0' },
+    ],
+  }));
+  const methods = ['GET', 'POST', 'PUT'];
+  const statuses = [200, 201, 404, 500];
+  return Array.from({ length: count }, (_, i) => ({
+    spanID: i.toString(16).padStart(16, '0'),
+    operationName: `${methods[i % 3]} /api/v${i % 2}/items`,
+    process: processes[i % processes.length],
+    tags: [
+      { key: 'http.method', value: methods[i % 3] },
+      { key: 'http.status_code', value: statuses[i % 4] },
+      { key: 'error', value: i % 50 === 0 },
+      { key: 'component', value: 'net/http' },
+      { key: 'request.id', value: `req-${i}` },
+    ],
+    logs: [{ timestamp: i, fields: [{ key: 'event', value: i % 7 ? 'cache hit' : 'cache miss' }] }],
+  }));
+}
+
+describe('getSpanIndex', () => {
+  it('is built once for the spans', () => {
+    const spans = generateSpans(3);
+    expect(getSpanIndex(spans)).toBe(getSpanIndex(spans));
+    expect(getSpanIndex(spans)).not.toBe(getSpanIndex(spans.slice()));
+  });
+
+  it('is built again when spans are added', () => {
+    const spans = generateSpans(3);
+    const index = getSpanIndex(spans);
+    spans.push(...generateSpans(1));
+    expect(getSpanIndex(spans)).not.toBe(index);
+    expect(getSpanIndex(spans).size).toBe(4);
+  });
+
+  it('keeps the spans by ID', () => {
+    const spans = generateSpans(3);
+    expect(getSpanIndex(spans).spansByID.get(spans[1].spanID)).toBe(spans[1]);
+  });
+});
+
+describe('findTextInSpans', () => {
+  const spans = generateSpans(60);
+  const index = getSpanIndex(spans);
+  const find = (filter, excludeKeys = []) => Array.from(findTextInSpans(index, filter, excludeKeys));
+  const findIndexes = (filter, excludeKeys) =>
+    find(filter, excludeKeys).reduce((rv, match, i) => (match ? [...rv, i] : rv), []);
+
+  it('finds the operation and service names', () => {
+    expect(findIndexes('put /api')).toEqual(findIndexes('http.method=put'));
+    expect(findIndexes('checkout')).toEqual(spans.map((_, i) => i).filter(i => i % 5 === 1));
+  });
+
+  it('finds the keys, values and key=value strings of the tags, log fields and process tags', () => {
+    expect(findIndexes('request.id=req-42')).toEqual([42]);
+    expect(findIndexes('event=cache miss')).toEqual([0, 7, 14, 21, 28, 35, 42, 49, 56]);
+    expect(findIndexes('host-4')).toEqual([4, 9, 14, 19, 24, 29, 34, 39, 44, 49, 54, 59]);
+    expect(findIndexes('status_code=500')).toEqual([
+      3, 7, 11, 15, 19, 23, 27, 31, 35, 39, 43, 47, 51, 55, 59,
+    ]);
+  });
+
+  it('finds span IDs regardless of leading zeros', () => {
+    expect(findIndexes('2a')).toEqual([42]);
+    expect(findIndexes('0002a')).toEqual([42]);
+  });
+
+  it('ignores the key-value pairs with excluded keys', () => {
+    expect(findIndexes('req-42', ['request'])).toEqual([]);
+    expect(findIndexes('host-4', ['host'])).toEqual([]);
+  });
+
+  it('matches the same spans as a linear scan', () => {
+    [
+      ['get'],
+      ['miss'],
+      ['10.0.0.3'],
+      ['='],
+      ['false'],
+      ['req-1'],
+      ['net/http', ['comp']],
+      ['http', ['http']],
+      ['go-2', ['jaeger']],
+      ['000000000000001f'],
+      ['no-such-text'],
+    ].forEach(([filter, excludeKeys = []]) => {
+      expect(find(filter, excludeKeys)).toEqual(findLinear(spans, filter, excludeKeys));
+    });
+  });
+
+  it('scans far fewer strings than a linear scan on a large trace', () => {
+    const largeSpans = generateSpans(2000);
+    const filters = ['g', 'ge', 'get', 'get /', 'get /api/v1', 'cache', 'req-19', '500', 'mysql', 'nothing'];
+    const largeIndex = getSpanIndex(largeSpans);
+
+    const indexedResults = filters.map(filter => Array.from(findTextInSpans(largeIndex, filter, [])));
+    expect(indexedResults).toEqual(filters.map(filter => findLinear(largeSpans, filter, [])));
+
+    // the strings each search looks at, the span ID is a single lookup
+    const countPairs = postings => Array.from(postings.values()).reduce((sum, pairs) => sum + pairs.size, 0);
+    const indexedCount =
+      largeIndex.names.size + countPairs(largeIndex.keyValues) + countPairs(largeIndex.processKeyValues);
+    const linearCount = largeSpans.reduce(
+      (sum, span) =>
+        sum +
+        2 +
+        span.tags.length +
+        span.logs.reduce((fields, log) => fields + log.fields.length, 0) +
+        span.process.tags.length,
+      0
+    );
+    // only `request.id` is distinct per span
+    expect(indexedCount).toBeLessThan(largeSpans.length + 50);
+    expect(indexedCount).toBeLessThan(linearCount / 5);
+  });
+});
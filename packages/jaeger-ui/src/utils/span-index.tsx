@@ -0,0 +1,172 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { KeyValuePair, Process, Span } from '../types/trace';
+import { TNil } from '../types';
+
+// the spans, or processes, by lower-cased string
+type TPostings<T> = Map<string, T[]>;
+
+// the key-value pairs by lower-cased key, then by lower-cased `key=value`
+type TKeyValuePostings<T> = Map<string, Map<string, { value: string; items: T[] }>>;
+
+/**
+ * An inverted index of the strings the free-text search looks at, see
+ * `filterSpans`. Free-text terms match substrings, which can not be looked up
+ * in an index of words, so the distinct strings are scanned instead of the
+ * spans. Most strings repeat across spans, e.g. service names and tag values,
+ * so there are far fewer of them.
+ */
+export type TSpanIndex = {
+  // the number of spans the index was built from
+  size: number;
+  // operation and service names
+  names: TPostings<number>;
+  // the tags and log fields of the spans
+  keyValues: TKeyValuePostings<number>;
+  // the process tags, which are shared by the spans of a process
+  processKeyValues: TKeyValuePostings<Process>;
+  processSpans: Map<Process, number[]>;
+  // span IDs without leading zeros
+  spanIDs: TPostings<number>;
+  spansByID: Map<string, Span>;
+};
+
+function addPosting<T>(postings: TPostings<T>, text: string, item: T) {
+  const items = postings.get(text);
+  if (!items) {
+    postings.set(text, [item]);
+  } else if (items[items.length - 1] !== item) {
+    items.push(item);
+  }
+}
+
+function addKeyValues<T>(postings: TKeyValuePostings<T>, kvs: KeyValuePair[] | TNil, item: T) {
+  if (!kvs) {
+    return;
+  }
+  kvs.forEach(kv => {
+    const key = kv.key.toLowerCase();
+    let pairs = postings.get(key);
+    if (!pairs) {
+      pairs = new Map();
+      postings.set(key, pairs);
+    }
+    const value = String(kv.value);
+    const pair = `${kv.key}=${value}`.toLowerCase();
+    const entry = pairs.get(pair);
+    if (!entry) {
+      pairs.set(pair, { value: value.toLowerCase(), items: [item] });
+    } else if (entry.items[entry.items.length - 1] !== item) {
+      entry.items.push(item);
+    }
+  });
+}
+
+function buildSpanIndex(spans: Span[]): TSpanIndex {
+  const index: TSpanIndex = {
+    size: spans.length,
+    names: new Map(),
+    keyValues: new Map(),
+    processKeyValues: new Map(),
+    processSpans: new Map(),
+    spanIDs: new Map(),
+    spansByID: new Map(),
+  };
+  spans.forEach((span, i) => {
+    const { process } = span;
+    addPosting(index.names, span.operationName.toLowerCase(), i);
+    addPosting(index.names, process.serviceName.toLowerCase(), i);
+    addKeyValues(index.keyValues, span.tags, i);
+    if (Array.isArray(span.logs)) {
+      span.logs.forEach(log => addKeyValues(index.keyValues, log.fields, i));
+    }
+    const processSpans = index.processSpans.get(process);
+    if (processSpans) {
+      processSpans.push(i);
+    } else {
+      index.processSpans.set(process, [i]);
+      addKeyValues(index.processKeyValues, process.tags, process);
+    }
+    addPosting(index.spanIDs, span.spanID.replace(/^0*/, ''), i);
+    index.spansByID.set(span.spanID, span);
+  });
+  return index;
+}
+
+const indexes = new WeakMap<Span[], TSpanIndex>();
+
+/**
+ * The index of the spans, built on first use and kept as long as the spans,
+ * e.g. the spans of a trace after `transformTraceData`.
+ */
+export function getSpanIndex(spans: Span[]): TSpanIndex {
+  let index = indexes.get(spans);
+  // the arrays of spans are not meant to change, this is a safety net
+  if (!index || index.size !== spans.length) {
+    index = buildSpanIndex(spans);
+    indexes.set(spans, index);
+  }
+  return index;
+}
+
+function findInKeyValues<T>(
+  postings: TKeyValuePostings<T>,
+  filter: string,
+  excludeKeys: string[],
+  onMatch: (items: T[]) => void
+) {
+  postings.forEach((pairs, key) => {
+    // the key-value pairs with excluded keys are ignored
+    if (excludeKeys.some(excludeKey => key.includes(excludeKey))) {
+      return;
+    }
+    const isKeyMatch = key.includes(filter);
+    pairs.forEach(({ value, items }, pair) => {
+      if (isKeyMatch || value.includes(filter) || pair.includes(filter)) {
+        onMatch(items);
+      }
+    });
+  });
+}
+
+/**
+ * Flags the spans with the lower-cased `filter` in their operation name,
+ * service name, the keys or values of their tags, log fields or process tags,
+ * or as their span ID.
+ *
+ * @returns The flags, by the position of the spans in the indexed array.
+ */
+export function findTextInSpans(index: TSpanIndex, filter: string, excludeKeys: string[]) {
+  const matches = new Uint8Array(index.size);
+  const markSpans = (items: number[]) => {
+    for (let i = 0; i < items.length; i++) {
+      matches[items[i]] = 1;
+    }
+  };
+  index.names.forEach((items, name) => {
+    if (name.includes(filter)) {
+      markSpans(items);
+    }
+  });
+  findInKeyValues(index.keyValues, filter, excludeKeys, markSpans);
+  findInKeyValues(index.processKeyValues, filter, excludeKeys, processes =>
+    processes.forEach(process => markSpans(index.processSpans.get(process) || []))
+  );
+  const spanIDs = index.spanIDs.get(filter.replace(/^0*/, ''));
+  if (spanIDs) {
+    markSpans(spanIDs);
+  }
+  return matches;
+}
@@ -0,0 +1,137 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { getSpanQueryError, parseFreeText, parseSpanQuery, tokenize } from './span-query';
+
+const text = value => ({ type: 'text', text: value });
+
+describe('tokenize()', () => {
+  it('splits words, phrases, parentheses and operators', () => {
+    expect(tokenize('(a>=1 OR "b c") x!~y!').map(({ type, text: t }) => [type, t])).toEqual([
+      ['lparen', '('],
+      ['word', 'a'],
+      ['operator', '>='],
+      ['word', '1'],
+      ['word', 'OR'],
+      ['quoted', 'b c'],
+      ['rparen', ')'],
+      ['word', 'x'],
+      ['operator', '!~'],
+      ['word', 'y!'],
+    ]);
+  });
+
+  it('ignores empty phrases unless they are values', () => {
+    expect(tokenize('"" a = ""').map(token => token.type)).toEqual(['word', 'operator', 'quoted']);
+  });
+});
+
+describe('parseSpanQuery()', () => {
+  it('parses free text like the original search', () => {
+    expect(parseSpanQuery('Foo "Bar baz" -Key')).toEqual({
+      excludeKeys: ['key'],
+      root: { type: 'or', children: [text('foo'), text('bar baz')] },
+    });
+    expect(parseSpanQuery('  ')).toEqual({ excludeKeys: [], root: null });
+  });
+
+  it('parses comparisons', () => {
+    expect(parseSpanQuery('duration > 1.5ms').root).toEqual({
+      type: 'comparison',
+      field: 'duration',
+      key: null,
+      operator: '>',
+      value: 1500,
+    });
+    expect(parseSpanQuery('self_time<=2s').root).toMatchObject({ field: 'self_time', value: 2000000 });
+    expect(parseSpanQuery('service = "my svc"').root).toMatchObject({ field: 'service', value: 'my svc' });
+    expect(parseSpanQuery('operation =~ ^GET').root.value).toEqual(/^GET/);
+    expect(parseSpanQuery('tag.duration >= 500').root).toMatchObject({
+      field: 'tag',
+      key: 'duration',
+      value: 500,
+    });
+    expect(parseSpanQuery('log.event = error').root).toMatchObject({
+      field: 'log',
+      key: 'event',
+      value: 'error',
+    });
+    expect(parseSpanQuery('http.status_code!=200').root).toMatchObject({
+      field: 'tag',
+      key: 'http.status_code',
+      operator: '!=',
+      value: '200',
+    });
+  });
+
+  it('parses bare key=value terms as free text, like the original search', () => {
+    expect(parseSpanQuery('http.method=GET').root).toEqual(text('http.method=get'));
+    expect(parseSpanQuery('error = true').root).toEqual(text('error=true'));
+    expect(parseSpanQuery('/search?q=1').root).toEqual(text('/search?q=1'));
+    expect(parseSpanQuery('tag.http.method=GET').root).toMatchObject({ type: 'comparison', value: 'GET' });
+  });
+
+  it('gives NOT precedence over AND, and AND over OR', () => {
+    expect(parseSpanQuery('a OR NOT b AND c').root).toEqual({
+      type: 'or',
+      children: [text('a'), { type: 'and', children: [{ type: 'not', child: text('b') }, text('c')] }],
+    });
+    expect(parseSpanQuery('NOT (a b) AND c').root).toEqual({
+      type: 'and',
+      children: [{ type: 'not', child: { type: 'or', children: [text('a'), text('b')] } }, text('c')],
+    });
+  });
+
+  it('only treats upper case keywords as operators', () => {
+    expect(parseSpanQuery('a and b').root.children).toEqual([text('a'), text('and'), text('b')]);
+  });
+
+  it('throws on syntax errors', () => {
+    expect(() => parseSpanQuery('(a')).toThrow('expected ")" to close the "(" at position 1');
+    expect(() => parseSpanQuery('a)')).toThrow('unexpected ")" at position 2');
+    expect(() => parseSpanQuery('()')).toThrow('the parentheses at position 1 are empty');
+    expect(() => parseSpanQuery('a AND')).toThrow('expected a search term but found the end of the query');
+    expect(() => parseSpanQuery('OR a')).toThrow('expected a search term before "OR" at position 1');
+    expect(() => parseSpanQuery('a OR')).toThrow('expected a search term after "OR"');
+    expect(() => parseSpanQuery('= a')).toThrow('expected a field name before "=" at position 1');
+    expect(() => parseSpanQuery('a =')).toThrow('expected a value after "="');
+    expect(() => parseSpanQuery('"a')).toThrow('the quote at position 1 is never closed');
+  });
+
+  it('throws on invalid values', () => {
+    expect(() => parseSpanQuery('duration > 50')).toThrow('"50" at position 12 is not a duration');
+    expect(() => parseSpanQuery('duration =~ 50ms')).toThrow('"=~" can not be used with duration');
+    expect(() => parseSpanQuery('service > a')).toThrow('">" can not be used with service');
+    expect(() => parseSpanQuery('status > high')).toThrow('"high" at position 10 is not a number');
+    expect(() => parseSpanQuery('operation =~ "("')).toThrow('is not a valid regular expression');
+  });
+});
+
+describe('parseFreeText()', () => {
+  it('parses the text like the original search', () => {
+    expect(parseFreeText('a= "B c" -Key x>y')).toEqual({
+      excludeKeys: ['key'],
+      root: { type: 'or', children: [text('a='), text('b c'), text('x>y')] },
+    });
+    expect(parseFreeText('a=b')).toEqual({ excludeKeys: [], root: text('a=b') });
+    expect(parseFreeText(' ')).toEqual({ excludeKeys: [], root: null });
+  });
+});
+
+describe('getSpanQueryError()', () => {
+  it('returns the syntax error, if any', () => {
+    expect(getSpanQueryError('a AND b')).toBe(null);
+    expect(getSpanQueryError('(a')).toBe('Invalid search: expected ")" to close the "(" at position 1');
+  });
+});
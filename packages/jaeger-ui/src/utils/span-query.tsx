@@ -0,0 +1,371 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizeOne from 'memoize-one';
+
+// Grammar, from the loosest to the tightest binding:
+//
+//   query      := and ( [ "OR" ] and )*     terms next to each other match any of them
+//   and        := not ( "AND" not )*
+//   not        := "NOT" not | primary
+//   primary    := "(" query ")" | comparison | text
+//   comparison := field operator value
+//
+// Free-text terms, `key=value` terms and `-key` exclusions keep their original
+// meaning, and queries that do not parse are searched as free text, so any
+// query written for the free-text search matches the same spans.
+
+export enum ESpanQueryField {
+  Duration = 'duration',
+  Log = 'log',
+  Operation = 'operation',
+  SelfTime = 'self_time',
+  Service = 'service',
+  Tag = 'tag',
+}
+
+export enum ESpanQueryOperator {
+  Eq = '=',
+  Neq = '!=',
+  Gt = '>',
+  Gte = '>=',
+  Lt = '<',
+  Lte = '<=',
+  Match = '=~',
+  NotMatch = '!~',
+}
+
+export type TSpanQueryNode =
+  | { type: 'and' | 'or'; children: TSpanQueryNode[] }
+  | { type: 'not'; child: TSpanQueryNode }
+  | { type: 'text'; text: string }
+  | {
+      type: 'comparison';
+      field: ESpanQueryField;
+      // the tag or log field key, `null` to look in tags, process tags and logs
+      key: string | null;
+      operator: ESpanQueryOperator;
+      value: number | string | RegExp;
+    };
+
+export type TSpanQuery = {
+  // keys of the key-value pairs ignored by free-text terms, lower-cased
+  excludeKeys: string[];
+  // `null` when the query has no condition
+  root: TSpanQueryNode | null;
+};
+
+type TToken = {
+  type: 'lparen' | 'operator' | 'quoted' | 'rparen' | 'word';
+  text: string;
+  position: number;
+};
+
+const KEYWORDS = new Set(['AND', 'NOT', 'OR']);
+const NUMERIC_OPERATORS = new Set([
+  ESpanQueryOperator.Gt,
+  ESpanQueryOperator.Gte,
+  ESpanQueryOperator.Lt,
+  ESpanQueryOperator.Lte,
+]);
+const REGEX_OPERATORS = new Set([ESpanQueryOperator.Match, ESpanQueryOperator.NotMatch]);
+// two-character operators first so `>=` is not read as `>`
+const OPERATORS = ['>=', '<=', '!=', '=~', '!~', '=', '>', '<'];
+const DURATION_UNITS: Record<string, number> = {
+  us: 1,
+  µs: 1,
+  μs: 1,
+  ms: 1000,
+  s: 1000 * 1000,
+  m: 60 * 1000 * 1000,
+  h: 60 * 60 * 1000 * 1000,
+};
+const DURATION_RE = /^(\d+(?:\.\d+)?|\.\d+)(us|µs|μs|ms|s|m|h)$/;
+
+function describeToken(token: TToken | undefined) {
+  return token ? `"${token.text}" at position ${token.position + 1}` : 'the end of the query';
+}
+
+function syntaxError(message: string) {
+  return new Error(`Invalid search: ${message}`);
+}
+
+function readOperator(text: string, i: number) {
+  return OPERATORS.find(op => text.startsWith(op, i)) || null;
+}
+
+// exported for tests
+export function tokenize(text: string): TToken[] {
+  const tokens: TToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const operator = readOperator(text, i);
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end < 0) {
+        throw syntaxError(`the quote at position ${i + 1} is never closed`);
+      }
+      const prev = tokens[tokens.length - 1];
+      // empty phrases are ignored, except as values
+      if (end > i + 1 || (prev && prev.type === 'operator')) {
+        tokens.push({ type: 'quoted', text: text.slice(i + 1, end), position: i });
+      }
+      i = end + 1;
+    } else if (operator) {
+      tokens.push({ type: 'operator', text: operator, position: i });
+      i += operator.length;
+    } else {
+      const start = i;
+      while (i < text.length && !/[\s"()<>=]/.test(text[i]) && !(text[i] === '!' && readOperator(text, i))) {
+        i++;
+      }
+      tokens.push({ type: 'word', text: text.slice(start, i), position: start });
+    }
+  }
+  return tokens;
+}
+
+function parseField(name: string): { field: ESpanQueryField; key: string | null } {
+  switch (name) {
+    case ESpanQueryField.Duration:
+    case ESpanQueryField.Operation:
+    case ESpanQueryField.SelfTime:
+    case ESpanQueryField.Service:
+      return { field: name, key: null };
+    default:
+      break;
+  }
+  if (name.startsWith(`${ESpanQueryField.Tag}.`)) {
+    return { field: ESpanQueryField.Tag, key: name.slice(ESpanQueryField.Tag.length + 1) };
+  }
+  if (name.startsWith(`${ESpanQueryField.Log}.`)) {
+    return { field: ESpanQueryField.Log, key: name.slice(ESpanQueryField.Log.length + 1) };
+  }
+  // bare keys are looked up in all key-value pairs
+  return { field: ESpanQueryField.Tag, key: name };
+}
+
+function isBareKey(name: string) {
+  return (
+    !Object.values(ESpanQueryField).includes(name as ESpanQueryField) &&
+    !name.startsWith(`${ESpanQueryField.Tag}.`) &&
+    !name.startsWith(`${ESpanQueryField.Log}.`)
+  );
+}
+
+function parseValue(field: ESpanQueryField, operator: ESpanQueryOperator, token: TToken) {
+  const { text } = token;
+  const isDuration = field === ESpanQueryField.Duration || field === ESpanQueryField.SelfTime;
+  if (REGEX_OPERATORS.has(operator)) {
+    if (isDuration) {
+      throw syntaxError(`"${operator}" can not be used with ${field}`);
+    }
+    try {
+      return new RegExp(text);
+    } catch (_) {
+      throw syntaxError(`${describeToken(token)} is not a valid regular expression`);
+    }
+  }
+  if (isDuration) {
+    const match = text.match(DURATION_RE);
+    if (!match) {
+      throw syntaxError(
+        `${describeToken(token)} is not a duration, use a number and a unit, e.g. 1.2s, 50ms, 500us`
+      );
+    }
+    return parseFloat(match[1]) * DURATION_UNITS[match[2]];
+  }
+  if (NUMERIC_OPERATORS.has(operator)) {
+    if (field !== ESpanQueryField.Tag && field !== ESpanQueryField.Log) {
+      throw syntaxError(`"${operator}" can not be used with ${field}`);
+    }
+    const value = Number(text);
+    if (!text || Number.isNaN(value)) {
+      throw syntaxError(`${describeToken(token)} is not a number`);
+    }
+    return value;
+  }
+  return text;
+}
+
+function parse(text: string): TSpanQuery {
+  const tokens = tokenize(text);
+  const excludeKeys: string[] = [];
+  let i = 0;
+
+  const isKeyword = (keyword: string) => {
+    const token = tokens[i];
+    return Boolean(token && token.type === 'word' && token.text === keyword);
+  };
+
+  const startsCondition = () => {
+    const token = tokens[i];
+    return Boolean(
+      token &&
+        token.type !== 'rparen' &&
+        token.type !== 'operator' &&
+        !(token.type === 'word' && (token.text === 'AND' || token.text === 'OR'))
+    );
+  };
+
+  // `-key` exclusions apply to the whole query and are not conditions
+  const skipExclusions = () => {
+    while (i < tokens.length && tokens[i].type === 'word' && /^-./.test(tokens[i].text)) {
+      excludeKeys.push(tokens[i].text.slice(1).toLowerCase());
+      i++;
+    }
+  };
+
+  let parseQuery: () => TSpanQueryNode | null;
+
+  const parsePrimary = (): TSpanQueryNode => {
+    const token = tokens[i];
+    if (
+      !token ||
+      token.type === 'rparen' ||
+      token.type === 'operator' ||
+      (token.type === 'word' && KEYWORDS.has(token.text))
+    ) {
+      throw syntaxError(`expected a search term but found ${describeToken(token)}`);
+    }
+    i++;
+    if (token.type === 'lparen') {
+      const node = parseQuery();
+      if (!tokens[i] || tokens[i].type !== 'rparen') {
+        throw syntaxError(`expected ")" to close the "(" at position ${token.position + 1}`);
+      }
+      if (!node) {
+        throw syntaxError(`the parentheses at position ${token.position + 1} are empty`);
+      }
+      i++;
+      return node;
+    }
+    const operatorToken = tokens[i];
+    if (!operatorToken || operatorToken.type !== 'operator') {
+      return { type: 'text', text: token.text.toLowerCase() };
+    }
+    i++;
+    const valueToken = tokens[i];
+    if (!valueToken || (valueToken.type !== 'word' && valueToken.type !== 'quoted')) {
+      throw syntaxError(
+        `expected a value after "${operatorToken.text}" but found ${describeToken(valueToken)}`
+      );
+    }
+    i++;
+    const operator = operatorToken.text as ESpanQueryOperator;
+    if (operator === ESpanQueryOperator.Eq && isBareKey(token.text)) {
+      // a substring of the key-value pairs, as in the free-text search
+      return { type: 'text', text: `${token.text}=${valueToken.text}`.toLowerCase() };
+    }
+    const { field, key } = parseField(token.text);
+    return { type: 'comparison', field, key, operator, value: parseValue(field, operator, valueToken) };
+  };
+
+  const parseNot = (): TSpanQueryNode => {
+    if (isKeyword('NOT')) {
+      i++;
+      skipExclusions();
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): TSpanQueryNode => {
+    const children = [parseNot()];
+    skipExclusions();
+    while (isKeyword('AND')) {
+      i++;
+      skipExclusions();
+      children.push(parseNot());
+      skipExclusions();
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  parseQuery = () => {
+    const children: TSpanQueryNode[] = [];
+    skipExclusions();
+    while (startsCondition()) {
+      children.push(parseAnd());
+      if (isKeyword('OR')) {
+        i++;
+        skipExclusions();
+        if (!startsCondition()) {
+          throw syntaxError(`expected a search term after "OR" but found ${describeToken(tokens[i])}`);
+        }
+      }
+    }
+    if (isKeyword('AND') || isKeyword('OR')) {
+      throw syntaxError(`expected a search term before ${describeToken(tokens[i])}`);
+    }
+    if (!children.length) {
+      return null;
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const root = parseQuery();
+  if (i < tokens.length) {
+    const token = tokens[i];
+    throw syntaxError(
+      token.type === 'operator'
+        ? `expected a field name before ${describeToken(token)}`
+        : `unexpected ${describeToken(token)}`
+    );
+  }
+  return { excludeKeys, root };
+}
+
+/**
+ * Parses the search text of the trace page. Throws an `Error` describing the
+ * first syntax error found.
+ */
+export const parseSpanQuery = memoizeOne(parse);
+
+/**
+ * Parses the search text as the free-text search did before the query syntax:
+ * terms separated by whitespace, phrases in double quotes, and `-key`
+ * exclusions. Used for the text that is not a valid query.
+ */
+export function parseFreeText(text: string): TSpanQuery {
+  const excludeKeys: string[] = [];
+  const children: TSpanQueryNode[] = [];
+  const words = (text.match(/[^\s"]+|"([^"]*)"/g) || []).map(word => word.replace(/"(.*)"/, '$1'));
+  words.filter(Boolean).forEach(word => {
+    if (word[0] === '-') {
+      excludeKeys.push(word.slice(1).toLowerCase());
+    } else {
+      children.push({ type: 'text', text: word.toLowerCase() });
+    }
+  });
+  if (children.length < 2) {
+    return { excludeKeys, root: children[0] || null };
+  }
+  return { excludeKeys, root: { type: 'or', children } };
+}
+
+export function getSpanQueryError(text: string): string | null {
+  try {
+    parseSpanQuery(text);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
@@ -0,0 +1,119 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { act, renderHook } from '@testing-library/react';
+
+import JaegerAPI from '../../api/jaeger';
+import traceGenerator from '../../demo/trace-generators';
+import {
+  CANCELLED_MESSAGE,
+  cancelTraceProcessing,
+  getTraceJobKey,
+  processTraces,
+  useTraceJobs,
+} from './index';
+import { getPrecomputedTraceDagEV } from './precomputed';
+
+describe('processTraces', () => {
+  const key = getTraceJobKey('trace-id');
+  const getPayload = () => ({ data: [traceGenerator.trace({ numberOfSpans: 3 })] });
+  const invalidOtlp = {
+    resourceSpans: [{ scopeSpans: [{ spans: [{ traceId: 'x', spanId: 'not-a-span-id' }] }] }],
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves the transformed traces, along with the data derived from them', async () => {
+    const payload = getPayload();
+    const { data } = await processTraces(key, { payload });
+    expect(data[0].traceID).toBe(payload.data[0].traceID);
+    expect(getPrecomputedTraceDagEV(data[0])).toEqual(
+      expect.objectContaining({ vertices: expect.any(Array) })
+    );
+  });
+
+  it('falls back to the main thread when the worker can not start', async () => {
+    // the worker module is stubbed in tests, see `test/worker-stub.js`
+    global.Worker = function Worker() {};
+    try {
+      const { data } = await processTraces(key, { payload: getPayload() });
+      expect(data).toHaveLength(1);
+    } finally {
+      delete global.Worker;
+    }
+  });
+
+  it('falls back to the main thread when the worker fails', async () => {
+    const terminate = jest.fn();
+    // fails like a worker whose modules throw when they load
+    class FailingWorker {
+      postMessage() {
+        setTimeout(() => this.onerror({ message: 'window is not defined', preventDefault() {} }));
+      }
+
+      terminate = terminate;
+    }
+    jest.resetModules();
+    jest.doMock('./worker?worker', () => ({ __esModule: true, default: FailingWorker }));
+    global.Worker = FailingWorker;
+    try {
+      const pipeline = await import('./index');
+      const payload = getPayload();
+      const { data } = await pipeline.processTraces(key, { payload });
+      expect(terminate).toHaveBeenCalled();
+      expect(data[0].traceID).toBe(payload.data[0].traceID);
+    } finally {
+      delete global.Worker;
+      jest.dontMock('./worker?worker');
+    }
+  });
+
+  it('tracks the progress of the jobs by key', async () => {
+    const { result } = renderHook(() => useTraceJobs('trace:'));
+    let promise;
+    act(() => {
+      promise = processTraces(key, { payload: getPayload() });
+    });
+    expect(result.current).toEqual([{ key, stage: 'transform', done: 0, total: 1 }]);
+    await act(() => promise);
+    expect(result.current).toEqual([]);
+  });
+
+  it('rejects when cancelled', async () => {
+    const promise = processTraces(key, { payload: getPayload() });
+    cancelTraceProcessing(key);
+    await expect(promise).rejects.toThrow(CANCELLED_MESSAGE);
+  });
+
+  it('rejects when the traces can not be processed', async () => {
+    await expect(processTraces(key, { text: 'not-json' })).rejects.toThrow('Error parsing JSON');
+  });
+
+  it('converts the OTLP the browser could not convert with the query service', async () => {
+    const payload = getPayload();
+    const spy = jest.spyOn(JaegerAPI, 'transformOTLP').mockResolvedValue(payload);
+    const { data } = await processTraces(key, { text: JSON.stringify(invalidOtlp) });
+    expect(spy).toHaveBeenCalledWith(invalidOtlp);
+    expect(data[0].traceID).toBe(payload.data[0].traceID);
+  });
+
+  it('rejects when the query service can not convert the OTLP', async () => {
+    jest.spyOn(JaegerAPI, 'transformOTLP').mockRejectedValue(new Error('bad request'));
+    await expect(processTraces(key, { text: JSON.stringify(invalidOtlp) })).rejects.toThrow(
+      'Error converting traces to OTLP'
+    );
+  });
+});
@@ -0,0 +1,214 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMemo, useSyncExternalStore } from 'react';
+
+import JaegerAPI from '../../api/jaeger';
+import { TTracesPayload } from '../../model/trace-formats/types';
+import { getConfigValue } from '../config/get-config';
+import { setPrecomputed } from './precomputed';
+import runTracePipeline, {
+  TProcessedTraces,
+  TTracePipelineInput,
+  TTracePipelineProgress,
+  TTracePipelineResult,
+} from './run';
+import { TWorkerRequest, TWorkerResponse } from './worker';
+// the `?worker` suffix is resolved by Vite, see https://vite.dev/guide/features#web-workers
+// eslint-disable-next-line import/no-unresolved
+import TracePipelineWorker from './worker?worker';
+
+export type TTraceJob = TTracePipelineProgress & { key: string };
+
+type TRun = {
+  cancel: () => void;
+  promise: Promise<TTracePipelineResult>;
+};
+
+export const CANCELLED_MESSAGE = 'The loading of the traces was cancelled';
+
+export const FILE_JOB_KEY_PREFIX = 'file:';
+
+export function getTraceJobKey(traceID: string) {
+  return `trace:${traceID}`;
+}
+
+// the jobs are replaced, not mutated, so they can be used as the snapshot of
+// `useSyncExternalStore`
+let jobs: TTraceJob[] = [];
+const listeners = new Set<() => void>();
+const cancels = new Map<string, () => void>();
+
+function setJob(key: string, progress: TTracePipelineProgress | null) {
+  jobs = jobs.filter(job => job.key !== key);
+  if (progress) {
+    jobs = [...jobs, { ...progress, key }];
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getJobs() {
+  return jobs;
+}
+
+// used where workers are not available or fail, e.g. in tests
+function runOnMainThread(
+  input: TTracePipelineInput,
+  onProgress: (progress: TTracePipelineProgress) => void
+): TRun {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let rejectRun: (error: Error) => void = () => {};
+  const promise = new Promise<TTracePipelineResult>((resolve, reject) => {
+    rejectRun = reject;
+    // lets the loading state render before the main thread is busy
+    timeout = setTimeout(() => {
+      try {
+        resolve(runTracePipeline(input, onProgress));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+  const cancel = () => {
+    clearTimeout(timeout);
+    rejectRun(new Error(CANCELLED_MESSAGE));
+  };
+  return { cancel, promise };
+}
+
+function runInWorker(
+  input: TTracePipelineInput,
+  onProgress: (progress: TTracePipelineProgress) => void
+): TRun | null {
+  let worker: Worker;
+  try {
+    worker = new TracePipelineWorker();
+  } catch (_) {
+    return null;
+  }
+  let rejectRun: (error: Error) => void = () => {};
+  let cancelRun = () => {
+    worker.terminate();
+    rejectRun(new Error(CANCELLED_MESSAGE));
+  };
+  const promise = new Promise<TTracePipelineResult>((resolve, reject) => {
+    rejectRun = reject;
+    worker.onmessage = ({ data }: MessageEvent<TWorkerResponse>) => {
+      if (data.type === 'progress') {
+        onProgress(data.progress);
+        return;
+      }
+      worker.terminate();
+      if (data.type === 'done') {
+        resolve(data.result);
+      } else {
+        reject(new Error(data.message));
+      }
+    };
+    // the worker failed to load or crashed, the main thread does the work instead
+    worker.onerror = event => {
+      event.preventDefault();
+      worker.terminate();
+      const fallback = runOnMainThread(input, onProgress);
+      cancelRun = fallback.cancel;
+      fallback.promise.then(resolve, reject);
+    };
+    const request: TWorkerRequest = {
+      config: {
+        criticalPathEnabled: getConfigValue('criticalPathEnabled'),
+        criticalPathFollowsAsync: getConfigValue('criticalPathFollowsAsync'),
+        topTagPrefixes: getConfigValue('topTagPrefixes'),
+      },
+      input,
+    };
+    worker.postMessage(request);
+  });
+  return { cancel: () => cancelRun(), promise };
+}
+
+/**
+ * Cancels the processing of traces started with `processTraces`, which then
+ * rejects.
+ */
+export function cancelTraceProcessing(key: string) {
+  const cancel = cancels.get(key);
+  if (cancel) {
+    cancel();
+  }
+}
+
+/**
+ * Parses and transforms traces in a web worker, see `runTracePipeline`. The
+ * progress is tracked by `key` until the returned promise settles. When jobs
+ * share a key, the latest one is tracked.
+ */
+export function processTraces(key: string, input: TTracePipelineInput): Promise<TProcessedTraces> {
+  let run: TRun | undefined;
+  const isTracked = () => run !== undefined && cancels.get(key) === run.cancel;
+  const onProgress = (progress: TTracePipelineProgress) => {
+    if (isTracked()) {
+      setJob(key, progress);
+    }
+  };
+  run =
+    (typeof Worker !== 'undefined' && runInWorker(input, onProgress)) || runOnMainThread(input, onProgress);
+  cancels.set(key, run.cancel);
+  setJob(key, { stage: 'text' in input ? 'parse' : 'transform', done: 0, total: 1 });
+
+  const release = () => {
+    if (isTracked()) {
+      cancels.delete(key);
+      setJob(key, null);
+    }
+  };
+  return run.promise.then(
+    result => {
+      release();
+      if ('otlp' in result) {
+        // the query service converts the OTLP the browser could not convert
+        return JaegerAPI.transformOTLP(result.otlp).then(
+          (payload: TTracesPayload) => processTraces(key, { payload }),
+          () => {
+            throw new Error('Error converting traces to OTLP');
+          }
+        );
+      }
+      result.payload.data.forEach((trace, i) => {
+        if (trace) {
+          setPrecomputed(trace, result.precomputed[i]);
+        }
+      });
+      return result.payload;
+    },
+    error => {
+      release();
+      throw error;
+    }
+  );
+}
+
+/**
+ * The traces being processed, with keys that start with `keyPrefix`.
+ */
+export function useTraceJobs(keyPrefix: string) {
+  const allJobs = useSyncExternalStore(subscribe, getJobs);
+  return useMemo(() => allJobs.filter(job => job.key.startsWith(keyPrefix)), [allJobs, keyPrefix]);
+}
@@ -0,0 +1,40 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { TEv } from '../../components/TracePage/TraceGraph/types';
+import { criticalPathSection, Trace } from '../../types/trace';
+
+/**
+ * The data derived from a trace while it is processed, see `runTracePipeline`.
+ */
+export type TPrecomputed = {
+  criticalPath?: { followAsync: boolean; sections: criticalPathSection[] };
+  traceDagEV?: TEv;
+};
+
+// keyed by the trace, so the data is dropped along with it
+const store = new WeakMap<Trace, TPrecomputed>();
+
+export function setPrecomputed(trace: Trace, precomputed: TPrecomputed) {
+  store.set(trace, precomputed);
+}
+
+export function getPrecomputedCriticalPath(trace: Trace, followAsync: boolean) {
+  const criticalPath = store.get(trace)?.criticalPath;
+  return criticalPath && criticalPath.followAsync === followAsync ? criticalPath.sections : undefined;
+}
+
+export function getPrecomputedTraceDagEV(trace: Trace) {
+  return store.get(trace)?.traceDagEV;
+}
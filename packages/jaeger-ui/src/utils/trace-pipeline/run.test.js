@@ -0,0 +1,97 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import traceGenerator from '../../demo/trace-generators';
+import { getConfigValue } from '../config/get-config';
+import runTracePipeline from './run';
+
+jest.mock('../config/get-config', () => ({
+  getConfigValue: jest.fn(),
+}));
+
+describe('runTracePipeline', () => {
+  const config = {};
+  let progress;
+  const onProgress = p => progress.push(p);
+  const getTrace = () => traceGenerator.trace({ numberOfSpans: 5 });
+
+  beforeEach(() => {
+    progress = [];
+    config.criticalPathEnabled = true;
+    config.criticalPathFollowsAsync = false;
+    getConfigValue.mockImplementation(path => config[path]);
+  });
+
+  it('transforms the traces of a payload', () => {
+    const raw = getTrace();
+    const { payload } = runTracePipeline({ payload: { data: [raw], total: 1 } }, onProgress);
+    expect(payload.total).toBe(1);
+    expect(payload.data).toHaveLength(1);
+    expect(payload.data[0]).toMatchObject({ traceID: raw.traceID, duration: expect.any(Number) });
+    expect(payload.data[0].spans[0].depth).toBe(0);
+  });
+
+  it('gives null for the traces that are not valid', () => {
+    const { payload } = runTracePipeline({ payload: { data: [{ spans: [] }] } }, onProgress);
+    expect(payload.data).toEqual([null]);
+  });
+
+  it('parses the content of a file', () => {
+    const raw = getTrace();
+    const { payload } = runTracePipeline({ text: JSON.stringify({ data: [raw] }) }, onProgress);
+    expect(payload.data[0].traceID).toBe(raw.traceID);
+    expect(progress[0]).toEqual({ stage: 'parse', done: 0, total: 1 });
+  });
+
+  it('returns the OTLP data that can not be converted', () => {
+    const otlp = {
+      resourceSpans: [{ scopeSpans: [{ spans: [{ traceId: 'x', spanId: 'not-a-span-id' }] }] }],
+    };
+    expect(runTracePipeline({ text: JSON.stringify(otlp) }, onProgress)).toEqual({ otlp });
+  });
+
+  it('throws when the traces are missing', () => {
+    expect(() => runTracePipeline({ text: JSON.stringify({ ok: true }) }, onProgress)).toThrow(
+      'Invalid trace data'
+    );
+  });
+
+  it('reports the progress of each stage', () => {
+    runTracePipeline({ payload: { data: [getTrace(), getTrace()] } }, onProgress);
+    expect(progress.map(({ stage, done }) => `${stage}:${done}`)).toEqual([
+      'transform:0',
+      'transform:1',
+      'criticalPath:0',
+      'criticalPath:1',
+      'graph:0',
+      'graph:1',
+    ]);
+    expect(progress.every(({ total }) => total === 2)).toBe(true);
+  });
+
+  it('computes the critical path and the trace graph', () => {
+    config.criticalPathFollowsAsync = true;
+    const { precomputed } = runTracePipeline({ payload: { data: [getTrace()] } }, onProgress);
+    expect(precomputed[0].criticalPath).toEqual({ followAsync: true, sections: expect.any(Array) });
+    expect(precomputed[0].criticalPath.sections.length).toBeGreaterThan(0);
+    expect(precomputed[0].traceDagEV.vertices.length).toBeGreaterThan(0);
+  });
+
+  it('does not compute the critical path when it is disabled', () => {
+    config.criticalPathEnabled = false;
+    const { precomputed } = runTracePipeline({ payload: { data: [getTrace()] } }, onProgress);
+    expect(precomputed[0].criticalPath).toBeUndefined();
+    expect(progress.some(({ stage }) => stage === 'criticalPath')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import memoizedTraceCriticalPath from '../../components/TracePage/CriticalPath';
+import calculateTraceDagEV from '../../components/TracePage/TraceGraph/calculateTraceDagEV';
+import parseTraceFile from '../../model/trace-formats/parse';
+import { TOtlpTracesData, TTracesPayload } from '../../model/trace-formats/types';
+import transformTraceData from '../../model/transform-trace-data';
+import { Trace } from '../../types/trace';
+import { getConfigValue } from '../config/get-config';
+import { TPrecomputed } from './precomputed';
+
+export type TTracePipelineStage = 'parse' | 'transform' | 'criticalPath' | 'graph';
+
+export const STAGES: TTracePipelineStage[] = ['parse', 'transform', 'criticalPath', 'graph'];
+
+export type TTracePipelineProgress = {
+  stage: TTracePipelineStage;
+  // the number of traces the stage is done with
+  done: number;
+  total: number;
+};
+
+// either the content of a trace file or the response of the query service
+export type TTracePipelineInput = { text: string } | { payload: TTracesPayload };
+
+/**
+ * The payload of the query service with transformed traces, `null` for the
+ * traces that are not valid.
+ */
+export type TProcessedTraces = Omit<TTracesPayload, 'data'> & { data: (Trace | null)[] };
+
+export type TTracePipelineResult =
+  | { otlp: TOtlpTracesData }
+  | { payload: TProcessedTraces; precomputed: TPrecomputed[] };
+
+/**
+ * Parses and transforms traces, and derives the data the trace page needs
+ * from them. OTLP that can not be converted in the browser is returned as is.
+ */
+export default function runTracePipeline(
+  input: TTracePipelineInput,
+  onProgress: (progress: TTracePipelineProgress) => void
+): TTracePipelineResult {
+  let payload: TTracesPayload;
+  if ('text' in input) {
+    onProgress({ stage: 'parse', done: 0, total: 1 });
+    const parsed = parseTraceFile(input.text);
+    if ('otlp' in parsed) {
+      return parsed;
+    }
+    payload = parsed.payload;
+  } else {
+    ({ payload } = input);
+  }
+  if (!payload || !Array.isArray(payload.data)) {
+    throw new Error('Invalid trace data, the traces are missing');
+  }
+  const rawTraces = payload.data;
+  const total = rawTraces.length;
+
+  const data: (Trace | null)[] = [];
+  rawTraces.forEach((raw, i) => {
+    onProgress({ stage: 'transform', done: i, total });
+    data.push(transformTraceData(raw));
+  });
+
+  const precomputed: TPrecomputed[] = data.map(() => ({}));
+  if (getConfigValue('criticalPathEnabled')) {
+    const followAsync = Boolean(getConfigValue('criticalPathFollowsAsync'));
+    data.forEach((trace, i) => {
+      onProgress({ stage: 'criticalPath', done: i, total });
+      if (trace && trace.spans.length) {
+        const sections = memoizedTraceCriticalPath(trace, followAsync);
+        precomputed[i].criticalPath = { followAsync, sections };
+      }
+    });
+  }
+  data.forEach((trace, i) => {
+    onProgress({ stage: 'graph', done: i, total });
+    if (trace && trace.spans.length) {
+      precomputed[i].traceDagEV = calculateTraceDagEV(trace);
+    }
+  });
+
+  return { payload: { ...payload, data }, precomputed };
+}
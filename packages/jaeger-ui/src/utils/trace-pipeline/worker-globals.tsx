@@ -0,0 +1,35 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+// The config and the version are read from `window`, some modules do so when
+// they load, e.g. `constants/default-config`. Workers have no `window`, so this
+// module is imported by the worker before any other.
+
+let config: Record<string, unknown> = {};
+
+/**
+ * Sets the config returned by `window.getJaegerUiConfig` in the worker. It is
+ * read on first use by `getConfig`, so it is set before the traces are processed.
+ */
+export default function setWorkerConfig(value: Record<string, unknown>) {
+  config = value;
+}
+
+if (typeof window === 'undefined') {
+  Object.assign(globalThis, {
+    window: globalThis,
+    getJaegerUiConfig: () => config,
+    // the default version, the worker does not show it
+    getJaegerVersion: () => null,
+  });
+}
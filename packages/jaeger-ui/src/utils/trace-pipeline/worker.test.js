@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import traceGenerator from '../../demo/trace-generators';
+
+describe('trace pipeline worker', () => {
+  it('loads and processes traces without `window` and `localStorage`', async () => {
+    expect(typeof window).toBe('undefined');
+    expect(typeof localStorage).toBe('undefined');
+    const postMessage = jest.fn();
+    global.postMessage = postMessage;
+    try {
+      await import('./worker');
+      const payload = { data: [traceGenerator.trace({ numberOfSpans: 3 })] };
+      global.onmessage({ data: { config: { criticalPathEnabled: true }, input: { payload } } });
+      const responses = postMessage.mock.calls.map(([response]) => response);
+      expect(responses.map(({ type }) => type)).toEqual(['progress', 'progress', 'progress', 'done']);
+      expect(responses[3].result.payload.data[0].traceID).toBe(payload.data[0].traceID);
+    } finally {
+      delete global.postMessage;
+      delete global.onmessage;
+      delete global.window;
+    }
+  });
+});
@@ -0,0 +1,42 @@
+// Copyright (c) 2026 The Jaeger Authors.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// must be imported first, see the module
+import setWorkerConfig from './worker-globals';
+import runTracePipeline, { TTracePipelineInput, TTracePipelineProgress, TTracePipelineResult } from './run';
+
+export type TWorkerRequest = {
+  // the part of the UI config the pipeline reads, see `getConfigValue`
+  config: Record<string, unknown>;
+  input: TTracePipelineInput;
+};
+
+export type TWorkerResponse =
+  | { type: 'progress'; progress: TTracePipelineProgress }
+  | { type: 'done'; result: TTracePipelineResult }
+  | { type: 'error'; message: string };
+
+const ctx = globalThis as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<TWorkerRequest>) => {
+  const { config, input } = event.data;
+  setWorkerConfig(config);
+  const post = (response: TWorkerResponse) => ctx.postMessage(response);
+  try {
+    const result = runTracePipeline(input, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
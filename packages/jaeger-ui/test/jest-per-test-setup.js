@@ -12,7 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { TextEncoder } from 'util';
+import { TextDecoder, TextEncoder } from 'util';
 // NOTE: This must be above the enzyme related code below, and the enzyme
 // related imports MUST use `require`
 import { polyfill as rafPolyfill } from '../src/utils/test/requestAnimationFrame';
@@ -20,6 +20,7 @@ import { polyfill as rafPolyfill } from '../src/utils/test/requestAnimationFrame
 rafPolyfill();
 // Jest 28+ makes use of the TextEncoder API, which is not provided by JSDOM
 global.TextEncoder = TextEncoder;
+global.TextDecoder = TextDecoder;
 
 /* eslint-disable import/no-extraneous-dependencies */
 const Enzyme = require('enzyme');
@@ -29,27 +30,30 @@ const createSerializer = require('enzyme-to-json').createSerializer;
 Enzyme.configure({ adapter: new EnzymeAdapter() });
 expect.addSnapshotSerializer(createSerializer({ mode: 'deep' }));
 
-// Calls to get-config.tsx and get-version.tsx warn if these globals are not functions.
-// This file is executed before each test file, so they may be overridden safely.
-window.getJaegerUiConfig = () => ({});
-window.getJaegerStorageCapabilities = () => ({});
-window.getJaegerVersion = () => ({
-  gitCommit: '',
-  gitVersion: '',
-  buildDate: '',
-});
+// Test files that run in the node environment, e.g. the ones of web workers, have no `window`
+if (typeof window !== 'undefined') {
+  // Calls to get-config.tsx and get-version.tsx warn if these globals are not functions.
+  // This file is executed before each test file, so they may be overridden safely.
+  window.getJaegerUiConfig = () => ({});
+  window.getJaegerStorageCapabilities = () => ({});
+  window.getJaegerVersion = () => ({
+    gitCommit: '',
+    gitVersion: '',
+    buildDate: '',
+  });
 
-// Provide a matchMedia() stub as some Ant Design components attempt to use this
-window.matchMedia = jest.fn().mockImplementation(query => ({
-  matches: false,
-  media: query,
-  onchange: null,
-  addListener: jest.fn(), // deprecated
-  removeListener: jest.fn(), // deprecated
-  addEventListener: jest.fn(),
-  removeEventListener: jest.fn(),
-  dispatchEvent: jest.fn(),
-}));
+  // Provide a matchMedia() stub as some Ant Design components attempt to use this
+  window.matchMedia = jest.fn().mockImplementation(query => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: jest.fn(), // deprecated
+    removeListener: jest.fn(), // deprecated
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+    dispatchEvent: jest.fn(),
+  }));
+}
 
 global.__APP_ENVIRONMENT__ = 'test';
 global.__REACT_APP_GA_DEBUG__ = '';